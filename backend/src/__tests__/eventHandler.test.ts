@@ -0,0 +1,57 @@
+import { Event } from '../models/types';
+import { eventHandler } from '../services/EventHandler';
+import { eventStore, productStore } from '../stores/InMemoryStore';
+
+describe('EventHandler.processEvent', () => {
+  beforeAll(() => {
+    productStore.create({
+      id: 'PROD-APPLY',
+      sku: 'APPLY-001',
+      name: 'Apply Widget',
+      category: 'Electronics',
+      warehouse: 'WH-1',
+      currentStock: 100,
+      reserved: 0,
+      available: 100,
+      reorderPoint: 20,
+      maxCapacity: 500,
+      unitPrice: 10,
+      predictedStock7d: 100,
+      lastUpdated: new Date(),
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const sale = (id: string): Event => ({
+    id,
+    type: 'SALE',
+    productId: 'PROD-APPLY',
+    quantity: 5,
+    warehouse: 'WH-1',
+    timestamp: new Date(),
+  });
+
+  it('leaves an event out of the log when its stock change fails, so a retry applies it', async () => {
+    jest.spyOn(productStore, 'updateStock').mockImplementationOnce(() => {
+      throw new Error('Storage unavailable');
+    });
+
+    await expect(eventHandler.processEvent(sale('EVT-FAIL'))).rejects.toThrow('Storage unavailable');
+    expect(eventStore.exists('EVT-FAIL')).toBe(false);
+    expect(productStore.get('PROD-APPLY')!.currentStock).toBe(100);
+
+    await eventHandler.processEvent(sale('EVT-FAIL'));
+    expect(eventStore.exists('EVT-FAIL')).toBe(true);
+    expect(productStore.get('PROD-APPLY')!.currentStock).toBe(95);
+  });
+
+  it('applies a redelivered event only once', async () => {
+    await eventHandler.processEvent(sale('EVT-TWICE'));
+    await eventHandler.processEvent(sale('EVT-TWICE'));
+
+    expect(productStore.get('PROD-APPLY')!.currentStock).toBe(90);
+  });
+});
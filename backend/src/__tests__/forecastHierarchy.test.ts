@@ -0,0 +1,155 @@
+import { Event, Product, StockPosition } from '../models/types';
+import { GroupForecast, HierarchicalForecast, generateHierarchicalForecasts } from '../services/ForecastHierarchy';
+import { ForecastResult, InboundStock, startOfDay } from '../services/Forecasting';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const today = startOfDay(new Date());
+
+const product = (id: string, category: string, warehouse: string, currentStock: number): Product => ({
+  id,
+  sku: `SKU-${id}`,
+  name: id,
+  category,
+  warehouse,
+  currentStock,
+  reserved: 0,
+  available: currentStock,
+  reorderPoint: 10,
+  maxCapacity: 500,
+  unitPrice: 10,
+  predictedStock7d: 0,
+  lastUpdated: new Date(),
+});
+
+const position = (productId: string, warehouse: string, currentStock: number): StockPosition => ({
+  id: `${productId}@${warehouse}`,
+  productId,
+  warehouse,
+  currentStock,
+  reserved: 0,
+  available: currentStock,
+  reorderPoint: 10,
+  maxCapacity: 500,
+  lastUpdated: new Date(),
+});
+
+// A sale on each of the last 28 days, of the day's units
+const sales = (productId: string, warehouse: string, unitsOn: (daysAgo: number) => number): Event[] =>
+  Array.from({ length: 28 }, (_, index) => ({
+    id: `EVT-${productId}-${warehouse}-${index}`,
+    type: 'SALE' as const,
+    productId,
+    warehouse,
+    quantity: unitsOn(index + 1),
+    timestamp: new Date(today.getTime() - (index + 1) * DAY_MS + 12 * 60 * 60 * 1000),
+  }));
+
+const dailyDemand = (forecast: ForecastResult | GroupForecast) => forecast.demandForecast.map(point => point.demand);
+const group = (hierarchy: HierarchicalForecast, level: GroupForecast['level'], key: string) =>
+  hierarchy.groups.find(g => g.level === level && g.key === key)!;
+
+// Daily demand points are rounded to 0.1, so totals may differ by that much per forecast added
+const expectTotal = (total: number[], parts: number[][]) => {
+  total.forEach((units, day) => {
+    const sum = parts.reduce((acc, part) => acc + part[day], 0);
+    expect(Math.abs(units - sum)).toBeLessThanOrEqual(0.05 * (parts.length + 1) + 1e-9);
+  });
+};
+
+describe('generateHierarchicalForecasts', () => {
+  // P1 is homed at WH-1 but also sells from WH-2; P2 is only stocked at WH-2
+  const products = [product('P1', 'Electronics', 'WH-1', 140), product('P2', 'Garden', 'WH-2', 50)];
+  const positions = [position('P1', 'WH-1', 100), position('P1', 'WH-2', 40), position('P2', 'WH-2', 50)];
+
+  it('forecasts flat demand flat, rolled up by the warehouse each sale was made at', () => {
+    const events = [
+      ...sales('P1', 'WH-1', () => 5),
+      ...sales('P1', 'WH-2', () => 3),
+      ...sales('P2', 'WH-2', () => 4),
+    ];
+    const hierarchy = generateHierarchicalForecasts(products, positions, events, 7, new Map(), 'holt-winters');
+
+    expect(dailyDemand(hierarchy.positions.find(p => p.positionId === 'P1@WH-2')!)).toEqual(Array(7).fill(3));
+    expect(dailyDemand(hierarchy.products.find(p => p.productId === 'P1')!)).toEqual(Array(7).fill(8));
+    expect(dailyDemand(group(hierarchy, 'warehouse', 'WH-1'))).toEqual(Array(7).fill(5));
+    expect(dailyDemand(group(hierarchy, 'warehouse', 'WH-2'))).toEqual(Array(7).fill(7));
+    expect(dailyDemand(group(hierarchy, 'category', 'Electronics'))).toEqual(Array(7).fill(8));
+    expect(dailyDemand(group(hierarchy, 'company', 'company'))).toEqual(Array(7).fill(12));
+    expect(group(hierarchy, 'warehouse', 'WH-2').productIds).toEqual(['P1', 'P2']);
+  });
+
+  it('reproduces a weekly pattern at every level with Holt-Winters', () => {
+    const week = [2, 4, 6, 8, 10, 12, 14];
+    const onDay = (offset: number) => week[((offset % 7) + 7) % 7];
+    const events = [
+      ...sales('P1', 'WH-1', daysAgo => onDay(-daysAgo)),
+      ...sales('P1', 'WH-2', daysAgo => 2 * onDay(-daysAgo)),
+      ...sales('P2', 'WH-2', daysAgo => onDay(3 - daysAgo)),
+    ];
+    const hierarchy = generateHierarchicalForecasts(products, positions, events, 7, new Map(), 'holt-winters');
+
+    // Forecast day d is d days from today
+    const expected = (scale: number, shift: number) => Array.from({ length: 7 }, (_, index) => scale * onDay(index + 1 + shift));
+    const expectCloseTo = (actual: number[], wanted: number[]) => actual.forEach((units, day) => expect(units).toBeCloseTo(wanted[day], 1));
+    expect(hierarchy.products.find(p => p.productId === 'P1')!.model).toBe('holt-winters');
+    expectCloseTo(dailyDemand(hierarchy.products.find(p => p.productId === 'P1')!), expected(3, 0));
+    expectCloseTo(dailyDemand(group(hierarchy, 'warehouse', 'WH-2')), expected(2, 0).map((units, day) => units + expected(1, 3)[day]));
+  });
+
+  it('falls back to a simpler model for a position with too little history', () => {
+    const events = [
+      ...sales('P1', 'WH-1', () => 5),
+      ...sales('P1', 'WH-2', () => 3).slice(0, 5),
+    ];
+    const hierarchy = generateHierarchicalForecasts(products, positions, events, 7, new Map(), 'holt-winters');
+
+    expect(hierarchy.positions.find(p => p.positionId === 'P1@WH-1')!.model).toBe('holt-winters');
+    expect(hierarchy.positions.find(p => p.positionId === 'P1@WH-2')!.model).toBe('holt');
+    expect(hierarchy.positions.find(p => p.positionId === 'P2@WH-2')!.model).toBe('sma');
+    expect(group(hierarchy, 'warehouse', 'WH-2').model).toBe('holt');
+    expect(group(hierarchy, 'company', 'company').model).toBe('holt-winters');
+  });
+
+  it('takes stock and inbound stock per position', () => {
+    const events = [...sales('P1', 'WH-1', () => 5), ...sales('P1', 'WH-2', () => 3)];
+    const inbound = new Map<string, InboundStock[]>([['P1', [{
+      source: 'PURCHASE_ORDER',
+      reference: 'PO-1',
+      warehouse: 'WH-2',
+      quantity: 30,
+      expectedAt: new Date(today.getTime() + 3 * DAY_MS),
+    }]]]);
+    const hierarchy = generateHierarchicalForecasts(products, positions, events, 7, new Map([['P1@WH-2', 30]]), 'ses', inbound);
+
+    const warehouse1 = group(hierarchy, 'warehouse', 'WH-1');
+    const warehouse2 = group(hierarchy, 'warehouse', 'WH-2');
+    expect(warehouse1.currentStock).toBe(100);
+    expect(warehouse2.currentStock).toBe(90);
+    expect(warehouse1.onOrder).toBe(0);
+    expect(warehouse2.onOrder).toBe(30);
+    expect(warehouse1.stockProjection.map(p => p.inbound)).toEqual([0, 0, 0, 0, 0, 0, 0]);
+    expect(warehouse2.stockProjection.map(p => p.inbound)).toEqual([0, 0, 30, 0, 0, 0, 0]);
+    // WH-2 sells 3 a day of P1 from 40, plus 30 arriving on day 3
+    expect(hierarchy.positions.find(p => p.positionId === 'P1@WH-2')!.predictedStock7d).toBe(49);
+    expect(hierarchy.products.find(p => p.productId === 'P1')!.onOrder).toBe(30);
+  });
+
+  it('reconciles positions so that they add up to every product and group', () => {
+    const events = [
+      ...sales('P1', 'WH-1', daysAgo => 4 + (daysAgo % 7) * 2),
+      ...sales('P1', 'WH-2', daysAgo => (daysAgo % 3 === 0 ? 9 : 1)),
+      ...sales('P2', 'WH-2', daysAgo => 30 - daysAgo),
+    ];
+    const hierarchy = generateHierarchicalForecasts(products, positions, events, 7);
+    const positionDemand = (ids: string[]) => hierarchy.positions.filter(p => ids.includes(p.positionId)).map(dailyDemand);
+
+    hierarchy.products.forEach(forecast => {
+      expectTotal(dailyDemand(forecast), positionDemand(positions.filter(p => p.productId === forecast.productId).map(p => p.id)));
+    });
+    hierarchy.groups.forEach(g => {
+      expect(g.positionIds.length).toBeGreaterThan(0);
+      expectTotal(dailyDemand(g), positionDemand(g.positionIds));
+    });
+    expectTotal(dailyDemand(group(hierarchy, 'company', 'company')), hierarchy.products.map(dailyDemand));
+  });
+});
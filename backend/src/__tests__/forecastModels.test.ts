@@ -0,0 +1,68 @@
+import { FORECAST_MODEL_NAMES, SEASON_LENGTH, fitForecastModel } from '../services/ForecastModels';
+
+const WEEK = [2, 4, 6, 8, 10, 12, 14];
+
+const expectCloseTo = (actual: number[], expected: number[]) => {
+  expect(actual).toHaveLength(expected.length);
+  actual.forEach((value, index) => expect(value).toBeCloseTo(expected[index], 6));
+};
+
+describe('fitForecastModel', () => {
+  it.each(FORECAST_MODEL_NAMES)('forecasts a flat series flat with %s', name => {
+    const fit = fitForecastModel(name, Array(28).fill(5), 10);
+
+    expect(fit.model).toBe(name);
+    expectCloseTo(fit.demand, Array(10).fill(5));
+    expectCloseTo(fit.residuals, Array(fit.residuals.length).fill(0));
+  });
+
+  it('reproduces a pure weekly pattern with Holt-Winters', () => {
+    const history = [...WEEK, ...WEEK, ...WEEK, ...WEEK];
+    const fit = fitForecastModel('holt-winters', history, 2 * SEASON_LENGTH);
+
+    expect(fit.model).toBe('holt-winters');
+    expectCloseTo(fit.demand, [...WEEK, ...WEEK]);
+    expectCloseTo(fit.residuals, Array(fit.residuals.length).fill(0));
+  });
+
+  it('picks up where a weekly pattern leaves off', () => {
+    const history = [...WEEK, ...WEEK, ...WEEK, 2, 4, 6];
+    const fit = fitForecastModel('holt-winters', history, 4);
+
+    expectCloseTo(fit.demand, [8, 10, 12, 14]);
+  });
+
+  it("follows a linear trend with Holt's method", () => {
+    const fit = fitForecastModel('holt', [1, 2, 3, 4, 5, 6, 7, 8, 9, 10], 3);
+
+    expect(fit.model).toBe('holt');
+    expectCloseTo(fit.demand, [11, 12, 13]);
+  });
+
+  it('never forecasts negative demand', () => {
+    const fit = fitForecastModel('holt', [10, 8, 6, 4, 2], 5);
+
+    expect(Math.min(...fit.demand)).toBe(0);
+  });
+
+  it('levels simple exponential smoothing on recent demand and spreads its errors by alpha', () => {
+    const fit = fitForecastModel('ses', [0, 0, 0, 0, 10, 10, 10, 10], 3);
+
+    expect(fit.parameters.alpha).toBe(0.9);
+    expect(fit.demand[0]).toBeGreaterThan(9.9);
+    expect(fit.errorWeights).toEqual([0.9, 0.9, 0.9]);
+  });
+
+  it.each([
+    ['holt-winters', 2 * SEASON_LENGTH, 'holt-winters'],
+    ['holt-winters', 2 * SEASON_LENGTH - 1, 'holt'],
+    ['holt-winters', 3, 'ses'],
+    ['holt', 1, 'sma'],
+    ['ses', 0, 'sma'],
+  ] as const)('fits %s to a %i-day history with %s', (name, days, model) => {
+    const fit = fitForecastModel(name, Array(days).fill(3), 7);
+
+    expect(fit.model).toBe(model);
+    expect(fit.demand).toHaveLength(7);
+  });
+});
@@ -0,0 +1,98 @@
+import express from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import apiRoutes from '../api/routes';
+import { Event } from '../models/types';
+import { sendEvent } from '../kafka/producer';
+import { productStore, idempotencyStore } from '../stores/InMemoryStore';
+
+jest.mock('../kafka/producer');
+
+const mockSendEvent = sendEvent as jest.MockedFunction<typeof sendEvent>;
+
+interface EventResponse {
+  data: Event;
+  duplicate?: boolean;
+}
+
+describe('POST /api/events with an Idempotency-Key', () => {
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use('/api', apiRoutes);
+    server = http.createServer(app);
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+
+    productStore.create({
+      id: 'PROD-TEST',
+      sku: 'TEST-001',
+      name: 'Test Widget',
+      category: 'Electronics',
+      warehouse: 'WH-1',
+      currentStock: 100,
+      reserved: 0,
+      available: 100,
+      reorderPoint: 20,
+      maxCapacity: 500,
+      unitPrice: 10,
+      predictedStock7d: 100,
+      lastUpdated: new Date(),
+    });
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    mockSendEvent.mockReset();
+    idempotencyStore.clear();
+  });
+
+  const postEvent = (key: string) =>
+    fetch(`${baseUrl}/events`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Idempotency-Key': key },
+      body: JSON.stringify({ type: 'SALE', productId: 'PROD-TEST', quantity: 2 }),
+    });
+
+  it('publishes one event for two concurrent requests with the same key', async () => {
+    let publish!: () => void;
+    mockSendEvent.mockImplementation(() => new Promise<void>(resolve => { publish = resolve; }));
+
+    const first = postEvent('order-42');
+    const second = postEvent('order-42');
+    await new Promise(resolve => setTimeout(resolve, 50));
+    publish();
+
+    const responses = await Promise.all([first, second]);
+    const statuses = responses.map(r => r.status).sort();
+    expect(statuses).toEqual([200, 409]);
+    expect(mockSendEvent).toHaveBeenCalledTimes(1);
+
+    // Once published, a retry replays the original event
+    const retry = await postEvent('order-42');
+    const body = (await retry.json()) as EventResponse;
+    expect(retry.status).toBe(200);
+    expect(body.duplicate).toBe(true);
+    expect(body.data.id).toBe(mockSendEvent.mock.calls[0][0].id);
+    expect(mockSendEvent).toHaveBeenCalledTimes(1);
+  });
+
+  it('releases the key when publishing fails, so the request can be retried', async () => {
+    mockSendEvent.mockRejectedValueOnce(new Error('Kafka unavailable'));
+    mockSendEvent.mockResolvedValueOnce();
+
+    expect((await postEvent('order-43')).status).toBe(500);
+
+    const retry = await postEvent('order-43');
+    const body = (await retry.json()) as EventResponse;
+    expect(retry.status).toBe(200);
+    expect(body.duplicate).toBeUndefined();
+    expect(mockSendEvent).toHaveBeenCalledTimes(2);
+  });
+});
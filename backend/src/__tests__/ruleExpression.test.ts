@@ -0,0 +1,55 @@
+import { compileExpression, RuleExpressionError } from '../services/RuleExpression';
+
+const VARIABLES = ['available', 'onOrder', 'reorderPoint'] as const;
+
+const evaluate = (source: string, values: Record<string, number> = {}) =>
+  compileExpression(source, VARIABLES).evaluate({ available: 0, onOrder: 0, reorderPoint: 0, ...values });
+
+describe('compileExpression', () => {
+  it('applies arithmetic precedence, with parentheses and unary minus', () => {
+    expect(evaluate('1 + 2 * 3 == 7')).toBe(true);
+    expect(evaluate('(1 + 2) * 3 == 9')).toBe(true);
+    expect(evaluate('10 - 4 - 3 == 3')).toBe(true);
+    expect(evaluate('12 / 3 / 2 == 2')).toBe(true);
+    expect(evaluate('-2 * -3 == 6')).toBe(true);
+    expect(evaluate('available / 0 == 0', { available: 5 })).toBe(true);
+  });
+
+  it('compares before combining with and, and combines with and before or', () => {
+    expect(evaluate('available + onOrder <= reorderPoint and available > 0', { available: 5, onOrder: 10, reorderPoint: 20 })).toBe(true);
+    expect(evaluate('available + onOrder <= reorderPoint and available > 0', { available: 0, onOrder: 10, reorderPoint: 20 })).toBe(false);
+    expect(evaluate('1 == 1 or 1 == 2 and 1 == 2')).toBe(true);
+    expect(evaluate('(1 == 1 or 1 == 2) and 1 == 2')).toBe(false);
+  });
+
+  it('accepts symbols and keywords in any case for boolean operators', () => {
+    expect(evaluate('available > 0 && onOrder > 0', { available: 1, onOrder: 1 })).toBe(true);
+    expect(evaluate('available > 0 || onOrder > 0', { onOrder: 1 })).toBe(true);
+    expect(evaluate('not available > 0')).toBe(true);
+    expect(evaluate('!(available > 0) AND onOrder == 0')).toBe(true);
+  });
+
+  it('lists the variables an expression reads', () => {
+    expect(compileExpression('available <= reorderPoint or available < reorderPoint / 2', VARIABLES).variables)
+      .toEqual(['available', 'reorderPoint']);
+  });
+
+  it('rejects unknown variables, naming them', () => {
+    expect(() => compileExpression('available < stock', VARIABLES)).toThrow(RuleExpressionError);
+    expect(() => compileExpression('available < stock', VARIABLES)).toThrow(/Unknown variable\(s\) stock/);
+  });
+
+  it.each([
+    ['', 'Expression is empty'],
+    ['   ', 'Expression is empty'],
+    ['available <', 'Unexpected end of expression'],
+    ['(available < 5', "Missing ')' at position 0"],
+    ['available < 5)', "Unexpected ')' at position 13"],
+    ['available < 5 5', "Unexpected '5' at position 14"],
+    ['available # 5', "Unexpected character '#' at position 10"],
+    ['available = 5', "Unexpected character '=' at position 10"],
+    ['and available', "Unexpected '&&' at position 0"],
+  ])('rejects malformed input %p', (source, message) => {
+    expect(() => compileExpression(source, VARIABLES)).toThrow(new RuleExpressionError(message));
+  });
+});
@@ -0,0 +1,101 @@
+import { Alert } from '../models/types';
+import { createWebhook, notifyWebhooks, retryDueDeliveries, signPayload, verifySignature } from '../services/Webhooks';
+import { webhookDeliveryStore, webhookStore } from '../stores/InMemoryStore';
+import { startWebhookReceiver, WebhookReceiver } from '../utils/webhookReceiver';
+
+const SECRET = 'whsec_test_secret_0123456789';
+
+const alert: Alert = {
+  id: 'ALERT-TEST',
+  productId: 'PROD-TEST',
+  warehouse: 'WH-1',
+  severity: 'critical',
+  type: 'CRITICAL_LOW_STOCK',
+  message: 'Test Widget is critically low',
+  resolved: false,
+  timestamp: new Date(),
+};
+
+async function waitFor(condition: () => boolean, timeoutMs: number = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+describe('signatures', () => {
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const body = JSON.stringify({ topic: 'alert:new', data: alert });
+
+  it('verifies a payload signed with the same secret', () => {
+    expect(verifySignature(SECRET, timestamp, body, signPayload(SECRET, timestamp, body))).toBe(true);
+  });
+
+  it('rejects a tampered body, another secret or a stale timestamp', () => {
+    const signature = signPayload(SECRET, timestamp, body);
+    const stale = Math.floor(Date.now() / 1000 - 600).toString();
+
+    expect(verifySignature(SECRET, timestamp, body.replace('critical', 'info'), signature)).toBe(false);
+    expect(verifySignature('whsec_another_secret_987654', timestamp, body, signature)).toBe(false);
+    expect(verifySignature(SECRET, stale, body, signPayload(SECRET, stale, body))).toBe(false);
+  });
+});
+
+describe('webhook delivery', () => {
+  let receiver: WebhookReceiver;
+
+  afterEach(async () => {
+    await receiver.close();
+    webhookStore.clear();
+    webhookDeliveryStore.clear();
+  });
+
+  it('signs deliveries so the receiver can verify them', async () => {
+    receiver = await startWebhookReceiver({ secret: SECRET });
+    createWebhook({ url: receiver.url, secret: SECRET, topics: ['alert:new'] });
+
+    const [delivery] = notifyWebhooks('alert:new', alert);
+    await waitFor(() => webhookDeliveryStore.get(delivery.id)!.status !== 'PENDING');
+
+    expect(webhookDeliveryStore.get(delivery.id)!.status).toBe('DELIVERED');
+    expect(receiver.received).toHaveLength(1);
+    expect(receiver.received[0]).toMatchObject({ topic: 'alert:new', deliveryId: delivery.id, signatureValid: true });
+    expect(receiver.received[0].body).toMatchObject({ id: delivery.id, data: { id: alert.id } });
+  });
+
+  it('is refused by a receiver expecting another secret', async () => {
+    receiver = await startWebhookReceiver({ secret: 'whsec_another_secret_987654' });
+    createWebhook({ url: receiver.url, secret: SECRET, topics: ['alert:new'] });
+
+    const [delivery] = notifyWebhooks('alert:new', alert);
+    await waitFor(() => webhookDeliveryStore.get(delivery.id)!.attempts === 1);
+
+    expect(receiver.received[0].signatureValid).toBe(false);
+    expect(webhookDeliveryStore.get(delivery.id)).toMatchObject({ status: 'PENDING', responseStatus: 401 });
+  });
+
+  it('retries a failed delivery until the receiver accepts it', async () => {
+    receiver = await startWebhookReceiver({ secret: SECRET, failFirst: 2 });
+    createWebhook({ url: receiver.url, secret: SECRET, topics: ['alert:new'] });
+
+    const [delivery] = notifyWebhooks('alert:new', alert);
+    await waitFor(() => webhookDeliveryStore.get(delivery.id)!.attempts === 1);
+
+    const failed = webhookDeliveryStore.get(delivery.id)!;
+    expect(failed).toMatchObject({ status: 'PENDING', responseStatus: 500 });
+    expect(failed.nextAttemptAt!.getTime()).toBeGreaterThan(Date.now());
+
+    // Not due yet: nothing is retried
+    expect(await retryDueDeliveries()).toHaveLength(0);
+
+    // Once due, retried with backoff until delivered
+    await retryDueDeliveries(new Date(Date.now() + 60 * 60 * 1000));
+    expect(webhookDeliveryStore.get(delivery.id)).toMatchObject({ status: 'PENDING', attempts: 2 });
+    await retryDueDeliveries(new Date(Date.now() + 2 * 60 * 60 * 1000));
+
+    expect(webhookDeliveryStore.get(delivery.id)).toMatchObject({ status: 'DELIVERED', attempts: 3, responseStatus: 204 });
+    expect(receiver.received).toHaveLength(3);
+    expect(receiver.received.every(r => r.deliveryId === delivery.id && r.signatureValid)).toBe(true);
+  });
+});
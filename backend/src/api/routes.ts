@@ -1,36 +1,147 @@
 import express, { Request, Response } from 'express';
-import { productStore, alertStore, eventStore } from '../stores/InMemoryStore';
+import { v4 as uuidv4 } from 'uuid';
+import { productStore, stockPositionStore, alertStore, eventStore, deadLetterStore, transferStore, reservationStore, alertRuleStore, escalationPolicyStore, incidentStore, maintenanceWindowStore, webhookStore, digestSubscriptionStore, supplierStore, purchaseOrderStore, warehouseStore, cycleCountStore, issuedForecastStore, calendarEventStore } from '../stores/InMemoryStore';
 import { sendEvent } from '../kafka/producer';
-import { Event } from '../models/types';
-import { generateForecasts, calculateSMAForecast } from '../services/Forecasting';
-import { generateRecommendations, getProductRecommendation, getCacheStats } from '../services/AIRecommendations';
+import { Event, PurchaseOrder, Alert, AlertRule, AlertType, WebhookDelivery } from '../models/types';
+import { validateEvent } from '../models/eventSchema';
+import { generateForecasts, calculateForecast, getKnownInbound, DEFAULT_FORECAST_MODEL, MAX_FORECAST_DAYS } from '../services/Forecasting';
+import { FORECAST_MODELS, FORECAST_MODEL_NAMES, isForecastModelName } from '../services/ForecastModels';
+import { runBacktest, recordIssuedForecasts, getLiveAccuracy, findDemandSpikes, BacktestError } from '../services/ForecastAccuracy';
+import { createCalendarEvent, updateCalendarEvent, deleteCalendarEvent, CalendarEventError } from '../services/DemandCalendar';
+import { generateHierarchicalForecasts, isForecastGroupLevel, FORECAST_GROUP_LEVELS } from '../services/ForecastHierarchy';
+import { generateRecommendations, getProductRecommendation, getCacheStats, clearCache } from '../services/AIRecommendations';
+import { eventHandler, RebuildError } from '../services/EventHandler';
+import { replayProducts, buildStockHistory, getEventTime, HistoryInterval } from '../services/EventReplay';
+import { checkIdempotencyKey, reserveIdempotencyKey, releaseIdempotencyKey, saveIdempotencyKey, fingerprintRequest, getIdempotencyStats } from '../services/Idempotency';
+import { buildTransferEvent, getTransferStats } from '../services/Transfers';
+import {
+  buildReserveEvent,
+  buildReleaseEvent,
+  buildFulfilmentEvent,
+  getReservationStats,
+  DEFAULT_RESERVATION_TTL_MS,
+} from '../services/Reservations';
+import {
+  buildAdjustmentEvent,
+  openCycleCount,
+  evaluateCycleCount,
+  completeCycleCount,
+  cancelCycleCount,
+  getVarianceReport,
+  CycleCountError,
+} from '../services/Adjustments';
+import {
+  createPurchaseOrder,
+  createPurchaseOrderFromRecommendation,
+  submitPurchaseOrder,
+  cancelPurchaseOrder,
+  buildReceiptEvent,
+  checkPurchaseOrderReceipt,
+  getPurchaseOrderStats,
+  PurchaseOrderError,
+} from '../services/PurchaseOrders';
+import {
+  createAlertRule,
+  updateAlertRule,
+  resetAlertRule,
+  deleteAlertRule,
+  getApplicableRules,
+  AlertRuleError,
+} from '../services/AlertRules';
+import {
+  acknowledgeAlert,
+  assignAlert,
+  snoozeAlert,
+  addAlertNote,
+  resolveAlert,
+  isSnoozed,
+  getAlertWorkflowStats,
+  resolveIncident,
+  AlertWorkflowError,
+} from '../services/AlertWorkflow';
+import { getIncidentAlerts, getIncidentStats } from '../services/Incidents';
+import { getAlertHistory, getAlertAnalytics } from '../services/AlertHistory';
+import {
+  createMaintenanceWindow,
+  updateMaintenanceWindow,
+  endMaintenanceWindow,
+  deleteMaintenanceWindow,
+  getSuppressionStats,
+  MaintenanceWindowError,
+} from '../services/AlertSuppression';
+import {
+  createEscalationPolicy,
+  updateEscalationPolicy,
+  deleteEscalationPolicy,
+  getEscalationStats,
+  EscalationPolicyError,
+} from '../services/AlertEscalation';
+import { createSupplier, updateSupplier, deleteSupplier, SupplierError } from '../services/Suppliers';
+import {
+  createWebhook,
+  updateWebhook,
+  deleteWebhook,
+  redactWebhook,
+  testWebhook,
+  getWebhookDeliveries,
+  getWebhookStats,
+  WebhookError,
+} from '../services/Webhooks';
+import {
+  createDigestSubscription,
+  updateDigestSubscription,
+  deleteDigestSubscription,
+  getDigestSchedule,
+  updateDigestSchedule,
+  buildDigest,
+  renderDigest,
+  sendDigest,
+  sendAllDigests,
+  DigestError,
+} from '../services/AlertDigest';
+import { SmtpError } from '../services/SmtpTransport';
+import { redriveDeadLetter, discardDeadLetter, getDeadLetterStats } from '../kafka/deadLetterQueue';
 
 const router = express.Router();
 
 // Products API
 router.get('/products', (req: Request, res: Response) => {
   try {
-    const { warehouse, category, status } = req.query;
+    const { warehouse, category, status, asOf } = req.query;
 
     let products = productStore.getAll();
 
+    // Reconstruct stock on hand, reserved and available at a point in time from the event log
+    if (asOf) {
+      const asOfDate = new Date(asOf as string);
+      if (isNaN(asOfDate.getTime())) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid asOf timestamp',
+        });
+      }
+
+      products = replayProducts(products, eventStore.getAll(), asOfDate);
+    }
+
     // Apply filters
     if (warehouse) {
-      products = products.filter(p => p.warehouse === warehouse);
+      products = products.filter(p => productStore.getPosition(p.id, warehouse as string));
     }
     if (category) {
       products = products.filter(p => p.category === category);
     }
     if (status === 'low') {
-      products = productStore.getLowStock();
+      products = products.filter(p => p.available < p.reorderPoint);
     } else if (status === 'critical') {
-      products = productStore.getCriticalStock();
+      products = products.filter(p => p.available < 10);
     }
 
     res.json({
       success: true,
       data: products,
       count: products.length,
+      ...(asOf ? { asOf: new Date(asOf as string).toISOString() } : {}),
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
@@ -67,320 +178,3451 @@ router.get('/products/:id', (req: Request, res: Response) => {
   }
 });
 
-router.put('/products/:id', async (req: Request, res: Response) => {
+// Stock on hand, reserved and available to promise, in total and per warehouse
+router.get('/products/:id/availability', (req: Request, res: Response) => {
   try {
-    const productId = req.params.id;
-    const updates = req.body;
-    const oldProduct = productStore.get(productId);
+    const product = productStore.get(req.params.id);
 
-    if (!oldProduct) {
+    if (!product) {
       return res.status(404).json({
         success: false,
         error: 'Product not found',
       });
     }
 
-    const product = productStore.update(productId, updates);
-
-    // If stock changed, publish event to Kafka
-    if (updates.currentStock !== undefined && updates.currentStock !== oldProduct.currentStock) {
-      const stockChange = updates.currentStock - oldProduct.currentStock;
-      const eventType = stockChange > 0 ? 'RESTOCK' : 'SALE';
-
-      const event: Event = {
-        id: `EVT-API-${Date.now()}`,
-        type: eventType,
-        productId: productId,
-        quantity: Math.abs(stockChange),
-        warehouse: product!.warehouse,
-        timestamp: new Date(),
-        metadata: { source: 'api', manual: true },
-      };
-
-      // Publish to Kafka (fire and forget for API responsiveness)
-      sendEvent(event).catch(err => {
-        console.error('Failed to publish event to Kafka:', err);
-      });
-
-      console.log(`📤 API triggered event: ${eventType} - ${productId} (${stockChange > 0 ? '+' : ''}${stockChange} units)`);
-    }
-
     res.json({
       success: true,
-      data: product,
+      data: {
+        productId: product.id,
+        onHand: product.currentStock,
+        reserved: product.reserved,
+        available: product.available,
+        positions: productStore.getPositions(product.id).map(p => ({
+          warehouse: p.warehouse,
+          onHand: p.currentStock,
+          reserved: p.reserved,
+          available: p.available,
+        })),
+      },
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
-    console.error('Error updating product:', error);
+    console.error('Error fetching product availability:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to update product',
+      error: 'Failed to fetch product availability',
     });
   }
 });
 
-// Events API
-router.get('/events', (req: Request, res: Response) => {
+router.get('/products/:id/history', (req: Request, res: Response) => {
   try {
-    const { type, productId, warehouse, limit = '100' } = req.query;
+    const product = productStore.get(req.params.id);
 
-    let events = eventStore.getAll();
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        error: 'Product not found',
+      });
+    }
 
-    // Apply filters
-    if (type) {
-      events = eventStore.getByType(type as any);
+    const { from, to, interval = 'day', warehouse } = req.query;
+    const toDate = to ? new Date(to as string) : new Date();
+    const fromDate = from ? new Date(from as string) : new Date(toDate.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+    if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime()) || fromDate > toDate) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid time range',
+      });
     }
-    if (productId) {
-      events = eventStore.getByProduct(productId as string);
+    if (interval !== 'day' && interval !== 'hour') {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid interval: expected day or hour',
+      });
     }
-    if (warehouse) {
-      events = eventStore.getByWarehouse(warehouse as string);
+    if (interval === 'hour' && toDate.getTime() - fromDate.getTime() > 90 * 24 * 60 * 60 * 1000) {
+      return res.status(400).json({
+        success: false,
+        error: 'Hourly history is limited to 90 days',
+      });
     }
 
-    // Get recent events and serialize properly
-    const recentEvents = events
-      .sort((a, b) => {
-        const timeA = a.timestamp instanceof Date ? a.timestamp.getTime() : new Date(a.timestamp).getTime();
-        const timeB = b.timestamp instanceof Date ? b.timestamp.getTime() : new Date(b.timestamp).getTime();
-        return timeB - timeA;
-      })
-      .slice(0, parseInt(limit as string))
-      .map(e => ({
-        ...e,
-        timestamp: e.timestamp instanceof Date ? e.timestamp.toISOString() : e.timestamp,
-      }));
+    const history = buildStockHistory(
+      product.id,
+      eventStore.getByProduct(product.id),
+      fromDate,
+      toDate,
+      interval as HistoryInterval,
+      warehouse as string | undefined
+    );
 
     res.json({
       success: true,
-      data: recentEvents,
-      count: recentEvents.length,
+      data: {
+        productId: product.id,
+        ...(warehouse ? { warehouse } : {}),
+        from: fromDate.toISOString(),
+        to: toDate.toISOString(),
+        interval,
+        points: history,
+      },
+      count: history.length,
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
-    console.error('Error fetching events:', error);
+    console.error('Error fetching product history:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to fetch events',
+      error: 'Failed to fetch product history',
     });
   }
 });
 
-// POST endpoint to manually create events (for testing Kafka integration)
-router.post('/events', async (req: Request, res: Response) => {
+router.put('/products/:id', (req: Request, res: Response) => {
   try {
-    const { type, productId, quantity, warehouse } = req.body;
+    const productId = req.params.id;
+    // Reorder point and capacity are totals of the product's stock positions
+    const { currentStock, reorderPoint, maxCapacity, ...updates } = req.body;
+    const oldProduct = productStore.get(productId);
+
+    if (!oldProduct) {
+      return res.status(404).json({
+        success: false,
+        error: 'Product not found',
+      });
+    }
 
-    // Validate required fields
-    if (!type || !productId || !quantity) {
+    // Stock only changes through events, so every change has a reason in the event log
+    if (currentStock !== undefined) {
       return res.status(400).json({
         success: false,
-        error: 'Missing required fields: type, productId, quantity',
+        error: 'currentStock cannot be set directly: record an adjustment (POST /adjustments) or a cycle count (POST /cycle-counts)',
       });
     }
 
-    // Get product to determine warehouse if not provided
-    const product = productStore.get(productId);
-    if (!product) {
-      return res.status(404).json({
+    // The id identifies the product; the rest are worked out from its stock positions and forecast
+    const readOnlyFields = ['id', 'reserved', 'available', 'predictedStock7d', 'lastUpdated'].filter(field => field in updates);
+    if (readOnlyFields.length > 0) {
+      return res.status(400).json({
         success: false,
-        error: 'Product not found',
+        error: `${readOnlyFields.join(', ')} cannot be set directly`,
       });
     }
 
-    // Create event
-    const event: Event = {
-      id: `EVT-API-${Date.now()}`,
-      type: type,
-      productId: productId,
-      quantity: quantity,
-      warehouse: warehouse || product.warehouse,
-      timestamp: new Date(),
-      metadata: { source: 'api', manual: true },
-    };
+    const positions = productStore.getPositions(productId);
+    if ((reorderPoint !== undefined || maxCapacity !== undefined) && positions.length > 1) {
+      return res.status(400).json({
+        success: false,
+        error: `Product is stocked at ${positions.length} warehouses: update each via /products/${productId}/positions/:warehouse`,
+      });
+    }
+    if (updates.warehouse !== undefined && !productStore.getPosition(productId, updates.warehouse)) {
+      return res.status(400).json({
+        success: false,
+        error: `Product is not stocked at ${updates.warehouse}`,
+      });
+    }
+    // supplierId: null unlinks the product from its supplier
+    if (updates.supplierId === null) {
+      updates.supplierId = undefined;
+    } else if (updates.supplierId !== undefined && !supplierStore.exists(updates.supplierId)) {
+      return res.status(400).json({
+        success: false,
+        error: `Supplier ${updates.supplierId} not found`,
+      });
+    }
 
-    // Publish to Kafka
-    await sendEvent(event);
+    // forecastModel: null returns the product to the default model
+    if (updates.forecastModel === null) {
+      updates.forecastModel = undefined;
+    } else if (updates.forecastModel !== undefined && !isForecastModelName(updates.forecastModel)) {
+      return res.status(400).json({
+        success: false,
+        error: `forecastModel must be one of ${FORECAST_MODEL_NAMES.join(', ')}`,
+      });
+    }
 
-    console.log(`📤 API created event: ${type} - ${productId} (${quantity} units)`);
+    productStore.update(productId, updates);
+    if ('supplierId' in updates) {
+      clearCache();
+    }
+    if (reorderPoint !== undefined || maxCapacity !== undefined) {
+      productStore.updatePosition(productId, oldProduct.warehouse, {
+        ...(reorderPoint !== undefined ? { reorderPoint } : {}),
+        ...(maxCapacity !== undefined ? { maxCapacity } : {}),
+      });
+    }
 
     res.json({
       success: true,
-      data: event,
-      message: 'Event published to Kafka successfully',
+      data: productStore.get(productId),
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
-    console.error('Error creating event:', error);
+    console.error('Error updating product:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to create event',
+      error: 'Failed to update product',
     });
   }
 });
 
-// Alerts API
-router.get('/alerts', (req: Request, res: Response) => {
+// Stock Positions API (a product's stock at each warehouse)
+router.get('/positions', (req: Request, res: Response) => {
   try {
-    const { severity, productId, active } = req.query;
+    const { warehouse, productId, status } = req.query;
 
-    let alerts = alertStore.getAll();
+    let positions = stockPositionStore.getAll();
 
     // Apply filters
-    if (active === 'true') {
-      alerts = alertStore.getActive();
-    }
-    if (severity) {
-      alerts = alertStore.getBySeverity(severity as any);
+    if (warehouse) {
+      positions = stockPositionStore.getByWarehouse(warehouse as string);
     }
     if (productId) {
-      alerts = alertStore.getByProduct(productId as string);
+      positions = positions.filter(p => p.productId === productId);
+    }
+    if (status === 'low') {
+      positions = positions.filter(p => p.available < p.reorderPoint);
+    } else if (status === 'critical') {
+      positions = positions.filter(p => p.available < 10);
     }
-
-    // Sort by timestamp (newest first)
-    alerts = alerts.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
 
     res.json({
       success: true,
-      data: alerts,
-      count: alerts.length,
+      data: positions,
+      count: positions.length,
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
-    console.error('Error fetching alerts:', error);
+    console.error('Error fetching stock positions:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to fetch alerts',
+      error: 'Failed to fetch stock positions',
     });
   }
 });
 
-router.post('/alerts/:id/resolve', (req: Request, res: Response) => {
+router.get('/products/:id/positions', (req: Request, res: Response) => {
   try {
-    const alert = alertStore.resolve(req.params.id);
+    const product = productStore.get(req.params.id);
 
-    if (!alert) {
+    if (!product) {
       return res.status(404).json({
         success: false,
-        error: 'Alert not found',
+        error: 'Product not found',
       });
     }
 
+    const positions = productStore.getPositions(product.id);
+
     res.json({
       success: true,
-      data: alert,
-      message: 'Alert resolved successfully',
+      data: positions,
+      count: positions.length,
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
-    console.error('Error resolving alert:', error);
+    console.error('Error fetching stock positions:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to resolve alert',
+      error: 'Failed to fetch stock positions',
     });
   }
 });
 
-// Metrics API
-router.get('/metrics', (req: Request, res: Response) => {
+// Start stocking a product at another warehouse (stock arrives through RESTOCK or TRANSFER events)
+router.post('/products/:id/positions', (req: Request, res: Response) => {
   try {
-    const products = productStore.getAll();
-    const alerts = alertStore.getActive();
-    const criticalAlerts = alertStore.getCritical();
-    const lowStockProducts = productStore.getLowStock();
-    const criticalStockProducts = productStore.getCriticalStock();
+    const { warehouse, reorderPoint, maxCapacity } = req.body;
+    const product = productStore.get(req.params.id);
 
-    // Get today's events
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const todayEvents = eventStore.getByTimeRange(today, new Date());
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        error: 'Product not found',
+      });
+    }
+    if (!warehouseStore.exists(warehouse)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Warehouse not found',
+      });
+    }
+    if (!isNonNegativeNumber(reorderPoint) || !isNonNegativeNumber(maxCapacity)) {
+      return res.status(400).json({
+        success: false,
+        error: 'reorderPoint and maxCapacity must be non-negative numbers',
+      });
+    }
+    if (productStore.getPosition(product.id, warehouse)) {
+      return res.status(409).json({
+        success: false,
+        error: `Product is already stocked at ${warehouse}`,
+      });
+    }
 
-    const metrics = {
-      totalProducts: products.length,
-      totalStockValue: productStore.getTotalValue(),
-      activeAlerts: alerts.length,
-      criticalAlerts: criticalAlerts.length,
-      todayTransactions: todayEvents.length,
-      lowStockProducts: lowStockProducts.length,
-      criticalStockProducts: criticalStockProducts.length,
-      averageStockLevel: products.reduce((sum, p) => sum + p.currentStock, 0) / products.length,
-    };
+    const position = productStore.addPosition({
+      productId: product.id,
+      warehouse,
+      currentStock: 0,
+      reorderPoint,
+      maxCapacity,
+    });
 
-    res.json({
+    res.status(201).json({
       success: true,
-      data: metrics,
+      data: position,
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
-    console.error('Error fetching metrics:', error);
+    console.error('Error creating stock position:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to fetch metrics',
+      error: 'Failed to create stock position',
     });
   }
 });
 
-// Forecast API
-router.get('/forecast', (req: Request, res: Response) => {
+router.put('/products/:id/positions/:warehouse', (req: Request, res: Response) => {
   try {
-    const { productId, days = '7' } = req.query;
-    const forecastDays = parseInt(days as string);
-
-    const products = productStore.getAll();
-    const events = eventStore.getAll();
-
-    // Generate forecast for specific product or all products
-    if (productId) {
-      const product = productStore.get(productId as string);
-      if (!product) {
-        return res.status(404).json({
-          success: false,
-          error: 'Product not found',
-        });
-      }
-
-      const forecast = calculateSMAForecast(product, events, forecastDays);
+    const { reorderPoint, maxCapacity } = req.body;
 
-      res.json({
-        success: true,
-        data: forecast,
-        timestamp: new Date().toISOString(),
+    if ((reorderPoint !== undefined && !isNonNegativeNumber(reorderPoint)) ||
+        (maxCapacity !== undefined && !isNonNegativeNumber(maxCapacity))) {
+      return res.status(400).json({
+        success: false,
+        error: 'reorderPoint and maxCapacity must be non-negative numbers',
       });
-    } else {
-      const forecasts = generateForecasts(products, events, forecastDays);
+    }
 
-      res.json({
-        success: true,
-        data: forecasts,
-        count: forecasts.length,
-        timestamp: new Date().toISOString(),
+    const position = productStore.updatePosition(req.params.id, req.params.warehouse, {
+      ...(reorderPoint !== undefined ? { reorderPoint } : {}),
+      ...(maxCapacity !== undefined ? { maxCapacity } : {}),
+    });
+
+    if (!position) {
+      return res.status(404).json({
+        success: false,
+        error: 'Stock position not found',
       });
     }
+
+    res.json({
+      success: true,
+      data: position,
+      timestamp: new Date().toISOString(),
+    });
   } catch (error) {
-    console.error('Error generating forecast:', error);
+    console.error('Error updating stock position:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to generate forecast',
+      error: 'Failed to update stock position',
     });
   }
 });
 
-// AI Recommendations API
-router.get('/recommendations', (req: Request, res: Response) => {
+function isNonNegativeNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+// Warehouses API
+router.get('/warehouses', (req: Request, res: Response) => {
   try {
-    const { productId } = req.query;
+    const stockByWarehouse = productStore.getStockByWarehouse();
+    const warehouses = warehouseStore.getAll().map(w => ({
+      ...w,
+      stock: stockByWarehouse.find(s => s.warehouse === w.id) || {
+        warehouse: w.id,
+        products: 0,
+        units: 0,
+        reserved: 0,
+        value: 0,
+        lowStockPositions: 0,
+      },
+    }));
 
-    const products = productStore.getAll();
-    const events = eventStore.getAll();
-    const alerts = alertStore.getAll();
+    res.json({
+      success: true,
+      data: warehouses,
+      count: warehouses.length,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching warehouses:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch warehouses',
+    });
+  }
+});
 
-    if (productId) {
-      // Get recommendation for specific product
-      const recommendation = getProductRecommendation(
-        productId as string,
-        products,
-        events,
-        alerts
-      );
+// Events API
+router.get('/events', (req: Request, res: Response) => {
+  try {
+    const { type, productId, warehouse, limit = '100' } = req.query;
+
+    let events = eventStore.getAll();
+
+    // Apply filters
+    if (type) {
+      events = eventStore.getByType(type as any);
+    }
+    if (productId) {
+      events = eventStore.getByProduct(productId as string);
+    }
+    if (warehouse) {
+      events = eventStore.getByWarehouse(warehouse as string);
+    }
+
+    // Get recent events and serialize properly
+    const recentEvents = events
+      .sort((a, b) => {
+        const timeA = a.timestamp instanceof Date ? a.timestamp.getTime() : new Date(a.timestamp).getTime();
+        const timeB = b.timestamp instanceof Date ? b.timestamp.getTime() : new Date(b.timestamp).getTime();
+        return timeB - timeA;
+      })
+      .slice(0, parseInt(limit as string))
+      .map(e => ({
+        ...e,
+        timestamp: e.timestamp instanceof Date ? e.timestamp.toISOString() : e.timestamp,
+      }));
+
+    res.json({
+      success: true,
+      data: recentEvents,
+      count: recentEvents.length,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching events:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch events',
+    });
+  }
+});
+
+// POST endpoint to manually create events (for testing Kafka integration)
+router.post('/events', async (req: Request, res: Response) => {
+  try {
+    const { type, productId, quantity, warehouse } = req.body;
+    const idempotencyKey = (req.header('Idempotency-Key') || req.body.idempotencyKey) as string | undefined;
+
+    // Replay the original event when a client retries with the same idempotency key
+    const fingerprint = fingerprintRequest(req.body);
+    if (idempotencyKey) {
+      const check = checkIdempotencyKey(idempotencyKey, fingerprint);
+
+      if (check.status === 'conflict') {
+        return res.status(422).json({
+          success: false,
+          error: 'Idempotency key already used with a different request',
+          eventId: check.record.eventId,
+        });
+      }
+      if (check.status === 'pending') {
+        return res.status(409).json({
+          success: false,
+          error: 'A request with this idempotency key is still being processed',
+          eventId: check.record.eventId,
+        });
+      }
+      if (check.status === 'replay') {
+        return res.json({
+          success: true,
+          data: check.record.event,
+          duplicate: true,
+          message: 'Duplicate request: event was already published',
+          timestamp: new Date().toISOString(),
+        });
+      }
+    }
+
+    // Get product to determine warehouse if not provided
+    const product = typeof productId === 'string' ? productStore.get(productId) : undefined;
+
+    // Create event and validate it against the event schema
+    const validation = validateEvent({
+      id: `EVT-API-${uuidv4()}`,
+      type: type,
+      productId: productId,
+      quantity: quantity,
+      warehouse: warehouse || product?.warehouse,
+      timestamp: new Date(),
+      metadata: { source: 'api', manual: true, ...(idempotencyKey ? { idempotencyKey } : {}) },
+    });
+
+    if (!validation.valid) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid event',
+        details: validation.errors,
+      });
+    }
+
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        error: 'Product not found',
+      });
+    }
+
+    const event: Event = validation.event;
+    if (!productStore.getPosition(product.id, event.warehouse)) {
+      return res.status(400).json({
+        success: false,
+        error: `${product.name} is not stocked at ${event.warehouse}`,
+      });
+    }
+
+    // Hold the key while publishing, so a concurrent retry cannot publish a second event
+    if (idempotencyKey) {
+      reserveIdempotencyKey(idempotencyKey, fingerprint, event);
+    }
+
+    // Publish to Kafka
+    try {
+      await sendEvent(event);
+    } catch (error) {
+      if (idempotencyKey) releaseIdempotencyKey(idempotencyKey);
+      throw error;
+    }
+
+    // Remember the key only once the event is published, so failed requests can be retried
+    if (idempotencyKey) {
+      saveIdempotencyKey(idempotencyKey, fingerprint, event);
+    }
+
+    console.log(`📤 API created event: ${type} - ${productId} (${quantity} units)`);
+
+    res.json({
+      success: true,
+      data: event,
+      message: 'Event published to Kafka successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error creating event:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create event',
+    });
+  }
+});
+
+router.get('/events/duplicates', (req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      data: getIdempotencyStats(),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching duplicate stats:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch duplicate stats',
+    });
+  }
+});
+
+// Transfers API
+router.get('/transfers', (req: Request, res: Response) => {
+  try {
+    const { status, productId, warehouse } = req.query;
+
+    let transfers = transferStore.getAll();
+
+    // Apply filters
+    if (status) {
+      transfers = transfers.filter(t => t.status === status);
+    }
+    if (productId) {
+      transfers = transferStore.getByProduct(productId as string).filter(t => !status || t.status === status);
+    }
+    if (warehouse) {
+      transfers = transfers.filter(t => t.fromWarehouse === warehouse || t.toWarehouse === warehouse);
+    }
+
+    transfers = transfers.sort((a, b) => b.dispatchedAt.getTime() - a.dispatchedAt.getTime());
+
+    res.json({
+      success: true,
+      data: transfers,
+      count: transfers.length,
+      stats: getTransferStats(),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching transfers:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch transfers',
+    });
+  }
+});
+
+router.get('/transfers/:id', (req: Request, res: Response) => {
+  try {
+    const transfer = transferStore.get(req.params.id);
+
+    if (!transfer) {
+      return res.status(404).json({
+        success: false,
+        error: 'Transfer not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: transfer,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching transfer:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch transfer',
+    });
+  }
+});
+
+// Dispatch stock of a product from one of its warehouses (home by default) to another
+router.post('/transfers', async (req: Request, res: Response) => {
+  try {
+    const { productId, toWarehouse, quantity } = req.body;
+
+    const product = productStore.get(productId);
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        error: 'Product not found',
+      });
+    }
+    if (!warehouseStore.exists(toWarehouse)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Destination warehouse not found',
+      });
+    }
+
+    const fromWarehouse: string = req.body.fromWarehouse || product.warehouse;
+    const source = productStore.getPosition(product.id, fromWarehouse);
+    if (!source) {
+      return res.status(400).json({
+        success: false,
+        error: `${product.name} is not stocked at ${fromWarehouse}`,
+      });
+    }
+    if (!productStore.getPosition(product.id, toWarehouse)) {
+      return res.status(400).json({
+        success: false,
+        error: `${product.name} is not stocked at ${toWarehouse}`,
+      });
+    }
+    if (typeof quantity === 'number' && quantity > source.available) {
+      return res.status(409).json({
+        success: false,
+        error: `Insufficient stock: ${source.available} units available at ${fromWarehouse}`,
+      });
+    }
+
+    const event = buildTransferEvent(
+      {
+        id: `TRF-${uuidv4()}`,
+        productId: product.id,
+        fromWarehouse,
+        toWarehouse,
+        quantity,
+      },
+      'IN_TRANSIT',
+      { source: 'api', manual: true }
+    );
+
+    const validation = validateEvent(event);
+    if (!validation.valid) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid transfer',
+        details: validation.errors,
+      });
+    }
+
+    await sendEvent(event);
+
+    console.log(`📤 API dispatched transfer ${event.transfer!.transferId}: ${quantity} units ${fromWarehouse} → ${toWarehouse}`);
+
+    res.json({
+      success: true,
+      data: event,
+      message: 'Transfer dispatched',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error creating transfer:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create transfer',
+    });
+  }
+});
+
+router.post('/transfers/:id/receive', async (req: Request, res: Response) => {
+  await completeTransfer(req, res, 'RECEIVED');
+});
+
+router.post('/transfers/:id/cancel', async (req: Request, res: Response) => {
+  await completeTransfer(req, res, 'CANCELLED');
+});
+
+/**
+ * Publish the closing TRANSFER event (receipt or cancellation) for an in-transit transfer
+ */
+async function completeTransfer(req: Request, res: Response, status: 'RECEIVED' | 'CANCELLED') {
+  try {
+    const transfer = transferStore.get(req.params.id);
+    if (!transfer) {
+      return res.status(404).json({
+        success: false,
+        error: 'Transfer not found',
+      });
+    }
+    if (transfer.status !== 'IN_TRANSIT') {
+      return res.status(409).json({
+        success: false,
+        error: `Transfer is already ${transfer.status}`,
+      });
+    }
+
+    const event = buildTransferEvent(transfer, status, { source: 'api', manual: true });
+    await sendEvent(event);
+
+    res.json({
+      success: true,
+      data: event,
+      message: status === 'RECEIVED' ? 'Transfer received' : 'Transfer cancelled',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error updating transfer:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update transfer',
+    });
+  }
+}
+
+// Reservations API (stock held for carts and pending orders)
+router.get('/reservations', (req: Request, res: Response) => {
+  try {
+    const { status, productId, warehouse } = req.query;
+
+    let reservations = reservationStore.getAll();
+
+    // Apply filters
+    if (productId) {
+      reservations = reservationStore.getByProduct(productId as string);
+    }
+    if (status) {
+      reservations = reservations.filter(r => r.status === status);
+    }
+    if (warehouse) {
+      reservations = reservations.filter(r => r.warehouse === warehouse);
+    }
+
+    reservations = reservations.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+    res.json({
+      success: true,
+      data: reservations,
+      count: reservations.length,
+      stats: getReservationStats(),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching reservations:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch reservations',
+    });
+  }
+});
+
+router.get('/reservations/:id', (req: Request, res: Response) => {
+  try {
+    const reservation = reservationStore.get(req.params.id);
+
+    if (!reservation) {
+      return res.status(404).json({
+        success: false,
+        error: 'Reservation not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: reservation,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching reservation:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch reservation',
+    });
+  }
+});
+
+// Hold stock of a product at one of its warehouses (home by default) until it is sold, released or expires
+router.post('/reservations', async (req: Request, res: Response) => {
+  try {
+    const { productId, quantity, orderId, ttlMinutes } = req.body;
+
+    const product = productStore.get(productId);
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        error: 'Product not found',
+      });
+    }
+
+    const warehouse: string = req.body.warehouse || product.warehouse;
+    const position = productStore.getPosition(product.id, warehouse);
+    if (!position) {
+      return res.status(400).json({
+        success: false,
+        error: `${product.name} is not stocked at ${warehouse}`,
+      });
+    }
+    if (ttlMinutes !== undefined && (typeof ttlMinutes !== 'number' || !Number.isFinite(ttlMinutes) || ttlMinutes <= 0)) {
+      return res.status(400).json({
+        success: false,
+        error: 'ttlMinutes must be a positive number',
+      });
+    }
+    if (typeof quantity === 'number' && quantity > position.available) {
+      return res.status(409).json({
+        success: false,
+        error: `Insufficient stock: ${position.available} units available at ${warehouse}`,
+      });
+    }
+
+    const ttlMs = ttlMinutes !== undefined ? ttlMinutes * 60 * 1000 : DEFAULT_RESERVATION_TTL_MS;
+    const validation = validateEvent(
+      buildReserveEvent(product.id, warehouse, quantity, new Date(Date.now() + ttlMs), orderId, {
+        source: 'api',
+        manual: true,
+      })
+    );
+
+    if (!validation.valid) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid reservation',
+        details: validation.errors,
+      });
+    }
+
+    const event = validation.event;
+    await sendEvent(event);
+
+    console.log(`📤 API reserved ${quantity} units of ${productId} at ${warehouse} (${event.reservation!.reservationId})`);
+
+    res.json({
+      success: true,
+      data: event,
+      message: 'Reservation published to Kafka successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error creating reservation:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create reservation',
+    });
+  }
+});
+
+router.post('/reservations/:id/release', async (req: Request, res: Response) => {
+  await closeReservation(req, res, 'release');
+});
+
+router.post('/reservations/:id/fulfil', async (req: Request, res: Response) => {
+  await closeReservation(req, res, 'fulfil');
+});
+
+/**
+ * Publish the event closing an active reservation: a RELEASE, or a SALE that fulfils it
+ */
+async function closeReservation(req: Request, res: Response, action: 'release' | 'fulfil') {
+  try {
+    const reservation = reservationStore.get(req.params.id);
+    if (!reservation) {
+      return res.status(404).json({
+        success: false,
+        error: 'Reservation not found',
+      });
+    }
+    if (reservation.status !== 'ACTIVE') {
+      return res.status(409).json({
+        success: false,
+        error: `Reservation is already ${reservation.status}`,
+      });
+    }
+
+    const metadata = { source: 'api', manual: true };
+    const validation = validateEvent(
+      action === 'release'
+        ? buildReleaseEvent(reservation, 'CANCELLED', metadata)
+        : buildFulfilmentEvent(reservation, req.body.quantity ?? reservation.quantity, metadata)
+    );
+
+    if (!validation.valid) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid reservation event',
+        details: validation.errors,
+      });
+    }
+
+    const event = validation.event;
+    if (event.quantity > reservation.quantity) {
+      return res.status(400).json({
+        success: false,
+        error: `Cannot fulfil more than the ${reservation.quantity} units reserved`,
+      });
+    }
+
+    await sendEvent(event);
+
+    res.json({
+      success: true,
+      data: event,
+      message: action === 'release' ? 'Reservation released' : 'Reservation fulfilled',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error updating reservation:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update reservation',
+    });
+  }
+}
+
+// Adjustments API (stock written off or corrected outside of sales, restocks and returns)
+router.get('/adjustments', (req: Request, res: Response) => {
+  try {
+    const { productId, warehouse, reason, limit = '100' } = req.query;
+
+    let adjustments = eventStore.getByType('ADJUSTMENT');
+
+    // Apply filters
+    if (productId) {
+      adjustments = adjustments.filter(e => e.productId === productId);
+    }
+    if (warehouse) {
+      adjustments = adjustments.filter(e => e.warehouse === warehouse);
+    }
+    if (reason) {
+      adjustments = adjustments.filter(e => e.adjustment?.reason === reason);
+    }
+
+    adjustments = adjustments
+      .sort((a, b) => getEventTime(b) - getEventTime(a))
+      .slice(0, parseInt(limit as string));
+
+    res.json({
+      success: true,
+      data: adjustments,
+      count: adjustments.length,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching adjustments:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch adjustments',
+    });
+  }
+});
+
+router.post('/adjustments', async (req: Request, res: Response) => {
+  try {
+    const { productId, quantity, reason, direction = 'DECREASE', notes } = req.body;
+
+    const product = productStore.get(productId);
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        error: 'Product not found',
+      });
+    }
+
+    const warehouse: string = req.body.warehouse || product.warehouse;
+    const validation = validateEvent(
+      buildAdjustmentEvent(product.id, warehouse, quantity, { reason, direction, ...(notes ? { notes } : {}) }, {
+        source: 'api',
+        manual: true,
+      })
+    );
+
+    if (!validation.valid) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid adjustment',
+        details: validation.errors,
+      });
+    }
+    if (!productStore.getPosition(product.id, warehouse)) {
+      return res.status(400).json({
+        success: false,
+        error: `${product.name} is not stocked at ${warehouse}`,
+      });
+    }
+
+    const event = validation.event;
+    await sendEvent(event);
+
+    console.log(`📤 API recorded adjustment: ${reason} - ${productId} (${direction === 'INCREASE' ? '+' : '-'}${quantity} units at ${warehouse})`);
+
+    res.json({
+      success: true,
+      data: event,
+      message: 'Adjustment published to Kafka successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error creating adjustment:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create adjustment',
+    });
+  }
+});
+
+// Cycle Counts API
+router.get('/cycle-counts', (req: Request, res: Response) => {
+  try {
+    const { status, productId, warehouse } = req.query;
+
+    let cycleCounts = cycleCountStore.getAll();
+
+    // Apply filters
+    if (status) {
+      cycleCounts = cycleCounts.filter(c => c.status === status);
+    }
+    if (productId) {
+      cycleCounts = cycleCounts.filter(c => c.productId === productId);
+    }
+    if (warehouse) {
+      cycleCounts = cycleCounts.filter(c => c.warehouse === warehouse);
+    }
+
+    cycleCounts = cycleCounts.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+    res.json({
+      success: true,
+      data: cycleCounts,
+      count: cycleCounts.length,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching cycle counts:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch cycle counts',
+    });
+  }
+});
+
+// Variance report per warehouse (defaults to the last 30 days)
+router.get('/cycle-counts/variance', (req: Request, res: Response) => {
+  try {
+    const { from, to } = req.query;
+    const toDate = to ? new Date(to as string) : new Date();
+    const fromDate = from ? new Date(from as string) : new Date(toDate.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+    if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime()) || fromDate > toDate) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid time range',
+      });
+    }
+
+    const report = getVarianceReport(fromDate, toDate);
+
+    res.json({
+      success: true,
+      data: report,
+      from: fromDate.toISOString(),
+      to: toDate.toISOString(),
+      count: report.length,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching variance report:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch variance report',
+    });
+  }
+});
+
+router.get('/cycle-counts/:id', (req: Request, res: Response) => {
+  try {
+    const cycleCount = cycleCountStore.get(req.params.id);
+
+    if (!cycleCount) {
+      return res.status(404).json({
+        success: false,
+        error: 'Cycle count not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: cycleCount,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching cycle count:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch cycle count',
+    });
+  }
+});
+
+// Open a cycle count for a stock position (recorded straight away when countedQuantity is given)
+router.post('/cycle-counts', async (req: Request, res: Response) => {
+  try {
+    const { productId, countedQuantity, countedBy } = req.body;
+
+    const product = productStore.get(productId);
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        error: 'Product not found',
+      });
+    }
+    if (countedQuantity !== undefined && !isCountedQuantity(countedQuantity)) {
+      return res.status(400).json({
+        success: false,
+        error: 'countedQuantity must be a non-negative whole number',
+      });
+    }
+
+    const cycleCount = openCycleCount(product.id, req.body.warehouse || product.warehouse, countedBy);
+    if (countedQuantity === undefined) {
+      return res.status(201).json({
+        success: true,
+        data: cycleCount,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    await recordCount(req, res, cycleCount.id);
+  } catch (error) {
+    if (error instanceof CycleCountError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    console.error('Error creating cycle count:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create cycle count',
+    });
+  }
+});
+
+router.post('/cycle-counts/:id/record', async (req: Request, res: Response) => {
+  if (!isCountedQuantity(req.body.countedQuantity)) {
+    return res.status(400).json({
+      success: false,
+      error: 'countedQuantity must be a non-negative whole number',
+    });
+  }
+
+  await recordCount(req, res, req.params.id);
+});
+
+router.post('/cycle-counts/:id/cancel', (req: Request, res: Response) => {
+  try {
+    if (!cycleCountStore.exists(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Cycle count not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: cancelCycleCount(req.params.id),
+      message: 'Cycle count cancelled',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof CycleCountError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    console.error('Error cancelling cycle count:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to cancel cycle count',
+    });
+  }
+});
+
+/**
+ * Record the counted quantity of an open cycle count, publishing any variance as a COUNT_CORRECTION adjustment
+ */
+async function recordCount(req: Request, res: Response, id: string) {
+  try {
+    const { countedQuantity, countedBy, notes } = req.body;
+
+    if (!cycleCountStore.exists(id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Cycle count not found',
+      });
+    }
+
+    const result = evaluateCycleCount(id, countedQuantity);
+
+    // Complete the count only once its adjustment is published, so a failed publish can be retried
+    if (result.adjustment) {
+      await sendEvent(result.adjustment);
+    }
+    const cycleCount = completeCycleCount(id, result, countedBy, notes);
+
+    console.log(`📋 Cycle count ${id} recorded: counted ${countedQuantity}, variance ${result.variance > 0 ? '+' : ''}${result.variance}`);
+
+    res.json({
+      success: true,
+      data: cycleCount,
+      adjustment: result.adjustment,
+      message: result.variance === 0 ? 'Count matches system quantity' : 'Variance posted as a count correction',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof CycleCountError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    console.error('Error recording cycle count:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to record cycle count',
+    });
+  }
+}
+
+function isCountedQuantity(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+// Suppliers API
+router.get('/suppliers', (req: Request, res: Response) => {
+  try {
+    const suppliers = supplierStore.getAll().sort((a, b) => a.name.localeCompare(b.name));
+
+    res.json({
+      success: true,
+      data: suppliers.map(supplier => ({
+        ...supplier,
+        productCount: productStore.getBySupplier(supplier.id).length,
+      })),
+      count: suppliers.length,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching suppliers:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch suppliers',
+    });
+  }
+});
+
+router.get('/suppliers/:id', (req: Request, res: Response) => {
+  try {
+    const supplier = supplierStore.get(req.params.id);
+
+    if (!supplier) {
+      return res.status(404).json({
+        success: false,
+        error: 'Supplier not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        ...supplier,
+        products: productStore.getBySupplier(supplier.id).map(p => p.id),
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching supplier:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch supplier',
+    });
+  }
+});
+
+router.post('/suppliers', (req: Request, res: Response) => {
+  try {
+    const supplier = createSupplier(pickSupplierFields(req.body));
+
+    res.status(201).json({
+      success: true,
+      data: supplier,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof SupplierError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    console.error('Error creating supplier:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create supplier',
+    });
+  }
+});
+
+router.put('/suppliers/:id', (req: Request, res: Response) => {
+  try {
+    if (!supplierStore.exists(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Supplier not found',
+      });
+    }
+
+    const supplier = updateSupplier(req.params.id, pickSupplierFields(req.body));
+
+    res.json({
+      success: true,
+      data: supplier,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof SupplierError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    console.error('Error updating supplier:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update supplier',
+    });
+  }
+});
+
+router.delete('/suppliers/:id', (req: Request, res: Response) => {
+  try {
+    if (!supplierStore.exists(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Supplier not found',
+      });
+    }
+
+    deleteSupplier(req.params.id);
+
+    res.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof SupplierError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    console.error('Error deleting supplier:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete supplier',
+    });
+  }
+});
+
+/**
+ * Take the supplier fields from a request body, leaving out any the caller did not send
+ */
+function pickSupplierFields(body: Record<string, any>) {
+  const fields = ['name', 'leadTimeDays', 'minimumOrderQuantity', 'packSize', 'costPerUnit', 'contactEmail'] as const;
+  return Object.fromEntries(fields.filter(field => body[field] !== undefined).map(field => [field, body[field]]));
+}
+
+// Purchase Orders API (replenishment ordered from suppliers)
+router.get('/purchase-orders', (req: Request, res: Response) => {
+  try {
+    const { status, productId, warehouse } = req.query;
+
+    let purchaseOrders = purchaseOrderStore.getAll();
+
+    // Apply filters
+    if (productId) {
+      purchaseOrders = purchaseOrderStore.getByProduct(productId as string);
+    }
+    if (status) {
+      purchaseOrders = purchaseOrders.filter(po => po.status === status);
+    }
+    if (warehouse) {
+      purchaseOrders = purchaseOrders.filter(po => po.warehouse === warehouse);
+    }
+
+    purchaseOrders = purchaseOrders.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+    res.json({
+      success: true,
+      data: purchaseOrders,
+      count: purchaseOrders.length,
+      stats: getPurchaseOrderStats(),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching purchase orders:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch purchase orders',
+    });
+  }
+});
+
+router.get('/purchase-orders/:id', (req: Request, res: Response) => {
+  try {
+    const purchaseOrder = purchaseOrderStore.get(req.params.id);
+
+    if (!purchaseOrder) {
+      return res.status(404).json({
+        success: false,
+        error: 'Purchase order not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: purchaseOrder,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching purchase order:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch purchase order',
+    });
+  }
+});
+
+// Raise a draft purchase order for one of a product's warehouses (home by default)
+router.post('/purchase-orders', (req: Request, res: Response) => {
+  try {
+    const { productId, quantity, notes } = req.body;
+
+    const product = productStore.get(productId);
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        error: 'Product not found',
+      });
+    }
+
+    const purchaseOrder = createPurchaseOrder({
+      productId: product.id,
+      warehouse: req.body.warehouse || product.warehouse,
+      quantity,
+      notes,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: purchaseOrder,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof PurchaseOrderError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    console.error('Error creating purchase order:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create purchase order',
+    });
+  }
+});
+
+// Turn a product's reorder recommendation into a draft purchase order
+router.post('/purchase-orders/from-recommendation', (req: Request, res: Response) => {
+  try {
+    const { productId, warehouse } = req.body;
+
+    if (!productStore.exists(productId)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Product not found',
+      });
+    }
+
+    const purchaseOrder = createPurchaseOrderFromRecommendation(productId, warehouse);
+
+    res.status(201).json({
+      success: true,
+      data: purchaseOrder,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof PurchaseOrderError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    console.error('Error creating purchase order from recommendation:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create purchase order',
+    });
+  }
+});
+
+router.post('/purchase-orders/:id/submit', (req: Request, res: Response) => {
+  updatePurchaseOrder(req, res, submitPurchaseOrder);
+});
+
+router.post('/purchase-orders/:id/cancel', (req: Request, res: Response) => {
+  updatePurchaseOrder(req, res, cancelPurchaseOrder);
+});
+
+/**
+ * Move a purchase order to a new state, then re-check reorder alerts now that its units are (or are no longer) on order
+ */
+function updatePurchaseOrder(req: Request, res: Response, transition: (id: string) => PurchaseOrder) {
+  try {
+    if (!purchaseOrderStore.exists(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Purchase order not found',
+      });
+    }
+
+    const purchaseOrder = transition(req.params.id);
+    eventHandler.recheckAlerts(purchaseOrder.productId, purchaseOrder.warehouse);
+
+    res.json({
+      success: true,
+      data: purchaseOrder,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof PurchaseOrderError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    console.error('Error updating purchase order:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update purchase order',
+    });
+  }
+}
+
+// Receive stock against a purchase order (the outstanding quantity by default) as a RESTOCK event
+router.post('/purchase-orders/:id/receive', async (req: Request, res: Response) => {
+  try {
+    const purchaseOrder = purchaseOrderStore.get(req.params.id);
+    if (!purchaseOrder) {
+      return res.status(404).json({
+        success: false,
+        error: 'Purchase order not found',
+      });
+    }
+
+    const validation = validateEvent(
+      buildReceiptEvent(purchaseOrder, req.body.quantity, { source: 'api', manual: true })
+    );
+
+    if (!validation.valid) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid receipt',
+        details: validation.errors,
+      });
+    }
+
+    const event = validation.event;
+    checkPurchaseOrderReceipt(event);
+    await sendEvent(event);
+
+    console.log(`📤 API received ${event.quantity} units against ${purchaseOrder.id}`);
+
+    res.json({
+      success: true,
+      data: event,
+      message: 'Receipt published to Kafka successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof PurchaseOrderError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    console.error('Error receiving purchase order:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to receive purchase order',
+    });
+  }
+});
+
+// Alerts API
+router.get('/alerts', (req: Request, res: Response) => {
+  try {
+    const { severity, productId, warehouse, active, acknowledged, snoozed, assignee, incidentId } = req.query;
+
+    let alerts = alertStore.getAll();
+
+    // Apply filters
+    if (active === 'true') {
+      alerts = alertStore.getActive();
+    }
+    if (severity) {
+      alerts = alertStore.getBySeverity(severity as any);
+    }
+    if (productId) {
+      alerts = alertStore.getByProduct(productId as string);
+    }
+    if (warehouse) {
+      alerts = alerts.filter(a => a.warehouse === warehouse);
+    }
+    if (acknowledged !== undefined) {
+      alerts = alerts.filter(a => !!a.acknowledgedAt === (acknowledged === 'true'));
+    }
+    if (snoozed !== undefined) {
+      const now = new Date();
+      alerts = alerts.filter(a => isSnoozed(a, now) === (snoozed === 'true'));
+    }
+    if (assignee) {
+      alerts = alerts.filter(a => a.assignee === assignee);
+    }
+    if (incidentId) {
+      alerts = alerts.filter(a => a.incidentId === incidentId);
+    }
+
+    // Sort by timestamp (newest first)
+    alerts = alerts.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+
+    res.json({
+      success: true,
+      data: alerts,
+      count: alerts.length,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching alerts:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch alerts',
+    });
+  }
+});
+
+// Permanent alert lifecycle history, newest first (defaults to the last 30 days)
+router.get('/alerts/history', (req: Request, res: Response) => {
+  try {
+    const { productId, warehouse, type, from, to, limit = '500' } = req.query;
+    const toDate = to ? new Date(to as string) : new Date();
+    const fromDate = from ? new Date(from as string) : new Date(toDate.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+    if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime()) || fromDate > toDate) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid time range',
+      });
+    }
+
+    const history = getAlertHistory({
+      productId: productId as string | undefined,
+      warehouse: warehouse as string | undefined,
+      type: type as AlertType | undefined,
+      since: fromDate,
+      until: toDate,
+    });
+
+    res.json({
+      success: true,
+      data: history.slice(0, parseInt(limit as string)),
+      from: fromDate.toISOString(),
+      to: toDate.toISOString(),
+      count: history.length,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching alert history:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch alert history',
+    });
+  }
+});
+
+// MTTA/MTTR by alert type and warehouse, most alerting products and repeat alerts (defaults to the last 30 days)
+router.get('/alerts/analytics', (req: Request, res: Response) => {
+  try {
+    const { from, to, limit = '10' } = req.query;
+    const toDate = to ? new Date(to as string) : new Date();
+    const fromDate = from ? new Date(from as string) : new Date(toDate.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+    if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime()) || fromDate > toDate) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid time range',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: getAlertAnalytics(fromDate, toDate, parseInt(limit as string)),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching alert analytics:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch alert analytics',
+    });
+  }
+});
+
+router.get('/alerts/:id', (req: Request, res: Response) => {
+  try {
+    const alert = alertStore.get(req.params.id);
+
+    if (!alert) {
+      return res.status(404).json({
+        success: false,
+        error: 'Alert not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: alert,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching alert:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch alert',
+    });
+  }
+});
+
+// Alert workflow: the operator making the change is given as `actor`, with an optional `note`
+router.post('/alerts/:id/resolve', (req: Request, res: Response) => {
+  updateAlert(req, res, (id, actor, note) => resolveAlert(id, actor, note));
+});
+
+router.post('/alerts/:id/acknowledge', (req: Request, res: Response) => {
+  updateAlert(req, res, (id, actor, note) => acknowledgeAlert(id, actor, note));
+});
+
+// Assign to `assignee` (null unassigns)
+router.post('/alerts/:id/assign', (req: Request, res: Response) => {
+  const { assignee } = req.body;
+  if (assignee !== null && (typeof assignee !== 'string' || assignee.trim() === '')) {
+    return res.status(400).json({
+      success: false,
+      error: 'assignee must be a non-empty string, or null to unassign',
+    });
+  }
+
+  updateAlert(req, res, (id, actor, note) => assignAlert(id, assignee ?? undefined, actor, note));
+});
+
+// Snooze until `until` (null ends the snooze)
+router.post('/alerts/:id/snooze', (req: Request, res: Response) => {
+  const { until } = req.body;
+  const untilDate = until === null ? undefined : new Date(until);
+  if (untilDate && isNaN(untilDate.getTime())) {
+    return res.status(400).json({
+      success: false,
+      error: 'until must be an ISO 8601 timestamp, or null to end the snooze',
+    });
+  }
+
+  updateAlert(req, res, (id, actor, note) => snoozeAlert(id, untilDate, actor, note));
+});
+
+router.post('/alerts/:id/notes', (req: Request, res: Response) => {
+  const { note } = req.body;
+  if (typeof note !== 'string' || note.trim() === '') {
+    return res.status(400).json({
+      success: false,
+      error: 'note must be a non-empty string',
+    });
+  }
+
+  updateAlert(req, res, (id, actor) => addAlertNote(id, note, actor));
+});
+
+/**
+ * Apply an operator's change to an alert
+ */
+function updateAlert(req: Request, res: Response, change: (id: string, actor: string, note?: string) => Alert) {
+  try {
+    if (!alertStore.exists(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Alert not found',
+      });
+    }
+
+    const { actor = 'operator', note } = req.body || {};
+    if (typeof actor !== 'string' || actor.trim() === '' || (note !== undefined && typeof note !== 'string')) {
+      return res.status(400).json({
+        success: false,
+        error: 'actor must be a non-empty string and note a string',
+      });
+    }
+
+    const alert = change(req.params.id, actor, note);
+
+    res.json({
+      success: true,
+      data: alert,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof AlertWorkflowError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    console.error('Error updating alert:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update alert',
+    });
+  }
+}
+
+// Incidents API
+router.get('/incidents', (req: Request, res: Response) => {
+  try {
+    const { status, productId, warehouse, limit = '100' } = req.query;
+
+    let incidents = incidentStore.getRecent(Number.MAX_SAFE_INTEGER);
+
+    if (status) {
+      incidents = incidents.filter(i => i.status === status);
+    }
+    if (productId) {
+      incidents = incidents.filter(i => i.productId === productId);
+    }
+    if (warehouse) {
+      incidents = incidents.filter(i => i.warehouse === warehouse);
+    }
+
+    res.json({
+      success: true,
+      data: incidents.slice(0, parseInt(limit as string)),
+      count: incidents.length,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching incidents:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch incidents',
+    });
+  }
+});
+
+// An incident with its alerts
+router.get('/incidents/:id', (req: Request, res: Response) => {
+  try {
+    const incident = incidentStore.get(req.params.id);
+
+    if (!incident) {
+      return res.status(404).json({
+        success: false,
+        error: 'Incident not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: { ...incident, alerts: getIncidentAlerts(incident) },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching incident:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch incident',
+    });
+  }
+});
+
+// Resolve every active alert in an incident
+router.post('/incidents/:id/resolve', (req: Request, res: Response) => {
+  try {
+    if (!incidentStore.exists(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Incident not found',
+      });
+    }
+
+    const { actor = 'operator', note } = req.body || {};
+    if (typeof actor !== 'string' || actor.trim() === '' || (note !== undefined && typeof note !== 'string')) {
+      return res.status(400).json({
+        success: false,
+        error: 'actor must be a non-empty string and note a string',
+      });
+    }
+
+    const incident = resolveIncident(req.params.id, actor, note);
+
+    res.json({
+      success: true,
+      data: incident,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof AlertWorkflowError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    console.error('Error resolving incident:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to resolve incident',
+    });
+  }
+});
+
+// Maintenance Windows API
+router.get('/maintenance-windows', (req: Request, res: Response) => {
+  try {
+    const { warehouse, active } = req.query;
+    const now = new Date();
+
+    let windows = warehouse
+      ? maintenanceWindowStore.getByWarehouse(warehouse as string)
+      : maintenanceWindowStore.getAll();
+
+    if (active !== undefined) {
+      windows = windows.filter(w => (w.startsAt <= now && now < w.endsAt) === (active === 'true'));
+    }
+    windows = windows.sort((a, b) => b.startsAt.getTime() - a.startsAt.getTime());
+
+    res.json({
+      success: true,
+      data: windows,
+      count: windows.length,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching maintenance windows:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch maintenance windows',
+    });
+  }
+});
+
+router.get('/maintenance-windows/:id', (req: Request, res: Response) => {
+  try {
+    const window = maintenanceWindowStore.get(req.params.id);
+
+    if (!window) {
+      return res.status(404).json({
+        success: false,
+        error: 'Maintenance window not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: window,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching maintenance window:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch maintenance window',
+    });
+  }
+});
+
+// Schedule a window (startsAt defaults to now)
+router.post('/maintenance-windows', (req: Request, res: Response) => {
+  try {
+    const { warehouse, reason, actor } = req.body;
+    const window = createMaintenanceWindow({
+      warehouse,
+      reason,
+      createdBy: typeof actor === 'string' && actor.trim() !== '' ? actor : undefined,
+      ...parseWindowTimes(req.body),
+    });
+
+    res.status(201).json({
+      success: true,
+      data: window,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof MaintenanceWindowError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    console.error('Error creating maintenance window:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create maintenance window',
+    });
+  }
+});
+
+router.put('/maintenance-windows/:id', (req: Request, res: Response) => {
+  try {
+    if (!maintenanceWindowStore.exists(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Maintenance window not found',
+      });
+    }
+
+    const { reason } = req.body;
+    const window = updateMaintenanceWindow(req.params.id, {
+      ...(reason !== undefined && { reason }),
+      ...parseWindowTimes(req.body),
+    });
+
+    res.json({
+      success: true,
+      data: window,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof MaintenanceWindowError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    console.error('Error updating maintenance window:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update maintenance window',
+    });
+  }
+});
+
+// End a window now, e.g. when the stocktake finishes early
+router.post('/maintenance-windows/:id/end', (req: Request, res: Response) => {
+  try {
+    if (!maintenanceWindowStore.exists(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Maintenance window not found',
+      });
+    }
+
+    const window = endMaintenanceWindow(req.params.id);
+
+    res.json({
+      success: true,
+      data: window,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof MaintenanceWindowError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    console.error('Error ending maintenance window:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to end maintenance window',
+    });
+  }
+});
+
+router.delete('/maintenance-windows/:id', (req: Request, res: Response) => {
+  try {
+    if (!maintenanceWindowStore.exists(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Maintenance window not found',
+      });
+    }
+
+    deleteMaintenanceWindow(req.params.id);
+
+    res.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error deleting maintenance window:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete maintenance window',
+    });
+  }
+});
+
+/**
+ * Read startsAt and endsAt from a request body; values that are not timestamps fail validation
+ */
+function parseWindowTimes(body: Record<string, any>) {
+  return {
+    ...(body.startsAt !== undefined && { startsAt: new Date(body.startsAt) }),
+    ...(body.endsAt !== undefined && { endsAt: new Date(body.endsAt) }),
+  };
+}
+
+// Alert Rules API
+router.get('/alert-rules', (req: Request, res: Response) => {
+  try {
+    const { type, productId, warehouse } = req.query;
+
+    let rules = alertRuleStore.getAll();
+
+    // With productId, only the rules that apply to that stock position (home warehouse by default)
+    if (productId) {
+      const product = productStore.get(productId as string);
+      const position = product && productStore.getPosition(product.id, (warehouse as string) || product.warehouse);
+      if (!product || !position) {
+        return res.status(404).json({
+          success: false,
+          error: 'Stock position not found',
+        });
+      }
+      rules = getApplicableRules(product, position);
+    }
+    if (type) {
+      rules = rules.filter(r => r.type === type);
+    }
+
+    rules = rules.sort((a, b) => a.type.localeCompare(b.type) || a.createdAt.getTime() - b.createdAt.getTime());
+
+    res.json({
+      success: true,
+      data: rules,
+      count: rules.length,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching alert rules:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch alert rules',
+    });
+  }
+});
+
+router.get('/alert-rules/:id', (req: Request, res: Response) => {
+  try {
+    const rule = alertRuleStore.get(req.params.id);
+
+    if (!rule) {
+      return res.status(404).json({
+        success: false,
+        error: 'Alert rule not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: rule,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching alert rule:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch alert rule',
+    });
+  }
+});
+
+router.post('/alert-rules', (req: Request, res: Response) => {
+  try {
+    const rule = createAlertRule(pickAlertRuleFields(req.body));
+
+    res.status(201).json({
+      success: true,
+      data: rule,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof AlertRuleError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    console.error('Error creating alert rule:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create alert rule',
+    });
+  }
+});
+
+router.put('/alert-rules/:id', (req: Request, res: Response) => {
+  changeAlertRule(req, res, id => updateAlertRule(id, pickAlertRuleFields(req.body)));
+});
+
+// Restore a built-in rule to its shipped definition
+router.post('/alert-rules/:id/reset', (req: Request, res: Response) => {
+  changeAlertRule(req, res, resetAlertRule);
+});
+
+router.delete('/alert-rules/:id', (req: Request, res: Response) => {
+  try {
+    if (!alertRuleStore.exists(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Alert rule not found',
+      });
+    }
+
+    deleteAlertRule(req.params.id);
+
+    res.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof AlertRuleError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    console.error('Error deleting alert rule:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete alert rule',
+    });
+  }
+});
+
+/**
+ * Apply a change to an existing alert rule
+ */
+function changeAlertRule(req: Request, res: Response, change: (id: string) => AlertRule) {
+  try {
+    if (!alertRuleStore.exists(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Alert rule not found',
+      });
+    }
+
+    const rule = change(req.params.id);
+
+    res.json({
+      success: true,
+      data: rule,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof AlertRuleError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    console.error('Error updating alert rule:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update alert rule',
+    });
+  }
+}
+
+/**
+ * Take the alert rule fields from a request body, leaving out any the caller did not send
+ * (null clears the optional resolveWhen, group and eventTypes)
+ */
+function pickAlertRuleFields(body: Record<string, any>) {
+  const fields = [
+    'name', 'type', 'severity', 'condition', 'resolveWhen', 'messageTemplate', 'scope', 'group', 'eventTypes', 'enabled',
+  ] as const;
+  return Object.fromEntries(
+    fields.filter(field => body[field] !== undefined).map(field => [field, body[field] === null ? undefined : body[field]])
+  );
+}
+
+// Escalation Policies API
+router.get('/escalation-policies', (req: Request, res: Response) => {
+  try {
+    const policies = escalationPolicyStore.getAll().sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+    res.json({
+      success: true,
+      data: policies,
+      count: policies.length,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching escalation policies:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch escalation policies',
+    });
+  }
+});
+
+router.get('/escalation-policies/:id', (req: Request, res: Response) => {
+  try {
+    const policy = escalationPolicyStore.get(req.params.id);
+
+    if (!policy) {
+      return res.status(404).json({
+        success: false,
+        error: 'Escalation policy not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: policy,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching escalation policy:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch escalation policy',
+    });
+  }
+});
+
+router.post('/escalation-policies', (req: Request, res: Response) => {
+  try {
+    const policy = createEscalationPolicy(pickEscalationPolicyFields(req.body));
+
+    res.status(201).json({
+      success: true,
+      data: policy,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof EscalationPolicyError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    console.error('Error creating escalation policy:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create escalation policy',
+    });
+  }
+});
+
+router.put('/escalation-policies/:id', (req: Request, res: Response) => {
+  try {
+    if (!escalationPolicyStore.exists(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Escalation policy not found',
+      });
+    }
+
+    const policy = updateEscalationPolicy(req.params.id, pickEscalationPolicyFields(req.body));
+
+    res.json({
+      success: true,
+      data: policy,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof EscalationPolicyError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    console.error('Error updating escalation policy:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update escalation policy',
+    });
+  }
+});
+
+router.delete('/escalation-policies/:id', (req: Request, res: Response) => {
+  try {
+    if (!escalationPolicyStore.exists(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Escalation policy not found',
+      });
+    }
+
+    deleteEscalationPolicy(req.params.id);
+
+    res.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof EscalationPolicyError) {
+      return res.status(409).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    console.error('Error deleting escalation policy:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete escalation policy',
+    });
+  }
+});
+
+/**
+ * Take the escalation policy fields from a request body, leaving out any the caller did not send
+ */
+function pickEscalationPolicyFields(body: Record<string, any>) {
+  const fields = ['name', 'alertTypes', 'tiers', 'enabled'] as const;
+  return Object.fromEntries(fields.filter(field => body[field] !== undefined).map(field => [field, body[field]]));
+}
+
+// Webhooks API
+router.get('/webhooks', (req: Request, res: Response) => {
+  try {
+    const webhooks = webhookStore.getAll()
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map(redactWebhook);
+
+    res.json({
+      success: true,
+      data: webhooks,
+      count: webhooks.length,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching webhooks:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch webhooks',
+    });
+  }
+});
+
+router.get('/webhooks/:id', (req: Request, res: Response) => {
+  try {
+    const webhook = webhookStore.get(req.params.id);
+
+    if (!webhook) {
+      return res.status(404).json({
+        success: false,
+        error: 'Webhook not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: redactWebhook(webhook),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching webhook:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch webhook',
+    });
+  }
+});
+
+// The secret is returned in full only here, so the receiver can be configured with it
+router.post('/webhooks', (req: Request, res: Response) => {
+  try {
+    const webhook = createWebhook(pickWebhookFields(req.body));
+
+    res.status(201).json({
+      success: true,
+      data: webhook,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof WebhookError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    console.error('Error creating webhook:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create webhook',
+    });
+  }
+});
+
+router.put('/webhooks/:id', (req: Request, res: Response) => {
+  try {
+    if (!webhookStore.exists(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Webhook not found',
+      });
+    }
+
+    const webhook = updateWebhook(req.params.id, pickWebhookFields(req.body));
+
+    res.json({
+      success: true,
+      data: redactWebhook(webhook),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof WebhookError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    console.error('Error updating webhook:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update webhook',
+    });
+  }
+});
+
+router.delete('/webhooks/:id', (req: Request, res: Response) => {
+  try {
+    if (!webhookStore.exists(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Webhook not found',
+      });
+    }
+
+    deleteWebhook(req.params.id);
+
+    res.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error deleting webhook:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete webhook',
+    });
+  }
+});
+
+router.get('/webhooks/:id/deliveries', (req: Request, res: Response) => {
+  try {
+    const { status, limit = '50' } = req.query;
+
+    if (!webhookStore.exists(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Webhook not found',
+      });
+    }
+    if (status !== undefined && !['PENDING', 'DELIVERED', 'FAILED'].includes(status as string)) {
+      return res.status(400).json({
+        success: false,
+        error: 'status must be one of PENDING, DELIVERED, FAILED',
+      });
+    }
+
+    const deliveries = getWebhookDeliveries(req.params.id, status as WebhookDelivery['status'] | undefined);
+
+    res.json({
+      success: true,
+      data: deliveries.slice(0, parseInt(limit as string)),
+      count: deliveries.length,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching webhook deliveries:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch webhook deliveries',
+    });
+  }
+});
+
+// Send a test payload and report how the receiver responded
+router.post('/webhooks/:id/test', async (req: Request, res: Response) => {
+  try {
+    if (!webhookStore.exists(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Webhook not found',
+      });
+    }
+
+    const delivery = await testWebhook(req.params.id);
+
+    res.json({
+      success: delivery.status === 'DELIVERED',
+      data: delivery,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error testing webhook:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to test webhook',
+    });
+  }
+});
+
+/**
+ * Take the webhook fields from a request body, leaving out any the caller did not send
+ * (null clears the description and filters)
+ */
+function pickWebhookFields(body: Record<string, any>) {
+  const fields = ['url', 'secret', 'topics', 'filters', 'description', 'enabled'] as const;
+  const cleared: Record<string, unknown> = { filters: {}, description: undefined };
+  return Object.fromEntries(
+    fields.filter(field => body[field] !== undefined).map(field => [field, body[field] === null && field in cleared ? cleared[field] : body[field]])
+  );
+}
+
+// Email Digest API
+router.get('/digest/subscriptions', (req: Request, res: Response) => {
+  try {
+    const subscriptions = digestSubscriptionStore.getAll().sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+    res.json({
+      success: true,
+      data: subscriptions,
+      count: subscriptions.length,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching digest subscriptions:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch digest subscriptions',
+    });
+  }
+});
+
+router.get('/digest/subscriptions/:id', (req: Request, res: Response) => {
+  try {
+    const subscription = digestSubscriptionStore.get(req.params.id);
+
+    if (!subscription) {
+      return res.status(404).json({
+        success: false,
+        error: 'Digest subscription not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: subscription,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching digest subscription:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch digest subscription',
+    });
+  }
+});
+
+router.post('/digest/subscriptions', (req: Request, res: Response) => {
+  try {
+    const subscription = createDigestSubscription(pickDigestSubscriptionFields(req.body));
+
+    res.status(201).json({
+      success: true,
+      data: subscription,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof DigestError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    console.error('Error creating digest subscription:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create digest subscription',
+    });
+  }
+});
+
+router.put('/digest/subscriptions/:id', (req: Request, res: Response) => {
+  try {
+    if (!digestSubscriptionStore.exists(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Digest subscription not found',
+      });
+    }
+
+    const subscription = updateDigestSubscription(req.params.id, pickDigestSubscriptionFields(req.body));
+
+    res.json({
+      success: true,
+      data: subscription,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof DigestError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    console.error('Error updating digest subscription:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update digest subscription',
+    });
+  }
+});
+
+router.delete('/digest/subscriptions/:id', (req: Request, res: Response) => {
+  try {
+    if (!digestSubscriptionStore.exists(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Digest subscription not found',
+      });
+    }
+
+    deleteDigestSubscription(req.params.id);
+
+    res.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error deleting digest subscription:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete digest subscription',
+    });
+  }
+});
+
+// Preview a subscriber's next digest without sending it (format=html or text returns the email body)
+router.get('/digest/subscriptions/:id/preview', (req: Request, res: Response) => {
+  try {
+    const { format = 'json' } = req.query;
+
+    if (!digestSubscriptionStore.exists(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Digest subscription not found',
+      });
+    }
+    if (!['json', 'html', 'text'].includes(format as string)) {
+      return res.status(400).json({
+        success: false,
+        error: 'format must be one of json, html, text',
+      });
+    }
+
+    const digest = buildDigest(req.params.id);
+    const email = renderDigest(digest);
+
+    if (format === 'html') {
+      return res.type('html').send(email.html);
+    }
+    if (format === 'text') {
+      return res.type('text').send(email.text);
+    }
+
+    res.json({
+      success: true,
+      data: { ...digest, subject: email.subject },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error previewing digest:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to preview digest',
+    });
+  }
+});
+
+router.post('/digest/subscriptions/:id/send', async (req: Request, res: Response) => {
+  try {
+    if (!digestSubscriptionStore.exists(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Digest subscription not found',
+      });
+    }
+
+    const { digest, mail } = await sendDigest(req.params.id);
+
+    res.json({
+      success: true,
+      data: { messageId: mail.messageId, recipient: digest.recipient, totals: digest.totals },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof SmtpError) {
+      return res.status(502).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    console.error('Error sending digest:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to send digest',
+    });
+  }
+});
+
+// Send every enabled subscriber their digest now, outside the schedule
+router.post('/digest/send', async (req: Request, res: Response) => {
+  try {
+    const results = await sendAllDigests();
+
+    res.json({
+      success: true,
+      data: results,
+      sent: results.filter(r => r.sent).length,
+      failed: results.filter(r => !r.sent).length,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error sending digests:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to send digests',
+    });
+  }
+});
+
+router.get('/digest/schedule', (req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      data: getDigestSchedule(),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching digest schedule:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch digest schedule',
+    });
+  }
+});
+
+router.put('/digest/schedule', (req: Request, res: Response) => {
+  try {
+    const { enabled, sendAt } = req.body;
+    const schedule = updateDigestSchedule({
+      ...(enabled !== undefined && { enabled }),
+      ...(sendAt !== undefined && { sendAt }),
+    });
+
+    res.json({
+      success: true,
+      data: schedule,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof DigestError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    console.error('Error updating digest schedule:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update digest schedule',
+    });
+  }
+});
+
+/**
+ * Take the digest subscription fields from a request body, leaving out any the caller did not send
+ * (null clears the name)
+ */
+function pickDigestSubscriptionFields(body: Record<string, any>) {
+  const fields = ['email', 'name', 'warehouses', 'minSeverity', 'includeRecommendations', 'enabled'] as const;
+  return Object.fromEntries(
+    fields.filter(field => body[field] !== undefined).map(field => [field, field === 'name' && body[field] === null ? undefined : body[field]])
+  );
+}
+
+// Metrics API
+router.get('/metrics', (req: Request, res: Response) => {
+  try {
+    const products = productStore.getAll();
+    const alerts = alertStore.getActive();
+    const criticalAlerts = alertStore.getCritical();
+    const lowStockProducts = productStore.getLowStock();
+    const criticalStockProducts = productStore.getCriticalStock();
+
+    // Get today's events
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const todayEvents = eventStore.getByTimeRange(today, new Date());
+
+    const metrics = {
+      totalProducts: products.length,
+      totalStockValue: productStore.getTotalValue(),
+      activeAlerts: alerts.length,
+      criticalAlerts: criticalAlerts.length,
+      todayTransactions: todayEvents.length,
+      lowStockProducts: lowStockProducts.length,
+      criticalStockProducts: criticalStockProducts.length,
+      averageStockLevel: products.reduce((sum, p) => sum + p.currentStock, 0) / products.length,
+      duplicateEventsSuppressed: getIdempotencyStats().duplicateEventsSuppressed,
+      ...getTransferStats(),
+      ...getReservationStats(),
+      ...getPurchaseOrderStats(),
+      ...getAlertWorkflowStats(),
+      ...getEscalationStats(),
+      ...getIncidentStats(),
+      ...getSuppressionStats(),
+      ...getWebhookStats(),
+    };
+
+    res.json({
+      success: true,
+      data: metrics,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching metrics:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch metrics',
+    });
+  }
+});
+
+// Forecast API
+router.get('/forecast', (req: Request, res: Response) => {
+  try {
+    const { productId, days = '7', model, groupBy } = req.query;
+    const forecastDays = Number(days);
+
+    if (!Number.isInteger(forecastDays) || forecastDays < 1 || forecastDays > MAX_FORECAST_DAYS) {
+      return res.status(400).json({
+        success: false,
+        error: `days must be a whole number from 1 to ${MAX_FORECAST_DAYS}`,
+      });
+    }
+
+    // model overrides each product's forecasting model
+    if (model !== undefined && !isForecastModelName(model)) {
+      return res.status(400).json({
+        success: false,
+        error: `model must be one of ${FORECAST_MODEL_NAMES.join(', ')}`,
+      });
+    }
+
+    // groupBy rolls stock position forecasts up the hierarchy, reconciled so that groups add up
+    if (groupBy !== undefined && !isForecastGroupLevel(groupBy)) {
+      return res.status(400).json({
+        success: false,
+        error: `groupBy must be one of ${FORECAST_GROUP_LEVELS.join(', ')}`,
+      });
+    }
+
+    const products = productStore.getAll();
+    const events = eventStore.getAll();
+    const inbound = getKnownInbound(purchaseOrderStore.getOpen(), transferStore.getInTransit());
+    const calendar = calendarEventStore.getAll();
+
+    if (groupBy) {
+      const hierarchy = generateHierarchicalForecasts(
+        products,
+        stockPositionStore.getAll(),
+        events,
+        forecastDays,
+        purchaseOrderStore.getOnOrderByPosition(),
+        model,
+        inbound,
+        calendar
+      );
+      const groups = hierarchy.groups.filter(g => g.level === groupBy);
+
+      return res.json({
+        success: true,
+        data: groups,
+        count: groups.length,
+        total: hierarchy.groups.find(g => g.level === 'company'),
+        products: hierarchy.products,
+        positions: hierarchy.positions,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    // Generate forecast for specific product or all products
+    if (productId) {
+      const product = productStore.get(productId as string);
+      if (!product) {
+        return res.status(404).json({
+          success: false,
+          error: 'Product not found',
+        });
+      }
+
+      const forecast = calculateForecast(product, events, {
+        daysToForecast: forecastDays,
+        onOrder: purchaseOrderStore.getOnOrderUnits(product.id),
+        inbound: inbound.get(product.id) || [],
+        model,
+        calendar,
+      });
+      recordIssuedForecasts([forecast]);
+
+      res.json({
+        success: true,
+        data: forecast,
+        timestamp: new Date().toISOString(),
+      });
+    } else {
+      const forecasts = generateForecasts(products, events, forecastDays, purchaseOrderStore.getOnOrderByProduct(), model, inbound, calendar);
+      recordIssuedForecasts(forecasts);
+
+      res.json({
+        success: true,
+        data: forecasts,
+        count: forecasts.length,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  } catch (error) {
+    console.error('Error generating forecast:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to generate forecast',
+    });
+  }
+});
+
+// Available forecasting models
+router.get('/forecast/models', (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: FORECAST_MODEL_NAMES.map(name => ({
+      name,
+      description: FORECAST_MODELS[name].description,
+      minHistoryDays: FORECAST_MODELS[name].minHistoryDays,
+      fallback: FORECAST_MODELS[name].fallback,
+      default: name === DEFAULT_FORECAST_MODEL,
+    })),
+    timestamp: new Date().toISOString(),
+  });
+});
+
+// Backtest forecasting models against past demand
+router.get('/forecast/backtest', (req: Request, res: Response) => {
+  try {
+    const { productId, models, cutoffs, stepDays, days, historicalDays } = req.query;
+
+    const modelNames = models ? (models as string).split(',') : undefined;
+    const unknown = modelNames?.find(name => !isForecastModelName(name));
+    if (unknown !== undefined) {
+      return res.status(400).json({
+        success: false,
+        error: `models must be drawn from ${FORECAST_MODEL_NAMES.join(', ')}`,
+      });
+    }
+
+    let products = productStore.getAll();
+    if (productId) {
+      const product = productStore.get(productId as string);
+      if (!product) {
+        return res.status(404).json({
+          success: false,
+          error: 'Product not found',
+        });
+      }
+      products = [product];
+    }
+
+    const result = runBacktest(products, eventStore.getAll(), {
+      models: modelNames?.filter(isForecastModelName),
+      cutoffs: cutoffs ? Number(cutoffs) : undefined,
+      stepDays: stepDays ? Number(stepDays) : undefined,
+      horizonDays: days ? Number(days) : undefined,
+      historicalDays: historicalDays ? Number(historicalDays) : undefined,
+      calendar: calendarEventStore.getAll(),
+    });
+
+    res.json({
+      success: true,
+      data: result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof BacktestError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    console.error('Error running forecast backtest:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to run forecast backtest',
+    });
+  }
+});
+
+// Live accuracy of issued forecasts
+router.get('/forecast/accuracy', (req: Request, res: Response) => {
+  try {
+    const { productId, from, to } = req.query;
+    const toDate = to ? new Date(to as string) : new Date();
+    const fromDate = from ? new Date(from as string) : new Date(toDate.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+    if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime()) || fromDate > toDate) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid time range',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: getLiveAccuracy(eventStore.getAll(), fromDate, toDate, productId as string | undefined),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching forecast accuracy:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch forecast accuracy',
+    });
+  }
+});
+
+// Demand spikes and the calendar events that explain them
+router.get('/forecast/spikes', (req: Request, res: Response) => {
+  try {
+    const { productId, from, to } = req.query;
+    const toDate = to ? new Date(to as string) : new Date();
+    const fromDate = from ? new Date(from as string) : new Date(toDate.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+    if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime()) || fromDate > toDate) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid time range',
+      });
+    }
+
+    let products = productStore.getAll();
+    if (productId) {
+      const product = productStore.get(productId as string);
+      if (!product) {
+        return res.status(404).json({
+          success: false,
+          error: 'Product not found',
+        });
+      }
+      products = [product];
+    }
+
+    const spikes = findDemandSpikes(products, eventStore.getAll(), calendarEventStore.getAll(), fromDate, toDate);
+
+    res.json({
+      success: true,
+      data: spikes,
+      count: spikes.length,
+      unexplained: spikes.filter(s => !s.explained).length,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error finding demand spikes:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to find demand spikes',
+    });
+  }
+});
+
+// Issued forecasts, newest first
+router.get('/forecast/issued', (req: Request, res: Response) => {
+  try {
+    const { productId, limit = '100' } = req.query;
+    const issued = productId ? issuedForecastStore.getByProduct(productId as string) : issuedForecastStore.getAll();
+
+    res.json({
+      success: true,
+      data: issued
+        .sort((a, b) => b.issuedAt.getTime() - a.issuedAt.getTime())
+        .slice(0, parseInt(limit as string)),
+      count: issued.length,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching issued forecasts:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch issued forecasts',
+    });
+  }
+});
+
+// Demand Calendar API (promotions, holidays and planned events)
+router.get('/calendar-events', (req: Request, res: Response) => {
+  try {
+    const { from, to, type } = req.query;
+
+    let events = calendarEventStore.getOverlapping(
+      from ? new Date(from as string) : undefined,
+      to ? new Date(to as string) : undefined
+    );
+
+    if (type) {
+      events = events.filter(e => e.type === type);
+    }
+    events = events.sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+
+    res.json({
+      success: true,
+      data: events,
+      count: events.length,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching calendar events:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch calendar events',
+    });
+  }
+});
+
+router.get('/calendar-events/:id', (req: Request, res: Response) => {
+  try {
+    const event = calendarEventStore.get(req.params.id);
+
+    if (!event) {
+      return res.status(404).json({
+        success: false,
+        error: 'Calendar event not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: event,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching calendar event:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch calendar event',
+    });
+  }
+});
+
+router.post('/calendar-events', (req: Request, res: Response) => {
+  try {
+    const { name, type, skus, categories, upliftPercent, actor } = req.body;
+    const event = createCalendarEvent({
+      name,
+      type,
+      skus,
+      categories,
+      upliftPercent,
+      createdBy: typeof actor === 'string' && actor.trim() !== '' ? actor : undefined,
+      ...parseWindowTimes(req.body),
+    });
+
+    res.status(201).json({
+      success: true,
+      data: event,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof CalendarEventError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    console.error('Error creating calendar event:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create calendar event',
+    });
+  }
+});
+
+router.put('/calendar-events/:id', (req: Request, res: Response) => {
+  try {
+    if (!calendarEventStore.exists(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Calendar event not found',
+      });
+    }
+
+    const { name, type, skus, categories, upliftPercent } = req.body;
+    const event = updateCalendarEvent(req.params.id, {
+      ...(name !== undefined && { name }),
+      ...(type !== undefined && { type }),
+      ...(skus !== undefined && { skus }),
+      ...(categories !== undefined && { categories }),
+      ...(upliftPercent !== undefined && { upliftPercent }),
+      ...parseWindowTimes(req.body),
+    });
+
+    res.json({
+      success: true,
+      data: event,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof CalendarEventError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+
+    console.error('Error updating calendar event:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update calendar event',
+    });
+  }
+});
+
+router.delete('/calendar-events/:id', (req: Request, res: Response) => {
+  try {
+    if (!calendarEventStore.exists(req.params.id)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Calendar event not found',
+      });
+    }
+
+    deleteCalendarEvent(req.params.id);
+
+    res.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error deleting calendar event:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete calendar event',
+    });
+  }
+});
+
+// AI Recommendations API
+router.get('/recommendations', (req: Request, res: Response) => {
+  try {
+    const { productId } = req.query;
+
+    const products = productStore.getAll();
+    const events = eventStore.getAll();
+    const alerts = alertStore.getAll();
+
+    if (productId) {
+      // Get recommendation for specific product
+      const product = productStore.get(productId as string);
+      const recommendation = getProductRecommendation(
+        productId as string,
+        products,
+        events,
+        alerts,
+        purchaseOrderStore.getOpen(),
+        product && supplierStore.getForProduct(product)
+      );
 
       if (!recommendation) {
         return res.json({
@@ -398,7 +3640,13 @@ router.get('/recommendations', (req: Request, res: Response) => {
       });
     } else {
       // Get all recommendations
-      const recommendations = generateRecommendations(products, events, alerts);
+      const recommendations = generateRecommendations(
+        products,
+        events,
+        alerts,
+        purchaseOrderStore.getOpen(),
+        supplierStore.getAll()
+      );
 
       res.json({
         success: true,
@@ -417,4 +3665,216 @@ router.get('/recommendations', (req: Request, res: Response) => {
   }
 });
 
+// Dead Letter Queue API
+router.get('/dlq', (req: Request, res: Response) => {
+  try {
+    const { status, topic, queue, limit = '100' } = req.query;
+
+    let deadLetters = deadLetterStore.getRecent(deadLetterStore.count());
+
+    // Apply filters
+    if (queue) {
+      deadLetters = deadLetters.filter(d => d.queue === queue);
+    }
+    if (status) {
+      deadLetters = deadLetters.filter(d => d.status === status);
+    }
+    if (topic) {
+      deadLetters = deadLetters.filter(d => d.originalTopic === topic);
+    }
+    deadLetters = deadLetters.slice(0, parseInt(limit as string));
+
+    res.json({
+      success: true,
+      data: deadLetters,
+      count: deadLetters.length,
+      stats: getDeadLetterStats(),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching dead letters:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch dead letters',
+    });
+  }
+});
+
+router.get('/dlq/:id', (req: Request, res: Response) => {
+  try {
+    const deadLetter = deadLetterStore.get(req.params.id);
+
+    if (!deadLetter) {
+      return res.status(404).json({
+        success: false,
+        error: 'Dead letter not found',
+      });
+    }
+
+    // Include the parsed payload when it is valid JSON
+    let parsedPayload: unknown = null;
+    try {
+      parsedPayload = JSON.parse(deadLetter.payload);
+    } catch {
+      parsedPayload = null;
+    }
+
+    res.json({
+      success: true,
+      data: { ...deadLetter, parsedPayload },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching dead letter:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch dead letter',
+    });
+  }
+});
+
+router.post('/dlq/redrive', async (req: Request, res: Response) => {
+  try {
+    const { topic } = req.body || {};
+
+    let pending = deadLetterStore.getByStatus('pending');
+    if (topic) {
+      pending = pending.filter(d => d.originalTopic === topic);
+    }
+
+    const redriven = [];
+    for (const deadLetter of pending) {
+      redriven.push(await redriveDeadLetter(deadLetter.id));
+    }
+
+    res.json({
+      success: true,
+      data: redriven,
+      count: redriven.length,
+      message: `Re-drove ${redriven.length} dead letter(s)`,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error re-driving dead letters:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to re-drive dead letters',
+    });
+  }
+});
+
+router.post('/dlq/:id/redrive', async (req: Request, res: Response) => {
+  try {
+    const deadLetter = deadLetterStore.get(req.params.id);
+
+    if (!deadLetter) {
+      return res.status(404).json({
+        success: false,
+        error: 'Dead letter not found',
+      });
+    }
+    if (deadLetter.status === 'discarded') {
+      return res.status(409).json({
+        success: false,
+        error: 'Dead letter has been discarded',
+      });
+    }
+
+    const redriven = await redriveDeadLetter(deadLetter.id);
+
+    res.json({
+      success: true,
+      data: redriven,
+      message: `Dead letter re-driven to ${deadLetter.originalTopic}`,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error re-driving dead letter:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to re-drive dead letter',
+    });
+  }
+});
+
+router.post('/dlq/:id/discard', (req: Request, res: Response) => {
+  try {
+    const deadLetter = discardDeadLetter(req.params.id);
+
+    if (!deadLetter) {
+      return res.status(404).json({
+        success: false,
+        error: 'Dead letter not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: deadLetter,
+      message: 'Dead letter discarded',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error discarding dead letter:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to discard dead letter',
+    });
+  }
+});
+
+// Admin API
+router.get('/admin/drift', (req: Request, res: Response) => {
+  try {
+    const report = eventHandler.getDriftReport();
+
+    res.json({
+      success: true,
+      data: report,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error calculating drift:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to calculate drift',
+    });
+  }
+});
+
+router.post('/admin/rebuild', async (req: Request, res: Response) => {
+  try {
+    const { asOf } = req.body || {};
+    const asOfDate = asOf ? new Date(asOf) : new Date();
+
+    if (isNaN(asOfDate.getTime())) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid asOf timestamp',
+      });
+    }
+
+    const result = await eventHandler.rebuildProjections(asOfDate);
+
+    res.json({
+      success: true,
+      data: result,
+      message: 'Projections rebuilt from event log',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof RebuildError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+    console.error('Error rebuilding projections:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to rebuild projections',
+    });
+  }
+});
+
 export default router;
@@ -9,7 +9,15 @@ import http from 'http';
 import { initProducer, disconnectProducer } from './kafka/producer';
 import { initConsumer, startConsuming, disconnectConsumer } from './kafka/consumer';
 import { startEventGenerator, stopEventGenerator } from './kafka/eventGenerator';
+import { startReservationExpiry, stopReservationExpiry } from './kafka/reservationExpiry';
 import { seedData } from './utils/seed';
+import { installDefaultAlertRules } from './services/AlertRules';
+import { installDefaultEscalationPolicies, startAlertEscalation, stopAlertEscalation } from './services/AlertEscalation';
+import { startWebhookDelivery, stopWebhookDelivery } from './services/Webhooks';
+import { startDigestScheduler, stopDigestScheduler } from './services/AlertDigest';
+import { backfillAlertHistory } from './services/AlertHistory';
+import { productStore, getStorageBackendName } from './stores/InMemoryStore';
+import { closeDatabase } from './stores/SqliteStorageBackend';
 import apiRoutes from './api/routes';
 import { initializeWebSocket } from './services/WebSocketService';
 
@@ -36,8 +44,31 @@ async function main() {
     // Initialize WebSocket
     initializeWebSocket(httpServer);
 
-    // 2. Seed initial data
-    await seedData();
+    // 2. Seed initial data (skipped when durable storage already holds products)
+    const rulesInstalled = installDefaultAlertRules();
+    if (rulesInstalled > 0) {
+      console.log(`✅ Installed ${rulesInstalled} default alert rules`);
+    }
+    const policiesInstalled = installDefaultEscalationPolicies();
+    if (policiesInstalled > 0) {
+      console.log(`✅ Installed ${policiesInstalled} default escalation policies`);
+    }
+
+    if (productStore.count() === 0) {
+      await seedData();
+    } else {
+      console.log(`✅ Loaded ${productStore.count()} products from ${getStorageBackendName()} storage`);
+
+      const backfilled = productStore.backfillPositions();
+      if (backfilled > 0) {
+        console.log(`✅ Created home stock positions for ${backfilled} products`);
+      }
+
+      const historyBackfilled = backfillAlertHistory();
+      if (historyBackfilled > 0) {
+        console.log(`✅ Started alert history from ${historyBackfilled} stored alerts`);
+      }
+    }
 
     // 3. Initialize Kafka infrastructure
     await initProducer();
@@ -52,22 +83,43 @@ async function main() {
       enabled: true,
     });
 
+    // 6. Release reservations whose hold has lapsed
+    startReservationExpiry();
+
+    // 7. Escalate alerts left unacknowledged
+    startAlertEscalation();
+
+    // 8. Retry failed webhook deliveries
+    startWebhookDelivery();
+
+    // 9. Email the daily alert digest
+    startDigestScheduler();
+
     console.log('\n✅ StreamStock AI Backend is running!');
     console.log('📊 Full event-driven architecture active:');
     console.log('   - Express API: Serving HTTP endpoints');
     console.log('   - WebSocket: Real-time event streaming');
     console.log('   - Producer: Generating events');
     console.log('   - Consumer: Processing events');
-    console.log('   - Event Handler: Managing alerts\n');
+    console.log('   - Event Handler: Managing alerts');
+    console.log('   - Reservation Expiry: Releasing lapsed holds');
+    console.log('   - Alert Escalation: Escalating unacknowledged alerts');
+    console.log('   - Webhooks: Delivering alerts and events to subscribers');
+    console.log('   - Digest: Emailing daily alert summaries\n');
 
     // Graceful shutdown
     const shutdown = async () => {
       console.log('\n\n⏹️  Shutting down gracefully...');
       stopEventGenerator();
+      stopReservationExpiry();
+      stopAlertEscalation();
+      stopWebhookDelivery();
+      stopDigestScheduler();
       await disconnectConsumer();
       await disconnectProducer();
       httpServer.close(() => {
         console.log('✅ HTTP server closed');
+        closeDatabase();
         process.exit(0);
       });
     };
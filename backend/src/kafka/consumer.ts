@@ -6,6 +6,9 @@
 import { Kafka, Consumer, EachMessagePayload } from 'kafkajs';
 import { Event } from '../models/types';
 import { eventHandler } from '../services/EventHandler';
+import { withRetry, RetryExhaustedError, DEFAULT_RETRY_POLICY } from './retry';
+import { deadLetterMessage, quarantineMessage } from './deadLetterQueue';
+import { validateEvent, EventValidationError, PermanentEventError } from '../models/eventSchema';
 
 // Kafka configuration
 const kafka = new Kafka({
@@ -41,6 +44,9 @@ export async function initConsumer(): Promise<Consumer> {
       'inventory.restocks',
       'inventory.returns',
       'inventory.alerts',
+      'inventory.transfers',
+      'inventory.adjustments',
+      'inventory.reservations',
     ],
     fromBeginning: false, // Only process new messages
   });
@@ -71,37 +77,83 @@ export async function startConsuming(): Promise<void> {
  * Process individual message
  */
 async function processMessage(payload: EachMessagePayload): Promise<void> {
-  const { topic, partition, message } = payload;
+  const { topic, message } = payload;
 
+  // Parse message (malformed payloads can never succeed, so they are quarantined without retries)
+  let parsed: unknown;
   try {
-    // Parse message
-    const event: Event = JSON.parse(message.value?.toString() || '{}');
+    parsed = JSON.parse(message.value?.toString() || '');
+  } catch (error) {
+    console.error(`❌ Unparseable message from ${topic}:`, error);
+    await quarantineMessage(payload, error, [
+      { field: '(root)', message: `is not valid JSON: ${(error as Error).message}` },
+    ]);
+    return;
+  }
 
-    console.log(
-      `📥 [${topic}] Received: ${event.type} - ${event.productId} (${event.quantity} units)`
-    );
+  // Validate against the event schema before anything touches stock
+  const validation = validateEvent(parsed);
+  if (!validation.valid) {
+    const error = new EventValidationError(validation.errors);
+    console.error(`❌ Invalid event from ${topic}: ${error.message}`);
+    await quarantineMessage(payload, error, validation.errors);
+    return;
+  }
+  const event: Event = validation.event;
 
-    // Process event through event handler
-    await eventHandler.processEvent(event);
-
-    // Additional topic-specific processing
-    switch (topic) {
-      case 'inventory.sales':
-        await processSaleEvent(event);
-        break;
-      case 'inventory.restocks':
-        await processRestockEvent(event);
-        break;
-      case 'inventory.returns':
-        await processReturnEvent(event);
-        break;
-      case 'inventory.alerts':
-        await processAlertEvent(event);
-        break;
-    }
+  console.log(
+    `📥 [${topic}] Received: ${event.type} - ${event.productId} (${event.quantity} units)`
+  );
+
+  try {
+    // An event that doesn't fit the current state (e.g. its transfer or reservation) will not succeed on retry
+    await withRetry(
+      () => handleEvent(topic, event),
+      DEFAULT_RETRY_POLICY,
+      (error) => !(error instanceof PermanentEventError)
+    );
   } catch (error) {
-    console.error(`❌ Error processing message from ${topic}:`, error);
-    // In production, you might want to send to a dead letter queue
+    const exhausted = error as RetryExhaustedError;
+    console.error(`❌ Error processing message from ${topic}:`, exhausted.lastError);
+    await deadLetterMessage(
+      payload,
+      exhausted.lastError,
+      exhausted.attempts,
+      !(exhausted.lastError instanceof PermanentEventError)
+    );
+  }
+}
+
+/**
+ * Handle a parsed event (retried as a unit on failure)
+ */
+async function handleEvent(topic: string, event: Event): Promise<void> {
+  // Process event through event handler
+  await eventHandler.processEvent(event);
+
+  // Additional topic-specific processing
+  switch (topic) {
+    case 'inventory.sales':
+      await processSaleEvent(event);
+      break;
+    case 'inventory.restocks':
+      await processRestockEvent(event);
+      break;
+    case 'inventory.returns':
+      await processReturnEvent(event);
+      break;
+    case 'inventory.alerts':
+      await processAlertEvent(event);
+      break;
+    case 'inventory.transfers':
+      await processTransferEvent(event);
+      break;
+    case 'inventory.adjustments':
+      await processAdjustmentEvent(event);
+      break;
+    case 'inventory.reservations':
+      await processReservationEvent(event);
+      break;
   }
 }
 
@@ -111,6 +163,9 @@ async function processMessage(payload: EachMessagePayload): Promise<void> {
 async function processSaleEvent(event: Event): Promise<void> {
   // Sale-specific logic could go here
   // For now, handled by eventHandler.processEvent
+  if (event.reservation) {
+    console.log(`   🛒 Reservation ${event.reservation.reservationId} fulfilled: ${event.quantity} units`);
+  }
 }
 
 /**
@@ -119,6 +174,9 @@ async function processSaleEvent(event: Event): Promise<void> {
 async function processRestockEvent(event: Event): Promise<void> {
   // Restock-specific logic
   console.log(`   ✅ Stock replenished: ${event.quantity} units`);
+  if (event.purchaseOrder) {
+    console.log(`   🧾 Received against purchase order ${event.purchaseOrder.purchaseOrderId}`);
+  }
 }
 
 /**
@@ -137,6 +195,37 @@ async function processAlertEvent(event: Event): Promise<void> {
   console.log(`   🚨 Alert event processed`);
 }
 
+/**
+ * Process transfer event
+ */
+async function processTransferEvent(event: Event): Promise<void> {
+  // Transfer-specific logic
+  const { transferId, fromWarehouse, toWarehouse, status } = event.transfer!;
+  console.log(`   🚚 Transfer ${transferId} ${status}: ${event.quantity} units ${fromWarehouse} → ${toWarehouse}`);
+}
+
+/**
+ * Process adjustment event
+ */
+async function processAdjustmentEvent(event: Event): Promise<void> {
+  // Adjustment-specific logic
+  const { reason, direction } = event.adjustment!;
+  console.log(`   📝 Adjustment (${reason}): ${direction === 'INCREASE' ? '+' : '-'}${event.quantity} units at ${event.warehouse}`);
+}
+
+/**
+ * Process reservation event
+ */
+async function processReservationEvent(event: Event): Promise<void> {
+  // Reservation-specific logic
+  const { reservationId, reason } = event.reservation!;
+  if (event.type === 'RESERVE') {
+    console.log(`   🔒 Reservation ${reservationId}: ${event.quantity} units held at ${event.warehouse}`);
+  } else {
+    console.log(`   🔓 Reservation ${reservationId} ${reason}: ${event.quantity} units released at ${event.warehouse}`);
+  }
+}
+
 /**
  * Stop consuming messages
  */
@@ -0,0 +1,145 @@
+/**
+ * Dead Letter Queue for StreamStock AI
+ * Records messages the consumer could not process (dead letters) or rejected
+ * as malformed (quarantine), and re-drives them on demand
+ */
+
+import { EachMessagePayload } from 'kafkajs';
+import { v4 as uuidv4 } from 'uuid';
+import { DeadLetter, DeadLetterQueue } from '../models/types';
+import { FieldError } from '../models/eventSchema';
+import { deadLetterStore } from '../stores/InMemoryStore';
+import { sendToDeadLetterTopic, republishMessage } from './producer';
+
+// Header linking a re-driven message back to its dead letter
+const DLQ_ID_HEADER = 'dlq-id';
+
+/**
+ * Dead-letter a message that failed processing
+ */
+export async function deadLetterMessage(
+  payload: EachMessagePayload,
+  error: unknown,
+  attempts: number,
+  retryable: boolean
+): Promise<DeadLetter> {
+  return recordFailure(payload, 'dlq', error, attempts, retryable);
+}
+
+/**
+ * Quarantine a message rejected by schema validation (or not parseable at all)
+ */
+export async function quarantineMessage(
+  payload: EachMessagePayload,
+  error: unknown,
+  validationErrors: FieldError[]
+): Promise<DeadLetter> {
+  return recordFailure(payload, 'quarantine', error, 1, false, validationErrors);
+}
+
+/**
+ * Record a failed message and publish it to its queue's topic
+ * A message that was itself re-driven updates its existing dead letter instead of creating a new one
+ */
+async function recordFailure(
+  payload: EachMessagePayload,
+  queue: DeadLetterQueue,
+  error: unknown,
+  attempts: number,
+  retryable: boolean,
+  validationErrors?: FieldError[]
+): Promise<DeadLetter> {
+  const { topic, partition, message } = payload;
+  const redriveOf = message.headers?.[DLQ_ID_HEADER]?.toString();
+  const existing = redriveOf ? deadLetterStore.get(redriveOf) : undefined;
+
+  const failure = {
+    queue,
+    errorType: error instanceof Error ? error.name : 'UnknownError',
+    errorMessage: error instanceof Error ? error.message : String(error),
+    retryable,
+    validationErrors,
+    failedAt: new Date(),
+    status: 'pending' as const,
+  };
+
+  const deadLetter: DeadLetter = existing
+    ? { ...existing, ...failure, attempts: existing.attempts + attempts }
+    : {
+        id: uuidv4(),
+        originalTopic: topic,
+        partition,
+        offset: message.offset,
+        key: message.key?.toString(),
+        payload: message.value?.toString() || '',
+        attempts,
+        redriveCount: 0,
+        ...failure,
+      };
+
+  deadLetterStore.create(deadLetter);
+  console.error(
+    queue === 'quarantine'
+      ? `🚧 Quarantined message from ${topic}: ${deadLetter.errorMessage}`
+      : `☠️  Dead-lettered message from ${topic} after ${attempts} attempt(s): ${deadLetter.errorMessage}`
+  );
+
+  try {
+    await sendToDeadLetterTopic(deadLetter);
+  } catch (publishError) {
+    // The dead letter is still kept locally and can be re-driven from the API
+    console.error('❌ Failed to publish to dead letter topic:', publishError);
+  }
+
+  return deadLetter;
+}
+
+/**
+ * Re-drive a pending dead letter by re-publishing its original payload to its original topic
+ */
+export async function redriveDeadLetter(id: string): Promise<DeadLetter | undefined> {
+  const deadLetter = deadLetterStore.get(id);
+  if (!deadLetter) return undefined;
+
+  await republishMessage(deadLetter.originalTopic, deadLetter.key, deadLetter.payload, {
+    [DLQ_ID_HEADER]: deadLetter.id,
+  });
+
+  console.log(`♻️  Re-drove dead letter ${id} to ${deadLetter.originalTopic}`);
+
+  return deadLetterStore.update(id, {
+    status: 'redriven',
+    redrivenAt: new Date(),
+    redriveCount: deadLetter.redriveCount + 1,
+  });
+}
+
+/**
+ * Discard a dead letter that should never be re-driven
+ */
+export function discardDeadLetter(id: string): DeadLetter | undefined {
+  return deadLetterStore.update(id, { status: 'discarded' });
+}
+
+/**
+ * Get dead letter counts by status and topic
+ */
+export function getDeadLetterStats() {
+  const deadLetters = deadLetterStore.getAll();
+  const byTopic: Record<string, number> = {};
+
+  deadLetters
+    .filter(d => d.status === 'pending')
+    .forEach(d => {
+      byTopic[d.originalTopic] = (byTopic[d.originalTopic] || 0) + 1;
+    });
+
+  return {
+    total: deadLetters.length,
+    quarantined: deadLetters.filter(d => d.queue === 'quarantine' && d.status === 'pending').length,
+    pending: deadLetters.filter(d => d.status === 'pending').length,
+    redriven: deadLetters.filter(d => d.status === 'redriven').length,
+    discarded: deadLetters.filter(d => d.status === 'discarded').length,
+    pendingByTopic: byTopic,
+  };
+}
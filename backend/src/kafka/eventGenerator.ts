@@ -4,7 +4,7 @@
  */
 
 import { v4 as uuidv4 } from 'uuid';
-import { Event, EventType, Product } from '../models/types';
+import { Event, EventType, Product, StockPosition } from '../models/types';
 import { productStore } from '../stores/InMemoryStore';
 import { sendEvent } from './producer';
 
@@ -94,10 +94,17 @@ async function generateAndSendEvent(): Promise<void> {
       return;
     }
 
-    // Select random product (weighted by stock level for sales)
+    // Select random product (weighted by stock level for sales) and one of its warehouses
     const product = selectRandomProduct(products);
+    const positions = productStore.getPositions(product.id);
+    const position = positions[Math.floor(Math.random() * positions.length)];
+    if (!position) {
+      console.warn(`⚠️  ${product.name} is not stocked at any warehouse`);
+      return;
+    }
+
     const eventType = selectEventType();
-    const event = createEvent(product, eventType);
+    const event = createEvent(product, position, eventType);
 
     // Send to Kafka
     await sendEvent(event);
@@ -131,15 +138,15 @@ function selectEventType(): EventType {
 /**
  * Create event object
  */
-function createEvent(product: Product, eventType: EventType): Event {
-  const quantity = generateQuantity(eventType, product);
+function createEvent(product: Product, position: StockPosition, eventType: EventType): Event {
+  const quantity = generateQuantity(eventType, position);
 
   return {
-    id: `EVT-${String(++eventCounter).padStart(8, '0')}`,
+    id: `EVT-${uuidv4()}`,
     type: eventType,
     productId: product.id,
     quantity,
-    warehouse: product.warehouse,
+    warehouse: position.warehouse,
     timestamp: new Date(),
     metadata: {
       generated: true,
@@ -150,19 +157,19 @@ function createEvent(product: Product, eventType: EventType): Event {
 }
 
 /**
- * Generate quantity based on event type and product state
+ * Generate quantity based on event type and stock position state
  */
-function generateQuantity(eventType: EventType, product: Product): number {
+function generateQuantity(eventType: EventType, position: StockPosition): number {
   switch (eventType) {
     case 'SALE':
       // Sales: 1-10 units, but not more than current stock
-      const maxSale = Math.min(10, product.currentStock);
+      const maxSale = Math.min(10, position.currentStock);
       return Math.floor(Math.random() * maxSale) + 1;
 
     case 'RESTOCK':
       // Restock: Enough to reach ~70% of max capacity
-      const targetStock = product.maxCapacity * 0.7;
-      const neededStock = Math.max(100, targetStock - product.currentStock);
+      const targetStock = position.maxCapacity * 0.7;
+      const neededStock = Math.max(100, targetStock - position.currentStock);
       return Math.floor(neededStock);
 
     case 'RETURN':
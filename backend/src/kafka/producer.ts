@@ -4,7 +4,14 @@
  */
 
 import { Kafka, Producer, ProducerRecord } from 'kafkajs';
-import { Event } from '../models/types';
+import { Event, DeadLetter } from '../models/types';
+import { assertValidEvent, EVENT_SCHEMA_VERSION } from '../models/eventSchema';
+
+// Topic carrying messages the consumer could not process
+export const DEAD_LETTER_TOPIC = 'inventory.dlq';
+
+// Topic carrying messages rejected by schema validation
+export const QUARANTINE_TOPIC = 'inventory.quarantine';
 
 // Kafka configuration
 const kafka = new Kafka({
@@ -43,6 +50,9 @@ export async function sendEvent(event: Event): Promise<void> {
     throw new Error('Producer not initialized. Call initProducer() first.');
   }
 
+  // Reject malformed events before they reach Kafka
+  assertValidEvent(event);
+
   // Determine topic based on event type
   const topic = getTopicForEventType(event.type);
 
@@ -51,7 +61,7 @@ export async function sendEvent(event: Event): Promise<void> {
     messages: [
       {
         key: event.productId, // Partition by product ID
-        value: JSON.stringify(event),
+        value: serializeEvent(event),
         timestamp: event.timestamp.getTime().toString(),
       },
     ],
@@ -74,6 +84,9 @@ export async function sendEventBatch(events: Event[]): Promise<void> {
     throw new Error('Producer not initialized. Call initProducer() first.');
   }
 
+  // Reject the whole batch if any event is malformed
+  events.forEach(event => assertValidEvent(event));
+
   // Group events by topic
   const eventsByTopic: Record<string, Event[]> = {};
 
@@ -89,7 +102,7 @@ export async function sendEventBatch(events: Event[]): Promise<void> {
   const promises = Object.entries(eventsByTopic).map(async ([topic, topicEvents]) => {
     const messages = topicEvents.map((event) => ({
       key: event.productId,
-      value: JSON.stringify(event),
+      value: serializeEvent(event),
       timestamp: event.timestamp.getTime().toString(),
     }));
 
@@ -100,6 +113,60 @@ export async function sendEventBatch(events: Event[]): Promise<void> {
   await Promise.all(promises);
 }
 
+/**
+ * Publish a failed message to the dead letter topic with its error metadata
+ */
+export async function sendToDeadLetterTopic(deadLetter: DeadLetter): Promise<void> {
+  if (!producer) {
+    throw new Error('Producer not initialized. Call initProducer() first.');
+  }
+
+  const topic = deadLetter.queue === 'quarantine' ? QUARANTINE_TOPIC : DEAD_LETTER_TOPIC;
+
+  await producer.send({
+    topic,
+    messages: [
+      {
+        key: deadLetter.key ?? null,
+        value: JSON.stringify(deadLetter),
+        headers: {
+          'dlq-id': deadLetter.id,
+          'original-topic': deadLetter.originalTopic,
+          'error-type': deadLetter.errorType,
+        },
+      },
+    ],
+  });
+  console.log(`📤 Message dead-lettered to ${topic}: ${deadLetter.id}`);
+}
+
+/**
+ * Re-publish an original message payload to its topic (used to re-drive dead letters)
+ */
+export async function republishMessage(
+  topic: string,
+  key: string | undefined,
+  value: string,
+  headers: Record<string, string> = {}
+): Promise<void> {
+  if (!producer) {
+    throw new Error('Producer not initialized. Call initProducer() first.');
+  }
+
+  await producer.send({
+    topic,
+    messages: [{ key: key ?? null, value, headers }],
+  });
+  console.log(`📤 Message re-published to ${topic}`);
+}
+
+/**
+ * Serialize an event stamped with the current schema version
+ */
+function serializeEvent(event: Event): string {
+  return JSON.stringify({ ...event, schemaVersion: EVENT_SCHEMA_VERSION });
+}
+
 /**
  * Get Kafka topic for event type
  */
@@ -113,6 +180,13 @@ function getTopicForEventType(eventType: Event['type']): string {
       return 'inventory.returns';
     case 'ALERT':
       return 'inventory.alerts';
+    case 'TRANSFER':
+      return 'inventory.transfers';
+    case 'ADJUSTMENT':
+      return 'inventory.adjustments';
+    case 'RESERVE':
+    case 'RELEASE':
+      return 'inventory.reservations';
     default:
       return 'inventory.events';
   }
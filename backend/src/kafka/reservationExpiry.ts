@@ -0,0 +1,68 @@
+/**
+ * Reservation Expiry for StreamStock AI
+ * Periodically releases reservations whose hold has lapsed back into available stock
+ */
+
+import { getExpiryEvents } from '../services/Reservations';
+import { reservationStore } from '../stores/InMemoryStore';
+import { sendEvent } from './producer';
+
+// How often to look for lapsed reservations
+const EXPIRY_CHECK_INTERVAL_MS = 30 * 1000;
+
+let expiryInterval: NodeJS.Timeout | null = null;
+
+// Reservations whose RELEASE was published but not yet consumed, so they are not released twice
+const pendingRelease = new Set<string>();
+
+/**
+ * Start releasing expired reservations
+ */
+export function startReservationExpiry(intervalMs: number = EXPIRY_CHECK_INTERVAL_MS): void {
+  if (expiryInterval) {
+    console.log('⚠️  Reservation expiry already running');
+    return;
+  }
+
+  console.log(`⏳ Releasing expired reservations every ${Math.round(intervalMs / 1000)}s`);
+
+  expiryInterval = setInterval(async () => {
+    await releaseExpiredReservations();
+  }, intervalMs);
+}
+
+/**
+ * Stop releasing expired reservations
+ */
+export function stopReservationExpiry(): void {
+  if (expiryInterval) {
+    clearInterval(expiryInterval);
+    expiryInterval = null;
+    console.log('⏹️  Reservation expiry stopped');
+  }
+}
+
+/**
+ * Publish a RELEASE event for each reservation whose hold has lapsed
+ */
+export async function releaseExpiredReservations(asOf: Date = new Date()): Promise<number> {
+  pendingRelease.forEach(id => {
+    if (reservationStore.get(id)?.status !== 'ACTIVE') pendingRelease.delete(id);
+  });
+
+  const events = getExpiryEvents(asOf).filter(e => !pendingRelease.has(e.reservation!.reservationId));
+  let released = 0;
+
+  for (const event of events) {
+    try {
+      await sendEvent(event);
+      pendingRelease.add(event.reservation!.reservationId);
+      released++;
+    } catch (error) {
+      // Left active; retried on the next check
+      console.error(`❌ Failed to release expired reservation ${event.reservation!.reservationId}:`, error);
+    }
+  }
+
+  return released;
+}
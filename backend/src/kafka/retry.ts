@@ -0,0 +1,65 @@
+/**
+ * Retry Policy for StreamStock AI
+ * Exponential backoff for transient event processing failures
+ */
+
+export interface RetryPolicy {
+  maxAttempts: number; // Total attempts including the first one
+  initialDelayMs: number;
+  backoffMultiplier: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: parseInt(process.env.CONSUMER_MAX_ATTEMPTS || '4'),
+  initialDelayMs: 200,
+  backoffMultiplier: 2,
+  maxDelayMs: 5000,
+};
+
+/**
+ * Raised when all attempts are used up or the error is not retryable
+ */
+export class RetryExhaustedError extends Error {
+  constructor(public attempts: number, public lastError: unknown) {
+    super(`Failed after ${attempts} attempt(s): ${lastError instanceof Error ? lastError.message : String(lastError)}`);
+    this.name = 'RetryExhaustedError';
+  }
+}
+
+/**
+ * Delay before the given retry (1-based), capped at maxDelayMs
+ */
+export function getRetryDelay(retry: number, policy: RetryPolicy = DEFAULT_RETRY_POLICY): number {
+  const delay = policy.initialDelayMs * Math.pow(policy.backoffMultiplier, retry - 1);
+  return Math.min(delay, policy.maxDelayMs);
+}
+
+/**
+ * Run an operation, retrying with exponential backoff
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  isRetryable: (error: unknown) => boolean = () => true
+): Promise<T> {
+  let lastError: unknown;
+
+  for (let attempt = 1; attempt <= policy.maxAttempts; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      lastError = error;
+
+      if (!isRetryable(error) || attempt === policy.maxAttempts) {
+        throw new RetryExhaustedError(attempt, error);
+      }
+
+      const delay = getRetryDelay(attempt, policy);
+      console.warn(`   🔁 Attempt ${attempt} failed, retrying in ${delay}ms...`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+
+  throw new RetryExhaustedError(policy.maxAttempts, lastError);
+}
@@ -0,0 +1,285 @@
+/**
+ * Versioned Event Schema for StreamStock AI
+ * Single source of truth for validating events at the REST API, producer and consumer
+ */
+
+import { Event, EventType, TransferStatus, AdjustmentReason, AdjustmentDirection, ReleaseReason } from './types';
+
+// Version history:
+//   1 - SALE, RESTOCK, RETURN, ALERT
+//   2 - TRANSFER events with transfer details
+//   3 - ADJUSTMENT events with reason codes
+//   4 - RESERVE / RELEASE events, reservation details on SALE events
+//   5 - purchase order details on RESTOCK events
+export const EVENT_SCHEMA_VERSION = 5;
+
+export const EVENT_TYPES: EventType[] = ['SALE', 'RESTOCK', 'RETURN', 'ALERT', 'TRANSFER', 'ADJUSTMENT', 'RESERVE', 'RELEASE'];
+
+export const TRANSFER_STATUSES: TransferStatus[] = ['IN_TRANSIT', 'RECEIVED', 'CANCELLED'];
+
+export const ADJUSTMENT_REASONS: AdjustmentReason[] = ['DAMAGE', 'THEFT', 'COUNT_CORRECTION', 'EXPIRY'];
+
+export const ADJUSTMENT_DIRECTIONS: AdjustmentDirection[] = ['INCREASE', 'DECREASE'];
+
+// Only a count correction can add stock; damage, theft and expiry always remove it
+export const STOCK_LOSS_REASONS: AdjustmentReason[] = ['DAMAGE', 'THEFT', 'EXPIRY'];
+
+export const RELEASE_REASONS: ReleaseReason[] = ['CANCELLED', 'EXPIRED'];
+
+// Event types that may carry reservation details (a SALE carrying them fulfils the reservation)
+const RESERVATION_EVENT_TYPES: EventType[] = ['RESERVE', 'RELEASE', 'SALE'];
+
+// Upper bound on a single event's quantity, to catch unit mistakes
+export const MAX_EVENT_QUANTITY = 1_000_000;
+
+export interface FieldError {
+  field: string;
+  message: string;
+  received?: unknown;
+}
+
+export type EventValidationResult =
+  | { valid: true; event: Event }
+  | { valid: false; errors: FieldError[] };
+
+/**
+ * Raised when a valid event cannot be applied in the current state and never will be,
+ * so consumers dead-letter it at once rather than retrying it
+ */
+export class PermanentEventError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentEventError';
+  }
+}
+
+/**
+ * Raised when an event does not match the schema
+ */
+export class EventValidationError extends Error {
+  constructor(public errors: FieldError[]) {
+    super(`Invalid event: ${errors.map(e => `${e.field} ${e.message}`).join('; ')}`);
+    this.name = 'EventValidationError';
+  }
+}
+
+/**
+ * Validate an untrusted value against the Event schema.
+ * On success the returned event has its timestamp normalized to a Date.
+ */
+export function validateEvent(input: unknown): EventValidationResult {
+  if (!isPlainObject(input)) {
+    return { valid: false, errors: [{ field: '(root)', message: 'must be an object', received: typeOf(input) }] };
+  }
+
+  const errors: FieldError[] = [];
+
+  // Schema version (optional for events produced before versioning)
+  if (input.schemaVersion !== undefined) {
+    if (!Number.isInteger(input.schemaVersion) || (input.schemaVersion as number) < 1) {
+      errors.push({ field: 'schemaVersion', message: 'must be a positive integer', received: input.schemaVersion });
+    } else if ((input.schemaVersion as number) > EVENT_SCHEMA_VERSION) {
+      errors.push({
+        field: 'schemaVersion',
+        message: `is not supported (latest supported version is ${EVENT_SCHEMA_VERSION})`,
+        received: input.schemaVersion,
+      });
+    }
+  }
+
+  requireNonEmptyString(input, 'id', errors);
+  requireNonEmptyString(input, 'productId', errors);
+  requireNonEmptyString(input, 'warehouse', errors);
+
+  if (!EVENT_TYPES.includes(input.type as EventType)) {
+    errors.push({ field: 'type', message: `must be one of ${EVENT_TYPES.join(', ')}`, received: input.type });
+  }
+
+  const quantity = input.quantity;
+  if (typeof quantity !== 'number' || !Number.isFinite(quantity)) {
+    errors.push({ field: 'quantity', message: 'must be a number', received: typeOf(quantity) });
+  } else if (!Number.isInteger(quantity)) {
+    errors.push({ field: 'quantity', message: 'must be a whole number of units', received: quantity });
+  } else if (quantity <= 0) {
+    errors.push({ field: 'quantity', message: 'must be greater than 0', received: quantity });
+  } else if (quantity > MAX_EVENT_QUANTITY) {
+    errors.push({ field: 'quantity', message: `must not exceed ${MAX_EVENT_QUANTITY}`, received: quantity });
+  }
+
+  const timestamp = parseTimestamp(input.timestamp);
+  if (!timestamp) {
+    errors.push({ field: 'timestamp', message: 'must be a valid ISO 8601 date', received: input.timestamp });
+  }
+
+  if (input.metadata !== undefined && !isPlainObject(input.metadata)) {
+    errors.push({ field: 'metadata', message: 'must be an object', received: typeOf(input.metadata) });
+  }
+
+  if (input.type === 'TRANSFER') {
+    validateTransfer(input, errors);
+  } else if (input.transfer !== undefined) {
+    errors.push({ field: 'transfer', message: 'is only allowed on TRANSFER events', received: input.type });
+  }
+
+  if (input.type === 'ADJUSTMENT') {
+    validateAdjustment(input, errors);
+  } else if (input.adjustment !== undefined) {
+    errors.push({ field: 'adjustment', message: 'is only allowed on ADJUSTMENT events', received: input.type });
+  }
+
+  if (input.type === 'RESERVE' || input.type === 'RELEASE' || (input.type === 'SALE' && input.reservation !== undefined)) {
+    validateReservation(input, errors);
+  } else if (input.reservation !== undefined) {
+    errors.push({
+      field: 'reservation',
+      message: `is only allowed on ${RESERVATION_EVENT_TYPES.join(', ')} events`,
+      received: input.type,
+    });
+  }
+
+  if (input.purchaseOrder !== undefined) {
+    if (input.type !== 'RESTOCK') {
+      errors.push({ field: 'purchaseOrder', message: 'is only allowed on RESTOCK events', received: input.type });
+    } else if (!isPlainObject(input.purchaseOrder)) {
+      errors.push({ field: 'purchaseOrder', message: 'must be an object', received: typeOf(input.purchaseOrder) });
+    } else {
+      requireNonEmptyString(input.purchaseOrder, 'purchaseOrderId', errors, 'purchaseOrder.purchaseOrderId');
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    event: { ...(input as unknown as Event), timestamp: timestamp! },
+  };
+}
+
+/**
+ * Validate an event, throwing EventValidationError if it does not match the schema
+ */
+export function assertValidEvent(input: unknown): Event {
+  const result = validateEvent(input);
+  if (!result.valid) {
+    throw new EventValidationError(result.errors);
+  }
+  return result.event;
+}
+
+function validateTransfer(input: Record<string, unknown>, errors: FieldError[]): void {
+  const transfer = input.transfer;
+  if (!isPlainObject(transfer)) {
+    errors.push({ field: 'transfer', message: 'is required for TRANSFER events', received: typeOf(transfer) });
+    return;
+  }
+
+  const before = errors.length;
+  ['transferId', 'fromWarehouse', 'toWarehouse'].forEach(field => {
+    const value = transfer[field];
+    if (typeof value !== 'string' || value.trim() === '') {
+      errors.push({ field: `transfer.${field}`, message: 'must be a non-empty string', received: typeof value === 'string' ? value : typeOf(value) });
+    }
+  });
+
+  if (!TRANSFER_STATUSES.includes(transfer.status as TransferStatus)) {
+    errors.push({ field: 'transfer.status', message: `must be one of ${TRANSFER_STATUSES.join(', ')}`, received: transfer.status });
+  }
+
+  if (errors.length === before && transfer.fromWarehouse === transfer.toWarehouse) {
+    errors.push({ field: 'transfer.toWarehouse', message: 'must differ from transfer.fromWarehouse', received: transfer.toWarehouse });
+  }
+}
+
+function validateAdjustment(input: Record<string, unknown>, errors: FieldError[]): void {
+  const adjustment = input.adjustment;
+  if (!isPlainObject(adjustment)) {
+    errors.push({ field: 'adjustment', message: 'is required for ADJUSTMENT events', received: typeOf(adjustment) });
+    return;
+  }
+
+  const reason = adjustment.reason as AdjustmentReason;
+  if (!ADJUSTMENT_REASONS.includes(reason)) {
+    errors.push({ field: 'adjustment.reason', message: `must be one of ${ADJUSTMENT_REASONS.join(', ')}`, received: adjustment.reason });
+  }
+
+  const direction = adjustment.direction as AdjustmentDirection;
+  if (!ADJUSTMENT_DIRECTIONS.includes(direction)) {
+    errors.push({ field: 'adjustment.direction', message: `must be one of ${ADJUSTMENT_DIRECTIONS.join(', ')}`, received: adjustment.direction });
+  } else if (direction === 'INCREASE' && STOCK_LOSS_REASONS.includes(reason)) {
+    errors.push({ field: 'adjustment.direction', message: `must be DECREASE for ${reason} adjustments`, received: direction });
+  }
+
+  ['cycleCountId', 'notes'].forEach(field => {
+    if (adjustment[field] !== undefined && typeof adjustment[field] !== 'string') {
+      errors.push({ field: `adjustment.${field}`, message: 'must be a string', received: typeOf(adjustment[field]) });
+    }
+  });
+}
+
+function validateReservation(input: Record<string, unknown>, errors: FieldError[]): void {
+  const reservation = input.reservation;
+  if (!isPlainObject(reservation)) {
+    errors.push({ field: 'reservation', message: `is required for ${input.type} events`, received: typeOf(reservation) });
+    return;
+  }
+
+  const id = reservation.reservationId;
+  if (typeof id !== 'string' || id.trim() === '') {
+    errors.push({ field: 'reservation.reservationId', message: 'must be a non-empty string', received: typeof id === 'string' ? id : typeOf(id) });
+  }
+
+  if (input.type === 'RESERVE') {
+    if (typeof reservation.expiresAt !== 'string' || !parseTimestamp(reservation.expiresAt)) {
+      errors.push({ field: 'reservation.expiresAt', message: 'must be a valid ISO 8601 date', received: reservation.expiresAt });
+    }
+  } else if (reservation.expiresAt !== undefined) {
+    errors.push({ field: 'reservation.expiresAt', message: 'is only allowed on RESERVE events', received: input.type });
+  }
+
+  if (input.type === 'RELEASE') {
+    if (!RELEASE_REASONS.includes(reservation.reason as ReleaseReason)) {
+      errors.push({ field: 'reservation.reason', message: `must be one of ${RELEASE_REASONS.join(', ')}`, received: reservation.reason });
+    }
+  } else if (reservation.reason !== undefined) {
+    errors.push({ field: 'reservation.reason', message: 'is only allowed on RELEASE events', received: input.type });
+  }
+
+  if (reservation.orderId !== undefined && typeof reservation.orderId !== 'string') {
+    errors.push({ field: 'reservation.orderId', message: 'must be a string', received: typeOf(reservation.orderId) });
+  }
+}
+
+function requireNonEmptyString(
+  input: Record<string, unknown>,
+  field: string,
+  errors: FieldError[],
+  path: string = field
+): void {
+  const value = input[field];
+  if (typeof value !== 'string' || value.trim() === '') {
+    errors.push({ field: path, message: 'must be a non-empty string', received: typeof value === 'string' ? value : typeOf(value) });
+  }
+}
+
+function parseTimestamp(value: unknown): Date | null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value;
+  }
+  if (typeof value === 'string') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
@@ -11,19 +11,129 @@ export interface Product {
   sku: string;
   name: string;
   category: string;
-  warehouse: string;
-  currentStock: number;
+  warehouse: string; // Home warehouse
+  // Totals across the product's stock positions (see StockPosition)
+  currentStock: number; // On hand
+  reserved: number;
+  available: number;
   reorderPoint: number;
   maxCapacity: number;
   unitPrice: number;
+  supplierId?: string; // Supplier the product is replenished from
+  forecastModel?: ForecastModelName; // Demand forecasting model (default FORECAST_MODEL)
   predictedStock7d: number;
   lastUpdated: Date;
 }
 
+// Demand forecasting models (see services/ForecastModels.ts)
+export type ForecastModelName = 'sma' | 'ses' | 'holt' | 'holt-winters';
+
+// 80% and 95% prediction interval bounds (see services/Forecasting.ts)
+export interface PredictionInterval {
+  lower80: number;
+  upper80: number;
+  lower95: number;
+  upper95: number;
+}
+
+export interface DemandPoint extends PredictionInterval {
+  date: string;
+  demand: number; // Forecast units sold less units returned
+  baseDemand?: number; // Forecast before calendar adjustments, on days a calendar event applies
+}
+
+// A demand forecast as served, kept to measure live accuracy (see services/ForecastAccuracy.ts)
+export interface IssuedForecast {
+  id: string; // One per product, model and day issued
+  productId: string;
+  model: ForecastModelName; // Model used, after falling back for short history
+  issuedAt: Date;
+  demand: DemandPoint[];
+}
+
+// ============================================================================
+// Demand Calendar Entity (promotions, holidays and planned events, see services/DemandCalendar.ts)
+// ============================================================================
+export type CalendarEventType = 'PROMOTION' | 'HOLIDAY' | 'EVENT';
+
+export interface CalendarEvent {
+  id: string;
+  name: string; // e.g. "Spring sale"
+  type: CalendarEventType;
+  startsAt: Date;
+  endsAt: Date;
+  // Products affected; with neither SKUs nor categories, every product
+  skus?: string[];
+  categories?: string[];
+  upliftPercent: number; // Expected change in daily demand, e.g. 40 for +40% or -30 for -30%
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================================================
+// Stock Position Entity (a product's stock at one warehouse)
+// ============================================================================
+export interface StockPosition {
+  id: string; // `${productId}@${warehouse}`
+  productId: string;
+  warehouse: string;
+  currentStock: number; // On hand
+  reserved: number; // Held by active reservations
+  available: number; // currentStock - reserved, never negative
+  reorderPoint: number;
+  maxCapacity: number;
+  lastUpdated: Date;
+}
+
 // ============================================================================
 // Event Entity
 // ============================================================================
-export type EventType = 'SALE' | 'RESTOCK' | 'RETURN' | 'ALERT';
+export type EventType =
+  | 'SALE'
+  | 'RESTOCK'
+  | 'RETURN'
+  | 'ALERT'
+  | 'TRANSFER'
+  | 'ADJUSTMENT'
+  | 'RESERVE'
+  | 'RELEASE';
+
+// Phase of a stock transfer carried by a TRANSFER event
+export type TransferStatus = 'IN_TRANSIT' | 'RECEIVED' | 'CANCELLED';
+
+export interface TransferDetails {
+  transferId: string;
+  fromWarehouse: string;
+  toWarehouse: string;
+  status: TransferStatus;
+}
+
+// Why stock was adjusted outside of sales, restocks, returns and transfers
+export type AdjustmentReason = 'DAMAGE' | 'THEFT' | 'COUNT_CORRECTION' | 'EXPIRY';
+
+export type AdjustmentDirection = 'INCREASE' | 'DECREASE';
+
+export interface AdjustmentDetails {
+  reason: AdjustmentReason;
+  direction: AdjustmentDirection;
+  cycleCountId?: string; // Set when the adjustment corrects a cycle count variance
+  notes?: string;
+}
+
+// Why a reservation was released without a sale
+export type ReleaseReason = 'CANCELLED' | 'EXPIRED';
+
+export interface ReservationDetails {
+  reservationId: string;
+  expiresAt?: string; // ISO 8601, required for RESERVE events
+  reason?: ReleaseReason; // Required for RELEASE events
+  orderId?: string;
+}
+
+export interface PurchaseOrderReceiptDetails {
+  purchaseOrderId: string;
+}
 
 export interface Event {
   id: string;
@@ -33,6 +143,11 @@ export interface Event {
   warehouse: string;
   timestamp: Date;
   metadata?: Record<string, any>;
+  transfer?: TransferDetails; // Required for TRANSFER events
+  adjustment?: AdjustmentDetails; // Required for ADJUSTMENT events
+  reservation?: ReservationDetails; // Required for RESERVE and RELEASE events; on a SALE, fulfils the reservation
+  purchaseOrder?: PurchaseOrderReceiptDetails; // On a RESTOCK, receives stock against a purchase order
+  schemaVersion?: number; // See models/eventSchema.ts
 }
 
 // ============================================================================
@@ -51,13 +166,230 @@ export type AlertType =
 export interface Alert {
   id: string;
   productId: string;
+  warehouse?: string; // Stock position the alert was raised for
   severity: AlertSeverity;
   type: AlertType;
   message: string;
   aiRecommendation?: string;
+  ruleId?: string; // Alert rule that raised the alert
   resolved: boolean;
   timestamp: Date;
   resolvedAt?: Date;
+  acknowledgedAt?: Date;
+  acknowledgedBy?: string;
+  assignee?: string; // Operator the alert is assigned to
+  snoozedUntil?: Date; // Hidden from active views until then
+  escalationPolicyId?: string; // Policy the alert escalated under
+  escalationLevel?: number; // Escalation tiers reached (absent until first escalated)
+  escalatedAt?: Date; // When it last escalated
+  incidentId?: string; // Incident grouping correlated alerts (see services/Incidents.ts)
+  activity?: AlertActivity[]; // Audit trail, oldest first (absent on alerts raised before it was kept)
+}
+
+export type AlertAction =
+  | 'CREATED'
+  | 'ACKNOWLEDGED'
+  | 'ASSIGNED'
+  | 'UNASSIGNED'
+  | 'SNOOZED'
+  | 'UNSNOOZED'
+  | 'NOTE'
+  | 'ESCALATED'
+  | 'RESOLVED';
+
+export interface AlertActivity {
+  action: AlertAction;
+  at: string; // ISO timestamp
+  by: string; // Operator, or "system" for changes made by the event handler
+  note?: string;
+  assignee?: string; // For ASSIGNED
+  snoozedUntil?: string; // ISO timestamp, for SNOOZED
+  escalationLevel?: number; // For ESCALATED
+  notified?: string[]; // For ESCALATED
+}
+
+// ============================================================================
+// Alert History Entity (permanent alert lifecycle record, see services/AlertHistory.ts)
+// ============================================================================
+export type AlertResolution =
+  | 'AUTO' // The condition cleared after a stock event
+  | 'MANUAL' // Resolved by an operator
+  | 'REBUILT'; // The alert was discarded when projections were rebuilt from the event log
+
+export interface AlertHistoryEntry {
+  id: string; // The alert's id
+  productId: string;
+  warehouse: string;
+  type: AlertType;
+  severity: AlertSeverity; // Highest severity the alert reached
+  ruleId?: string;
+  incidentId?: string;
+  raisedAt: Date;
+  acknowledgedAt?: Date;
+  acknowledgedBy?: string;
+  resolvedAt?: Date;
+  resolvedBy?: string;
+  resolution?: AlertResolution;
+  escalationLevel: number; // Escalation tiers reached
+  timeToAcknowledgeMs?: number;
+  timeToResolveMs?: number;
+  updatedAt: Date;
+}
+
+// ============================================================================
+// Escalation Policy Entity (see services/AlertEscalation.ts)
+// ============================================================================
+export interface EscalationTier {
+  afterMinutes: number; // Minutes since the alert was raised without being acknowledged
+  notify: string[]; // Operators or teams notified from this tier on
+  raiseSeverityTo?: AlertSeverity;
+}
+
+export interface EscalationPolicy {
+  id: string;
+  name: string;
+  alertTypes: AlertType[]; // Alert types the policy escalates
+  tiers: EscalationTier[]; // In order of afterMinutes
+  enabled: boolean;
+  builtIn: boolean; // Shipped default: can be changed or disabled but not deleted
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================================================
+// Alert Rule Entity (alert conditions stored as data, see services/AlertRules.ts)
+// ============================================================================
+export interface AlertRuleScope {
+  productId?: string;
+  category?: string;
+  warehouse?: string;
+}
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  type: AlertType; // Type of alert raised; at most one rule per type applies to a stock position
+  severity: AlertSeverity;
+  condition: string; // Expression raising the alert, e.g. "available < 10"
+  resolveWhen?: string; // Expression auto-resolving the alert; without one it is resolved by hand
+  messageTemplate: string; // {{product}}, {{warehouse}} and any variable, e.g. "{{available}} units left"
+  scope: AlertRuleScope; // Empty scope applies everywhere; the most specific matching rule wins
+  group?: string; // Of the rules in a group that match, only the most severe raises an alert
+  eventTypes?: EventType[]; // Only evaluated after these events (all events by default)
+  enabled: boolean;
+  builtIn: boolean; // Shipped default: can be changed or disabled but not deleted
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// ============================================================================
+// Incident Entity (correlated alerts, see services/Incidents.ts)
+// ============================================================================
+export type IncidentStatus = 'OPEN' | 'RESOLVED';
+
+export interface Incident {
+  id: string;
+  productId: string;
+  warehouse: string;
+  title: string;
+  status: IncidentStatus; // RESOLVED once every alert in it is resolved
+  severity: AlertSeverity; // Most severe alert in the incident
+  alertIds: string[]; // Oldest first; the first alert opened the incident
+  alertTypes: AlertType[];
+  openedAt: Date;
+  lastAlertAt: Date; // Alerts raised within the grouping window of this join the incident
+  resolvedAt?: Date;
+}
+
+// ============================================================================
+// Maintenance Window Entity (alert suppression, see services/AlertSuppression.ts)
+// ============================================================================
+export interface MaintenanceWindow {
+  id: string;
+  warehouse: string;
+  startsAt: Date;
+  endsAt: Date;
+  reason: string; // e.g. "Quarterly stocktake"
+  createdBy: string;
+  createdAt: Date;
+  suppressedAlerts: number; // Alerts not raised because of this window
+}
+
+// ============================================================================
+// Webhook Entities (see services/Webhooks.ts)
+// ============================================================================
+export type WebhookTopic =
+  | 'event:new'
+  | 'product:update'
+  | 'alert:new'
+  | 'alert:updated'
+  | 'alert:resolved'
+  | 'alert:escalated'
+  | 'incident:new'
+  | 'incident:updated'
+  | 'webhook:test';
+
+// Narrow a subscription to matching payloads; every filter given must match
+export interface WebhookFilters {
+  severities?: AlertSeverity[];
+  alertTypes?: AlertType[];
+  eventTypes?: EventType[];
+  productId?: string;
+  category?: string;
+  warehouse?: string;
+}
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  secret: string; // Signs payloads (HMAC-SHA256)
+  topics: WebhookTopic[];
+  filters: WebhookFilters;
+  description?: string;
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type WebhookDeliveryStatus = 'PENDING' | 'DELIVERED' | 'FAILED';
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  topic: WebhookTopic;
+  body: string; // The JSON payload exactly as signed and sent
+  status: WebhookDeliveryStatus; // PENDING until delivered or out of attempts
+  attempts: number;
+  responseStatus?: number; // HTTP status of the last attempt
+  error?: string; // Why the last attempt failed
+  createdAt: Date;
+  lastAttemptAt?: Date;
+  nextAttemptAt?: Date; // When a PENDING delivery is next tried
+  deliveredAt?: Date;
+}
+
+// ============================================================================
+// Email Digest Entities (see services/AlertDigest.ts)
+// ============================================================================
+export interface DigestSubscription {
+  id: string;
+  email: string;
+  name?: string;
+  warehouses: string[]; // Warehouses to cover; empty for all
+  minSeverity: AlertSeverity; // Alerts below this severity are left out
+  includeRecommendations: boolean;
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  lastSentAt?: Date; // New alerts are those raised since the last digest
+}
+
+export interface DigestSchedule {
+  id: string; // Always 'default': there is one schedule
+  enabled: boolean;
+  sendAt: string; // HH:MM each day, server local time
+  lastRunAt?: Date;
+  updatedAt: Date;
 }
 
 // ============================================================================
@@ -94,6 +426,145 @@ export interface Warehouse {
   currentUtilization: number;
 }
 
+// ============================================================================
+// Transfer Entity (stock moving between warehouses)
+// ============================================================================
+export interface Transfer {
+  id: string;
+  sku: string;
+  productId: string;
+  fromWarehouse: string;
+  toWarehouse: string;
+  quantity: number;
+  status: TransferStatus;
+  dispatchedAt: Date;
+  receivedAt?: Date;
+  cancelledAt?: Date;
+}
+
+// ============================================================================
+// Reservation Entity (stock held for a cart or pending order)
+// ============================================================================
+export type ReservationStatus = 'ACTIVE' | 'FULFILLED' | 'CANCELLED' | 'EXPIRED';
+
+export interface Reservation {
+  id: string;
+  productId: string;
+  warehouse: string;
+  quantity: number;
+  status: ReservationStatus;
+  orderId?: string;
+  createdAt: Date;
+  expiresAt: Date;
+  closedAt?: Date; // When the reservation was fulfilled, cancelled or expired
+  closedByEventId?: string;
+}
+
+// ============================================================================
+// Supplier Entity
+// ============================================================================
+export interface Supplier {
+  id: string;
+  name: string;
+  leadTimeDays: number; // Days from submitting a purchase order to receiving it
+  minimumOrderQuantity: number; // Smallest order the supplier accepts, in units
+  packSize: number; // Units per case; orders are placed in whole cases
+  costPerUnit: number;
+  contactEmail?: string;
+}
+
+// ============================================================================
+// Purchase Order Entity (stock ordered for one stock position)
+// ============================================================================
+export type PurchaseOrderStatus = 'DRAFT' | 'SUBMITTED' | 'PARTIALLY_RECEIVED' | 'RECEIVED' | 'CANCELLED';
+
+export interface PurchaseOrderReceipt {
+  eventId: string; // RESTOCK event that received the stock
+  quantity: number;
+  receivedAt: string; // ISO 8601
+}
+
+export interface PurchaseOrder {
+  id: string;
+  productId: string;
+  warehouse: string;
+  quantity: number; // Ordered
+  receivedQuantity: number;
+  status: PurchaseOrderStatus;
+  supplierId?: string;
+  unitCost?: number; // Supplier's cost per unit when the order was raised
+  source: 'manual' | 'recommendation';
+  recommendation?: string; // The recommendation the order was raised from
+  notes?: string;
+  receipts: PurchaseOrderReceipt[];
+  createdAt: Date;
+  submittedAt?: Date;
+  expectedAt?: Date; // Submission plus the supplier's lead time
+  receivedAt?: Date; // When the order was received in full
+  cancelledAt?: Date;
+}
+
+// ============================================================================
+// Cycle Count Entity (physical count of one stock position)
+// ============================================================================
+export type CycleCountStatus = 'OPEN' | 'COMPLETED' | 'CANCELLED';
+
+export interface CycleCount {
+  id: string;
+  productId: string;
+  warehouse: string;
+  status: CycleCountStatus;
+  expectedQuantity: number; // System quantity when the count was opened
+  systemQuantity?: number; // System quantity when the count was recorded
+  countedQuantity?: number;
+  variance?: number; // countedQuantity - systemQuantity
+  varianceValue?: number; // variance at the product's unit price
+  adjustmentEventId?: string; // COUNT_CORRECTION event posting the variance
+  countedBy?: string;
+  notes?: string;
+  createdAt: Date;
+  countedAt?: Date;
+  cancelledAt?: Date;
+}
+
+// ============================================================================
+// Dead Letter Entity
+// ============================================================================
+export type DeadLetterStatus = 'pending' | 'redriven' | 'discarded';
+
+// dlq: processing failed after retries; quarantine: rejected by schema validation
+export type DeadLetterQueue = 'dlq' | 'quarantine';
+
+export interface DeadLetter {
+  id: string;
+  queue: DeadLetterQueue;
+  originalTopic: string;
+  partition: number;
+  offset: string;
+  key?: string;
+  payload: string; // Original message value, untouched
+  errorType: string;
+  errorMessage: string;
+  retryable: boolean;
+  validationErrors?: { field: string; message: string; received?: unknown }[];
+  attempts: number;
+  status: DeadLetterStatus;
+  failedAt: Date;
+  redrivenAt?: Date;
+  redriveCount: number;
+}
+
+// ============================================================================
+// Idempotency Record (client-supplied idempotency keys)
+// ============================================================================
+export interface IdempotencyRecord {
+  id: string; // The idempotency key
+  eventId: string;
+  fingerprint: string; // Identifies the request payload the key was first used with
+  event: Event;
+  createdAt: Date;
+}
+
 // ============================================================================
 // API Response Types
 // ============================================================================
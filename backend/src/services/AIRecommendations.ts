@@ -4,7 +4,9 @@
  * Uses rule-based logic with optional Gemini API enhancement
  */
 
-import { Product, Event, Alert } from '../models/types';
+import { Product, Event, Alert, PurchaseOrder, Supplier } from '../models/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 export interface AIRecommendation {
   productId: string;
@@ -13,7 +15,12 @@ export interface AIRecommendation {
   reasoning: string;
   priority: 'critical' | 'high' | 'medium' | 'low';
   estimatedDaysUntilStockout: number;
-  suggestedReorderQuantity: number;
+  reorderPoint: number; // Product's reorder point, raised to cover demand over the supplier's lead time
+  leadTimeDays: number; // 0 when the product has no supplier
+  suggestedReorderQuantity: number; // Rounded to the supplier's minimum order and pack size
+  onOrder: number; // Units on submitted purchase orders not yet received
+  supplierId?: string;
+  estimatedCost?: number; // suggestedReorderQuantity at the supplier's cost per unit
   confidence: number;
   generatedAt: Date;
 }
@@ -33,7 +40,9 @@ const CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
 export function generateRecommendations(
   products: Product[],
   events: Event[],
-  alerts: Alert[]
+  alerts: Alert[],
+  purchaseOrders: PurchaseOrder[] = [], // Open purchase orders
+  suppliers: Supplier[] = []
 ): AIRecommendation[] {
   const cacheKey = 'all_recommendations';
 
@@ -44,9 +53,11 @@ export function generateRecommendations(
   }
 
   const recommendations: AIRecommendation[] = [];
+  const suppliersById = new Map(suppliers.map(s => [s.id, s]));
 
   for (const product of products) {
-    const recommendation = analyzeProduct(product, events, alerts);
+    const supplier = product.supplierId ? suppliersById.get(product.supplierId) : undefined;
+    const recommendation = analyzeProduct(product, events, alerts, purchaseOrders, supplier);
     if (recommendation) {
       recommendations.push(recommendation);
     }
@@ -70,26 +81,38 @@ export function generateRecommendations(
 }
 
 /**
- * Analyze a single product and generate recommendation
+ * Analyze a single product and generate recommendation.
+ * Stockout urgency is judged against the supplier's lead time: what matters is how many days
+ * remain to place an order that arrives before stock runs out. Open purchase orders due before
+ * then put the stockout back, so stock already on its way is not ordered twice.
  */
 function analyzeProduct(
   product: Product,
   allEvents: Event[],
-  allAlerts: Alert[]
+  allAlerts: Alert[],
+  allPurchaseOrders: PurchaseOrder[] = [],
+  supplier?: Supplier
 ): AIRecommendation | null {
   // Get product-specific events
   const productEvents = allEvents.filter(e => e.productId === product.id);
   const productAlerts = allAlerts.filter(a => a.productId === product.id && !a.resolved);
+  const purchaseOrders = allPurchaseOrders.filter(po => po.productId === product.id);
 
   // Calculate metrics
   const salesVelocity = calculateSalesVelocity(productEvents);
   const stockPercentage = (product.currentStock / product.maxCapacity) * 100;
-  const daysUntilStockout = salesVelocity > 0 ? product.currentStock / salesVelocity : Infinity;
+  const onOrder = purchaseOrders.reduce((sum, po) => sum + po.quantity - po.receivedQuantity, 0);
+  const { daysUntilStockout, arrivingInTime } = calculateStockCover(product.currentStock, purchaseOrders, salesVelocity);
+  const inventoryPosition = product.currentStock + onOrder; // Stock on hand plus stock on order
+  const leadTimeDays = supplier?.leadTimeDays || 0;
+  const reorderPoint = calculateReorderPoint(product, salesVelocity, leadTimeDays);
+  const daysToOrder = daysUntilStockout - leadTimeDays; // Days left to order before a stockout
+  const leadTimeNote = leadTimeDays > 0 ? ` Supplier lead time is ${leadTimeDays} days.` : '';
 
   // Determine if recommendation is needed
   const needsRecommendation =
-    product.currentStock <= product.reorderPoint ||
-    daysUntilStockout < 14 ||
+    inventoryPosition <= reorderPoint ||
+    daysToOrder < 14 ||
     productAlerts.length > 0 ||
     stockPercentage < 20;
 
@@ -108,25 +131,25 @@ function analyzeProduct(
     recommendation = `URGENT: Restock ${product.name} immediately`;
     reasoning = `Product is out of stock. Historical sales velocity: ${salesVelocity.toFixed(1)} units/day. Risk of lost sales and customer dissatisfaction.`;
     confidence = 0.95;
-  } else if (daysUntilStockout < 3) {
+  } else if (daysToOrder < 3) {
     priority = 'critical';
     recommendation = `Expedite restock for ${product.name} - stockout imminent`;
-    reasoning = `At current sales velocity (${salesVelocity.toFixed(1)} units/day), stock will deplete in ${Math.ceil(daysUntilStockout)} days. Immediate action required.`;
+    reasoning = `At current sales velocity (${salesVelocity.toFixed(1)} units/day), stock will deplete in ${Math.ceil(daysUntilStockout)} days.${leadTimeNote} Immediate action required.`;
     confidence = 0.90;
-  } else if (daysUntilStockout < 7) {
+  } else if (daysToOrder < 7) {
     priority = 'high';
     recommendation = `Reorder ${product.name} this week`;
-    reasoning = `Stock will run out in ~${Math.ceil(daysUntilStockout)} days at current velocity (${salesVelocity.toFixed(1)} units/day). Reorder now to maintain buffer stock.`;
+    reasoning = `Stock will run out in ~${Math.ceil(daysUntilStockout)} days at current velocity (${salesVelocity.toFixed(1)} units/day).${leadTimeNote} Reorder now to maintain buffer stock.`;
     confidence = 0.85;
-  } else if (product.currentStock <= product.reorderPoint) {
+  } else if (inventoryPosition <= reorderPoint) {
     priority = 'high';
     recommendation = `Reorder ${product.name} - below reorder point`;
-    reasoning = `Current stock (${product.currentStock}) is at or below reorder point (${product.reorderPoint}). Standard reorder recommended.`;
+    reasoning = `Current stock (${product.currentStock}) is at or below reorder point (${reorderPoint}).${leadTimeNote} Standard reorder recommended.`;
     confidence = 0.80;
-  } else if (daysUntilStockout < 14) {
+  } else if (daysToOrder < 14) {
     priority = 'medium';
     recommendation = `Schedule reorder for ${product.name}`;
-    reasoning = `Stock adequate for ~${Math.ceil(daysUntilStockout)} days. Plan reorder to maintain optimal inventory levels.`;
+    reasoning = `Stock adequate for ~${Math.ceil(daysUntilStockout)} days.${leadTimeNote} Plan reorder to maintain optimal inventory levels.`;
     confidence = 0.75;
   } else {
     priority = 'low';
@@ -136,7 +159,14 @@ function analyzeProduct(
   }
 
   // Calculate suggested reorder quantity
-  const suggestedReorderQuantity = calculateReorderQuantity(product, salesVelocity);
+  const suggestedReorderQuantity = calculateReorderQuantity(product, salesVelocity, onOrder, reorderPoint, supplier);
+
+  if (onOrder > 0) {
+    reasoning += ` ${onOrder} units are already on order, ${arrivingInTime} of them due before stock runs out.`;
+    if (suggestedReorderQuantity === 0) {
+      recommendation = `${product.name} is covered by open purchase orders - expedite delivery if needed`;
+    }
+  }
 
   return {
     productId: product.id,
@@ -145,7 +175,12 @@ function analyzeProduct(
     reasoning,
     priority,
     estimatedDaysUntilStockout: Math.ceil(daysUntilStockout),
+    reorderPoint,
+    leadTimeDays,
     suggestedReorderQuantity,
+    onOrder,
+    supplierId: supplier?.id,
+    estimatedCost: supplier ? suggestedReorderQuantity * supplier.costPerUnit : undefined,
     confidence,
     generatedAt: new Date(),
   };
@@ -170,21 +205,86 @@ function calculateSalesVelocity(events: Event[]): number {
 }
 
 /**
- * Calculate optimal reorder quantity
+ * Days until stock runs out at the sales velocity, counting open purchase orders due before then
+ * (undated or overdue orders are expected the next day, as in forecasts), and the units they bring
  */
-function calculateReorderQuantity(product: Product, salesVelocity: number): number {
-  // Target: 30 days of stock + safety buffer
-  const targetDays = 30;
+function calculateStockCover(
+  currentStock: number,
+  purchaseOrders: PurchaseOrder[],
+  salesVelocity: number,
+  asOf: Date = new Date()
+): { daysUntilStockout: number; arrivingInTime: number } {
+  const arrivals = purchaseOrders
+    .map(po => ({
+      day: Math.max(1, po.expectedAt ? (po.expectedAt.getTime() - asOf.getTime()) / DAY_MS : 1),
+      quantity: po.quantity - po.receivedQuantity,
+    }))
+    .filter(arrival => arrival.quantity > 0)
+    .sort((a, b) => a.day - b.day);
+
+  if (salesVelocity <= 0) {
+    return { daysUntilStockout: Infinity, arrivingInTime: arrivals.reduce((sum, a) => sum + a.quantity, 0) };
+  }
+
+  let daysUntilStockout = currentStock / salesVelocity;
+  let arrivingInTime = 0;
+  for (const arrival of arrivals) {
+    if (arrival.day > daysUntilStockout) break;
+    daysUntilStockout += arrival.quantity / salesVelocity;
+    arrivingInTime += arrival.quantity;
+  }
+  return { daysUntilStockout, arrivingInTime };
+}
+
+/**
+ * Calculate the reorder point: the product's own, or demand over the lead time plus a safety buffer if higher
+ */
+function calculateReorderPoint(product: Product, salesVelocity: number, leadTimeDays: number): number {
+  const safetyBuffer = 0.2; // 20% safety buffer
+  const leadTimeDemand = salesVelocity * leadTimeDays * (1 + safetyBuffer);
+
+  return Math.max(product.reorderPoint, Math.ceil(leadTimeDemand));
+}
+
+/**
+ * Calculate optimal reorder quantity, net of stock already on order, in whole packs of at least the supplier's minimum
+ */
+function calculateReorderQuantity(
+  product: Product,
+  salesVelocity: number,
+  onOrder: number = 0,
+  reorderPoint: number = product.reorderPoint,
+  supplier?: Supplier
+): number {
+  // Target: 30 days of stock after the order arrives + safety buffer
+  const targetDays = 30 + (supplier?.leadTimeDays || 0);
   const safetyBuffer = 0.2; // 20% safety buffer
 
   const baseQuantity = salesVelocity * targetDays;
   const quantityWithBuffer = baseQuantity * (1 + safetyBuffer);
 
-  // Don't exceed max capacity
-  const availableCapacity = product.maxCapacity - product.currentStock;
-  const recommendedQuantity = Math.min(quantityWithBuffer, availableCapacity);
+  // Don't exceed max capacity, counting stock already on order
+  const availableCapacity = product.maxCapacity - product.currentStock - onOrder;
+  const recommendedQuantity = Math.min(quantityWithBuffer - onOrder, availableCapacity);
+
+  // Only top up what open purchase orders don't already cover
+  const quantity = onOrder > 0
+    ? Math.max(0, Math.round(recommendedQuantity))
+    : Math.max(Math.round(recommendedQuantity), reorderPoint);
+
+  return supplier ? roundToSupplierTerms(quantity, supplier) : quantity;
+}
+
+/**
+ * Round an order quantity up to the supplier's minimum order quantity and whole packs
+ * (supplier terms win over capacity: a minimum order may overfill the shelf)
+ */
+export function roundToSupplierTerms(quantity: number, supplier: Supplier): number {
+  if (quantity <= 0) return 0;
 
-  return Math.max(Math.round(recommendedQuantity), product.reorderPoint);
+  const packSize = Math.max(1, supplier.packSize);
+  const atLeastMinimum = Math.max(quantity, supplier.minimumOrderQuantity);
+  return Math.ceil(atLeastMinimum / packSize) * packSize;
 }
 
 /**
@@ -194,12 +294,14 @@ export function getProductRecommendation(
   productId: string,
   products: Product[],
   events: Event[],
-  alerts: Alert[]
+  alerts: Alert[],
+  purchaseOrders: PurchaseOrder[] = [], // Open purchase orders
+  supplier?: Supplier
 ): AIRecommendation | null {
   const product = products.find(p => p.id === productId);
   if (!product) return null;
 
-  return analyzeProduct(product, events, alerts);
+  return analyzeProduct(product, events, alerts, purchaseOrders, supplier);
 }
 
 /**
@@ -0,0 +1,232 @@
+/**
+ * Adjustment Service
+ * Records stock adjustments (ADJUSTMENT events with reason codes) and cycle counts
+ *
+ * A cycle count is opened for one stock position, then recorded with the counted quantity.
+ * Any variance against the system quantity is posted as a COUNT_CORRECTION adjustment.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { AdjustmentDetails, AdjustmentReason, CycleCount, Event } from '../models/types';
+import { ADJUSTMENT_REASONS } from '../models/eventSchema';
+import { productStore, eventStore, cycleCountStore } from '../stores/InMemoryStore';
+import { getEventTime, getStockChange } from './EventReplay';
+
+/**
+ * Raised when a cycle count cannot be opened or recorded in its current state
+ */
+export class CycleCountError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CycleCountError';
+  }
+}
+
+export interface CycleCountResult {
+  systemQuantity: number;
+  countedQuantity: number;
+  variance: number;
+  varianceValue: number;
+  adjustment?: Event; // COUNT_CORRECTION event to publish, if the count found a variance
+}
+
+export interface AdjustmentTotals {
+  events: number;
+  units: number; // Net units added (+) or written off (-)
+  value: number;
+}
+
+export interface WarehouseVariance {
+  warehouse: string;
+  cycleCounts: number;
+  accurateCounts: number;
+  accuracyRate: number; // Share of counts that matched the system quantity
+  netVarianceUnits: number;
+  absoluteVarianceUnits: number;
+  netVarianceValue: number;
+  adjustmentsByReason: Record<AdjustmentReason, AdjustmentTotals>;
+}
+
+/**
+ * Build an ADJUSTMENT event for a stock position
+ */
+export function buildAdjustmentEvent(
+  productId: string,
+  warehouse: string,
+  quantity: number,
+  adjustment: AdjustmentDetails,
+  metadata: Record<string, any> = {}
+): Event {
+  return {
+    id: `EVT-API-${uuidv4()}`,
+    type: 'ADJUSTMENT',
+    productId,
+    quantity,
+    warehouse,
+    timestamp: new Date(),
+    metadata,
+    adjustment,
+  };
+}
+
+/**
+ * Open a cycle count for a stock position, snapshotting its system quantity
+ */
+export function openCycleCount(productId: string, warehouse: string, countedBy?: string): CycleCount {
+  const position = productStore.getPosition(productId, warehouse);
+  if (!position) {
+    throw new CycleCountError(`Product ${productId} is not stocked at ${warehouse}`);
+  }
+
+  const open = cycleCountStore.getOpenForPosition(productId, warehouse);
+  if (open) {
+    throw new CycleCountError(`Cycle count ${open.id} is already open for ${productId} at ${warehouse}`);
+  }
+
+  return cycleCountStore.create({
+    id: `CC-${uuidv4()}`,
+    productId,
+    warehouse,
+    status: 'OPEN',
+    expectedQuantity: position.currentStock,
+    countedBy,
+    createdAt: new Date(),
+  });
+}
+
+/**
+ * Compare a counted quantity with the system quantity of an open cycle count.
+ * Publish the returned adjustment, then call completeCycleCount.
+ */
+export function evaluateCycleCount(id: string, countedQuantity: number): CycleCountResult {
+  const cycleCount = cycleCountStore.get(id);
+  if (!cycleCount) {
+    throw new CycleCountError(`Cycle count ${id} not found`);
+  }
+  if (cycleCount.status !== 'OPEN') {
+    throw new CycleCountError(`Cycle count ${id} is already ${cycleCount.status}`);
+  }
+
+  const product = productStore.get(cycleCount.productId);
+  const position = productStore.getPosition(cycleCount.productId, cycleCount.warehouse);
+  if (!product || !position) {
+    throw new CycleCountError(`Product ${cycleCount.productId} is no longer stocked at ${cycleCount.warehouse}`);
+  }
+
+  const systemQuantity = position.currentStock;
+  const variance = countedQuantity - systemQuantity;
+
+  return {
+    systemQuantity,
+    countedQuantity,
+    variance,
+    varianceValue: variance * product.unitPrice,
+    adjustment: variance === 0
+      ? undefined
+      : buildAdjustmentEvent(
+          product.id,
+          cycleCount.warehouse,
+          Math.abs(variance),
+          {
+            reason: 'COUNT_CORRECTION',
+            direction: variance > 0 ? 'INCREASE' : 'DECREASE',
+            cycleCountId: cycleCount.id,
+          },
+          { source: 'cycle-count' }
+        ),
+  };
+}
+
+/**
+ * Record the outcome of a cycle count once its adjustment (if any) is published
+ */
+export function completeCycleCount(
+  id: string,
+  result: CycleCountResult,
+  countedBy?: string,
+  notes?: string
+): CycleCount | undefined {
+  const cycleCount = cycleCountStore.get(id);
+  if (!cycleCount) return undefined;
+
+  return cycleCountStore.update(id, {
+    status: 'COMPLETED',
+    systemQuantity: result.systemQuantity,
+    countedQuantity: result.countedQuantity,
+    variance: result.variance,
+    varianceValue: result.varianceValue,
+    adjustmentEventId: result.adjustment?.id,
+    countedBy: countedBy || cycleCount.countedBy,
+    notes,
+    countedAt: new Date(),
+  });
+}
+
+/**
+ * Cancel an open cycle count
+ */
+export function cancelCycleCount(id: string): CycleCount {
+  const cycleCount = cycleCountStore.get(id);
+  if (!cycleCount) {
+    throw new CycleCountError(`Cycle count ${id} not found`);
+  }
+  if (cycleCount.status !== 'OPEN') {
+    throw new CycleCountError(`Cycle count ${id} is already ${cycleCount.status}`);
+  }
+
+  return cycleCountStore.update(id, { status: 'CANCELLED', cancelledAt: new Date() })!;
+}
+
+/**
+ * Report cycle count variances and adjustments per warehouse over a time range
+ */
+export function getVarianceReport(from: Date, to: Date): WarehouseVariance[] {
+  const report = new Map<string, WarehouseVariance>();
+  const forWarehouse = (warehouse: string): WarehouseVariance => {
+    if (!report.has(warehouse)) {
+      report.set(warehouse, {
+        warehouse,
+        cycleCounts: 0,
+        accurateCounts: 0,
+        accuracyRate: 0,
+        netVarianceUnits: 0,
+        absoluteVarianceUnits: 0,
+        netVarianceValue: 0,
+        adjustmentsByReason: Object.fromEntries(
+          ADJUSTMENT_REASONS.map(reason => [reason, { events: 0, units: 0, value: 0 }])
+        ) as Record<AdjustmentReason, AdjustmentTotals>,
+      });
+    }
+    return report.get(warehouse)!;
+  };
+
+  cycleCountStore.getCompletedBetween(from, to).forEach(count => {
+    const entry = forWarehouse(count.warehouse);
+    const variance = count.variance || 0;
+
+    entry.cycleCounts++;
+    if (variance === 0) entry.accurateCounts++;
+    entry.netVarianceUnits += variance;
+    entry.absoluteVarianceUnits += Math.abs(variance);
+    entry.netVarianceValue += count.varianceValue || 0;
+  });
+
+  eventStore
+    .getByType('ADJUSTMENT')
+    .filter(e => getEventTime(e) >= from.getTime() && getEventTime(e) <= to.getTime())
+    .forEach(event => {
+      const totals = forWarehouse(event.warehouse).adjustmentsByReason[event.adjustment!.reason];
+      const units = getStockChange(event);
+      const product = productStore.get(event.productId);
+
+      totals.events++;
+      totals.units += units;
+      totals.value += product ? units * product.unitPrice : 0;
+    });
+
+  report.forEach(entry => {
+    entry.accuracyRate = entry.cycleCounts > 0 ? entry.accurateCounts / entry.cycleCounts : 0;
+  });
+
+  return Array.from(report.values()).sort((a, b) => a.warehouse.localeCompare(b.warehouse));
+}
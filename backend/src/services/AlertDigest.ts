@@ -0,0 +1,393 @@
+/**
+ * Alert Digest Service
+ * Emails subscribed managers a daily summary of alerts and reorder recommendations
+ *
+ * Each digest covers the subscriber's warehouses: alerts raised since their last digest (or the
+ * last 24 hours), alerts raised earlier that are still unresolved, and the top reorder
+ * recommendations. Digests go out once a day at the scheduled time and can be previewed or
+ * sent on demand.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Alert, AlertSeverity, DigestSchedule, DigestSubscription } from '../models/types';
+import {
+  alertStore, digestScheduleStore, digestSubscriptionStore, eventStore, productStore, purchaseOrderStore, supplierStore, warehouseStore,
+} from '../stores/InMemoryStore';
+import { AIRecommendation, generateRecommendations } from './AIRecommendations';
+import { isSnoozed } from './AlertWorkflow';
+import { renderDigestHtml, renderDigestSubject, renderDigestText } from './DigestTemplates';
+import { sendMail, SentMail } from './SmtpTransport';
+import { ALERT_SEVERITIES } from './AlertRules';
+
+const DEFAULT_SCHEDULE: DigestSchedule = {
+  id: 'default',
+  enabled: true,
+  sendAt: '07:00',
+  updatedAt: new Date(0),
+};
+
+// How often to check whether the day's digests are due
+const SCHEDULE_CHECK_INTERVAL_MS = 60 * 1000;
+
+// A subscriber's first digest covers this far back
+const FIRST_DIGEST_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const RECOMMENDATIONS_PER_WAREHOUSE = 5;
+
+const EMAIL_PATTERN = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+
+let digestInterval: NodeJS.Timeout | null = null;
+
+/**
+ * Raised when a digest subscription or the schedule is invalid
+ */
+export class DigestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DigestError';
+  }
+}
+
+export type DigestSubscriptionInput = Omit<DigestSubscription, 'id' | 'createdAt' | 'updatedAt' | 'lastSentAt'>;
+
+export interface DigestAlert {
+  id: string;
+  productId: string;
+  productName: string;
+  severity: AlertSeverity;
+  type: Alert['type'];
+  message: string;
+  raisedAt: Date;
+  resolved: boolean;
+  acknowledgedBy?: string;
+  assignee?: string;
+}
+
+export interface WarehouseDigest {
+  warehouseId: string;
+  warehouseName: string;
+  newAlerts: DigestAlert[];
+  unresolvedAlerts: DigestAlert[];
+  recommendations: AIRecommendation[];
+}
+
+export interface Digest {
+  subscriptionId: string;
+  recipient: string;
+  since: Date;
+  generatedAt: Date;
+  warehouses: WarehouseDigest[]; // Only warehouses with something to report
+  totals: {
+    newAlerts: number;
+    criticalAlerts: number; // New or unresolved
+    unresolvedAlerts: number;
+    recommendations: number;
+  };
+}
+
+/**
+ * Subscribe an email address to the daily digest
+ */
+export function createDigestSubscription(input: Partial<DigestSubscriptionInput>): DigestSubscription {
+  const now = new Date();
+  const subscription: DigestSubscription = {
+    id: `DIG-${uuidv4()}`,
+    email: normalizeEmail(input.email),
+    name: input.name,
+    warehouses: input.warehouses ?? [],
+    minSeverity: input.minSeverity ?? 'warning',
+    includeRecommendations: input.includeRecommendations ?? true,
+    enabled: input.enabled ?? true,
+    createdAt: now,
+    updatedAt: now,
+  };
+  checkSubscription(subscription);
+
+  return digestSubscriptionStore.create(subscription);
+}
+
+/**
+ * Change a digest subscription
+ */
+export function updateDigestSubscription(id: string, updates: Partial<DigestSubscriptionInput>): DigestSubscription {
+  const subscription = getSubscription(id);
+  const updated: DigestSubscription = {
+    ...subscription,
+    ...updates,
+    id,
+    email: updates.email === undefined ? subscription.email : normalizeEmail(updates.email),
+    createdAt: subscription.createdAt,
+    updatedAt: new Date(),
+  };
+  checkSubscription(updated);
+
+  return digestSubscriptionStore.update(id, updated)!;
+}
+
+/**
+ * Unsubscribe from the digest
+ */
+export function deleteDigestSubscription(id: string): void {
+  getSubscription(id);
+  digestSubscriptionStore.delete(id);
+}
+
+/**
+ * Get the digest schedule (the default until it is changed)
+ */
+export function getDigestSchedule(): DigestSchedule {
+  return digestScheduleStore.get(DEFAULT_SCHEDULE.id) ?? DEFAULT_SCHEDULE;
+}
+
+/**
+ * Change when (and whether) the daily digest goes out
+ */
+export function updateDigestSchedule(updates: Partial<Pick<DigestSchedule, 'enabled' | 'sendAt'>>): DigestSchedule {
+  const schedule: DigestSchedule = { ...getDigestSchedule(), ...updates, id: DEFAULT_SCHEDULE.id, updatedAt: new Date() };
+
+  if (typeof schedule.enabled !== 'boolean') {
+    throw new DigestError('enabled must be true or false');
+  }
+  if (!parseSendAt(schedule.sendAt)) {
+    throw new DigestError('sendAt must be a time of day as HH:MM');
+  }
+
+  return saveSchedule(schedule);
+}
+
+/**
+ * Build a subscriber's digest without sending it
+ */
+export function buildDigest(id: string, asOf: Date = new Date()): Digest {
+  const subscription = getSubscription(id);
+  const since = subscription.lastSentAt ?? new Date(asOf.getTime() - FIRST_DIGEST_WINDOW_MS);
+  const minRank = ALERT_SEVERITIES.indexOf(subscription.minSeverity);
+
+  const products = productStore.getAll();
+  const productsById = new Map(products.map(p => [p.id, p]));
+  const warehouseIds = subscription.warehouses.length > 0
+    ? subscription.warehouses
+    : warehouseStore.getAll().map(w => w.id).sort();
+
+  const alerts = alertStore
+    .getAll()
+    .filter(a => ALERT_SEVERITIES.indexOf(a.severity) >= minRank && a.timestamp.getTime() <= asOf.getTime());
+
+  const recommendations = subscription.includeRecommendations
+    ? generateRecommendations(products, eventStore.getAll(), alertStore.getAll(), purchaseOrderStore.getOpen(), supplierStore.getAll())
+    : [];
+
+  const warehouses = warehouseIds
+    .map(warehouseId => {
+      const inWarehouse = alerts.filter(a => (a.warehouse ?? productsById.get(a.productId)?.warehouse) === warehouseId);
+      const toDigestAlert = (alert: Alert): DigestAlert => ({
+        id: alert.id,
+        productId: alert.productId,
+        productName: productsById.get(alert.productId)?.name ?? alert.productId,
+        severity: alert.severity,
+        type: alert.type,
+        message: alert.message,
+        raisedAt: alert.timestamp,
+        resolved: alert.resolved,
+        acknowledgedBy: alert.acknowledgedBy,
+        assignee: alert.assignee,
+      });
+
+      return {
+        warehouseId,
+        warehouseName: warehouseStore.get(warehouseId)?.name ?? warehouseId,
+        newAlerts: sortAlerts(inWarehouse.filter(a => a.timestamp.getTime() > since.getTime())).map(toDigestAlert),
+        unresolvedAlerts: sortAlerts(inWarehouse.filter(a =>
+          !a.resolved && a.timestamp.getTime() <= since.getTime() && !isSnoozed(a, asOf)
+        )).map(toDigestAlert),
+        recommendations: recommendations
+          .filter(r => productsById.get(r.productId)?.warehouse === warehouseId)
+          .slice(0, RECOMMENDATIONS_PER_WAREHOUSE),
+      };
+    })
+    .filter(w => w.newAlerts.length + w.unresolvedAlerts.length + w.recommendations.length > 0);
+
+  const all = warehouses.flatMap(w => [...w.newAlerts, ...w.unresolvedAlerts]);
+  return {
+    subscriptionId: subscription.id,
+    recipient: subscription.name ? `${subscription.name} <${subscription.email}>` : subscription.email,
+    since,
+    generatedAt: asOf,
+    warehouses,
+    totals: {
+      newAlerts: warehouses.reduce((sum, w) => sum + w.newAlerts.length, 0),
+      criticalAlerts: all.filter(a => a.severity === 'critical' && !a.resolved).length,
+      unresolvedAlerts: warehouses.reduce((sum, w) => sum + w.unresolvedAlerts.length, 0),
+      recommendations: warehouses.reduce((sum, w) => sum + w.recommendations.length, 0),
+    },
+  };
+}
+
+/**
+ * Email addresses for named recipients (e.g. an escalation tier's): each name is matched against the names and
+ * addresses of enabled digest subscriptions, and a recipient that is itself an email address is used as is
+ */
+export function getRecipientAddresses(recipients: string[]): string[] {
+  const subscriptions = digestSubscriptionStore.getEnabled();
+  const addresses = new Set<string>();
+
+  recipients.forEach(recipient => {
+    const key = normalizeEmail(recipient);
+    const matches = subscriptions.filter(s => s.email === key || s.name?.trim().toLowerCase() === key);
+    if (matches.length > 0) {
+      matches.forEach(s => addresses.add(s.email));
+    } else if (EMAIL_PATTERN.test(key)) {
+      addresses.add(key);
+    }
+  });
+  return Array.from(addresses);
+}
+
+/**
+ * Render a digest as an email
+ */
+export function renderDigest(digest: Digest): { subject: string; text: string; html: string } {
+  return {
+    subject: renderDigestSubject(digest),
+    text: renderDigestText(digest),
+    html: renderDigestHtml(digest),
+  };
+}
+
+/**
+ * Build and email a subscriber's digest; the next digest starts from now
+ */
+export async function sendDigest(id: string, asOf: Date = new Date()): Promise<{ digest: Digest; mail: SentMail }> {
+  const digest = buildDigest(id, asOf);
+  const mail = await sendMail({ to: [digest.recipient], ...renderDigest(digest) });
+
+  digestSubscriptionStore.update(id, { lastSentAt: asOf });
+  console.log(`📧 Digest sent to ${digest.recipient}: ${digest.totals.newAlerts} new alert(s), ${digest.totals.recommendations} recommendation(s)`);
+  return { digest, mail };
+}
+
+/**
+ * Send every enabled subscriber their digest; one failure does not stop the others
+ */
+export async function sendAllDigests(asOf: Date = new Date()) {
+  const results: { subscriptionId: string; email: string; sent: boolean; error?: string }[] = [];
+
+  for (const subscription of digestSubscriptionStore.getEnabled()) {
+    try {
+      await sendDigest(subscription.id, asOf);
+      results.push({ subscriptionId: subscription.id, email: subscription.email, sent: true });
+    } catch (error) {
+      console.error(`❌ Failed to send digest to ${subscription.email}:`, error);
+      results.push({ subscriptionId: subscription.id, email: subscription.email, sent: false, error: (error as Error).message });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Check whether the day's digests are due: the send time has passed and they have not gone out since
+ */
+export function isDigestDue(schedule: DigestSchedule, asOf: Date = new Date()): boolean {
+  const time = parseSendAt(schedule.sendAt);
+  if (!schedule.enabled || !time) return false;
+
+  const dueAt = new Date(asOf);
+  dueAt.setHours(time.hours, time.minutes, 0, 0);
+  return asOf.getTime() >= dueAt.getTime() && (!schedule.lastRunAt || schedule.lastRunAt.getTime() < dueAt.getTime());
+}
+
+/**
+ * Start sending digests on schedule
+ */
+export function startDigestScheduler(intervalMs: number = SCHEDULE_CHECK_INTERVAL_MS): void {
+  if (digestInterval) {
+    console.log('⚠️  Digest scheduler already running');
+    return;
+  }
+
+  const schedule = getDigestSchedule();
+  console.log(`📧 Sending alert digests daily at ${schedule.sendAt}${schedule.enabled ? '' : ' (disabled)'}`);
+
+  let running = false;
+  digestInterval = setInterval(async () => {
+    if (running || !isDigestDue(getDigestSchedule())) return;
+    running = true;
+    try {
+      const asOf = new Date();
+      // Recorded first so a slow or failing mail server does not cause repeat sends
+      saveSchedule({ ...getDigestSchedule(), lastRunAt: asOf });
+      await sendAllDigests(asOf);
+    } catch (error) {
+      console.error('❌ Failed to send alert digests:', error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+}
+
+/**
+ * Stop sending digests on schedule
+ */
+export function stopDigestScheduler(): void {
+  if (digestInterval) {
+    clearInterval(digestInterval);
+    digestInterval = null;
+    console.log('⏹️  Digest scheduler stopped');
+  }
+}
+
+function saveSchedule(schedule: DigestSchedule): DigestSchedule {
+  return digestScheduleStore.exists(schedule.id)
+    ? digestScheduleStore.update(schedule.id, schedule)!
+    : digestScheduleStore.create(schedule);
+}
+
+// Most severe first, then newest first
+function sortAlerts(alerts: Alert[]): Alert[] {
+  return alerts.sort((a, b) =>
+    ALERT_SEVERITIES.indexOf(b.severity) - ALERT_SEVERITIES.indexOf(a.severity) || b.timestamp.getTime() - a.timestamp.getTime()
+  );
+}
+
+function parseSendAt(sendAt: unknown): { hours: number; minutes: number } | undefined {
+  const match = typeof sendAt === 'string' ? sendAt.match(/^([01]\d|2[0-3]):([0-5]\d)$/) : null;
+  return match ? { hours: Number(match[1]), minutes: Number(match[2]) } : undefined;
+}
+
+function normalizeEmail(email: unknown): string {
+  return typeof email === 'string' ? email.trim().toLowerCase() : '';
+}
+
+function checkSubscription(subscription: DigestSubscription): void {
+  if (!EMAIL_PATTERN.test(subscription.email)) {
+    throw new DigestError('email must be an email address');
+  }
+  const existing = digestSubscriptionStore.getByEmail(subscription.email);
+  if (existing && existing.id !== subscription.id) {
+    throw new DigestError(`${subscription.email} is already subscribed (${existing.id})`);
+  }
+  if (subscription.name !== undefined && (typeof subscription.name !== 'string' || /[<>",\r\n]/.test(subscription.name))) {
+    throw new DigestError('name must be a string without <, >, quotes, commas or line breaks');
+  }
+  if (!Array.isArray(subscription.warehouses) || subscription.warehouses.some(id => !warehouseStore.exists(id))) {
+    throw new DigestError(`warehouses must be a list of warehouse ids (${warehouseStore.getAll().map(w => w.id).join(', ')})`);
+  }
+  if (!ALERT_SEVERITIES.includes(subscription.minSeverity)) {
+    throw new DigestError(`minSeverity must be one of ${ALERT_SEVERITIES.join(', ')}`);
+  }
+  if (typeof subscription.includeRecommendations !== 'boolean') {
+    throw new DigestError('includeRecommendations must be true or false');
+  }
+  if (typeof subscription.enabled !== 'boolean') {
+    throw new DigestError('enabled must be true or false');
+  }
+}
+
+function getSubscription(id: string): DigestSubscription {
+  const subscription = digestSubscriptionStore.get(id);
+  if (!subscription) {
+    throw new DigestError(`Digest subscription ${id} not found`);
+  }
+  return subscription;
+}
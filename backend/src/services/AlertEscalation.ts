@@ -0,0 +1,309 @@
+/**
+ * Alert Escalation Service
+ * Escalates alerts left unacknowledged through the tiers of an escalation policy
+ *
+ * A policy covers alert types and lists tiers by minutes since the alert was raised. When an
+ * active alert passes a tier without being acknowledged, it moves to that tier: its severity may
+ * be raised, and everyone notified at earlier tiers (and its assignee) is notified again along
+ * with the tier's own recipients. A scheduler checks for overdue alerts; snoozed alerts wait.
+ *
+ * Escalations are broadcast over WebSocket and to webhook subscribers as `alert:escalated`, and
+ * emailed to recipients that are digest subscribers (matched by name or address) or email
+ * addresses. Alerts raised before the scheduler started, such as seeded or replayed alerts,
+ * count as raised when it started, so a restart does not escalate them all at once.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Alert, AlertSeverity, EscalationPolicy, EscalationTier } from '../models/types';
+import { alertStore, escalationPolicyStore, productStore } from '../stores/InMemoryStore';
+import { broadcastAlertEscalation, broadcastIncident } from './WebSocketService';
+import { isSnoozed } from './AlertWorkflow';
+import { recordAlertHistory } from './AlertHistory';
+import { raiseIncidentSeverity } from './Incidents';
+import { ALERT_SEVERITIES, ALERT_TYPES } from './AlertRules';
+import { getRecipientAddresses } from './AlertDigest';
+import { renderEscalationEmail } from './DigestTemplates';
+import { sendMail } from './SmtpTransport';
+
+// How often to look for alerts due to escalate
+const ESCALATION_CHECK_INTERVAL_MS = 60 * 1000;
+
+let escalationInterval: NodeJS.Timeout | null = null;
+
+// When escalation started: alerts raised earlier count from then
+let escalationStartedAt: Date | null = null;
+
+/**
+ * Raised when an escalation policy is invalid or cannot be changed as requested
+ */
+export class EscalationPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EscalationPolicyError';
+  }
+}
+
+export type EscalationPolicyInput = Omit<EscalationPolicy, 'id' | 'builtIn' | 'createdAt' | 'updatedAt'>;
+
+export const DEFAULT_ESCALATION_POLICIES: (EscalationPolicyInput & { id: string })[] = [
+  {
+    id: 'ESC-CRITICAL_STOCK',
+    name: 'Unattended critical stock',
+    alertTypes: ['CRITICAL_LOW_STOCK'],
+    tiers: [
+      { afterMinutes: 15, notify: ['on-call'] },
+      { afterMinutes: 30, notify: ['inventory-manager'] },
+      { afterMinutes: 60, notify: ['operations-director'] },
+    ],
+    enabled: true,
+  },
+  {
+    id: 'ESC-STOCK_WARNINGS',
+    name: 'Unattended stock warnings',
+    alertTypes: ['LOW_STOCK', 'REORDER_NEEDED'],
+    tiers: [
+      { afterMinutes: 240, notify: ['inventory-manager'], raiseSeverityTo: 'critical' },
+    ],
+    enabled: true,
+  },
+];
+
+/**
+ * Add any built-in policy that is missing
+ */
+export function installDefaultEscalationPolicies(): number {
+  const missing = DEFAULT_ESCALATION_POLICIES.filter(policy => !escalationPolicyStore.exists(policy.id));
+  const now = new Date();
+
+  missing.forEach(policy => {
+    escalationPolicyStore.create({ ...policy, builtIn: true, createdAt: now, updatedAt: now });
+  });
+  return missing.length;
+}
+
+/**
+ * Add an escalation policy
+ */
+export function createEscalationPolicy(input: Partial<EscalationPolicyInput>): EscalationPolicy {
+  const now = new Date();
+  const policy: EscalationPolicy = {
+    id: `ESC-${uuidv4()}`,
+    name: input.name!,
+    alertTypes: input.alertTypes!,
+    tiers: input.tiers!,
+    enabled: input.enabled ?? true,
+    builtIn: false,
+    createdAt: now,
+    updatedAt: now,
+  };
+  checkEscalationPolicy(policy);
+
+  return escalationPolicyStore.create(policy);
+}
+
+/**
+ * Change an escalation policy; alerts already escalated keep the tiers they reached
+ */
+export function updateEscalationPolicy(id: string, updates: Partial<EscalationPolicyInput>): EscalationPolicy {
+  const policy = getPolicy(id);
+  const updated: EscalationPolicy = { ...policy, ...updates, id, builtIn: policy.builtIn, createdAt: policy.createdAt, updatedAt: new Date() };
+  checkEscalationPolicy(updated);
+
+  return escalationPolicyStore.update(id, updated)!;
+}
+
+/**
+ * Remove an escalation policy (built-in policies can only be disabled)
+ */
+export function deleteEscalationPolicy(id: string): void {
+  const policy = getPolicy(id);
+  if (policy.builtIn) {
+    throw new EscalationPolicyError(`Escalation policy ${id} is built in: disable it instead`);
+  }
+
+  escalationPolicyStore.delete(id);
+}
+
+/**
+ * Escalate every active, unacknowledged alert that has passed its next tier
+ */
+export function escalateAlerts(asOf: Date = new Date()): Alert[] {
+  const escalated: Alert[] = [];
+
+  alertStore
+    .getActive()
+    .filter(alert => !alert.acknowledgedAt && !isSnoozed(alert, asOf))
+    .forEach(alert => {
+      const policy = (alert.escalationPolicyId && escalationPolicyStore.get(alert.escalationPolicyId)) ||
+        escalationPolicyStore.getForAlertType(alert.type);
+      if (!policy?.enabled) return;
+
+      const updated = escalateAlert(alert, policy, asOf);
+      if (updated) escalated.push(updated);
+    });
+
+  return escalated;
+}
+
+/**
+ * Start escalating overdue alerts
+ */
+export function startAlertEscalation(intervalMs: number = ESCALATION_CHECK_INTERVAL_MS): void {
+  if (escalationInterval) {
+    console.log('⚠️  Alert escalation already running');
+    return;
+  }
+
+  console.log(`⏳ Escalating unacknowledged alerts every ${Math.round(intervalMs / 1000)}s`);
+  escalationStartedAt = escalationStartedAt ?? new Date();
+
+  escalationInterval = setInterval(() => {
+    try {
+      escalateAlerts();
+    } catch (error) {
+      console.error('❌ Failed to escalate alerts:', error);
+    }
+  }, intervalMs);
+}
+
+/**
+ * Stop escalating overdue alerts
+ */
+export function stopAlertEscalation(): void {
+  if (escalationInterval) {
+    clearInterval(escalationInterval);
+    escalationInterval = null;
+    console.log('⏹️  Alert escalation stopped');
+  }
+}
+
+/**
+ * Get escalation statistics for active alerts
+ */
+export function getEscalationStats() {
+  const escalated = alertStore.getActive().filter(a => (a.escalationLevel || 0) > 0);
+
+  return {
+    escalatedAlerts: escalated.length,
+    maxEscalationLevel: escalated.reduce((max, a) => Math.max(max, a.escalationLevel || 0), 0),
+  };
+}
+
+/**
+ * Move an alert to the highest tier it has passed, one tier at a time so each is recorded
+ */
+function escalateAlert(alert: Alert, policy: EscalationPolicy, asOf: Date): Alert | undefined {
+  const raisedAt = Math.max(alert.timestamp.getTime(), escalationStartedAt?.getTime() ?? 0);
+  const minutesOpen = (asOf.getTime() - raisedAt) / 60000;
+  let current = alert;
+  let level = alert.escalationLevel || 0;
+
+  while (level < policy.tiers.length && minutesOpen >= policy.tiers[level].afterMinutes) {
+    const tier = policy.tiers[level];
+    level++;
+
+    const notified = getRecipients(policy.tiers.slice(0, level), current.assignee);
+    const previousSeverity = current.severity;
+    const severity = raiseSeverity(previousSeverity, tier);
+
+    current = alertStore.recordActivity(current.id, {
+      severity,
+      escalationPolicyId: policy.id,
+      escalationLevel: level,
+      escalatedAt: asOf,
+    }, {
+      action: 'ESCALATED',
+      at: asOf.toISOString(),
+      by: 'system',
+      note: `${policy.name}: unacknowledged for ${tier.afterMinutes} minutes${severity !== previousSeverity ? `, raised to ${severity}` : ''}`,
+      escalationLevel: level,
+      notified,
+    })!;
+    recordAlertHistory(current);
+
+    console.log(`📣 Alert escalated: ${current.type} ${current.id} to level ${level}, notifying ${notified.join(', ') || 'nobody'}`);
+    broadcastAlertEscalation(current, notified);
+
+    const incident = severity !== previousSeverity ? raiseIncidentSeverity(current) : undefined;
+    if (incident) {
+      broadcastIncident(incident);
+    }
+  }
+
+  if (level === (alert.escalationLevel || 0)) return undefined;
+
+  // One email for the tier reached, even if several were passed at once
+  emailEscalation(current, policy, level, minutesOpen, getRecipients(policy.tiers.slice(0, level), current.assignee));
+  return current;
+}
+
+/**
+ * Email an escalation to the recipients with an email address; sent in the background
+ */
+function emailEscalation(alert: Alert, policy: EscalationPolicy, level: number, minutesOpen: number, recipients: string[]): void {
+  const addresses = getRecipientAddresses(recipients);
+  const unreachable = recipients.filter(r => getRecipientAddresses([r]).length === 0);
+  if (unreachable.length > 0) {
+    console.warn(`⚠️  No email address for escalation recipients ${unreachable.join(', ')}: subscribe them to the digest by name`);
+  }
+  if (addresses.length === 0) return;
+
+  const productName = productStore.get(alert.productId)?.name ?? alert.productId;
+  sendMail({ to: addresses, ...renderEscalationEmail({ alert, productName, policyName: policy.name, level, minutesOpen }) })
+    .then(mail => console.log(`📧 Escalation of alert ${alert.id} emailed to ${mail.accepted.join(', ')}`))
+    .catch(error => console.error(`❌ Failed to email escalation of alert ${alert.id}:`, error));
+}
+
+/**
+ * Recipients for a tier: everyone from earlier tiers is notified again, plus the alert's assignee
+ */
+function getRecipients(tiers: EscalationTier[], assignee?: string): string[] {
+  const recipients = new Set<string>(tiers.flatMap(t => t.notify));
+  if (assignee) recipients.add(assignee);
+  return Array.from(recipients);
+}
+
+function raiseSeverity(severity: AlertSeverity, tier: EscalationTier): AlertSeverity {
+  if (!tier.raiseSeverityTo) return severity;
+  return ALERT_SEVERITIES.indexOf(tier.raiseSeverityTo) > ALERT_SEVERITIES.indexOf(severity) ? tier.raiseSeverityTo : severity;
+}
+
+function checkEscalationPolicy(policy: EscalationPolicy): void {
+  if (typeof policy.name !== 'string' || policy.name.trim() === '') {
+    throw new EscalationPolicyError('name must be a non-empty string');
+  }
+  if (typeof policy.enabled !== 'boolean') {
+    throw new EscalationPolicyError('enabled must be true or false');
+  }
+  if (!Array.isArray(policy.alertTypes) || policy.alertTypes.length === 0 ||
+      policy.alertTypes.some(type => !ALERT_TYPES.includes(type))) {
+    throw new EscalationPolicyError(`alertTypes must be a non-empty list of ${ALERT_TYPES.join(', ')}`);
+  }
+  if (!Array.isArray(policy.tiers) || policy.tiers.length === 0) {
+    throw new EscalationPolicyError('tiers must be a non-empty list');
+  }
+
+  policy.tiers.forEach((tier, index) => {
+    const path = `tiers[${index}]`;
+    if (!Number.isInteger(tier?.afterMinutes) || tier.afterMinutes <= 0) {
+      throw new EscalationPolicyError(`${path}.afterMinutes must be a positive whole number of minutes`);
+    }
+    if (index > 0 && tier.afterMinutes <= policy.tiers[index - 1].afterMinutes) {
+      throw new EscalationPolicyError(`${path}.afterMinutes must be later than the tier before it`);
+    }
+    if (!Array.isArray(tier.notify) || tier.notify.some(r => typeof r !== 'string' || r.trim() === '')) {
+      throw new EscalationPolicyError(`${path}.notify must be a list of recipient names`);
+    }
+    if (tier.raiseSeverityTo !== undefined && !ALERT_SEVERITIES.includes(tier.raiseSeverityTo)) {
+      throw new EscalationPolicyError(`${path}.raiseSeverityTo must be one of ${ALERT_SEVERITIES.join(', ')}`);
+    }
+  });
+}
+
+function getPolicy(id: string): EscalationPolicy {
+  const policy = escalationPolicyStore.get(id);
+  if (!policy) {
+    throw new EscalationPolicyError(`Escalation policy ${id} not found`);
+  }
+  return policy;
+}
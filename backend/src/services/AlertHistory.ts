@@ -0,0 +1,249 @@
+/**
+ * Alert History Service
+ * Permanent lifecycle history of alerts, and the alert analytics built on it
+ *
+ * Alerts are a projection of the event log: rebuilding projections discards them, along with
+ * who acknowledged and resolved them. Each alert's lifecycle is therefore also recorded in the
+ * alert history, which is never pruned or rebuilt: when it was raised, acknowledged and resolved,
+ * by whom, whether it cleared by itself, and the resulting response times. Analytics over a
+ * period report mean time to acknowledge and resolve by alert type and warehouse, the products
+ * alerting most often, and alerts that come back soon after being resolved.
+ */
+
+import { Alert, AlertHistoryEntry, AlertResolution, AlertType } from '../models/types';
+import { alertHistoryStore, alertStore, productStore } from '../stores/InMemoryStore';
+import { ALERT_SEVERITIES } from './AlertRules';
+
+// An alert raised again within this long of the previous one at its stock position resolving is a repeat
+const REPEAT_ALERT_WINDOW_MS = parseInt(process.env.REPEAT_ALERT_WINDOW_HOURS || '24') * 60 * 60 * 1000;
+
+export interface AlertHistoryFilters {
+  productId?: string;
+  warehouse?: string;
+  type?: AlertType;
+  since?: Date;
+  until?: Date;
+}
+
+export interface AlertResponseTimes {
+  key: string; // Alert type or warehouse
+  alerts: number;
+  acknowledged: number;
+  resolved: number;
+  autoResolved: number;
+  mttaMinutes?: number; // Mean time to acknowledge, over acknowledged alerts
+  mttrMinutes?: number; // Mean time to resolve, over resolved alerts
+}
+
+export interface AlertingProduct {
+  productId: string;
+  productName: string;
+  sku: string;
+  alerts: number;
+  criticalAlerts: number;
+  lastRaisedAt: Date;
+}
+
+export interface RepeatAlert {
+  productId: string;
+  productName: string;
+  warehouse: string;
+  type: AlertType;
+  alerts: number;
+  repeats: number; // Alerts raised within the repeat window of the previous one resolving
+  lastRaisedAt: Date;
+}
+
+export interface AlertAnalytics {
+  since: Date;
+  until: Date;
+  repeatWindowHours: number;
+  totals: AlertResponseTimes;
+  byType: AlertResponseTimes[];
+  byWarehouse: AlertResponseTimes[];
+  topProducts: AlertingProduct[];
+  repeats: RepeatAlert[];
+}
+
+/**
+ * Record an alert's current state in its history entry; resolution says how an alert resolved
+ * since it was last recorded came to be resolved
+ */
+export function recordAlertHistory(alert: Alert, resolution: AlertResolution = 'MANUAL'): AlertHistoryEntry {
+  const existing = alertHistoryStore.get(alert.id);
+  const now = new Date();
+  const resolvedBy = alert.resolved
+    ? [...(alert.activity || [])].reverse().find(a => a.action === 'RESOLVED')?.by
+    : undefined;
+
+  const entry: AlertHistoryEntry = {
+    id: alert.id,
+    productId: alert.productId,
+    warehouse: alert.warehouse || productStore.get(alert.productId)?.warehouse || '',
+    type: alert.type,
+    severity: existing && ALERT_SEVERITIES.indexOf(existing.severity) > ALERT_SEVERITIES.indexOf(alert.severity) ? existing.severity : alert.severity,
+    ruleId: alert.ruleId,
+    incidentId: alert.incidentId,
+    raisedAt: alert.timestamp,
+    acknowledgedAt: alert.acknowledgedAt,
+    acknowledgedBy: alert.acknowledgedBy,
+    resolvedAt: alert.resolved ? alert.resolvedAt : undefined,
+    resolvedBy,
+    resolution: alert.resolved ? existing?.resolution ?? resolution : undefined,
+    escalationLevel: alert.escalationLevel || 0,
+    timeToAcknowledgeMs: alert.acknowledgedAt ? alert.acknowledgedAt.getTime() - alert.timestamp.getTime() : undefined,
+    timeToResolveMs: alert.resolved && alert.resolvedAt ? alert.resolvedAt.getTime() - alert.timestamp.getTime() : undefined,
+    updatedAt: now,
+  };
+
+  return existing ? alertHistoryStore.update(alert.id, entry)! : alertHistoryStore.create(entry);
+}
+
+/**
+ * After projections are rebuilt: close the history of alerts the rebuild discarded, record the
+ * rebuilt active alerts, and close the history of alerts the rebuild kept but found resolved
+ */
+export function syncAlertHistory(at: Date = new Date()): void {
+  alertHistoryStore.getOpen().forEach(entry => {
+    const alert = alertStore.get(entry.id);
+    if (!alert) {
+      alertHistoryStore.update(entry.id, { resolvedAt: at, resolvedBy: 'system', resolution: 'REBUILT', updatedAt: at });
+    } else if (alert.resolved) {
+      const manual = alert.activity?.some(a => a.action === 'RESOLVED' && a.by !== 'system');
+      recordAlertHistory(alert, manual ? 'MANUAL' : 'AUTO');
+    }
+  });
+
+  alertStore.getActive().forEach(alert => recordAlertHistory(alert));
+}
+
+/**
+ * Start the history from the stored alerts, for storage that held alerts before it was kept
+ */
+export function backfillAlertHistory(): number {
+  if (alertHistoryStore.count() > 0) return 0;
+
+  const alerts = alertStore.getAll();
+  alerts.forEach(alert => recordAlertHistory(alert, alert.activity?.some(a => a.action === 'RESOLVED' && a.by !== 'system') ? 'MANUAL' : 'AUTO'));
+  return alerts.length;
+}
+
+/**
+ * Get alert history, newest first
+ */
+export function getAlertHistory(filters: AlertHistoryFilters = {}): AlertHistoryEntry[] {
+  let entries = filters.productId
+    ? alertHistoryStore.getByProduct(filters.productId)
+    : alertHistoryStore.getRaisedBetween(filters.since ?? new Date(0), filters.until ?? new Date());
+
+  entries = entries.filter(e =>
+    (!filters.warehouse || e.warehouse === filters.warehouse) &&
+    (!filters.type || e.type === filters.type) &&
+    (!filters.since || e.raisedAt >= filters.since) &&
+    (!filters.until || e.raisedAt <= filters.until)
+  );
+
+  return entries.sort((a, b) => b.raisedAt.getTime() - a.raisedAt.getTime());
+}
+
+/**
+ * Alert analytics for alerts raised in a period; alerts discarded by a rebuild are left out,
+ * as the rebuild raised them again
+ */
+export function getAlertAnalytics(since: Date, until: Date = new Date(), limit: number = 10): AlertAnalytics {
+  const entries = getAlertHistory({ since, until }).filter(e => e.resolution !== 'REBUILT');
+
+  return {
+    since,
+    until,
+    repeatWindowHours: REPEAT_ALERT_WINDOW_MS / (60 * 60 * 1000),
+    totals: getResponseTimes('all', entries),
+    byType: groupResponseTimes(entries, e => e.type),
+    byWarehouse: groupResponseTimes(entries, e => e.warehouse),
+    topProducts: getTopProducts(entries).slice(0, limit),
+    repeats: getRepeats(entries).slice(0, limit),
+  };
+}
+
+function groupResponseTimes(entries: AlertHistoryEntry[], keyOf: (entry: AlertHistoryEntry) => string): AlertResponseTimes[] {
+  const groups = new Map<string, AlertHistoryEntry[]>();
+  entries.forEach(e => groups.set(keyOf(e), [...(groups.get(keyOf(e)) || []), e]));
+
+  return Array.from(groups.entries())
+    .map(([key, group]) => getResponseTimes(key, group))
+    .sort((a, b) => b.alerts - a.alerts);
+}
+
+function getResponseTimes(key: string, entries: AlertHistoryEntry[]): AlertResponseTimes {
+  const acknowledged = entries.filter(e => e.timeToAcknowledgeMs !== undefined);
+  const resolved = entries.filter(e => e.timeToResolveMs !== undefined);
+
+  return {
+    key,
+    alerts: entries.length,
+    acknowledged: acknowledged.length,
+    resolved: resolved.length,
+    autoResolved: resolved.filter(e => e.resolution === 'AUTO').length,
+    mttaMinutes: meanMinutes(acknowledged.map(e => e.timeToAcknowledgeMs!)),
+    mttrMinutes: meanMinutes(resolved.map(e => e.timeToResolveMs!)),
+  };
+}
+
+function getTopProducts(entries: AlertHistoryEntry[]): AlertingProduct[] {
+  const byProduct = new Map<string, AlertingProduct>();
+
+  entries.forEach(e => {
+    const product = byProduct.get(e.productId) ?? {
+      productId: e.productId,
+      productName: productStore.get(e.productId)?.name ?? e.productId,
+      sku: productStore.get(e.productId)?.sku ?? '',
+      alerts: 0,
+      criticalAlerts: 0,
+      lastRaisedAt: e.raisedAt,
+    };
+    product.alerts++;
+    if (e.severity === 'critical') product.criticalAlerts++;
+    if (e.raisedAt > product.lastRaisedAt) product.lastRaisedAt = e.raisedAt;
+    byProduct.set(e.productId, product);
+  });
+
+  return Array.from(byProduct.values()).sort((a, b) => b.alerts - a.alerts || b.criticalAlerts - a.criticalAlerts);
+}
+
+function getRepeats(entries: AlertHistoryEntry[]): RepeatAlert[] {
+  const byPosition = new Map<string, AlertHistoryEntry[]>();
+  entries.forEach(e => {
+    const key = `${e.productId}|${e.warehouse}|${e.type}`;
+    byPosition.set(key, [...(byPosition.get(key) || []), e]);
+  });
+
+  const repeats: RepeatAlert[] = [];
+  byPosition.forEach(group => {
+    const sorted = group.sort((a, b) => a.raisedAt.getTime() - b.raisedAt.getTime());
+    const count = sorted.filter((e, i) => {
+      const previous = sorted[i - 1];
+      return previous?.resolvedAt !== undefined &&
+        e.raisedAt.getTime() - previous.resolvedAt.getTime() <= REPEAT_ALERT_WINDOW_MS;
+    }).length;
+    if (count === 0) return;
+
+    const last = sorted[sorted.length - 1];
+    repeats.push({
+      productId: last.productId,
+      productName: productStore.get(last.productId)?.name ?? last.productId,
+      warehouse: last.warehouse,
+      type: last.type,
+      alerts: sorted.length,
+      repeats: count,
+      lastRaisedAt: last.raisedAt,
+    });
+  });
+
+  return repeats.sort((a, b) => b.repeats - a.repeats || b.lastRaisedAt.getTime() - a.lastRaisedAt.getTime());
+}
+
+function meanMinutes(durationsMs: number[]): number | undefined {
+  if (durationsMs.length === 0) return undefined;
+  const mean = durationsMs.reduce((sum, ms) => sum + ms, 0) / durationsMs.length / 60000;
+  return Math.round(mean * 10) / 10;
+}
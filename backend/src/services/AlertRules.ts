@@ -0,0 +1,426 @@
+/**
+ * Alert Rule Service
+ * Alert conditions stored as data: what raises an alert, where it applies and what it says
+ *
+ * Each rule raises one alert type when its condition holds for a stock position, and resolves it
+ * when its resolveWhen expression holds. Rules are scoped by product, category and warehouse; for
+ * each alert type only the most specific matching rule applies, so a category can override the
+ * default threshold. The five original rules ship as built-in defaults.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Alert, AlertRule, AlertRuleScope, AlertSeverity, AlertType, Event, EventType, Product, StockPosition } from '../models/types';
+import { EVENT_TYPES } from '../models/eventSchema';
+import { productStore, eventStore, alertRuleStore, warehouseStore, purchaseOrderStore } from '../stores/InMemoryStore';
+import { compileExpression, CompiledExpression, RuleExpressionError } from './RuleExpression';
+import { getEventTime } from './EventReplay';
+
+/**
+ * Raised when an alert rule is invalid or cannot be changed as requested
+ */
+export class AlertRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AlertRuleError';
+  }
+}
+
+// Variables rule expressions and message templates can read for a stock position
+export const ALERT_RULE_VARIABLES = [
+  'available', // On hand minus reserved
+  'onHand',
+  'reserved',
+  'onOrder', // Submitted on purchase orders, not yet received
+  'reorderPoint',
+  'maxCapacity',
+  'unitPrice',
+  'depletionRate', // Fraction of stock sold (net of restocks and returns) in the hour up to the event
+];
+
+// Alert severities, least severe first
+export const ALERT_SEVERITIES: AlertSeverity[] = ['info', 'warning', 'critical'];
+
+export const ALERT_TYPES: AlertType[] = ['CRITICAL_LOW_STOCK', 'LOW_STOCK', 'OVERSTOCK', 'RAPID_DEPLETION', 'REORDER_NEEDED', 'AI_RECOMMENDATION'];
+
+// Alert types raised by stock rules (AI_RECOMMENDATION alerts come from elsewhere)
+export const RULE_ALERT_TYPES: AlertType[] = ALERT_TYPES.filter(type => type !== 'AI_RECOMMENDATION');
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = { critical: 3, warning: 2, info: 1 };
+
+const TEMPLATE_PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+const TEMPLATE_FIELDS = ['product', 'warehouse', 'category', 'sku'];
+
+export type AlertRuleInput = Omit<AlertRule, 'id' | 'builtIn' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * The original hard-coded rules. Stock-out rules use available stock; overstock uses stock on hand,
+ * since reserved units still take up space; reorder alerts also count stock already on order.
+ */
+export const DEFAULT_ALERT_RULES: (AlertRuleInput & { id: string })[] = [
+  {
+    id: 'RULE-CRITICAL_LOW_STOCK',
+    name: 'Critical low stock',
+    type: 'CRITICAL_LOW_STOCK',
+    severity: 'critical',
+    condition: 'available < 10 and available >= 0',
+    resolveWhen: 'available >= 10',
+    messageTemplate: 'Critical: {{product}} at {{warehouse}} has only {{available}} units available!',
+    scope: {},
+    group: 'stock-level',
+    enabled: true,
+  },
+  {
+    id: 'RULE-LOW_STOCK',
+    name: 'Low stock',
+    type: 'LOW_STOCK',
+    severity: 'warning',
+    condition: 'available < reorderPoint',
+    resolveWhen: 'available >= reorderPoint',
+    messageTemplate: 'Warning: {{product}} at {{warehouse}} available stock ({{available}}) below reorder point ({{reorderPoint}})',
+    scope: {},
+    group: 'stock-level',
+    enabled: true,
+  },
+  {
+    id: 'RULE-OVERSTOCK',
+    name: 'Overstock',
+    type: 'OVERSTOCK',
+    severity: 'info',
+    condition: 'onHand > maxCapacity * 0.9',
+    resolveWhen: 'onHand <= maxCapacity * 0.9',
+    messageTemplate: 'Info: {{product}} at {{warehouse}} is overstocked ({{onHand}}/{{maxCapacity}})',
+    scope: {},
+    enabled: true,
+  },
+  {
+    id: 'RULE-RAPID_DEPLETION',
+    name: 'Rapid depletion',
+    type: 'RAPID_DEPLETION',
+    severity: 'warning',
+    condition: 'depletionRate > 0.3',
+    messageTemplate: 'Warning: {{product}} at {{warehouse}} experiencing rapid depletion - stock decreased by >30% in the last hour',
+    scope: {},
+    eventTypes: ['SALE'],
+    enabled: true,
+  },
+  {
+    id: 'RULE-REORDER_NEEDED',
+    name: 'Reorder needed',
+    type: 'REORDER_NEEDED',
+    severity: 'warning',
+    condition: 'available + onOrder <= reorderPoint and available > 0',
+    resolveWhen: 'available + onOrder >= reorderPoint',
+    messageTemplate: 'Reorder needed for {{product}} at {{warehouse}} - available: {{available}}, on order: {{onOrder}}, reorder point: {{reorderPoint}}',
+    scope: {},
+    enabled: true,
+  },
+];
+
+// Parsed expressions by source, so rules are not re-parsed for every event
+const compiled = new Map<string, CompiledExpression>();
+
+/**
+ * Add any built-in rule that is missing (on first start, or after upgrading to a version with new defaults)
+ */
+export function installDefaultAlertRules(): number {
+  const missing = DEFAULT_ALERT_RULES.filter(rule => !alertRuleStore.exists(rule.id));
+  const now = new Date();
+
+  missing.forEach(rule => {
+    alertRuleStore.create({ ...rule, builtIn: true, createdAt: now, updatedAt: now });
+  });
+  return missing.length;
+}
+
+/**
+ * Add an alert rule
+ */
+export function createAlertRule(input: Partial<AlertRuleInput>): AlertRule {
+  const now = new Date();
+  const rule: AlertRule = {
+    id: `RULE-${uuidv4()}`,
+    name: input.name!,
+    type: input.type!,
+    severity: input.severity!,
+    condition: input.condition!,
+    resolveWhen: input.resolveWhen,
+    messageTemplate: input.messageTemplate!,
+    scope: input.scope ?? {},
+    // An override joins the built-in rule's group, so it still suppresses (or is suppressed by) the same alerts
+    group: input.group ?? DEFAULT_ALERT_RULES.find(r => r.type === input.type)?.group,
+    eventTypes: input.eventTypes,
+    enabled: input.enabled ?? true,
+    builtIn: false,
+    createdAt: now,
+    updatedAt: now,
+  };
+  checkAlertRule(rule);
+
+  return alertRuleStore.create(rule);
+}
+
+/**
+ * Change an alert rule; the change applies from the next event at each stock position
+ */
+export function updateAlertRule(id: string, updates: Partial<AlertRuleInput>): AlertRule {
+  const rule = getRule(id);
+  const updated: AlertRule = { ...rule, ...updates, id, builtIn: rule.builtIn, createdAt: rule.createdAt, updatedAt: new Date() };
+  checkAlertRule(updated);
+
+  return alertRuleStore.update(id, updated)!;
+}
+
+/**
+ * Restore a built-in rule to its shipped definition
+ */
+export function resetAlertRule(id: string): AlertRule {
+  const rule = getRule(id);
+  const shipped = DEFAULT_ALERT_RULES.find(r => r.id === id);
+  if (!rule.builtIn || !shipped) {
+    throw new AlertRuleError(`Alert rule ${id} is not a built-in rule`);
+  }
+
+  return alertRuleStore.update(id, {
+    ...shipped,
+    resolveWhen: shipped.resolveWhen,
+    group: shipped.group,
+    eventTypes: shipped.eventTypes,
+    updatedAt: new Date(),
+  })!;
+}
+
+/**
+ * Remove an alert rule (built-in rules can only be disabled)
+ */
+export function deleteAlertRule(id: string): void {
+  const rule = getRule(id);
+  if (rule.builtIn) {
+    throw new AlertRuleError(`Alert rule ${id} is built in: disable it instead`);
+  }
+
+  alertRuleStore.delete(id);
+}
+
+/**
+ * Get the rule that applies to a stock position for each alert type: the most specific matching scope,
+ * product over category over warehouse (a disabled rule still applies, switching that alert off)
+ */
+export function getApplicableRules(product: Product, position: StockPosition): AlertRule[] {
+  const byType = new Map<AlertType, { rule: AlertRule; specificity: number }>();
+
+  alertRuleStore.getAll().forEach(rule => {
+    const specificity = getScopeSpecificity(rule.scope, product, position);
+    if (specificity < 0) return;
+
+    const current = byType.get(rule.type);
+    if (!current || specificity > current.specificity ||
+        (specificity === current.specificity && rule.createdAt.getTime() > current.rule.createdAt.getTime())) {
+      byType.set(rule.type, { rule, specificity });
+    }
+  });
+
+  return Array.from(byType.values()).map(entry => entry.rule);
+}
+
+/**
+ * Evaluate the rules that apply to a stock position after an event, returning those that raise an alert
+ * with their rendered messages
+ */
+export function evaluateAlertRules(
+  product: Product,
+  position: StockPosition,
+  event: Event
+): { rule: AlertRule; message: string }[] {
+  const variables = buildVariables(product, position, getEventTime(event));
+
+  const matches = getApplicableRules(product, position)
+    .filter(rule => rule.enabled)
+    .filter(rule => !rule.eventTypes || rule.eventTypes.includes(event.type))
+    .filter(rule => compile(rule.condition).evaluate(variables));
+
+  // Within a group only the most severe match raises an alert (critical low stock, not also low stock)
+  const raised = matches.filter(rule =>
+    !rule.group || !matches.some(other => other.group === rule.group && SEVERITY_RANK[other.severity] > SEVERITY_RANK[rule.severity])
+  );
+
+  return raised.map(rule => ({ rule, message: renderMessage(rule.messageTemplate, product, position, variables) }));
+}
+
+/**
+ * Check whether an active alert's rule now resolves it (alerts whose rule has no resolveWhen stay active)
+ */
+export function shouldResolveAlert(alert: Alert, product: Product, position: StockPosition): boolean {
+  const rule = (alert.ruleId && alertRuleStore.get(alert.ruleId)) ||
+    getApplicableRules(product, position).find(r => r.type === alert.type);
+  if (!rule?.resolveWhen) return false;
+
+  return compile(rule.resolveWhen).evaluate(buildVariables(product, position, Date.now()));
+}
+
+function checkAlertRule(rule: AlertRule): void {
+  if (typeof rule.name !== 'string' || rule.name.trim() === '') {
+    throw new AlertRuleError('name must be a non-empty string');
+  }
+  if (!RULE_ALERT_TYPES.includes(rule.type)) {
+    throw new AlertRuleError(`type must be one of ${RULE_ALERT_TYPES.join(', ')}`);
+  }
+  if (!Object.keys(SEVERITY_RANK).includes(rule.severity)) {
+    throw new AlertRuleError(`severity must be one of ${Object.keys(SEVERITY_RANK).join(', ')}`);
+  }
+  if (typeof rule.enabled !== 'boolean') {
+    throw new AlertRuleError('enabled must be true or false');
+  }
+  if (rule.group !== undefined && (typeof rule.group !== 'string' || rule.group.trim() === '')) {
+    throw new AlertRuleError('group must be a non-empty string');
+  }
+
+  checkExpression('condition', rule.condition);
+  if (rule.resolveWhen !== undefined) {
+    checkExpression('resolveWhen', rule.resolveWhen);
+  }
+  checkMessageTemplate(rule.messageTemplate);
+  checkScope(rule.scope);
+
+  if (rule.eventTypes !== undefined) {
+    if (!Array.isArray(rule.eventTypes) || rule.eventTypes.length === 0 ||
+        rule.eventTypes.some((type: EventType) => !EVENT_TYPES.includes(type))) {
+      throw new AlertRuleError(`eventTypes must be a non-empty list of ${EVENT_TYPES.join(', ')}`);
+    }
+  }
+}
+
+function checkExpression(field: string, source: unknown): void {
+  if (typeof source !== 'string') {
+    throw new AlertRuleError(`${field} must be an expression string`);
+  }
+  try {
+    compile(source);
+  } catch (error) {
+    if (error instanceof RuleExpressionError) {
+      throw new AlertRuleError(`${field}: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+function checkMessageTemplate(template: unknown): void {
+  if (typeof template !== 'string' || template.trim() === '') {
+    throw new AlertRuleError('messageTemplate must be a non-empty string');
+  }
+
+  const unknown = Array.from(template.matchAll(TEMPLATE_PLACEHOLDER), match => match[1])
+    .filter(name => !TEMPLATE_FIELDS.includes(name) && !ALERT_RULE_VARIABLES.includes(name));
+  if (unknown.length > 0) {
+    throw new AlertRuleError(
+      `messageTemplate uses unknown placeholder(s) ${unknown.join(', ')}; expected ${[...TEMPLATE_FIELDS, ...ALERT_RULE_VARIABLES].join(', ')}`
+    );
+  }
+}
+
+function checkScope(scope: AlertRuleScope): void {
+  if (typeof scope !== 'object' || scope === null || Array.isArray(scope)) {
+    throw new AlertRuleError('scope must be an object with optional productId, category and warehouse');
+  }
+
+  const extra = Object.keys(scope).filter(key => !['productId', 'category', 'warehouse'].includes(key));
+  if (extra.length > 0) {
+    throw new AlertRuleError(`scope has unknown field(s) ${extra.join(', ')}`);
+  }
+  if (scope.productId !== undefined && !productStore.exists(scope.productId)) {
+    throw new AlertRuleError(`Product ${scope.productId} not found`);
+  }
+  if (scope.warehouse !== undefined && !warehouseStore.exists(scope.warehouse)) {
+    throw new AlertRuleError(`Warehouse ${scope.warehouse} not found`);
+  }
+  if (scope.category !== undefined && (typeof scope.category !== 'string' || scope.category.trim() === '')) {
+    throw new AlertRuleError('scope.category must be a non-empty string');
+  }
+}
+
+/**
+ * Score how specifically a scope matches a stock position (-1 if it does not match)
+ */
+function getScopeSpecificity(scope: AlertRuleScope, product: Product, position: StockPosition): number {
+  if (scope.productId !== undefined && scope.productId !== product.id) return -1;
+  if (scope.category !== undefined && scope.category !== product.category) return -1;
+  if (scope.warehouse !== undefined && scope.warehouse !== position.warehouse) return -1;
+
+  return (scope.productId !== undefined ? 4 : 0) +
+    (scope.category !== undefined ? 2 : 0) +
+    (scope.warehouse !== undefined ? 1 : 0);
+}
+
+/**
+ * Build the variables rules read for a stock position (depletion rate is only worked out when read)
+ */
+function buildVariables(product: Product, position: StockPosition, asOf: number): Record<string, number> {
+  return {
+    available: position.available,
+    onHand: position.currentStock,
+    reserved: position.reserved,
+    onOrder: purchaseOrderStore.getOnOrderUnits(position.productId, position.warehouse),
+    reorderPoint: position.reorderPoint,
+    maxCapacity: position.maxCapacity,
+    unitPrice: product.unitPrice,
+    get depletionRate() {
+      return getDepletionRate(position, asOf);
+    },
+  };
+}
+
+/**
+ * Fraction of a position's stock sold, net of restocks and returns, in the hour up to asOf (0 if stock grew)
+ */
+function getDepletionRate(position: StockPosition, asOf: number): number {
+  const oneHourBefore = asOf - 60 * 60 * 1000;
+
+  // Get events from the last hour for this product at this warehouse
+  const recentEvents = eventStore
+    .getByProduct(position.productId)
+    .filter(e => e.warehouse === position.warehouse)
+    .filter(e => getEventTime(e) >= oneHourBefore && getEventTime(e) <= asOf);
+
+  // Calculate net stock change
+  let netChange = 0;
+  recentEvents.forEach(event => {
+    if (event.type === 'SALE') netChange -= event.quantity;
+    if (event.type === 'RESTOCK' || event.type === 'RETURN') netChange += event.quantity;
+  });
+
+  const stockAtStartOfHour = position.currentStock - netChange;
+  return netChange < 0 ? Math.abs(netChange) / stockAtStartOfHour : 0;
+}
+
+function renderMessage(template: string, product: Product, position: StockPosition, variables: Record<string, number>): string {
+  const fields: Record<string, string> = {
+    product: product.name,
+    warehouse: position.warehouse,
+    category: product.category,
+    sku: product.sku,
+  };
+
+  return template.replace(TEMPLATE_PLACEHOLDER, (placeholder, name: string) => {
+    if (name in fields) return fields[name];
+    if (!(name in variables)) return placeholder;
+
+    const value = variables[name];
+    return Number.isInteger(value) ? String(value) : value.toFixed(2);
+  });
+}
+
+function compile(source: string): CompiledExpression {
+  let expression = compiled.get(source);
+  if (!expression) {
+    expression = compileExpression(source, ALERT_RULE_VARIABLES);
+    compiled.set(source, expression);
+  }
+  return expression;
+}
+
+function getRule(id: string): AlertRule {
+  const rule = alertRuleStore.get(id);
+  if (!rule) {
+    throw new AlertRuleError(`Alert rule ${id} not found`);
+  }
+  return rule;
+}
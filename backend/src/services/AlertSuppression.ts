@@ -0,0 +1,188 @@
+/**
+ * Alert Suppression Service
+ * Holds back alerts during maintenance windows and alert storms
+ *
+ * A maintenance window silences new alerts at a warehouse while a planned stocktake or other
+ * work moves stock around; alerts already raised are left as they are. Outside windows, each
+ * warehouse may raise at most ALERT_RATE_LIMIT non-critical alerts a minute; critical alerts
+ * are never rate limited. A suppressed alert is raised by the next event that still meets
+ * its rule once the window has ended or the rate has dropped.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { AlertSeverity, MaintenanceWindow } from '../models/types';
+import { maintenanceWindowStore, warehouseStore } from '../stores/InMemoryStore';
+
+const DEFAULT_ALERT_RATE_LIMIT = 20;
+const ALERT_RATE_LIMIT = parseRateLimit(process.env.ALERT_RATE_LIMIT);
+const ALERT_RATE_WINDOW_MS = 60 * 1000;
+
+export type SuppressionReason = 'MAINTENANCE' | 'RATE_LIMIT';
+
+// Times of recent alerts per warehouse, oldest first, for the rate limit
+const recentAlerts = new Map<string, number[]>();
+
+const stats = {
+  alertsSuppressedByMaintenance: 0,
+  alertsSuppressedByRateLimit: 0,
+};
+
+/**
+ * The rate limit from the environment; anything but a positive whole number falls back to the default
+ */
+function parseRateLimit(value: string | undefined): number {
+  if (value === undefined || value.trim() === '') return DEFAULT_ALERT_RATE_LIMIT;
+
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1) {
+    console.warn(`⚠️  Invalid ALERT_RATE_LIMIT "${value}", using ${DEFAULT_ALERT_RATE_LIMIT}`);
+    return DEFAULT_ALERT_RATE_LIMIT;
+  }
+  return limit;
+}
+
+/**
+ * Raised when a maintenance window is invalid or cannot be found
+ */
+export class MaintenanceWindowError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MaintenanceWindowError';
+  }
+}
+
+export type MaintenanceWindowInput = Pick<MaintenanceWindow, 'warehouse' | 'startsAt' | 'endsAt' | 'reason' | 'createdBy'>;
+
+/**
+ * Decide whether an alert may be raised at a warehouse; an alert let through counts toward the rate limit
+ */
+export function admitAlert(warehouse: string, severity: AlertSeverity, at: Date): SuppressionReason | undefined {
+  const window = maintenanceWindowStore.getActiveAt(warehouse, at);
+  if (window) {
+    maintenanceWindowStore.update(window.id, { suppressedAlerts: window.suppressedAlerts + 1 });
+    stats.alertsSuppressedByMaintenance++;
+    return 'MAINTENANCE';
+  }
+
+  const since = at.getTime() - ALERT_RATE_WINDOW_MS;
+  const times = (recentAlerts.get(warehouse) || []).filter(t => t > since);
+  if (severity !== 'critical' && times.length >= ALERT_RATE_LIMIT) {
+    recentAlerts.set(warehouse, times);
+    stats.alertsSuppressedByRateLimit++;
+    return 'RATE_LIMIT';
+  }
+
+  recentAlerts.set(warehouse, [...times, at.getTime()]);
+  return undefined;
+}
+
+/**
+ * Forget rate limit history and suppression counts, before alerts are rebuilt from the event log
+ */
+export function resetAlertSuppression(): void {
+  recentAlerts.clear();
+  stats.alertsSuppressedByMaintenance = 0;
+  stats.alertsSuppressedByRateLimit = 0;
+  maintenanceWindowStore.getAll().forEach(w => maintenanceWindowStore.update(w.id, { suppressedAlerts: 0 }));
+}
+
+/**
+ * Schedule a maintenance window at a warehouse
+ */
+export function createMaintenanceWindow(input: Partial<MaintenanceWindowInput>): MaintenanceWindow {
+  const window: MaintenanceWindow = {
+    id: `MW-${uuidv4()}`,
+    warehouse: input.warehouse!,
+    startsAt: input.startsAt ?? new Date(),
+    endsAt: input.endsAt!,
+    reason: input.reason!,
+    createdBy: input.createdBy ?? 'operator',
+    createdAt: new Date(),
+    suppressedAlerts: 0,
+  };
+  checkMaintenanceWindow(window);
+
+  return maintenanceWindowStore.create(window);
+}
+
+/**
+ * Change a maintenance window, e.g. to extend it
+ */
+export function updateMaintenanceWindow(
+  id: string,
+  updates: Partial<Pick<MaintenanceWindow, 'startsAt' | 'endsAt' | 'reason'>>
+): MaintenanceWindow {
+  const window = getWindow(id);
+  const updated = { ...window, ...updates, id };
+  checkMaintenanceWindow(updated);
+
+  return maintenanceWindowStore.update(id, updated)!;
+}
+
+/**
+ * End a maintenance window now, e.g. when a stocktake finishes early
+ */
+export function endMaintenanceWindow(id: string, at: Date = new Date()): MaintenanceWindow {
+  const window = getWindow(id);
+  if (window.endsAt.getTime() <= at.getTime()) {
+    throw new MaintenanceWindowError(`Maintenance window ${id} has already ended`);
+  }
+
+  // A window that has not started yet is ended by making it empty
+  const endsAt = window.startsAt.getTime() > at.getTime() ? window.startsAt : at;
+  return maintenanceWindowStore.update(id, { endsAt })!;
+}
+
+/**
+ * Remove a maintenance window
+ */
+export function deleteMaintenanceWindow(id: string): void {
+  getWindow(id);
+  maintenanceWindowStore.delete(id);
+}
+
+/**
+ * Get alert suppression statistics
+ */
+export function getSuppressionStats() {
+  const now = new Date();
+
+  return {
+    ...stats,
+    activeMaintenanceWindows: maintenanceWindowStore.find(w => w.startsAt <= now && now < w.endsAt).length,
+  };
+}
+
+function checkMaintenanceWindow(window: MaintenanceWindow): void {
+  if (typeof window.warehouse !== 'string' || !warehouseStore.exists(window.warehouse)) {
+    throw new MaintenanceWindowError(`warehouse must be one of ${warehouseStore.getAll().map(w => w.id).join(', ')}`);
+  }
+  if (!(window.startsAt instanceof Date) || isNaN(window.startsAt.getTime())) {
+    throw new MaintenanceWindowError('startsAt must be a date');
+  }
+  if (!(window.endsAt instanceof Date) || isNaN(window.endsAt.getTime())) {
+    throw new MaintenanceWindowError('endsAt must be a date');
+  }
+  if (window.endsAt.getTime() <= window.startsAt.getTime()) {
+    throw new MaintenanceWindowError('endsAt must be after startsAt');
+  }
+  if (typeof window.reason !== 'string' || window.reason.trim() === '') {
+    throw new MaintenanceWindowError('reason must be a non-empty string');
+  }
+
+  const overlapping = maintenanceWindowStore
+    .getByWarehouse(window.warehouse)
+    .find(w => w.id !== window.id &&
+      w.startsAt.getTime() < window.endsAt.getTime() && window.startsAt.getTime() < w.endsAt.getTime());
+  if (overlapping) {
+    throw new MaintenanceWindowError(`Overlaps maintenance window ${overlapping.id} at ${window.warehouse}`);
+  }
+}
+
+function getWindow(id: string): MaintenanceWindow {
+  const window = maintenanceWindowStore.get(id);
+  if (!window) {
+    throw new MaintenanceWindowError(`Maintenance window ${id} not found`);
+  }
+  return window;
+}
@@ -0,0 +1,169 @@
+/**
+ * Alert Workflow Service
+ * Operator handling of active alerts: acknowledge, assign, snooze, annotate and resolve
+ *
+ * Every change is timestamped in the alert's audit trail with the operator who made it and
+ * broadcast to connected clients. A snoozed alert stays active but is hidden from active views
+ * until its snooze ends.
+ */
+
+import { Alert, AlertActivity, Incident } from '../models/types';
+import { alertStore, incidentStore } from '../stores/InMemoryStore';
+import { broadcastAlertUpdate, broadcastAlertResolution, broadcastIncident } from './WebSocketService';
+import { getIncidentAlerts, resolveIncidentIfDone } from './Incidents';
+import { recordAlertHistory } from './AlertHistory';
+
+/**
+ * Raised when an alert cannot be changed as requested
+ */
+export class AlertWorkflowError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AlertWorkflowError';
+  }
+}
+
+/**
+ * Acknowledge an alert: an operator has seen it and is handling it
+ */
+export function acknowledgeAlert(id: string, by: string, note?: string): Alert {
+  const alert = getActiveAlert(id);
+  if (alert.acknowledgedAt) {
+    throw new AlertWorkflowError(`Alert ${id} was already acknowledged by ${alert.acknowledgedBy}`);
+  }
+
+  const at = new Date();
+  return record(id, { acknowledgedAt: at, acknowledgedBy: by }, { action: 'ACKNOWLEDGED', at: at.toISOString(), by, note });
+}
+
+/**
+ * Assign an alert to an operator (or unassign it)
+ */
+export function assignAlert(id: string, assignee: string | undefined, by: string, note?: string): Alert {
+  getActiveAlert(id);
+
+  const at = new Date().toISOString();
+  return assignee
+    ? record(id, { assignee }, { action: 'ASSIGNED', at, by, assignee, note })
+    : record(id, { assignee: undefined }, { action: 'UNASSIGNED', at, by, note });
+}
+
+/**
+ * Snooze an alert until a time in the future (or end its snooze)
+ */
+export function snoozeAlert(id: string, until: Date | undefined, by: string, note?: string): Alert {
+  const alert = getActiveAlert(id);
+  const at = new Date();
+
+  if (!until) {
+    if (!isSnoozed(alert, at)) {
+      throw new AlertWorkflowError(`Alert ${id} is not snoozed`);
+    }
+    return record(id, { snoozedUntil: undefined }, { action: 'UNSNOOZED', at: at.toISOString(), by, note });
+  }
+
+  if (until.getTime() <= at.getTime()) {
+    throw new AlertWorkflowError('until must be in the future');
+  }
+  return record(id, { snoozedUntil: until }, {
+    action: 'SNOOZED',
+    at: at.toISOString(),
+    by,
+    snoozedUntil: until.toISOString(),
+    note,
+  });
+}
+
+/**
+ * Add a note to an alert's audit trail (resolved alerts included)
+ */
+export function addAlertNote(id: string, note: string, by: string): Alert {
+  getAlert(id);
+  if (note.trim() === '') {
+    throw new AlertWorkflowError('note must be a non-empty string');
+  }
+
+  return record(id, {}, { action: 'NOTE', at: new Date().toISOString(), by, note });
+}
+
+/**
+ * Resolve an alert by hand
+ */
+export function resolveAlert(id: string, by: string, note?: string): Alert {
+  getActiveAlert(id);
+
+  const resolved = alertStore.resolve(id, new Date(), by, note)!;
+  recordAlertHistory(resolved);
+  console.log(`✅ Alert manually resolved: ${id}`);
+
+  broadcastAlertResolution(id);
+  broadcastAlertUpdate(resolved);
+
+  const incident = resolveIncidentIfDone(resolved);
+  if (incident) broadcastIncident(incident);
+  return resolved;
+}
+
+/**
+ * Resolve every active alert in an incident by hand, which resolves the incident
+ */
+export function resolveIncident(id: string, by: string, note?: string): Incident {
+  const incident = incidentStore.get(id);
+  if (!incident) {
+    throw new AlertWorkflowError(`Incident ${id} not found`);
+  }
+  if (incident.status === 'RESOLVED') {
+    throw new AlertWorkflowError(`Incident ${id} is already resolved`);
+  }
+
+  getIncidentAlerts(incident)
+    .filter(alert => !alert.resolved)
+    .forEach(alert => resolveAlert(alert.id, by, note));
+
+  return incidentStore.get(id)!;
+}
+
+/**
+ * Check whether an alert is snoozed at a point in time
+ */
+export function isSnoozed(alert: Alert, asOf: Date = new Date()): boolean {
+  return !!alert.snoozedUntil && alert.snoozedUntil.getTime() > asOf.getTime();
+}
+
+/**
+ * Get alert workflow statistics for active alerts
+ */
+export function getAlertWorkflowStats() {
+  const active = alertStore.getActive();
+  const now = new Date();
+
+  return {
+    unacknowledgedAlerts: active.filter(a => !a.acknowledgedAt).length,
+    acknowledgedAlerts: active.filter(a => a.acknowledgedAt).length,
+    assignedAlerts: active.filter(a => a.assignee).length,
+    snoozedAlerts: active.filter(a => isSnoozed(a, now)).length,
+  };
+}
+
+function record(id: string, updates: Partial<Alert>, activity: AlertActivity): Alert {
+  const alert = alertStore.recordActivity(id, updates, activity)!;
+  recordAlertHistory(alert);
+  broadcastAlertUpdate(alert);
+  return alert;
+}
+
+function getActiveAlert(id: string): Alert {
+  const alert = getAlert(id);
+  if (alert.resolved) {
+    throw new AlertWorkflowError(`Alert ${id} is already resolved`);
+  }
+  return alert;
+}
+
+function getAlert(id: string): Alert {
+  const alert = alertStore.get(id);
+  if (!alert) {
+    throw new AlertWorkflowError(`Alert ${id} not found`);
+  }
+  return alert;
+}
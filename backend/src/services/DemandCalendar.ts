@@ -0,0 +1,149 @@
+/**
+ * Demand Calendar Service
+ * Promotions, holidays and planned events, and the change in demand expected from them
+ *
+ * Each calendar event covers a date range and a set of products, by SKU or category (every
+ * product when neither is given), and carries the expected change in daily demand. Forecasting
+ * divides past demand by the uplift in effect on each day so models fit the underlying demand,
+ * and multiplies the days ahead by theirs. Events that overlap stack: two +20% promotions on the
+ * same day give +44%. An event applies to every UTC day it overlaps.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { CalendarEvent, CalendarEventType, Product } from '../models/types';
+import { calendarEventStore, productStore } from '../stores/InMemoryStore';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const CALENDAR_EVENT_TYPES: CalendarEventType[] = ['PROMOTION', 'HOLIDAY', 'EVENT'];
+
+/**
+ * Raised when a calendar event is invalid or cannot be found
+ */
+export class CalendarEventError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CalendarEventError';
+  }
+}
+
+export type CalendarEventInput = Pick<CalendarEvent, 'name' | 'type' | 'startsAt' | 'endsAt' | 'skus' | 'categories' | 'upliftPercent' | 'createdBy'>;
+
+/**
+ * Add an event to the calendar
+ */
+export function createCalendarEvent(input: Partial<CalendarEventInput>): CalendarEvent {
+  const now = new Date();
+  const event: CalendarEvent = {
+    id: `CAL-${uuidv4()}`,
+    name: input.name!,
+    type: input.type ?? 'PROMOTION',
+    startsAt: input.startsAt!,
+    endsAt: input.endsAt!,
+    skus: input.skus,
+    categories: input.categories,
+    upliftPercent: input.upliftPercent!,
+    createdBy: input.createdBy ?? 'operator',
+    createdAt: now,
+    updatedAt: now,
+  };
+  checkCalendarEvent(event);
+
+  return calendarEventStore.create(event);
+}
+
+/**
+ * Change a calendar event, e.g. to extend a promotion or revise its expected uplift
+ */
+export function updateCalendarEvent(
+  id: string,
+  updates: Partial<Omit<CalendarEventInput, 'createdBy'>>
+): CalendarEvent {
+  const event = getCalendarEvent(id);
+  const updated = { ...event, ...updates, id, updatedAt: new Date() };
+  checkCalendarEvent(updated);
+
+  return calendarEventStore.update(id, updated)!;
+}
+
+/**
+ * Remove an event from the calendar
+ */
+export function deleteCalendarEvent(id: string): void {
+  getCalendarEvent(id);
+  calendarEventStore.delete(id);
+}
+
+/**
+ * Whether a calendar event covers a product
+ */
+export function appliesTo(event: CalendarEvent, product: Product): boolean {
+  const skus = event.skus ?? [];
+  const categories = event.categories ?? [];
+  if (skus.length === 0 && categories.length === 0) return true;
+
+  return skus.includes(product.sku) || categories.includes(product.category);
+}
+
+/**
+ * Calendar events covering a product at any time in a date range
+ */
+export function getCalendarEventsFor(product: Product, calendar: CalendarEvent[], start: Date, end: Date): CalendarEvent[] {
+  return calendar
+    .filter(e => e.startsAt.getTime() < end.getTime() && start.getTime() < e.endsAt.getTime() && appliesTo(e, product))
+    .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+}
+
+/**
+ * Expected demand multiplier for a product on each of the days from `from` (the start of a day)
+ */
+export function getDemandMultipliers(product: Product, calendar: CalendarEvent[], from: Date, days: number): number[] {
+  const events = getCalendarEventsFor(product, calendar, from, new Date(from.getTime() + days * DAY_MS));
+
+  return Array.from({ length: days }, (_, day) => {
+    const start = from.getTime() + day * DAY_MS;
+    return events
+      .filter(e => e.startsAt.getTime() < start + DAY_MS && start < e.endsAt.getTime())
+      .reduce((multiplier, e) => multiplier * (1 + e.upliftPercent / 100), 1);
+  });
+}
+
+function checkCalendarEvent(event: CalendarEvent): void {
+  if (typeof event.name !== 'string' || event.name.trim() === '') {
+    throw new CalendarEventError('name must be a non-empty string');
+  }
+  if (!CALENDAR_EVENT_TYPES.includes(event.type)) {
+    throw new CalendarEventError(`type must be one of ${CALENDAR_EVENT_TYPES.join(', ')}`);
+  }
+  if (!(event.startsAt instanceof Date) || isNaN(event.startsAt.getTime())) {
+    throw new CalendarEventError('startsAt must be a date');
+  }
+  if (!(event.endsAt instanceof Date) || isNaN(event.endsAt.getTime())) {
+    throw new CalendarEventError('endsAt must be a date');
+  }
+  if (event.endsAt.getTime() <= event.startsAt.getTime()) {
+    throw new CalendarEventError('endsAt must be after startsAt');
+  }
+  if (typeof event.upliftPercent !== 'number' || !isFinite(event.upliftPercent) || event.upliftPercent <= -100) {
+    throw new CalendarEventError('upliftPercent must be a number above -100');
+  }
+  if (event.skus !== undefined && (!Array.isArray(event.skus) || event.skus.some(sku => typeof sku !== 'string'))) {
+    throw new CalendarEventError('skus must be an array of SKUs');
+  }
+  if (event.categories !== undefined && (!Array.isArray(event.categories) || event.categories.some(c => typeof c !== 'string'))) {
+    throw new CalendarEventError('categories must be an array of categories');
+  }
+
+  const unknown = (event.skus ?? []).find(sku => productStore.find(p => p.sku === sku).length === 0);
+  if (unknown !== undefined) {
+    throw new CalendarEventError(`Unknown SKU ${unknown}`);
+  }
+}
+
+function getCalendarEvent(id: string): CalendarEvent {
+  const event = calendarEventStore.get(id);
+  if (!event) {
+    throw new CalendarEventError(`Calendar event ${id} not found`);
+  }
+  return event;
+}
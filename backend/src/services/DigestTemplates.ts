@@ -0,0 +1,211 @@
+/**
+ * Digest Templates
+ * Plain-text and HTML bodies for the alert digest and alert escalation emails
+ */
+
+import type { Alert } from '../models/types';
+import type { Digest, DigestAlert, WarehouseDigest } from './AlertDigest';
+import type { AIRecommendation } from './AIRecommendations';
+
+const SEVERITY_COLORS: Record<DigestAlert['severity'], string> = {
+  critical: '#dc2626',
+  warning: '#d97706',
+  info: '#2563eb',
+};
+
+/**
+ * Subject line, leading with what needs attention
+ */
+export function renderDigestSubject(digest: Digest): string {
+  const { newAlerts, criticalAlerts } = digest.totals;
+  const date = formatDate(digest.generatedAt);
+
+  if (newAlerts === 0 && criticalAlerts === 0) {
+    return `StreamStock AI digest for ${date}: no new alerts`;
+  }
+  const critical = criticalAlerts > 0 ? `, ${criticalAlerts} critical` : '';
+  return `StreamStock AI digest for ${date}: ${newAlerts} new alert${newAlerts === 1 ? '' : 's'}${critical}`;
+}
+
+/**
+ * Plain-text body
+ */
+export function renderDigestText(digest: Digest): string {
+  const lines = [
+    'StreamStock AI daily digest',
+    `Alerts since ${formatDateTime(digest.since)}`,
+    '',
+    summaryLine(digest),
+  ];
+
+  if (digest.warehouses.length === 0) {
+    lines.push('', 'Nothing needs attention in your warehouses.');
+  }
+
+  digest.warehouses.forEach(warehouse => {
+    lines.push('', `== ${warehouse.warehouseName} ==`);
+
+    sections(warehouse).forEach(([title, alerts]) => {
+      if (alerts.length === 0) return;
+      lines.push('', `${title} (${alerts.length})`);
+      alerts.forEach(alert => lines.push(`  [${alert.severity.toUpperCase()}] ${alert.productName}: ${alert.message}${alertStatus(alert)}`));
+    });
+
+    if (warehouse.recommendations.length > 0) {
+      lines.push('', `Reorder recommendations (${warehouse.recommendations.length})`);
+      warehouse.recommendations.forEach(r => {
+        lines.push(`  [${r.priority.toUpperCase()}] ${r.productName}: order ${r.suggestedReorderQuantity} units${costText(r)}, ${stockoutText(r)}`);
+      });
+    }
+  });
+
+  lines.push('', '--', 'You receive this digest because you are subscribed to StreamStock AI alert digests.');
+  return lines.join('\n');
+}
+
+/**
+ * HTML body, styled inline for email clients
+ */
+export function renderDigestHtml(digest: Digest): string {
+  const body = digest.warehouses.length === 0
+    ? '<p style="color:#16a34a">Nothing needs attention in your warehouses.</p>'
+    : digest.warehouses.map(renderWarehouseHtml).join('\n');
+
+  return `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;color:#111827">
+  <div style="max-width:680px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px">
+    <h1 style="font-size:20px;margin:0 0 4px">StreamStock AI daily digest</h1>
+    <p style="margin:0 0 16px;color:#6b7280;font-size:13px">Alerts since ${escapeHtml(formatDateTime(digest.since))}</p>
+    <p style="margin:0 0 16px">${escapeHtml(summaryLine(digest))}</p>
+    ${body}
+    <p style="margin:24px 0 0;color:#9ca3af;font-size:12px">You receive this digest because you are subscribed to StreamStock AI alert digests.</p>
+  </div>
+</body>
+</html>`;
+}
+
+export interface EscalationEmail {
+  alert: Alert;
+  productName: string;
+  policyName: string;
+  level: number; // Tier reached
+  minutesOpen: number;
+}
+
+/**
+ * Subject, plain-text and HTML body telling a tier's recipients an alert has escalated to them
+ */
+export function renderEscalationEmail(escalation: EscalationEmail): { subject: string; text: string; html: string } {
+  const { alert, productName, policyName, level, minutesOpen } = escalation;
+  const subject = `Escalated (level ${level}): ${alert.severity.toUpperCase()} ${alert.type} for ${productName}`;
+  const summary = `Unacknowledged for ${Math.round(minutesOpen)} minutes under "${policyName}".`;
+  const status = alert.assignee ? `Assigned to ${alert.assignee}.` : 'Not assigned.';
+
+  const text = [
+    subject,
+    '',
+    alert.message,
+    summary,
+    status,
+    '',
+    `Alert ${alert.id}${alert.warehouse ? ` at ${alert.warehouse}` : ''}, raised ${formatDateTime(alert.timestamp)}`,
+    '',
+    '--',
+    'You receive this because an escalation policy names you.',
+  ].join('\n');
+
+  const html = `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;color:#111827">
+  <div style="max-width:680px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px">
+    <h1 style="font-size:20px;margin:0 0 12px">
+      <span style="color:#ffffff;background:${SEVERITY_COLORS[alert.severity]};border-radius:4px;padding:1px 6px;font-size:12px;vertical-align:middle">${alert.severity.toUpperCase()}</span>
+      ${escapeHtml(`${alert.type} for ${productName}`)}
+    </h1>
+    <p style="margin:0 0 8px">${escapeHtml(alert.message)}</p>
+    <p style="margin:0 0 8px">${escapeHtml(summary)} ${escapeHtml(status)}</p>
+    <p style="margin:0;color:#6b7280;font-size:13px">Alert ${escapeHtml(alert.id)}${alert.warehouse ? ` at ${escapeHtml(alert.warehouse)}` : ''}, raised ${escapeHtml(formatDateTime(alert.timestamp))}</p>
+    <p style="margin:24px 0 0;color:#9ca3af;font-size:12px">You receive this because an escalation policy names you.</p>
+  </div>
+</body>
+</html>`;
+
+  return { subject, text, html };
+}
+
+function renderWarehouseHtml(warehouse: WarehouseDigest): string {
+  const alertTables = sections(warehouse)
+    .filter(([, alerts]) => alerts.length > 0)
+    .map(([title, alerts]) => `
+    <h3 style="font-size:14px;margin:16px 0 8px">${escapeHtml(title)} (${alerts.length})</h3>
+    <table style="width:100%;border-collapse:collapse;font-size:13px">
+      ${alerts.map(alert => `<tr>
+        <td style="padding:4px 8px 4px 0;vertical-align:top;white-space:nowrap">
+          <span style="color:#ffffff;background:${SEVERITY_COLORS[alert.severity]};border-radius:4px;padding:1px 6px;font-size:11px">${alert.severity.toUpperCase()}</span>
+        </td>
+        <td style="padding:4px 0;border-bottom:1px solid #f3f4f6"><strong>${escapeHtml(alert.productName)}</strong>: ${escapeHtml(alert.message)}<span style="color:#6b7280">${escapeHtml(alertStatus(alert))}</span></td>
+      </tr>`).join('\n      ')}
+    </table>`);
+
+  const recommendations = warehouse.recommendations.length === 0 ? '' : `
+    <h3 style="font-size:14px;margin:16px 0 8px">Reorder recommendations (${warehouse.recommendations.length})</h3>
+    <table style="width:100%;border-collapse:collapse;font-size:13px">
+      <tr style="color:#6b7280;text-align:left"><th style="padding:4px 0">Product</th><th>Priority</th><th>Order</th><th>Stockout</th></tr>
+      ${warehouse.recommendations.map(r => `<tr>
+        <td style="padding:4px 0;border-bottom:1px solid #f3f4f6">${escapeHtml(r.productName)}</td>
+        <td style="border-bottom:1px solid #f3f4f6">${escapeHtml(r.priority)}</td>
+        <td style="border-bottom:1px solid #f3f4f6">${r.suggestedReorderQuantity} units${escapeHtml(costText(r))}</td>
+        <td style="border-bottom:1px solid #f3f4f6">${escapeHtml(stockoutText(r))}</td>
+      </tr>`).join('\n      ')}
+    </table>`;
+
+  return `
+    <h2 style="font-size:16px;margin:24px 0 0;padding-top:16px;border-top:1px solid #e5e7eb">${escapeHtml(warehouse.warehouseName)}</h2>${alertTables.join('')}${recommendations}`;
+}
+
+function sections(warehouse: WarehouseDigest): [string, DigestAlert[]][] {
+  return [
+    ['New alerts', warehouse.newAlerts],
+    ['Still unresolved', warehouse.unresolvedAlerts],
+  ];
+}
+
+function summaryLine(digest: Digest): string {
+  const { newAlerts, criticalAlerts, unresolvedAlerts, recommendations } = digest.totals;
+  return `${newAlerts} new alert(s), ${unresolvedAlerts} older alert(s) still unresolved, ` +
+    `${criticalAlerts} critical open, ${recommendations} reorder recommendation(s).`;
+}
+
+function alertStatus(alert: DigestAlert): string {
+  if (alert.resolved) return ' (resolved)';
+  if (alert.assignee) return ` (assigned to ${alert.assignee})`;
+  if (alert.acknowledgedBy) return ` (acknowledged by ${alert.acknowledgedBy})`;
+  return '';
+}
+
+function costText(recommendation: AIRecommendation): string {
+  return recommendation.estimatedCost === undefined ? '' : ` (~$${recommendation.estimatedCost.toFixed(2)})`;
+}
+
+function stockoutText(recommendation: AIRecommendation): string {
+  const days = recommendation.estimatedDaysUntilStockout;
+  return Number.isFinite(days) ? `stockout in ${days} day(s)` : 'no recent sales';
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+function formatDateTime(date: Date): string {
+  return date.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
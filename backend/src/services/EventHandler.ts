@@ -1,128 +1,281 @@
 /**
  * Event Handler Service
- * Processes inventory events and triggers alerts based on business rules
+ * Processes inventory events and triggers alerts based on the configured alert rules
  */
 
-import { Event, Alert, Product, AlertType, AlertSeverity } from '../models/types';
-import { productStore, eventStore, alertStore } from '../stores/InMemoryStore';
+import { Event, Alert, AlertAction, AlertRule, Product, StockPosition } from '../models/types';
+import { PermanentEventError } from '../models/eventSchema';
+import { productStore, eventStore, alertStore, incidentStore, transferStore, reservationStore, supplierStore, purchaseOrderStore, runInTransaction } from '../stores/InMemoryStore';
 import { v4 as uuidv4 } from 'uuid';
 import { getProductRecommendation } from './AIRecommendations';
-import { broadcastEvent, broadcastProductUpdate, broadcastAlert, broadcastAlertResolution } from './WebSocketService';
+import { recordDuplicateEvent } from './Idempotency';
+import { checkTransferEvent, applyTransferEvent } from './Transfers';
+import { checkReservationEvent, applyReservationEvent } from './Reservations';
+import { checkPurchaseOrderReceipt, applyPurchaseOrderReceipt, resetReceipts } from './PurchaseOrders';
+import { evaluateAlertRules, shouldResolveAlert } from './AlertRules';
+import { addAlertToIncident, resolveIncidentIfDone } from './Incidents';
+import { admitAlert, resetAlertSuppression } from './AlertSuppression';
+import { recordAlertHistory, syncAlertHistory } from './AlertHistory';
+import { broadcastEvent, broadcastProductUpdate, broadcastAlert, broadcastAlertResolution, broadcastIncident } from './WebSocketService';
+import { isStockEvent, isReservationEvent, getStockChange, getEventTime, getEventsAsOf, calculateDrift, DriftReport } from './EventReplay';
+
+/**
+ * Raised when an event references a product that does not exist
+ */
+export class ProductNotFoundError extends Error {
+  constructor(public productId: string) {
+    super(`Product not found: ${productId}`);
+    this.name = 'ProductNotFoundError';
+  }
+}
+
+/**
+ * Raised when a stock event references a warehouse the product is not stocked at
+ */
+export class StockPositionNotFoundError extends PermanentEventError {
+  constructor(public productId: string, public warehouse: string) {
+    super(`Product ${productId} is not stocked at ${warehouse}`);
+    this.name = 'StockPositionNotFoundError';
+  }
+}
+
+/**
+ * Raised when a rebuild would replace the live projections with a view of the past
+ */
+export class RebuildError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RebuildError';
+  }
+}
+
+export interface RebuildResult {
+  asOf: string;
+  eventsReplayed: number;
+  productsRebuilt: number;
+  alertsCreated: number;
+  alertsRestored: number; // Rebuilt alerts that kept their id and workflow state
+  driftBefore: DriftReport;
+  durationMs: number;
+}
+
+interface AppliedStockChange {
+  product: Product;
+  position: StockPosition;
+}
 
 export class EventHandler {
+  // True while projections are being rebuilt from the event log
+  private replaying = false;
+  // Events replayed so far, by product, while replaying
+  private replayedEvents = new Map<string, Event[]>();
+
   /**
-   * Process an inventory event (SALE, RESTOCK, RETURN)
+   * Process an inventory event (SALE, RESTOCK, RETURN, TRANSFER, ADJUSTMENT, RESERVE, RELEASE)
+   * Events already in the event log are suppressed, so redeliveries are never applied twice
    */
   async processEvent(event: Event): Promise<void> {
-    // Store the event
+    if (eventStore.exists(event.id)) {
+      recordDuplicateEvent(event.id);
+      return;
+    }
+
+    // Reject events for unknown products before they reach the event log
+    if (!productStore.exists(event.productId)) {
+      throw new ProductNotFoundError(event.productId);
+    }
+
+    // Reject transfers that don't fit the transfer's current state
+    if (event.type === 'TRANSFER') {
+      checkTransferEvent(event);
+    } else if ((isStockEvent(event) || isReservationEvent(event)) && !productStore.getPosition(event.productId, event.warehouse)) {
+      throw new StockPositionNotFoundError(event.productId, event.warehouse);
+    }
+
+    // Reject reservation events that don't fit the reservation's current state
+    if (event.reservation) {
+      checkReservationEvent(event);
+    }
+
+    // Reject receipts that don't fit their purchase order
+    if (event.purchaseOrder) {
+      checkPurchaseOrderReceipt(event);
+    }
+
+    // Store the event. It only stays in the event log once its stock change is applied, so a retry
+    // after a failed change applies it instead of suppressing it as a duplicate
     eventStore.create(event);
+    let applied: AppliedStockChange | undefined;
+    try {
+      applied = this.applyStockChange(event);
+    } catch (error) {
+      eventStore.delete(event.id);
+      throw error;
+    }
 
     // Broadcast event to all connected clients
     broadcastEvent(event);
 
+    if (applied) {
+      broadcastProductUpdate(applied.product);
+      await this.checkAlertConditions(applied.product, applied.position, event);
+    }
+  }
+
+  /**
+   * Apply an event to the stock and alert projections
+   */
+  private async applyEvent(event: Event): Promise<void> {
+    const applied = this.applyStockChange(event);
+    if (!applied) return;
+
+    if (!this.replaying) {
+      broadcastProductUpdate(applied.product);
+    }
+
+    // Check for alert conditions at the warehouse that moved
+    await this.checkAlertConditions(applied.product, applied.position, event);
+  }
+
+  /**
+   * Apply an event to the stock projection, returning the product and stock position it moved
+   */
+  private applyStockChange(event: Event): AppliedStockChange | undefined {
     // Update product stock based on event type
     const product = productStore.get(event.productId);
     if (!product) {
       console.error(`Product not found: ${event.productId}`);
-      return;
+      return undefined;
     }
 
-    // Calculate stock change
-    let stockChange = 0;
-    switch (event.type) {
-      case 'SALE':
-        stockChange = -event.quantity;
-        break;
-      case 'RESTOCK':
-        stockChange = event.quantity;
-        break;
-      case 'RETURN':
-        stockChange = event.quantity;
-        break;
-      default:
-        return;
-    }
-
-    // Update product stock
-    const updatedProduct = productStore.updateStock(event.productId, stockChange);
-    if (!updatedProduct) {
-      console.error(`Failed to update stock for product: ${event.productId}`);
-      return;
+    // Only stock-moving and reservation events affect projections
+    if (!isStockEvent(event) && !isReservationEvent(event)) {
+      return undefined;
     }
 
-    // Broadcast product update
-    broadcastProductUpdate(updatedProduct);
+    if (this.replaying) {
+      this.replayedEvents.set(event.productId, [...(this.replayedEvents.get(event.productId) || []), event]);
+    }
 
-    // Check for alert conditions
-    await this.checkAlertConditions(updatedProduct, event);
+    // Transfers and reservations in the log were checked when first processed; skip any that no longer fit during replay
+    if (this.replaying && (event.type === 'TRANSFER' || event.reservation)) {
+      try {
+        if (event.type === 'TRANSFER') checkTransferEvent(event);
+        if (event.reservation) checkReservationEvent(event);
+      } catch (error) {
+        console.warn(`⚠️  Skipping ${event.type.toLowerCase()} event ${event.id} during replay: ${(error as Error).message}`);
+        return undefined;
+      }
+    }
+
+    // Calculate stock change
+    const stockChange = getStockChange(event);
+
+    // Update stock at the event's warehouse (transfer, reservation and purchase order records update atomically with the stock)
+    const updatedProduct = runInTransaction(() => {
+      if (event.type === 'TRANSFER') applyTransferEvent(event);
+      if (event.reservation) applyReservationEvent(event);
+      if (event.purchaseOrder) applyPurchaseOrderReceipt(event);
+      return productStore.updateStock(event.productId, stockChange, event.warehouse);
+    });
+    const position = productStore.getPosition(event.productId, event.warehouse);
+    if (!updatedProduct || !position) {
+      console.error(`Failed to update stock for product: ${event.productId} at ${event.warehouse}`);
+      return undefined;
+    }
+
+    return { product: updatedProduct, position };
   }
 
   /**
-   * Check if any alert conditions are met for a product
+   * Rebuild stock and alert projections by replaying the event log.
+   * The projections are the live state, so asOf may not leave out any logged event; stock at a past
+   * time is read with replayProducts instead. Rebuilt alerts keep the id and workflow state (acknowledgement,
+   * assignment, snooze, escalation, notes) of the alert they replace.
    */
-  private async checkAlertConditions(product: Product, event: Event): Promise<void> {
-    const currentStock = product.currentStock;
-
-    // 1. Critical Low Stock: currentStock < 10 units
-    if (currentStock < 10 && currentStock >= 0) {
-      this.createAlert(product, 'critical', 'CRITICAL_LOW_STOCK',
-        `Critical: ${product.name} has only ${currentStock} units remaining!`);
+  async rebuildProjections(asOf: Date = new Date()): Promise<RebuildResult> {
+    const startedAt = Date.now();
+    const allEvents = eventStore.getAll();
+    const events = getEventsAsOf(allEvents, asOf);
+    if (events.length < allEvents.length) {
+      throw new RebuildError(
+        `${allEvents.length - events.length} logged events are after ${asOf.toISOString()}; rebuilding as of then would discard them from the live projections`
+      );
     }
 
-    // 2. Low Stock Warning: currentStock < reorderPoint
-    else if (currentStock < product.reorderPoint) {
-      this.createAlert(product, 'warning', 'LOW_STOCK',
-        `Warning: ${product.name} stock (${currentStock}) below reorder point (${product.reorderPoint})`);
-    }
+    const driftBefore = calculateDrift(productStore.getAll(), allEvents);
+    const previousAlerts = alertStore.getAll();
+
+    this.replaying = true;
+    this.replayedEvents.clear();
+    let alertsRestored = 0;
+    try {
+      // Reset projections to their initial state
+      productStore.resetStock();
+      alertStore.clear();
+      incidentStore.clear();
+      resetAlertSuppression();
+      transferStore.clear();
+      reservationStore.clear();
+      resetReceipts();
+
+      for (const event of events) {
+        await this.applyEvent(event);
+      }
 
-    // 3. Overstock: currentStock > 90% of maxCapacity
-    if (currentStock > product.maxCapacity * 0.9) {
-      this.createAlert(product, 'info', 'OVERSTOCK',
-        `Info: ${product.name} is overstocked (${currentStock}/${product.maxCapacity})`);
+      alertsRestored = restoreAlertWorkflow(previousAlerts);
+    } finally {
+      this.replaying = false;
+      this.replayedEvents.clear();
     }
 
-    // 4. Rapid Depletion: Stock decreased > 30% in last hour
-    if (event.type === 'SALE') {
-      const rapidDepletion = await this.checkRapidDepletion(product);
-      if (rapidDepletion) {
-        this.createAlert(product, 'warning', 'RAPID_DEPLETION',
-          `Warning: ${product.name} experiencing rapid depletion - stock decreased by >30% in the last hour`);
-      }
-    }
+    // Alert history outlives the projections it was recorded from
+    syncAlertHistory();
+
+    const result: RebuildResult = {
+      asOf: asOf.toISOString(),
+      eventsReplayed: events.length,
+      productsRebuilt: productStore.count(),
+      alertsCreated: alertStore.count(),
+      alertsRestored,
+      driftBefore,
+      durationMs: Date.now() - startedAt,
+    };
 
-    // 5. Reorder Needed: Product hit reorder point
-    if (currentStock <= product.reorderPoint && currentStock > 0) {
-      this.createAlert(product, 'warning', 'REORDER_NEEDED',
-        `Reorder needed for ${product.name} - current stock: ${currentStock}, reorder point: ${product.reorderPoint}`);
-    }
+    console.log(`🔁 Projections rebuilt from ${result.eventsReplayed} events as of ${result.asOf}`);
+    productStore.getAll().forEach(p => broadcastProductUpdate(p));
 
-    // Auto-resolve alerts when conditions no longer apply
-    this.autoResolveAlerts(product);
+    return result;
   }
 
   /**
-   * Check if stock is depleting rapidly (>30% decrease in last hour)
+   * Report drift between stored stock and stock replayed from the event log
    */
-  private async checkRapidDepletion(product: Product): Promise<boolean> {
-    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
+  getDriftReport(): DriftReport {
+    return calculateDrift(productStore.getAll(), eventStore.getAll());
+  }
 
-    // Get events from the last hour for this product
-    const recentEvents = eventStore
-      .getByProduct(product.id)
-      .filter(e => e.timestamp >= oneHourAgo);
+  /**
+   * Re-check a stock position's alerts after a change outside the event log (e.g. a purchase order was submitted)
+   */
+  recheckAlerts(productId: string, warehouse: string): void {
+    const product = productStore.get(productId);
+    const position = productStore.getPosition(productId, warehouse);
+    if (product && position) {
+      this.autoResolveAlerts(product, position);
+    }
+  }
 
-    // Calculate net stock change
-    let netChange = 0;
-    recentEvents.forEach(event => {
-      if (event.type === 'SALE') netChange -= event.quantity;
-      if (event.type === 'RESTOCK' || event.type === 'RETURN') netChange += event.quantity;
+  /**
+   * Raise alerts for the alert rules whose conditions are met at a product's stock position (see services/AlertRules.ts)
+   */
+  private async checkAlertConditions(product: Product, position: StockPosition, event: Event): Promise<void> {
+    evaluateAlertRules(product, position, event).forEach(({ rule, message }) => {
+      this.createAlert(product, position, event, rule, message);
     });
 
-    // Check if depletion is > 30%
-    const stockAtStartOfHour = product.currentStock - netChange;
-    const depletionPercentage = Math.abs(netChange) / stockAtStartOfHour;
-
-    return netChange < 0 && depletionPercentage > 0.3;
+    // Auto-resolve alerts when conditions no longer apply
+    this.autoResolveAlerts(product, position, event);
   }
 
   /**
@@ -130,13 +283,17 @@ export class EventHandler {
    */
   private createAlert(
     product: Product,
-    severity: AlertSeverity,
-    type: AlertType,
+    position: StockPosition,
+    event: Event,
+    rule: AlertRule,
     message: string
   ): void {
+    const type = rule.type;
+
     // Check if similar active alert already exists
     const existingAlert = alertStore.find(
       a => a.productId === product.id &&
+           (a.warehouse || product.warehouse) === position.warehouse &&
            a.type === type &&
            !a.resolved
     );
@@ -145,61 +302,85 @@ export class EventHandler {
       return; // Alert already exists
     }
 
-    // Get AI recommendation for this product
+    // Hold the alert back during a maintenance window or an alert storm at the warehouse, judged by
+    // when the event happened so replays and late deliveries are treated as they were at the time
+    const suppressed = admitAlert(position.warehouse, rule.severity, new Date(getEventTime(event)));
+    if (suppressed) {
+      if (!this.replaying) {
+        console.log(`🔕 Alert suppressed (${suppressed === 'MAINTENANCE' ? 'maintenance window' : 'rate limit'}): ${type} for ${product.name} at ${position.warehouse}`);
+      }
+      return;
+    }
+
+    // Get AI recommendation for this product, from its events so far
     const aiRecommendation = getProductRecommendation(
       product.id,
-      productStore.getAll(),
-      eventStore.getAll(),
-      alertStore.getAll()
+      [product],
+      this.replaying ? this.replayedEvents.get(product.id) || [] : eventStore.getByProduct(product.id),
+      alertStore.getByProduct(product.id),
+      purchaseOrderStore.getOpen(),
+      supplierStore.getForProduct(product)
     );
 
     // Create new alert with AI recommendation
+    const timestamp = this.replaying ? new Date(getEventTime(event)) : new Date();
     const alert: Alert = {
       id: uuidv4(),
       productId: product.id,
-      severity,
+      warehouse: position.warehouse,
+      severity: rule.severity,
       type,
       message,
       aiRecommendation: aiRecommendation ? aiRecommendation.recommendation : undefined,
+      ruleId: rule.id,
       resolved: false,
-      timestamp: new Date(),
+      timestamp,
+      activity: [{ action: 'CREATED', at: timestamp.toISOString(), by: 'system', note: rule.name }],
     };
 
+    // Group the alert with others raised at the same stock position around the same time
+    const { incident, opened, escalated } = addAlertToIncident(alert, product);
+    alert.incidentId = incident.id;
+
     alertStore.create(alert);
-    console.log(`🚨 Alert created: ${type} for ${product.name}`);
+    if (this.replaying) return;
+    recordAlertHistory(alert);
 
-    // Broadcast alert to all connected clients
-    broadcastAlert(alert);
+    console.log(`🚨 Alert created: ${type} for ${product.name} at ${position.warehouse}${opened ? '' : ` (incident ${incident.id})`}`);
+
+    // Broadcast the alerts that open an incident or raise its severity; the rest only update the incident
+    if (opened || escalated) {
+      broadcastAlert(alert);
+    }
+    broadcastIncident(incident, opened);
   }
 
   /**
    * Auto-resolve alerts when conditions no longer apply
    */
-  private autoResolveAlerts(product: Product): void {
-    const activeAlerts = alertStore.getByProduct(product.id).filter(a => !a.resolved);
+  private autoResolveAlerts(product: Product, position: StockPosition, event?: Event): void {
+    const activeAlerts = alertStore
+      .getByProduct(product.id)
+      .filter(a => !a.resolved && (a.warehouse || product.warehouse) === position.warehouse);
 
     activeAlerts.forEach(alert => {
-      let shouldResolve = false;
-
-      switch (alert.type) {
-        case 'CRITICAL_LOW_STOCK':
-          shouldResolve = product.currentStock >= 10;
-          break;
-        case 'LOW_STOCK':
-        case 'REORDER_NEEDED':
-          shouldResolve = product.currentStock >= product.reorderPoint;
-          break;
-        case 'OVERSTOCK':
-          shouldResolve = product.currentStock <= product.maxCapacity * 0.9;
-          break;
-      }
+      const shouldResolve = shouldResolveAlert(alert, product, position);
 
       if (shouldResolve) {
-        alertStore.resolve(alert.id);
-        console.log(`✅ Alert auto-resolved: ${alert.type} for ${product.name}`);
+        const note = event ? `Condition cleared after ${event.type} event ${event.id}` : 'Condition cleared';
+        if (this.replaying && event) {
+          resolveIncidentIfDone(alertStore.resolve(alert.id, new Date(getEventTime(event)), 'system', note)!);
+          return;
+        }
+
+        const resolved = alertStore.resolve(alert.id, new Date(), 'system', note)!;
+        recordAlertHistory(resolved, 'AUTO');
+        const incident = resolveIncidentIfDone(resolved);
+        console.log(`✅ Alert auto-resolved: ${alert.type} for ${product.name} at ${position.warehouse}`);
 
         // Broadcast alert resolution
         broadcastAlertResolution(alert.id);
+        if (incident) broadcastIncident(incident);
       }
     });
   }
@@ -210,10 +391,14 @@ export class EventHandler {
   resolveAlert(alertId: string): Alert | undefined {
     const resolved = alertStore.resolve(alertId);
     if (resolved) {
+      recordAlertHistory(resolved);
       console.log(`✅ Alert manually resolved: ${alertId}`);
 
       // Broadcast alert resolution
       broadcastAlertResolution(alertId);
+
+      const incident = resolveIncidentIfDone(resolved);
+      if (incident) broadcastIncident(incident);
     }
     return resolved;
   }
@@ -233,5 +418,67 @@ export class EventHandler {
   }
 }
 
+const WORKFLOW_ACTIONS: AlertAction[] = ['ACKNOWLEDGED', 'ASSIGNED', 'UNASSIGNED', 'SNOOZED', 'UNSNOOZED', 'NOTE', 'ESCALATED'];
+
+/**
+ * Carry the workflow state of the alerts discarded by a rebuild over to the rebuilt alerts.
+ * Each rebuilt alert takes the place of the discarded alert for the same stock position and type raised
+ * nearest in time, keeping its id (so incidents, history and links still find it) and everything operators
+ * did to it. An alert an operator resolved stays resolved. Returns the number of alerts restored.
+ */
+function restoreAlertWorkflow(previousAlerts: Alert[]): number {
+  const keyOf = (alert: Alert) => `${alert.productId}|${alert.warehouse}|${alert.type}`;
+  const unmatched = new Map<string, Alert[]>();
+  previousAlerts.forEach(alert => unmatched.set(keyOf(alert), [...(unmatched.get(keyOf(alert)) || []), alert]));
+
+  const idChanges = new Map<string, string>();
+  const rebuilt = alertStore.getAll().sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  rebuilt.forEach(alert => {
+    const candidates = unmatched.get(keyOf(alert)) || [];
+    if (candidates.length === 0) return;
+
+    const distance = (a: Alert) => Math.abs(a.timestamp.getTime() - alert.timestamp.getTime());
+    const previous = candidates.reduce((best, a) => (distance(a) < distance(best) ? a : best));
+    candidates.splice(candidates.indexOf(previous), 1);
+
+    const operatorActivity = (previous.activity || []).filter(a =>
+      WORKFLOW_ACTIONS.includes(a.action) || (a.action === 'RESOLVED' && a.by !== 'system'));
+    const manualResolution = operatorActivity.find(a => a.action === 'RESOLVED');
+    const systemActivity = (alert.activity || []).filter(a =>
+      a.by === 'system' && !WORKFLOW_ACTIONS.includes(a.action) && !(manualResolution && a.action === 'RESOLVED'));
+    const restored: Alert = {
+      ...alert,
+      id: previous.id,
+      acknowledgedAt: previous.acknowledgedAt,
+      acknowledgedBy: previous.acknowledgedBy,
+      assignee: previous.assignee,
+      snoozedUntil: previous.snoozedUntil,
+      escalationPolicyId: previous.escalationPolicyId,
+      escalationLevel: previous.escalationLevel,
+      escalatedAt: previous.escalatedAt,
+      activity: [...systemActivity, ...operatorActivity].sort((a, b) => a.at.localeCompare(b.at)),
+    };
+    if (manualResolution) {
+      restored.resolved = true;
+      restored.resolvedAt = previous.resolvedAt ?? new Date(manualResolution.at);
+    }
+
+    alertStore.delete(alert.id);
+    alertStore.create(restored);
+    idChanges.set(alert.id, previous.id);
+  });
+
+  if (idChanges.size > 0) {
+    incidentStore.getAll().forEach(incident => {
+      if (incident.alertIds.some(id => idChanges.has(id))) {
+        incidentStore.update(incident.id, { alertIds: incident.alertIds.map(id => idChanges.get(id) || id) });
+      }
+    });
+    // Alerts kept resolved by an operator may close their incident
+    Array.from(idChanges.values()).forEach(id => resolveIncidentIfDone(alertStore.get(id)!));
+  }
+  return idChanges.size;
+}
+
 // Export singleton instance
 export const eventHandler = new EventHandler();
@@ -0,0 +1,294 @@
+/**
+ * Event Replay Service
+ * Derives product stock from the event log using EventHandler semantics
+ * Stock is replayed per stock position (product × warehouse) and totalled per product
+ */
+
+import { Event, Product } from '../models/types';
+import { getAvailable } from '../stores/InMemoryStore';
+
+export interface StockDrift {
+  productId: string;
+  productName: string;
+  storedStock: number;
+  replayedStock: number;
+  drift: number;
+}
+
+export interface DriftReport {
+  asOf: string;
+  eventsReplayed: number;
+  productsChecked: number;
+  productsDrifted: number;
+  totalAbsoluteDrift: number;
+  drifts: StockDrift[];
+}
+
+/**
+ * Get event timestamp in epoch milliseconds (events from Kafka carry ISO strings)
+ */
+export function getEventTime(event: Event): number {
+  return event.timestamp instanceof Date
+    ? event.timestamp.getTime()
+    : new Date(event.timestamp).getTime();
+}
+
+/**
+ * Whether an event moves stock on hand (ALERT, RESERVE and RELEASE events do not)
+ */
+export function isStockEvent(event: Event): boolean {
+  return event.type !== 'ALERT' && !isReservationEvent(event);
+}
+
+/**
+ * Whether an event only changes the stock held by reservations
+ */
+export function isReservationEvent(event: Event): boolean {
+  return event.type === 'RESERVE' || event.type === 'RELEASE';
+}
+
+/**
+ * Stock change an event applies to its stock position (0 for non-stock events)
+ */
+export function getStockChange(event: Event): number {
+  switch (event.type) {
+    case 'SALE':
+      return -event.quantity;
+    case 'RESTOCK':
+      return event.quantity;
+    case 'RETURN':
+      return event.quantity;
+    case 'TRANSFER':
+      // Dispatch leaves the source; receipt (at destination) or cancellation (back at source) adds stock
+      return event.transfer?.status === 'IN_TRANSIT' ? -event.quantity : event.quantity;
+    case 'ADJUSTMENT':
+      return event.adjustment?.direction === 'INCREASE' ? event.quantity : -event.quantity;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Apply a stock change, preventing stock from going negative (mirrors StockPositionStore.updateStock)
+ */
+export function applyStockChange(stock: number, change: number): number {
+  return Math.max(0, stock + change);
+}
+
+/**
+ * Sort events chronologically, keeping only those at or before asOf
+ */
+export function getEventsAsOf(events: Event[], asOf: Date = new Date()): Event[] {
+  const cutoff = asOf.getTime();
+  return events
+    .filter(e => getEventTime(e) <= cutoff)
+    .sort((a, b) => getEventTime(a) - getEventTime(b));
+}
+
+/**
+ * Group events by product, keeping their order
+ */
+export function groupEventsByProduct(events: Event[]): Map<string, Event[]> {
+  const byProduct = new Map<string, Event[]>();
+  events.forEach(event => {
+    const productEvents = byProduct.get(event.productId);
+    if (productEvents) productEvents.push(event);
+    else byProduct.set(event.productId, [event]);
+  });
+  return byProduct;
+}
+
+/**
+ * Replay the event log to derive stock per warehouse for each product as of a timestamp
+ */
+export function replayPositionStock(
+  products: Product[],
+  events: Event[],
+  asOf: Date = new Date()
+): Map<string, Map<string, number>> {
+  const stock = new Map<string, Map<string, number>>();
+  products.forEach(p => stock.set(p.id, new Map()));
+
+  getEventsAsOf(events, asOf).forEach(event => {
+    const positions = stock.get(event.productId);
+    if (!positions) return; // Event for unknown product is skipped, as in processEvent
+
+    const current = positions.get(event.warehouse) || 0;
+    positions.set(event.warehouse, applyStockChange(current, getStockChange(event)));
+  });
+
+  return stock;
+}
+
+/**
+ * Replay the event log to derive total stock per product as of a timestamp
+ */
+export function replayStock(
+  products: Product[],
+  events: Event[],
+  asOf: Date = new Date()
+): Map<string, number> {
+  const stock = new Map<string, number>();
+
+  replayPositionStock(products, events, asOf).forEach((positions, productId) => {
+    stock.set(productId, Array.from(positions.values()).reduce((sum, units) => sum + units, 0));
+  });
+
+  return stock;
+}
+
+/**
+ * Replay the event log to derive units held by reservations per warehouse for each product as of a timestamp
+ */
+export function replayPositionReserved(
+  products: Product[],
+  events: Event[],
+  asOf: Date = new Date()
+): Map<string, Map<string, number>> {
+  const reserved = new Map<string, Map<string, number>>();
+  products.forEach(p => reserved.set(p.id, new Map()));
+  const open = new Map<string, Event>(); // RESERVE events by reservation id
+
+  getEventsAsOf(events, asOf).forEach(event => {
+    const positions = reserved.get(event.productId);
+    const reservationId = event.reservation?.reservationId;
+    if (!positions || !reservationId) return;
+
+    if (event.type === 'RESERVE') {
+      if (open.has(reservationId)) return; // Rejected when first processed, as a duplicate reservation
+      open.set(reservationId, event);
+      positions.set(event.warehouse, (positions.get(event.warehouse) || 0) + event.quantity);
+    } else if (event.type === 'RELEASE' || event.type === 'SALE') {
+      // Closing a reservation frees its whole hold, as in applyReservationEvent
+      const reservation = open.get(reservationId);
+      if (!reservation) return;
+      open.delete(reservationId);
+      positions.set(reservation.warehouse, Math.max(0, (positions.get(reservation.warehouse) || 0) - reservation.quantity));
+    }
+  });
+
+  return reserved;
+}
+
+/**
+ * Products with their stock on hand, reserved and available replayed from the event log as of a timestamp
+ */
+export function replayProducts(products: Product[], events: Event[], asOf: Date = new Date()): Product[] {
+  const stock = replayPositionStock(products, events, asOf);
+  const reserved = replayPositionReserved(products, events, asOf);
+
+  return products.map(product => {
+    const onHand = stock.get(product.id)!;
+    const held = reserved.get(product.id)!;
+    const warehouses = Array.from(new Set([...Array.from(onHand.keys()), ...Array.from(held.keys())]));
+    const total = (valueOf: (warehouse: string) => number) => warehouses.reduce((sum, w) => sum + valueOf(w), 0);
+
+    return {
+      ...product,
+      currentStock: total(w => onHand.get(w) || 0),
+      reserved: total(w => held.get(w) || 0),
+      available: total(w => getAvailable(onHand.get(w) || 0, held.get(w) || 0)),
+    };
+  });
+}
+
+/**
+ * Compare stored product stock with stock replayed from the event log
+ */
+export function calculateDrift(products: Product[], events: Event[]): DriftReport {
+  const asOf = new Date();
+  const replayed = replayStock(products, events, asOf);
+
+  const drifts: StockDrift[] = products
+    .map(product => {
+      const replayedStock = replayed.get(product.id) || 0;
+      return {
+        productId: product.id,
+        productName: product.name,
+        storedStock: product.currentStock,
+        replayedStock,
+        drift: product.currentStock - replayedStock,
+      };
+    })
+    .filter(d => d.drift !== 0);
+
+  return {
+    asOf: asOf.toISOString(),
+    eventsReplayed: getEventsAsOf(events, asOf).length,
+    productsChecked: products.length,
+    productsDrifted: drifts.length,
+    totalAbsoluteDrift: drifts.reduce((sum, d) => sum + Math.abs(d.drift), 0),
+    drifts,
+  };
+}
+
+export type HistoryInterval = 'hour' | 'day';
+
+export interface StockHistoryPoint {
+  timestamp: string;
+  stock: number;
+  sales: number;
+  restocks: number;
+  returns: number;
+  adjustments: number; // Net units added (+) or written off (-) by adjustments
+}
+
+const INTERVAL_MS: Record<HistoryInterval, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Reconstruct a product's stock level over time from the event log, optionally at one warehouse.
+ * Each point holds the stock at the end of its bucket and the units moved within it.
+ */
+export function buildStockHistory(
+  productId: string,
+  events: Event[],
+  from: Date,
+  to: Date,
+  interval: HistoryInterval = 'day',
+  warehouse?: string
+): StockHistoryPoint[] {
+  const step = INTERVAL_MS[interval];
+  const productEvents = getEventsAsOf(
+    events.filter(e => e.productId === productId && (!warehouse || e.warehouse === warehouse)),
+    to
+  );
+
+  const points: StockHistoryPoint[] = [];
+  const positions = new Map<string, number>();
+  let index = 0;
+
+  // Start the first bucket on an interval boundary so points line up across products
+  const start = Math.floor(from.getTime() / step) * step;
+
+  for (let bucketStart = start; bucketStart <= to.getTime(); bucketStart += step) {
+    const bucketEnd = Math.min(bucketStart + step - 1, to.getTime());
+    const point: StockHistoryPoint = {
+      timestamp: new Date(bucketEnd).toISOString(),
+      stock: 0,
+      sales: 0,
+      restocks: 0,
+      returns: 0,
+      adjustments: 0,
+    };
+
+    while (index < productEvents.length && getEventTime(productEvents[index]) <= bucketEnd) {
+      const event = productEvents[index++];
+      positions.set(event.warehouse, applyStockChange(positions.get(event.warehouse) || 0, getStockChange(event)));
+
+      // Events before the window only contribute to the opening stock
+      if (getEventTime(event) < bucketStart) continue;
+      if (event.type === 'SALE') point.sales += event.quantity;
+      if (event.type === 'RESTOCK') point.restocks += event.quantity;
+      if (event.type === 'RETURN') point.returns += event.quantity;
+      if (event.type === 'ADJUSTMENT') point.adjustments += getStockChange(event);
+    }
+
+    point.stock = Array.from(positions.values()).reduce((sum, units) => sum + units, 0);
+    points.push(point);
+  }
+
+  return points;
+}
@@ -0,0 +1,363 @@
+/**
+ * Forecast Accuracy Service
+ * Measures how well demand forecasts matched what actually happened
+ *
+ * Backtesting replays the event log: at each of a series of past cutoffs it forecasts demand
+ * from the events before the cutoff with every model, exactly as a live forecast would have, and
+ * compares each forecast day with the demand that followed. Live accuracy does the same for the
+ * forecasts actually served by the forecast API, which are stored once per product, model and
+ * day, once their days have passed.
+ *
+ * Accuracy is reported as mean absolute error (units a day), mean absolute percentage error
+ * (over days with demand, as it is undefined on days without), bias (mean forecast less actual,
+ * positive when over-forecasting) and how often actual demand fell within the 80% and 95%
+ * prediction intervals.
+ *
+ * Demand spikes are days a product sold well above its usual demand: more than twice its median
+ * day, and more than three (scaled) median absolute deviations above it, with the median and
+ * deviation taken over days without calendar events. Each spike lists the promotions, holidays
+ * and planned events covering it, which explain it, and the demand they led us to expect.
+ */
+
+import { CalendarEvent, CalendarEventType, DemandPoint, Event, ForecastModelName, Product } from '../models/types';
+import { issuedForecastStore, productStore } from '../stores/InMemoryStore';
+import { FORECAST_MODEL_NAMES } from './ForecastModels';
+import { ForecastResult, calculateForecast, getActualDemand, getDailyDemand, startOfDay } from './Forecasting';
+import { groupEventsByProduct } from './EventReplay';
+import { getCalendarEventsFor, getDemandMultipliers } from './DemandCalendar';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface BacktestOptions {
+  models?: ForecastModelName[]; // Default all models
+  cutoffs?: number; // Number of past cutoffs to forecast from
+  stepDays?: number; // Days between cutoffs
+  horizonDays?: number;
+  historicalDays?: number;
+  calendar?: CalendarEvent[]; // Promotions, holidays and planned events, as live forecasts use them
+  asOf?: Date; // The last cutoff leaves a full horizon of complete days before this
+}
+
+export interface ForecastAccuracy {
+  forecasts: number; // Forecasts compared
+  days: number; // Forecast days compared with actual demand
+  mae: number; // Mean absolute error, units a day
+  mape?: number; // Mean absolute percentage error over days with demand, %
+  bias: number; // Mean forecast less actual demand; positive when over-forecasting
+  coverage80: number; // Share of days actual demand fell within the 80% interval, %
+  coverage95: number;
+}
+
+export interface ModelAccuracy extends ForecastAccuracy {
+  model: ForecastModelName;
+}
+
+export interface ProductAccuracy {
+  productId: string;
+  productName: string;
+  sku: string;
+  bestModel?: ForecastModelName; // Lowest mean absolute error
+  models: ModelAccuracy[];
+}
+
+export interface AccuracyReport {
+  models: ModelAccuracy[];
+  products: ProductAccuracy[];
+}
+
+export interface BacktestResult extends AccuracyReport {
+  cutoffs: string[];
+  horizonDays: number;
+  historicalDays: number;
+  spikes: DemandSpike[]; // Over the days forecast
+}
+
+export interface DemandSpike {
+  productId: string;
+  productName: string;
+  sku: string;
+  date: string;
+  demand: number;
+  baseline: number; // Median demand on days without calendar events
+  expectedDemand: number; // Baseline adjusted for the calendar events that day
+  calendarEvents: Array<{ id: string; name: string; type: CalendarEventType; upliftPercent: number }>;
+  explained: boolean; // A calendar event covers the day
+}
+
+export interface LiveAccuracyResult extends AccuracyReport {
+  since: Date;
+  until: Date;
+  issuedForecasts: number;
+  pendingForecasts: number; // Issued forecasts none of whose days have passed yet
+}
+
+// One forecast day compared with actual demand
+interface Sample {
+  forecastId: string;
+  productId: string;
+  model: ForecastModelName;
+  forecast: DemandPoint;
+  actual: number;
+}
+
+/**
+ * Raised when backtest options are invalid
+ */
+export class BacktestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BacktestError';
+  }
+}
+
+/**
+ * Forecast demand at past cutoffs with each model and compare with the demand that followed
+ */
+export function runBacktest(products: Product[], events: Event[], options: BacktestOptions = {}): BacktestResult {
+  const {
+    models = FORECAST_MODEL_NAMES,
+    cutoffs = 7,
+    stepDays = 1,
+    horizonDays = 7,
+    historicalDays = 30,
+    calendar = [],
+    asOf = new Date(),
+  } = options;
+  checkRange('cutoffs', cutoffs, 1, 60);
+  checkRange('stepDays', stepDays, 1, 30);
+  checkRange('horizonDays', horizonDays, 1, 30);
+  checkRange('historicalDays', historicalDays, 2, 365);
+
+  // A forecast made on a cutoff day predicts the days after it, which must all have passed
+  const today = startOfDay(asOf);
+  const cutoffDates = Array.from({ length: cutoffs }, (_, index) =>
+    new Date(today.getTime() - (horizonDays + 1 + index * stepDays) * DAY_MS)
+  ).reverse();
+
+  const eventsByProduct = groupEventsByProduct(events);
+  const samples: Sample[] = [];
+
+  products.forEach(product => {
+    const productEvents = eventsByProduct.get(product.id) || [];
+
+    cutoffDates.forEach(cutoff => {
+      if (getDailyDemand(product.id, productEvents, historicalDays, cutoff).length === 0) return; // Not stocked yet
+
+      // Demand from the day after the cutoff, so each forecast day lines up with its actual
+      const actual = getActualDemand(product.id, productEvents, new Date(cutoff.getTime() + DAY_MS), horizonDays);
+
+      models.forEach(model => {
+        const forecast = calculateForecast(product, productEvents, {
+          daysToForecast: horizonDays,
+          historicalDays,
+          model,
+          calendar,
+          asOf: cutoff,
+        });
+
+        // Attributed to the model asked for, as choosing it would have given this forecast
+        const forecastId = `${product.id}|${model}|${cutoff.toISOString()}`;
+        forecast.demandForecast.forEach((point, index) => {
+          samples.push({ forecastId, productId: product.id, model, forecast: point, actual: actual[index] });
+        });
+      });
+    });
+  });
+
+  return {
+    cutoffs: cutoffDates.map(cutoff => cutoff.toISOString()),
+    horizonDays,
+    historicalDays,
+    ...summarize(samples, models),
+    spikes: findDemandSpikes(products, events, calendar, new Date(cutoffDates[0].getTime() + DAY_MS), today),
+  };
+}
+
+/**
+ * Days from `since` up to `until` on which products' demand spiked, with the calendar events that explain them
+ */
+export function findDemandSpikes(products: Product[], events: Event[], calendar: CalendarEvent[], since: Date, until: Date = new Date()): DemandSpike[] {
+  const from = startOfDay(since);
+  const days = Math.max(0, Math.round((startOfDay(until).getTime() - from.getTime()) / DAY_MS));
+  const eventsByProduct = groupEventsByProduct(events);
+  const spikes: DemandSpike[] = [];
+
+  products.forEach(product => {
+    const demand = getActualDemand(product.id, eventsByProduct.get(product.id) || [], from, days);
+    const multipliers = getDemandMultipliers(product, calendar, from, days);
+    const covered = demand.map((_, day) => getCalendarEventsFor(
+      product, calendar, new Date(from.getTime() + day * DAY_MS), new Date(from.getTime() + (day + 1) * DAY_MS)));
+
+    const ordinary = demand.filter((_, day) => covered[day].length === 0);
+    const baseline = median(ordinary.length > 0 ? ordinary : demand);
+    const deviation = 1.4826 * median((ordinary.length > 0 ? ordinary : demand).map(units => Math.abs(units - baseline)));
+
+    demand.forEach((units, day) => {
+      if (units <= 2 * baseline || units <= baseline + 3 * deviation) return;
+
+      spikes.push({
+        productId: product.id,
+        productName: product.name,
+        sku: product.sku,
+        date: new Date(from.getTime() + day * DAY_MS).toISOString(),
+        demand: units,
+        baseline: round(baseline),
+        expectedDemand: round(baseline * multipliers[day]),
+        calendarEvents: covered[day].map(e => ({ id: e.id, name: e.name, type: e.type, upliftPercent: e.upliftPercent })),
+        explained: covered[day].length > 0,
+      });
+    });
+  });
+
+  return spikes.sort((a, b) => b.date.localeCompare(a.date) || b.demand - a.demand);
+}
+
+/**
+ * Store the demand forecasts being served; the first forecast for a product and model each day stands
+ */
+export function recordIssuedForecasts(forecasts: ForecastResult[], issuedAt: Date = new Date()): number {
+  const day = startOfDay(issuedAt).toISOString().slice(0, 10);
+  let recorded = 0;
+
+  forecasts.forEach(forecast => {
+    const id = `FC-${forecast.productId}-${forecast.model}-${day}`;
+    if (issuedForecastStore.exists(id)) return;
+
+    issuedForecastStore.create({
+      id,
+      productId: forecast.productId,
+      model: forecast.model,
+      issuedAt,
+      demand: forecast.demandForecast,
+    });
+    recorded++;
+  });
+
+  return recorded;
+}
+
+/**
+ * Accuracy of the forecasts issued in a period, over their days that have passed
+ */
+export function getLiveAccuracy(
+  events: Event[],
+  since: Date,
+  until: Date = new Date(),
+  productId?: string,
+  asOf: Date = new Date()
+): LiveAccuracyResult {
+  const issued = (productId ? issuedForecastStore.getByProduct(productId) : issuedForecastStore.getIssuedBetween(since, until))
+    .filter(f => f.issuedAt >= since && f.issuedAt <= until);
+
+  // Actual demand per product from the start of the period through yesterday, as forecasts need it
+  const from = startOfDay(since).getTime();
+  const today = startOfDay(asOf).getTime();
+  const eventsByProduct = groupEventsByProduct(events);
+  const actualByProduct = new Map<string, number[]>();
+  const actualFor = (id: string) => {
+    if (!actualByProduct.has(id)) {
+      const days = Math.max(0, Math.round((today - from) / DAY_MS));
+      actualByProduct.set(id, getActualDemand(id, eventsByProduct.get(id) || [], new Date(from), days));
+    }
+    return actualByProduct.get(id)!;
+  };
+  const samples: Sample[] = [];
+  let pendingForecasts = 0;
+
+  issued.forEach(forecast => {
+    const elapsed = forecast.demand.filter(point => new Date(point.date).getTime() < today);
+    if (elapsed.length === 0) {
+      pendingForecasts++;
+      return;
+    }
+
+    const actual = actualFor(forecast.productId);
+    elapsed.forEach(point => {
+      samples.push({
+        forecastId: forecast.id,
+        productId: forecast.productId,
+        model: forecast.model,
+        forecast: point,
+        actual: actual[Math.round((new Date(point.date).getTime() - from) / DAY_MS)] ?? 0,
+      });
+    });
+  });
+
+  const models = FORECAST_MODEL_NAMES.filter(model => issued.some(f => f.model === model));
+  return {
+    since,
+    until,
+    issuedForecasts: issued.length,
+    pendingForecasts,
+    ...summarize(samples, models),
+  };
+}
+
+function summarize(samples: Sample[], models: ForecastModelName[]): AccuracyReport {
+  const byProduct = new Map<string, Sample[]>();
+  samples.forEach(s => byProduct.set(s.productId, [...(byProduct.get(s.productId) || []), s]));
+
+  const products: ProductAccuracy[] = Array.from(byProduct.entries()).map(([productId, productSamples]) => {
+    const product = productStore.get(productId);
+    const productModels = byModel(productSamples, models);
+    const best = [...productModels].sort((a, b) => a.mae - b.mae)[0];
+
+    return {
+      productId,
+      productName: product?.name ?? productId,
+      sku: product?.sku ?? '',
+      bestModel: best?.model,
+      models: productModels,
+    };
+  });
+
+  return {
+    models: byModel(samples, models),
+    products: products.sort((a, b) => a.productName.localeCompare(b.productName)),
+  };
+}
+
+function byModel(samples: Sample[], models: ForecastModelName[]): ModelAccuracy[] {
+  return models
+    .map(model => ({ model, samples: samples.filter(s => s.model === model) }))
+    .filter(group => group.samples.length > 0)
+    .map(group => ({ model: group.model, ...measure(group.samples) }));
+}
+
+function measure(samples: Sample[]): ForecastAccuracy {
+  const errors = samples.map(s => s.forecast.demand - s.actual);
+  const withDemand = samples.filter(s => s.actual > 0);
+
+  return {
+    forecasts: new Set(samples.map(s => s.forecastId)).size,
+    days: samples.length,
+    mae: round(mean(errors.map(Math.abs))),
+    mape: withDemand.length > 0
+      ? round(mean(withDemand.map(s => Math.abs(s.forecast.demand - s.actual) / s.actual)) * 100)
+      : undefined,
+    bias: round(mean(errors)),
+    coverage80: round(samples.filter(s => s.actual >= s.forecast.lower80 && s.actual <= s.forecast.upper80).length / samples.length * 100),
+    coverage95: round(samples.filter(s => s.actual >= s.forecast.lower95 && s.actual <= s.forecast.upper95).length / samples.length * 100),
+  };
+}
+
+function checkRange(name: string, value: number, min: number, max: number): void {
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new BacktestError(`${name} must be a whole number from ${min} to ${max}`);
+  }
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,315 @@
+/**
+ * Forecast Hierarchy Service
+ * Forecasts rolled up from stock positions to products, categories, warehouses and the company,
+ * and reconciled
+ *
+ * The bottom of the hierarchy is each product's stock position at each warehouse, forecast from
+ * the sales and returns recorded at that warehouse. Positions roll up into their product, their
+ * warehouse and their product's category, and everything rolls up into the company. Each product
+ * and group is forecast from its own total daily demand, which is steadier than any one
+ * position's and can show patterns the positions alone do not. Forecasts made independently at
+ * each level do not add up, so they are reconciled by ordinary least squares: the position
+ * forecasts are those whose totals come closest to every forecast in the hierarchy at once, and
+ * each product's and group's forecast is the total of its positions'. A position reconciled
+ * below zero demand counts as zero.
+ *
+ * Calendar events are taken out of past demand before forecasting, as for product forecasts.
+ * Reconciliation works on this underlying demand, and each product's calendar adjustments are
+ * applied to its positions after it, so groups still add up.
+ *
+ * Each position's reconciled demand is projected into the stock held there, with the purchase
+ * orders and transfers due there, and a group's stock projection is the total of its
+ * positions'. Products are projected from their total stock, as single product forecasts are.
+ * Demand intervals keep the spread of each forecast's own fit, centred on its reconciled demand;
+ * stock intervals are only given per position and product, as they do not add up.
+ */
+
+import { CalendarEvent, DemandPoint, Event, ForecastModelName, Product, StockPosition } from '../models/types';
+import {
+  DEFAULT_FORECAST_MODEL,
+  DemandFit,
+  ForecastResult,
+  InboundStock,
+  applyDemandMultipliers,
+  fitDemand,
+  getActualDemand,
+  getDailyDemand,
+  getDemandPoints,
+  getForecastMultipliers,
+  projectForecast,
+  startOfDay,
+} from './Forecasting';
+import { groupEventsByProduct } from './EventReplay';
+import { getDemandMultipliers } from './DemandCalendar';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ForecastGroupLevel = 'company' | 'warehouse' | 'category';
+
+export const FORECAST_GROUP_LEVELS: ForecastGroupLevel[] = ['company', 'warehouse', 'category'];
+
+export interface GroupStockPoint {
+  date: string;
+  demand: number; // Forecast demand the group's stock can cover
+  inbound: number;
+  projectedStock: number;
+}
+
+export interface GroupForecast {
+  level: ForecastGroupLevel;
+  key: string; // Warehouse id, category, or 'company'
+  model: ForecastModelName; // Model used for the group's own forecast
+  productIds: string[];
+  positionIds: string[]; // Stock positions the group totals
+  currentStock: number;
+  predictedStock7d: number;
+  predictedDemand7d: number; // Reconciled
+  baseDemand7d: number; // The group's own forecast, before reconciliation
+  onOrder: number;
+  productsToReorder: string[]; // Products with a position to reorder
+  productsStockingOut: string[]; // Products with a position projected to run out within the forecast
+  forecastDate: string;
+  demandForecast: DemandPoint[];
+  stockProjection: GroupStockPoint[];
+}
+
+export interface PositionForecast extends ForecastResult {
+  positionId: string;
+  warehouse: string;
+}
+
+export interface HierarchicalForecast {
+  products: ForecastResult[]; // Reconciled
+  positions: PositionForecast[]; // Reconciled
+  groups: GroupForecast[];
+}
+
+interface Group {
+  level: ForecastGroupLevel;
+  key: string;
+  members: number[]; // Indexes into the stock positions
+}
+
+// A forecast that reconciled positions must add up to
+interface Aggregate {
+  members: number[]; // Indexes into the stock positions
+  fit: DemandFit;
+}
+
+export function isForecastGroupLevel(value: unknown): value is ForecastGroupLevel {
+  return typeof value === 'string' && FORECAST_GROUP_LEVELS.includes(value as ForecastGroupLevel);
+}
+
+/**
+ * Forecast every stock position, product and group in the hierarchy, reconciled so that they add up.
+ * `onOrder` is by stock position id; `inbound` is by product, each receipt at its warehouse.
+ */
+export function generateHierarchicalForecasts(
+  products: Product[],
+  positions: StockPosition[],
+  events: Event[],
+  daysToForecast: number = 7,
+  onOrder: Map<string, number> = new Map(),
+  model?: ForecastModelName,
+  inbound: Map<string, InboundStock[]> = new Map(),
+  calendar: CalendarEvent[] = [],
+  historicalDays: number = 30
+): HierarchicalForecast {
+  const today = startOfDay(new Date());
+  const from = new Date(today.getTime() - historicalDays * DAY_MS);
+  const eventsByProduct = groupEventsByProduct(events);
+  const productIndexes = new Map(products.map((product, index) => [product.id, index]));
+  const leaves = positions.filter(position => productIndexes.has(position.productId));
+  const productOf = leaves.map(position => productIndexes.get(position.productId)!);
+  const productMembers = products.map((_, p) => leaves.flatMap((_, i) => (productOf[i] === p ? [i] : [])));
+  const groups = getGroups(products, leaves, productOf);
+  const modelOf = (product: Product) => model ?? product.forecastModel ?? DEFAULT_FORECAST_MODEL;
+
+  // Base forecasts: each position from the demand recorded at its warehouse, each product from
+  // its own history and each group from its positions' total demand, all without calendar effects
+  const pastMultipliers = products.map(p => getDemandMultipliers(p, calendar, from, historicalDays));
+  const withoutCalendar = (history: number[], p: number) =>
+    history.map((units, day) => units / pastMultipliers[p][historicalDays - history.length + day]);
+
+  const productFits = products.map((product, p) => fitDemand(
+    withoutCalendar(getDailyDemand(product.id, eventsByProduct.get(product.id) || [], historicalDays, today), p),
+    modelOf(product),
+    daysToForecast,
+    today
+  ));
+
+  const leafHistories = leaves.map(position =>
+    getDailyDemand(position.productId, eventsByProduct.get(position.productId) || [], historicalDays, today, position.warehouse));
+  const leafFits = leaves.map((position, i) =>
+    fitDemand(withoutCalendar(leafHistories[i], productOf[i]), modelOf(products[productOf[i]]), daysToForecast, today));
+
+  const fullHistories = leaves.map((position, i) =>
+    getActualDemand(position.productId, eventsByProduct.get(position.productId) || [], from, historicalDays, position.warehouse)
+      .map((units, day) => units / pastMultipliers[productOf[i]][day]));
+  const groupFits = groups.map(group => {
+    const firstDay = Math.min(...group.members.map(i => historicalDays - leafHistories[i].length));
+    const history = Array.from({ length: historicalDays }, (_, day) =>
+      group.members.reduce((sum, i) => sum + fullHistories[i][day], 0)).slice(firstDay);
+    return fitDemand(history, model ?? DEFAULT_FORECAST_MODEL, daysToForecast, today);
+  });
+
+  const reconciled = reconcile(
+    leafFits,
+    [
+      ...productMembers.map((members, p) => ({ members, fit: productFits[p] })),
+      ...groups.map((group, g) => ({ members: group.members, fit: groupFits[g] })),
+    ],
+    daysToForecast
+  );
+  const multipliers = products.map((product, p) => getForecastMultipliers(product, calendar, productFits[p]));
+  const leafMultipliers = productOf.map(p => multipliers[p]);
+
+  const positionForecasts: PositionForecast[] = leaves.map((position, i) => {
+    const product = products[productOf[i]];
+    return {
+      ...projectForecast(
+        { ...product, currentStock: position.currentStock, reorderPoint: position.reorderPoint },
+        applyDemandMultipliers({ ...leafFits[i], demand: reconciled[i] }, leafMultipliers[i]),
+        {
+          onOrder: onOrder.get(position.id) || 0,
+          inbound: (inbound.get(product.id) || []).filter(receipt => receipt.warehouse === position.warehouse),
+          calendar,
+        }
+      ),
+      positionId: position.id,
+      warehouse: position.warehouse,
+    };
+  });
+
+  const productForecasts = products.map((product, p) => projectForecast(
+    product,
+    applyDemandMultipliers({ ...productFits[p], demand: total(productMembers[p].map(i => reconciled[i]), daysToForecast) }, multipliers[p]),
+    {
+      onOrder: productMembers[p].reduce((sum, i) => sum + (onOrder.get(leaves[i].id) || 0), 0),
+      inbound: inbound.get(product.id) || [],
+      calendar,
+    }
+  ));
+
+  return {
+    products: productForecasts,
+    positions: positionForecasts,
+    groups: groups.map((group, g) => getGroupForecast(group, groupFits[g], positionForecasts, reconciled, leafMultipliers)),
+  };
+}
+
+/**
+ * The company, each warehouse and each category, with the stock positions in them
+ */
+function getGroups(products: Product[], positions: StockPosition[], productOf: number[]): Group[] {
+  const groups: Group[] = [{ level: 'company', key: 'company', members: positions.map((_, index) => index) }];
+  const add = (level: ForecastGroupLevel, keyOf: (position: StockPosition, index: number) => string) => {
+    const byKey = new Map<string, number[]>();
+    positions.forEach((position, index) => {
+      const key = keyOf(position, index);
+      byKey.set(key, [...(byKey.get(key) || []), index]);
+    });
+    Array.from(byKey.keys()).sort().forEach(key => groups.push({ level, key, members: byKey.get(key)! }));
+  };
+
+  add('warehouse', position => position.warehouse);
+  add('category', (_, index) => products[productOf[index]].category);
+  return groups.filter(group => group.members.length > 0);
+}
+
+/**
+ * Reconciled daily demand per stock position: the least squares solution for position demand
+ * given the base forecasts of every position, product and group, taking any below zero as zero
+ */
+function reconcile(leafFits: DemandFit[], aggregates: Aggregate[], days: number): number[][] {
+  // Normal equations: (S'S) x = S'y, where S sums positions into each node of the hierarchy
+  const matrix = leafFits.map((_, i) => leafFits.map((_, j) => (i === j ? 1 : 0)));
+  const rhs = leafFits.map(fit => fit.demand.slice(0, days));
+
+  aggregates.forEach(({ members, fit }) => {
+    members.forEach(i => {
+      members.forEach(j => matrix[i][j]++);
+      for (let day = 0; day < days; day++) {
+        rhs[i][day] += fit.demand[day];
+      }
+    });
+  });
+
+  return solve(matrix, rhs).map(row => row.map(units => Math.max(0, units)));
+}
+
+function getGroupForecast(
+  group: Group,
+  groupFit: DemandFit,
+  positionForecasts: PositionForecast[],
+  reconciled: number[][],
+  multipliers: number[][]
+): GroupForecast {
+  const members = group.members.map(i => positionForecasts[i]);
+  const sum = (valueOf: (forecast: PositionForecast) => number) => members.reduce((total, f) => total + valueOf(f), 0);
+  const productIdsOf = (forecasts: PositionForecast[]) => Array.from(new Set(forecasts.map(f => f.productId)));
+
+  // The group's calendar adjustment is its positions', weighted by their reconciled demand
+  const base = groupFit.demand.map((_, day) => group.members.reduce((total, i) => total + reconciled[i][day], 0));
+  const adjusted = groupFit.demand.map((_, day) => group.members.reduce((total, i) => total + reconciled[i][day] * multipliers[i][day], 0));
+  const groupMultipliers = base.map((units, day) => (units > 0 ? adjusted[day] / units : 1));
+  const demandFit = applyDemandMultipliers({ ...groupFit, demand: base }, groupMultipliers);
+
+  return {
+    level: group.level,
+    key: group.key,
+    model: groupFit.model,
+    productIds: productIdsOf(members),
+    positionIds: members.map(f => f.positionId),
+    currentStock: sum(f => f.currentStock),
+    predictedStock7d: sum(f => f.predictedStock7d),
+    predictedDemand7d: Math.round(adjusted.reduce((total, units) => total + units, 0)),
+    baseDemand7d: Math.round(groupFit.demand.reduce((total, units, day) => total + units * groupMultipliers[day], 0)),
+    onOrder: sum(f => f.onOrder),
+    productsToReorder: productIdsOf(members.filter(f => f.reorderRecommended)),
+    productsStockingOut: productIdsOf(members.filter(f => f.projectedStockoutDate)),
+    forecastDate: new Date().toISOString(),
+    demandForecast: getDemandPoints(demandFit),
+    stockProjection: adjusted.map((_, day) => ({
+      date: members[0].stockProjection[day].date,
+      demand: Math.round(sum(f => f.stockProjection[day].demand) * 10) / 10,
+      inbound: sum(f => f.stockProjection[day].inbound),
+      projectedStock: sum(f => f.stockProjection[day].projectedStock),
+    })),
+  };
+}
+
+/**
+ * Day-by-day totals of several daily series
+ */
+function total(series: number[][], days: number): number[] {
+  return Array.from({ length: days }, (_, day) => series.reduce((sum, units) => sum + units[day], 0));
+}
+
+/**
+ * Solve a symmetric positive definite system for several right hand sides (Gaussian elimination)
+ */
+function solve(matrix: number[][], rhs: number[][]): number[][] {
+  const n = matrix.length;
+  const a = matrix.map(row => [...row]);
+  const b = rhs.map(row => [...row]);
+
+  for (let col = 0; col < n; col++) {
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      if (factor === 0) continue;
+      for (let k = col; k < n; k++) a[row][k] -= factor * a[col][k];
+      b[row] = b[row].map((value, day) => value - factor * b[col][day]);
+    }
+  }
+
+  const x: number[][] = Array.from({ length: n }, () => []);
+  for (let row = n - 1; row >= 0; row--) {
+    x[row] = b[row].map((value, day) => {
+      let sum = value;
+      for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k][day];
+      return sum / a[row][row];
+    });
+  }
+  return x;
+}
@@ -0,0 +1,226 @@
+/**
+ * Forecast Models
+ * Daily demand forecasting models behind a common interface
+ *
+ * Each model takes a product's daily demand (units sold less units returned, oldest day first,
+ * days without sales included as zero) and forecasts demand for the days ahead. Smoothing
+ * parameters are fitted to the history by grid search, minimising the squared error of the
+ * model's one-step-ahead forecasts. A model given less history than it needs falls back to the
+ * next simpler one: Holt-Winters to Holt to simple exponential smoothing to the moving average.
+ *
+ * Each fit also reports how a one-step forecast error carries into the forecasts after it (the
+ * error weights of the model's state space form), from which the forecasting service derives
+ * prediction intervals that widen with the horizon.
+ */
+
+import { ForecastModelName } from '../models/types';
+
+export interface ModelFit {
+  model: ForecastModelName; // Model actually used, after any fallback
+  demand: number[]; // Forecast daily demand for each day ahead
+  residuals: number[]; // One-step-ahead forecast errors over the history (actual - forecast)
+  errorWeights: number[]; // Share of a one-step error carried into the forecast 1, 2, ... steps later
+  parameters: Record<string, number>;
+}
+
+export interface ForecastModel {
+  name: ForecastModelName;
+  description: string;
+  minHistoryDays: number;
+  fallback?: ForecastModelName;
+  /**
+   * Forecast demand for the next `horizon` days from daily demand, oldest first
+   */
+  fit(history: number[], horizon: number): ModelFit;
+}
+
+// Weekly seasonality in daily demand
+export const SEASON_LENGTH = 7;
+
+// Candidate values for each smoothing parameter
+const SMOOTHING_GRID = [0.05, 0.1, 0.2, 0.3, 0.5, 0.7, 0.9];
+
+/**
+ * Simple moving average: mean demand over the history, the baseline the other models should beat
+ */
+const movingAverage: ForecastModel = {
+  name: 'sma',
+  description: 'Simple moving average of daily demand (baseline)',
+  minHistoryDays: 0,
+  fit(history, horizon) {
+    const mean = history.length > 0 ? history.reduce((sum, y) => sum + y, 0) / history.length : 0;
+
+    return {
+      model: 'sma',
+      demand: Array(horizon).fill(mean),
+      residuals: history.map(y => y - mean),
+      errorWeights: Array(horizon).fill(0),
+      parameters: { window: history.length },
+    };
+  },
+};
+
+/**
+ * Simple exponential smoothing: a level that follows recent demand, forecast flat
+ */
+const simpleExponentialSmoothing: ForecastModel = {
+  name: 'ses',
+  description: 'Simple exponential smoothing (level)',
+  minHistoryDays: 2,
+  fallback: 'sma',
+  fit(history, horizon) {
+    const run = (alpha: number) => {
+      let level = history[0];
+      const residuals: number[] = [];
+      for (let t = 1; t < history.length; t++) {
+        residuals.push(history[t] - level);
+        level = alpha * history[t] + (1 - alpha) * level;
+      }
+      return { level, residuals };
+    };
+
+    const alpha = bestOf(SMOOTHING_GRID.map(a => [a]), ([a]) => run(a).residuals)[0];
+    const { level, residuals } = run(alpha);
+
+    return {
+      model: 'ses',
+      demand: Array(horizon).fill(Math.max(0, level)),
+      residuals,
+      errorWeights: Array(horizon).fill(alpha),
+      parameters: { alpha },
+    };
+  },
+};
+
+/**
+ * Holt's linear trend: a level and a trend, forecast along the trend
+ */
+const holtLinear: ForecastModel = {
+  name: 'holt',
+  description: "Holt's linear trend (level and trend)",
+  minHistoryDays: 4,
+  fallback: 'ses',
+  fit(history, horizon) {
+    const run = (alpha: number, beta: number) => {
+      let level = history[0];
+      let trend = history[1] - history[0];
+      const residuals: number[] = [];
+      for (let t = 1; t < history.length; t++) {
+        residuals.push(history[t] - (level + trend));
+        const previousLevel = level;
+        level = alpha * history[t] + (1 - alpha) * (level + trend);
+        trend = beta * (level - previousLevel) + (1 - beta) * trend;
+      }
+      return { level, trend, residuals };
+    };
+
+    const [alpha, beta] = bestOf(pairs(SMOOTHING_GRID), ([a, b]) => run(a, b).residuals);
+    const { level, trend, residuals } = run(alpha, beta);
+
+    return {
+      model: 'holt',
+      demand: Array.from({ length: horizon }, (_, h) => Math.max(0, level + (h + 1) * trend)),
+      residuals,
+      errorWeights: Array.from({ length: horizon }, (_, h) => alpha * (1 + (h + 1) * beta)),
+      parameters: { alpha, beta },
+    };
+  },
+};
+
+/**
+ * Holt-Winters additive seasonal: level, trend and a weekly pattern of demand by day of week
+ */
+const holtWinters: ForecastModel = {
+  name: 'holt-winters',
+  description: 'Holt-Winters additive seasonal (level, trend and weekly seasonality)',
+  minHistoryDays: 2 * SEASON_LENGTH,
+  fallback: 'holt',
+  fit(history, horizon) {
+    const m = SEASON_LENGTH;
+    const firstSeason = mean(history.slice(0, m));
+    const secondSeason = mean(history.slice(m, 2 * m));
+
+    const run = (alpha: number, beta: number, gamma: number) => {
+      let level = firstSeason;
+      let trend = (secondSeason - firstSeason) / m;
+      const seasonals = history.slice(0, m).map(y => y - firstSeason);
+      const residuals: number[] = [];
+
+      for (let t = m; t < history.length; t++) {
+        const seasonal = seasonals[t - m];
+        residuals.push(history[t] - (level + trend + seasonal));
+        const previousLevel = level;
+        level = alpha * (history[t] - seasonal) + (1 - alpha) * (level + trend);
+        trend = beta * (level - previousLevel) + (1 - beta) * trend;
+        seasonals.push(gamma * (history[t] - level) + (1 - gamma) * seasonal);
+      }
+      return { level, trend, seasonals, residuals };
+    };
+
+    const [alpha, beta, gamma] = bestOf(
+      pairs(SMOOTHING_GRID).flatMap(pair => SMOOTHING_GRID.map(g => [...pair, g])),
+      ([a, b, g]) => run(a, b, g).residuals
+    );
+    const { level, trend, seasonals, residuals } = run(alpha, beta, gamma);
+    const lastSeason = seasonals.slice(-m);
+
+    return {
+      model: 'holt-winters',
+      demand: Array.from({ length: horizon }, (_, h) => Math.max(0, level + (h + 1) * trend + lastSeason[h % m])),
+      residuals,
+      // A seasonal index absorbs gamma of what the level did not, and is next used a season later
+      errorWeights: Array.from({ length: horizon }, (_, h) =>
+        alpha * (1 + (h + 1) * beta) + ((h + 1) % m === 0 ? gamma * (1 - alpha) : 0)),
+      parameters: { alpha, beta, gamma, seasonLength: m },
+    };
+  },
+};
+
+export const FORECAST_MODELS: Record<ForecastModelName, ForecastModel> = {
+  'sma': movingAverage,
+  'ses': simpleExponentialSmoothing,
+  'holt': holtLinear,
+  'holt-winters': holtWinters,
+};
+
+export const FORECAST_MODEL_NAMES = Object.keys(FORECAST_MODELS) as ForecastModelName[];
+
+export function isForecastModelName(value: unknown): value is ForecastModelName {
+  return typeof value === 'string' && FORECAST_MODEL_NAMES.includes(value as ForecastModelName);
+}
+
+/**
+ * Fit a model to daily demand, falling back to simpler models while the history is too short
+ */
+export function fitForecastModel(name: ForecastModelName, history: number[], horizon: number): ModelFit {
+  let model = FORECAST_MODELS[name];
+  while (history.length < model.minHistoryDays && model.fallback) {
+    model = FORECAST_MODELS[model.fallback];
+  }
+  return model.fit(history, horizon);
+}
+
+/**
+ * The parameter set whose one-step-ahead errors have the smallest sum of squares
+ */
+function bestOf(candidates: number[][], residualsOf: (parameters: number[]) => number[]): number[] {
+  let best = candidates[0];
+  let bestError = Infinity;
+
+  candidates.forEach(parameters => {
+    const error = residualsOf(parameters).reduce((sum, e) => sum + e * e, 0);
+    if (error < bestError) {
+      best = parameters;
+      bestError = error;
+    }
+  });
+  return best;
+}
+
+function pairs(values: number[]): number[][] {
+  return values.flatMap(a => values.map(b => [a, b]));
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, y) => sum + y, 0) / values.length;
+}
@@ -1,146 +1,473 @@
 /**
  * Forecasting Service for StreamStock AI
- * Uses Simple Moving Average (SMA) for stock predictions
+ * Forecasts daily demand with a selectable model (see services/ForecastModels.ts) and projects stock from it
+ *
+ * Demand is units sold less units returned per day; restocks and transfers move stock but are
+ * not demand, so they are left out. The model is chosen per request, else per product, else
+ * FORECAST_MODEL (default holt-winters). The simple moving average is kept as a baseline.
+ *
+ * The stock projection is kept separate from the demand forecast: it draws current stock down
+ * by forecast demand and adds known inbound stock (open purchase orders on their expected date,
+ * transfers in transit) on the day it arrives. Demand that stock cannot cover is lost.
+ *
+ * Every day carries 80% and 95% prediction intervals. Demand intervals come from the spread of
+ * the model's one-step errors carried forward by its error weights, so they widen with the
+ * horizon; stock intervals project stock under the low and high ends of cumulative demand.
+ *
+ * Promotions, holidays and planned events on the demand calendar (see services/DemandCalendar.ts)
+ * are taken out of past demand before the model is fitted, and applied to the days ahead.
  */
 
-import { Event, Product } from '../models/types';
+import { CalendarEvent, DemandPoint, Event, ForecastModelName, PredictionInterval, Product, PurchaseOrder, Transfer } from '../models/types';
+import { fitForecastModel, isForecastModelName } from './ForecastModels';
+import { getCalendarEventsFor, getDemandMultipliers } from './DemandCalendar';
+import { getEventTime } from './EventReplay';
 
-export interface DailyPrediction {
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Normal quantiles for two-sided 80% and 95% intervals
+const Z_80 = 1.2816;
+const Z_95 = 1.96;
+
+// Longest forecast served, in days
+export const MAX_FORECAST_DAYS = 90;
+
+export const DEFAULT_FORECAST_MODEL: ForecastModelName = isForecastModelName(process.env.FORECAST_MODEL)
+  ? process.env.FORECAST_MODEL
+  : 'holt-winters';
+
+export interface DailyPrediction extends PredictionInterval {
   date: string;
-  predictedStock: number;
-  confidence: number;
+  predictedStock: number; // Bounds are for the stock
+  predictedDemand: number;
+}
+
+export interface InboundStock {
+  source: 'PURCHASE_ORDER' | 'TRANSFER';
+  reference: string; // Purchase order or transfer id
+  warehouse: string; // Where it arrives
+  quantity: number;
+  expectedAt: Date; // Overdue orders and transfers in transit are expected the next day
+}
+
+export interface StockProjectionPoint extends PredictionInterval {
+  date: string;
+  demand: number; // Forecast demand the stock can cover
+  inbound: number; // Known inbound stock arriving that day
+  projectedStock: number; // On hand at the end of the day
 }
 
 export interface ForecastResult {
   productId: string;
   productName: string;
+  model: ForecastModelName; // Model used, after falling back for short history
+  parameters: Record<string, number>; // Fitted smoothing parameters
   currentStock: number;
-  predictedStock7d: number;
+  predictedStock7d: number; // Projected stock at the end of the forecast, with inbound stock
   predictedDemand7d: number;
+  onOrder: number; // Units on submitted purchase orders not yet received
+  inbound: InboundStock[];
+  projectedStockoutDate?: string; // First day projected stock runs out, if within the forecast
   reorderRecommended: boolean;
-  confidence: number;
+  calendarEvents: CalendarEvent[]; // Calendar events adjusting this forecast
+  confidence: number; // Summary of how closely the model fits past demand
   forecastDate: string;
-  predictions: DailyPrediction[];
+  demandForecast: DemandPoint[];
+  stockProjection: StockProjectionPoint[];
+  predictions: DailyPrediction[]; // Stock projection and demand forecast combined, as before
+}
+
+export interface ForecastOptions {
+  daysToForecast?: number;
+  historicalDays?: number;
+  onOrder?: number;
+  inbound?: InboundStock[];
+  model?: ForecastModelName; // Overrides the product's model
+  calendar?: CalendarEvent[]; // Promotions, holidays and planned events
+  asOf?: Date; // Forecast from the events before this time's day, for backtesting (stock is still current)
+}
+
+export interface DemandFit {
+  model: ForecastModelName; // Model used, after falling back for short history
+  parameters: Record<string, number>;
+  confidence: number;
+  today: Date; // Start of the day forecast from; forecast days start the day after
+  demand: number[]; // Forecast daily demand
+  dailySpread: number[]; // Standard deviation of each day's demand
+  cumulativeSpread: number[]; // Standard deviation of total demand from the first forecast day through each day
+  multipliers?: number[]; // Calendar adjustments applied to demand, by day
 }
 
 /**
- * Calculate Simple Moving Average forecast
- * Uses last N days of sales/restocks/returns to predict future stock
+ * Forecast a product's demand and stock for the days ahead
  */
-export function calculateSMAForecast(
-  product: Product,
-  events: Event[],
-  daysToForecast: number = 7,
-  historicalDays: number = 30
-): ForecastResult {
-  // Filter events for this product
-  const productEvents = events.filter(e => e.productId === product.id);
+export function calculateForecast(product: Product, events: Event[], options: ForecastOptions = {}): ForecastResult {
+  const { daysToForecast = 7, historicalDays = 30, calendar = [] } = options;
+  const model = options.model ?? product.forecastModel ?? DEFAULT_FORECAST_MODEL;
+  const today = startOfDay(options.asOf ?? new Date());
+
+  // Fit the model to demand without calendar effects, then apply those expected in the days ahead
+  const history = getDailyDemand(product.id, events, historicalDays, today);
+  const pastMultipliers = getDemandMultipliers(product, calendar, new Date(today.getTime() - history.length * DAY_MS), history.length);
+  const demandFit = fitDemand(history.map((units, day) => units / pastMultipliers[day]), model, daysToForecast, today);
+
+  return projectForecast(product, applyDemandMultipliers(demandFit, getForecastMultipliers(product, calendar, demandFit)), options);
+}
+
+/**
+ * Forecast daily demand for the days after `today` from the daily demand before it
+ */
+export function fitDemand(history: number[], model: ForecastModelName, daysToForecast: number, today: Date): DemandFit {
+  // Fit to complete days up to yesterday; the first step ahead is today, whose sales are partly in
+  // current stock already, so predictions start tomorrow as before
+  const fit = fitForecastModel(model, history, daysToForecast + 1);
+  const demand = fit.demand.slice(1);
 
-  // Calculate average daily stock change
-  const dailyChanges = calculateDailyStockChanges(productEvents, historicalDays);
-  const avgDailyChange = dailyChanges.reduce((sum, val) => sum + val, 0) / dailyChanges.length || 0;
+  // Spread of each day's demand, and of total demand from tomorrow through each day (step 1 is today)
+  const sigma = Math.sqrt(fit.residuals.reduce((sum, e) => sum + e * e, 0) / (fit.residuals.length || 1));
+  const weights = [1, ...fit.errorWeights];
+  const cumulativeVariances = cumulativeErrorVariances(weights, demand.length);
 
-  // Project forward
-  const predictedStock = Math.max(0, product.currentStock + (avgDailyChange * daysToForecast));
-  const predictedDemand = Math.abs(avgDailyChange * daysToForecast);
+  return {
+    model: fit.model,
+    parameters: fit.parameters,
+    confidence: calculateConfidence(history, fit.residuals),
+    today,
+    demand,
+    dailySpread: demand.map((_, index) => sigma * Math.sqrt(sumOfSquares(weights.slice(0, index + 2)))),
+    cumulativeSpread: cumulativeVariances.map(variance => sigma * Math.sqrt(variance)),
+  };
+}
 
-  // Determine if reorder is needed
-  const reorderRecommended = predictedStock < product.reorderPoint;
+/**
+ * Scale a demand forecast, and its spread, by the calendar adjustment for each day
+ */
+export function applyDemandMultipliers(demandFit: DemandFit, multipliers: number[]): DemandFit {
+  if (multipliers.every(multiplier => multiplier === 1)) return demandFit;
 
-  // Calculate confidence based on data consistency
-  const confidence = calculateConfidence(dailyChanges);
+  // Total demand through each day is scaled by the demand-weighted adjustment over those days
+  let base = 0;
+  let adjusted = 0;
+  const cumulativeSpread = demandFit.cumulativeSpread.map((spread, index) => {
+    base += demandFit.demand[index];
+    adjusted += demandFit.demand[index] * multipliers[index];
+    return spread * (base > 0 ? adjusted / base : multipliers[index]);
+  });
 
-  // Generate daily predictions
-  const predictions: DailyPrediction[] = [];
-  const today = new Date();
+  return {
+    ...demandFit,
+    demand: demandFit.demand.map((units, index) => units * multipliers[index]),
+    dailySpread: demandFit.dailySpread.map((spread, index) => spread * multipliers[index]),
+    cumulativeSpread,
+    multipliers,
+  };
+}
 
-  for (let day = 1; day <= daysToForecast; day++) {
-    const futureDate = new Date(today);
-    futureDate.setDate(today.getDate() + day);
+/**
+ * Calendar adjustment for a product on each day of a demand forecast
+ */
+export function getForecastMultipliers(product: Product, calendar: CalendarEvent[], demandFit: DemandFit): number[] {
+  return getDemandMultipliers(product, calendar, new Date(demandFit.today.getTime() + DAY_MS), demandFit.demand.length);
+}
 
-    const dailyPredictedStock = Math.max(0, product.currentStock + (avgDailyChange * day));
+/**
+ * Forecast demand for each day, with its prediction intervals
+ */
+export function getDemandPoints(demandFit: DemandFit): DemandPoint[] {
+  const { demand, dailySpread, multipliers } = demandFit;
 
-    predictions.push({
-      date: futureDate.toISOString(),
-      predictedStock: Math.round(dailyPredictedStock),
-      confidence: confidence,
-    });
-  }
+  return demand.map((units, index) => ({
+    date: forecastDate(demandFit.today, index),
+    demand: round(units),
+    ...(multipliers && multipliers[index] !== 1 && { baseDemand: round(units / multipliers[index]) }),
+    lower80: round(Math.max(0, units - Z_80 * dailySpread[index])),
+    upper80: round(units + Z_80 * dailySpread[index]),
+    lower95: round(Math.max(0, units - Z_95 * dailySpread[index])),
+    upper95: round(units + Z_95 * dailySpread[index]),
+  }));
+}
+
+/**
+ * Project a product's stock from a forecast of its demand
+ */
+export function projectForecast(product: Product, demandFit: DemandFit, options: ForecastOptions = {}): ForecastResult {
+  const { onOrder = 0 } = options;
+  const { today, demand, cumulativeSpread } = demandFit;
+  const inbound = options.inbound ?? [];
+  const dates = demand.map((_, index) => forecastDate(today, index));
+  const demandForecast = getDemandPoints(demandFit);
+
+  // Inbound stock by forecast day; anything due before tomorrow arrives tomorrow
+  const arriving = demand.map((_, index) => inbound
+    .filter(receipt => Math.max(1, Math.ceil((receipt.expectedAt.getTime() - today.getTime()) / DAY_MS)) === index + 1)
+    .reduce((sum, receipt) => sum + receipt.quantity, 0));
+
+  // Project stock under forecast demand, and under the low and high ends of cumulative demand
+  const projected = projectStock(product.currentStock, demand, arriving);
+  const boundsAt = (z: number) => projectStock(product.currentStock, cumulativeQuantile(demand, cumulativeSpread, z), arriving).stock;
+  const [upper80, lower80, upper95, lower95] = [-Z_80, Z_80, -Z_95, Z_95].map(boundsAt);
+
+  const stockProjection: StockProjectionPoint[] = demand.map((_, index) => ({
+    date: dates[index],
+    demand: round(projected.covered[index]),
+    inbound: arriving[index],
+    projectedStock: Math.round(projected.stock[index]),
+    lower80: Math.round(lower80[index]),
+    upper80: Math.round(upper80[index]),
+    lower95: Math.round(lower95[index]),
+    upper95: Math.round(upper95[index]),
+  }));
+  const stock = projected.stock[projected.stock.length - 1] ?? product.currentStock;
+  const stockoutIndex = projected.stock.findIndex(units => units <= 0);
+  const projectedStockoutDate = stockoutIndex >= 0 ? dates[stockoutIndex] : undefined;
+
+  // Determine if reorder is needed, counting inbound stock due after the forecast too
+  const horizonEnd = today.getTime() + demand.length * DAY_MS;
+  const laterInbound = inbound
+    .filter(receipt => receipt.expectedAt.getTime() > horizonEnd)
+    .reduce((sum, receipt) => sum + receipt.quantity, 0);
+  const reorderRecommended = stock + laterInbound < product.reorderPoint;
+  const calendarEvents = getCalendarEventsFor(product, options.calendar ?? [], new Date(today.getTime() + DAY_MS), new Date(horizonEnd + DAY_MS));
 
   return {
     productId: product.id,
     productName: product.name,
+    model: demandFit.model,
+    parameters: demandFit.parameters,
     currentStock: product.currentStock,
-    predictedStock7d: Math.round(predictedStock),
-    predictedDemand7d: Math.round(predictedDemand),
+    predictedStock7d: Math.round(stock),
+    predictedDemand7d: Math.round(demand.reduce((sum, units) => sum + units, 0)),
+    onOrder,
+    inbound,
+    projectedStockoutDate,
     reorderRecommended,
-    confidence,
-    forecastDate: new Date().toISOString(),
-    predictions,
+    calendarEvents,
+    confidence: demandFit.confidence,
+    forecastDate: (options.asOf ?? new Date()).toISOString(),
+    demandForecast,
+    stockProjection,
+    predictions: stockProjection.map((point, index) => ({
+      date: point.date,
+      predictedStock: point.projectedStock,
+      predictedDemand: demandForecast[index].demand,
+      lower80: point.lower80,
+      upper80: point.upper80,
+      lower95: point.lower95,
+      upper95: point.upper95,
+    })),
+  };
+}
+
+/**
+ * Calculate Simple Moving Average forecast, the baseline model
+ */
+export function calculateSMAForecast(
+  product: Product,
+  events: Event[],
+  daysToForecast: number = 7,
+  historicalDays: number = 30,
+  onOrder: number = 0
+): ForecastResult {
+  return calculateForecast(product, events, { daysToForecast, historicalDays, onOrder, model: 'sma' });
+}
+
+/**
+ * Known inbound stock per product: the undelivered remainder of open purchase orders on their
+ * expected date, and transfers in transit (which leave and re-enter the product's total stock)
+ */
+export function getKnownInbound(
+  purchaseOrders: PurchaseOrder[],
+  transfers: Transfer[],
+  asOf: Date = new Date()
+): Map<string, InboundStock[]> {
+  const tomorrow = new Date(startOfDay(asOf).getTime() + DAY_MS);
+  const inbound = new Map<string, InboundStock[]>();
+  const add = (productId: string, receipt: InboundStock) => {
+    inbound.set(productId, [...(inbound.get(productId) || []), receipt]);
   };
+
+  purchaseOrders.forEach(po => {
+    const quantity = po.quantity - po.receivedQuantity;
+    if (quantity <= 0) return;
+    add(po.productId, {
+      source: 'PURCHASE_ORDER',
+      reference: po.id,
+      warehouse: po.warehouse,
+      quantity,
+      expectedAt: po.expectedAt && po.expectedAt > tomorrow ? po.expectedAt : tomorrow,
+    });
+  });
+  transfers.forEach(transfer => {
+    add(transfer.productId, {
+      source: 'TRANSFER',
+      reference: transfer.id,
+      warehouse: transfer.toWarehouse,
+      quantity: transfer.quantity,
+      expectedAt: tomorrow,
+    });
+  });
+
+  return inbound;
 }
 
 /**
- * Calculate daily stock changes from events
+ * Daily demand (sales less returns) over the days before `until`, oldest first. Days without
+ * sales count as zero, from the product's first event in the window on. Given a warehouse, only
+ * the events recorded there count.
  */
-function calculateDailyStockChanges(events: Event[], days: number): number[] {
-  const now = new Date();
-  const startDate = new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+export function getDailyDemand(
+  productId: string,
+  events: Event[],
+  days: number,
+  until: Date = startOfDay(new Date()),
+  warehouse?: string
+): number[] {
+  const { demand, firstDay } = bucketDemand(productId, events, new Date(until.getTime() - days * DAY_MS), days, warehouse);
+  return demand.slice(firstDay);
+}
 
-  // Group events by day
-  const dailyChanges: Map<string, number> = new Map();
+/**
+ * Actual daily demand on each of the days from `from` (the start of a day), zero on days without
+ * sales; given a warehouse, only the demand recorded there
+ */
+export function getActualDemand(productId: string, events: Event[], from: Date, days: number, warehouse?: string): number[] {
+  return bucketDemand(productId, events, from, days, warehouse).demand;
+}
+
+function bucketDemand(
+  productId: string,
+  events: Event[],
+  from: Date,
+  days: number,
+  warehouse?: string
+): { demand: number[]; firstDay: number } {
+  const start = from.getTime();
+  const demand: number[] = Array(days).fill(0);
+  let firstDay = days;
 
   events.forEach(event => {
-    const eventDate = event.timestamp instanceof Date ? event.timestamp : new Date(event.timestamp);
-
-    if (eventDate >= startDate) {
-      const dayKey = eventDate.toISOString().split('T')[0];
-      const currentChange = dailyChanges.get(dayKey) || 0;
-
-      let change = 0;
-      switch (event.type) {
-        case 'SALE':
-          change = -event.quantity;
-          break;
-        case 'RESTOCK':
-          change = event.quantity;
-          break;
-        case 'RETURN':
-          change = event.quantity;
-          break;
-      }
-
-      dailyChanges.set(dayKey, currentChange + change);
+    if (event.productId !== productId) return;
+    if (warehouse !== undefined && event.warehouse !== warehouse) return;
+
+    const time = getEventTime(event);
+    if (time < start || time >= start + days * DAY_MS) return;
+
+    const day = Math.floor((time - start) / DAY_MS);
+    firstDay = Math.min(firstDay, day);
+    if (event.type === 'SALE') demand[day] += event.quantity;
+    if (event.type === 'RETURN') demand[day] -= event.quantity;
+  });
+
+  return { demand: demand.map(units => Math.max(0, units)), firstDay };
+}
+
+/**
+ * Draw stock down by daily demand and add stock arriving each day; demand beyond stock is lost
+ */
+function projectStock(currentStock: number, demand: number[], arriving: number[]): { stock: number[]; covered: number[] } {
+  const stock: number[] = [];
+  const covered: number[] = [];
+  let units = currentStock;
+
+  demand.forEach((dayDemand, index) => {
+    const served = Math.min(units, dayDemand);
+    units = units - served + arriving[index];
+    stock.push(units);
+    covered.push(served);
+  });
+  return { stock, covered };
+}
+
+/**
+ * Variance (in one-step error variances) of total demand from step 2 through each step up to
+ * `days + 1`: the error at step i reaches each later step k with weight weights[k - i]. Each
+ * step's coefficients extend the previous step's, so they are kept rather than recomputed
+ */
+function cumulativeErrorVariances(weights: number[], days: number): number[] {
+  const coefficients: number[] = []; // Weight of the error at step i + 1 in the total so far
+  const variances: number[] = [];
+
+  for (let lastStep = 2; lastStep <= days + 1; lastStep++) {
+    while (coefficients.length < lastStep) coefficients.push(0);
+    let variance = 0;
+    for (let i = 1; i <= lastStep; i++) {
+      coefficients[i - 1] += weights[lastStep - i];
+      variance += coefficients[i - 1] * coefficients[i - 1];
     }
+    variances.push(variance);
+  }
+  return variances;
+}
+
+/**
+ * Daily demand whose running total follows a quantile of cumulative demand
+ */
+function cumulativeQuantile(demand: number[], cumulativeSpread: number[], z: number): number[] {
+  let total = 0;
+  let previous = 0;
+  return demand.map((units, index) => {
+    total += units;
+    const quantile = Math.max(previous, total + z * cumulativeSpread[index]);
+    const day = Math.max(0, quantile - previous);
+    previous = quantile;
+    return day;
   });
+}
 
-  return Array.from(dailyChanges.values());
+function forecastDate(today: Date, index: number): string {
+  return new Date(today.getTime() + (index + 1) * DAY_MS).toISOString();
+}
+
+function sumOfSquares(values: number[]): number {
+  return values.reduce((sum, value) => sum + value * value, 0);
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
 }
 
 /**
- * Calculate forecast confidence based on data variance
+ * Calculate forecast confidence from how far the model's one-step forecasts missed actual demand
  */
-function calculateConfidence(values: number[]): number {
-  if (values.length < 2) return 0.5;
+function calculateConfidence(history: number[], residuals: number[]): number {
+  if (residuals.length < 2) return 0.5;
 
-  const mean = values.reduce((sum, val) => sum + val, 0) / values.length;
-  const variance = values.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / values.length;
-  const stdDev = Math.sqrt(variance);
+  const meanDemand = history.reduce((sum, y) => sum + y, 0) / history.length;
+  const meanAbsoluteError = residuals.reduce((sum, e) => sum + Math.abs(e), 0) / residuals.length;
 
-  // Lower standard deviation = higher confidence
-  const coefficientOfVariation = mean !== 0 ? Math.abs(stdDev / mean) : 1;
-  const confidence = Math.max(0.1, Math.min(0.95, 1 - coefficientOfVariation));
+  // Smaller errors relative to demand = higher confidence
+  const relativeError = meanDemand > 0 ? meanAbsoluteError / meanDemand : 1;
+  const confidence = Math.max(0.1, Math.min(0.95, 1 - relativeError));
 
   return Math.round(confidence * 100) / 100;
 }
 
+/**
+ * Start of the UTC day a time falls on, the boundary forecast days are counted from
+ */
+export function startOfDay(date: Date): Date {
+  return new Date(Math.floor(date.getTime() / DAY_MS) * DAY_MS);
+}
+
 /**
  * Generate forecasts for multiple products
  */
 export function generateForecasts(
   products: Product[],
   events: Event[],
-  daysToForecast: number = 7
+  daysToForecast: number = 7,
+  onOrder: Map<string, number> = new Map(),
+  model?: ForecastModelName,
+  inbound: Map<string, InboundStock[]> = new Map(),
+  calendar: CalendarEvent[] = []
 ): ForecastResult[] {
-  return products.map(product => calculateSMAForecast(product, events, daysToForecast));
+  return products.map(product =>
+    calculateForecast(product, events, {
+      daysToForecast,
+      onOrder: onOrder.get(product.id) || 0,
+      inbound: inbound.get(product.id) || [],
+      model,
+      calendar,
+    })
+  );
 }
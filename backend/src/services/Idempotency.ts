@@ -0,0 +1,125 @@
+/**
+ * Idempotency Service
+ * Suppresses duplicate event deliveries and client retries
+ */
+
+import { Event, IdempotencyRecord } from '../models/types';
+import { idempotencyStore } from '../stores/InMemoryStore';
+
+// Client idempotency keys are remembered for 24 hours
+const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+const RECENT_DUPLICATES_LIMIT = 50;
+
+export type IdempotencyCheck =
+  | { status: 'new' }
+  | { status: 'pending'; record: IdempotencyRecord }
+  | { status: 'replay'; record: IdempotencyRecord }
+  | { status: 'conflict'; record: IdempotencyRecord };
+
+interface DuplicateRecord {
+  eventId: string;
+  source: 'event' | 'idempotency-key';
+  detectedAt: Date;
+}
+
+// Keys whose event is being published, so concurrent retries cannot publish it again
+const pendingKeys = new Map<string, IdempotencyRecord>();
+
+const stats = {
+  duplicateEventsSuppressed: 0,
+  idempotentRequestsReplayed: 0,
+  idempotencyKeyConflicts: 0,
+  recentDuplicates: [] as DuplicateRecord[],
+};
+
+/**
+ * Record a redelivered event that was not applied again
+ */
+export function recordDuplicateEvent(eventId: string): void {
+  stats.duplicateEventsSuppressed++;
+  trackDuplicate({ eventId, source: 'event', detectedAt: new Date() });
+  console.log(`♊ Duplicate event suppressed: ${eventId}`);
+}
+
+/**
+ * Fingerprint the parts of a request that must match when a key is reused
+ */
+export function fingerprintRequest(body: { type?: unknown; productId?: unknown; quantity?: unknown; warehouse?: unknown }): string {
+  return JSON.stringify([body.type, body.productId, body.quantity, body.warehouse ?? null]);
+}
+
+/**
+ * Check a client-supplied idempotency key
+ */
+export function checkIdempotencyKey(key: string, fingerprint: string): IdempotencyCheck {
+  const pending = pendingKeys.get(key);
+  const record = pending ?? idempotencyStore.get(key);
+
+  if (!record || Date.now() - record.createdAt.getTime() > IDEMPOTENCY_KEY_TTL_MS) {
+    return { status: 'new' };
+  }
+
+  if (record.fingerprint !== fingerprint) {
+    stats.idempotencyKeyConflicts++;
+    return { status: 'conflict', record };
+  }
+
+  if (pending) {
+    return { status: 'pending', record };
+  }
+
+  stats.idempotentRequestsReplayed++;
+  trackDuplicate({ eventId: record.eventId, source: 'idempotency-key', detectedAt: new Date() });
+  return { status: 'replay', record };
+}
+
+/**
+ * Hold an idempotency key while its event is published (call without awaiting after checkIdempotencyKey,
+ * then saveIdempotencyKey once published or releaseIdempotencyKey if publishing fails)
+ */
+export function reserveIdempotencyKey(key: string, fingerprint: string, event: Event): void {
+  pendingKeys.set(key, { id: key, eventId: event.id, fingerprint, event, createdAt: new Date() });
+}
+
+/**
+ * Free a reserved idempotency key whose event was not published, so the request can be retried
+ */
+export function releaseIdempotencyKey(key: string): void {
+  pendingKeys.delete(key);
+}
+
+/**
+ * Remember the event created for an idempotency key
+ */
+export function saveIdempotencyKey(key: string, fingerprint: string, event: Event): IdempotencyRecord {
+  pendingKeys.delete(key);
+  idempotencyStore.cleanupExpired(IDEMPOTENCY_KEY_TTL_MS);
+
+  return idempotencyStore.create({
+    id: key,
+    eventId: event.id,
+    fingerprint,
+    event,
+    createdAt: new Date(),
+  });
+}
+
+/**
+ * Get duplicate suppression counters
+ */
+export function getIdempotencyStats() {
+  return {
+    duplicateEventsSuppressed: stats.duplicateEventsSuppressed,
+    idempotentRequestsReplayed: stats.idempotentRequestsReplayed,
+    idempotencyKeyConflicts: stats.idempotencyKeyConflicts,
+    activeIdempotencyKeys: idempotencyStore.count(),
+    pendingIdempotencyKeys: pendingKeys.size,
+    keyTtlMs: IDEMPOTENCY_KEY_TTL_MS,
+    recentDuplicates: stats.recentDuplicates,
+  };
+}
+
+function trackDuplicate(duplicate: DuplicateRecord): void {
+  stats.recentDuplicates.unshift(duplicate);
+  stats.recentDuplicates.length = Math.min(stats.recentDuplicates.length, RECENT_DUPLICATES_LIMIT);
+}
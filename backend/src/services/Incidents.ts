@@ -0,0 +1,119 @@
+/**
+ * Incident Service
+ * Groups correlated alerts into incidents
+ *
+ * A bulk sale can push a stock position through several alert rules at once (low stock,
+ * reorder needed, critical low stock). Alerts raised at the same product and warehouse within
+ * the grouping window of the incident's last alert join that open incident, so operators see
+ * one problem instead of a burst of alerts. An incident is as severe as its most severe alert,
+ * including alerts raised by escalation, and resolves once all its alerts have.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Alert, AlertSeverity, Incident, Product } from '../models/types';
+import { alertStore, incidentStore } from '../stores/InMemoryStore';
+import { ALERT_SEVERITIES } from './AlertRules';
+
+// Alerts this close to an incident's last alert join it
+const INCIDENT_WINDOW_MS = parseInt(process.env.INCIDENT_WINDOW_MINUTES || '15') * 60 * 1000;
+
+export interface IncidentChange {
+  incident: Incident;
+  opened: boolean; // The alert opened a new incident
+  escalated: boolean; // The alert raised the severity of an existing incident
+}
+
+/**
+ * Add an alert being raised to the open incident at its stock position, or open an incident for it;
+ * the caller stores the alert with the incident's id
+ */
+export function addAlertToIncident(alert: Alert, product: Product): IncidentChange {
+  const warehouse = alert.warehouse || product.warehouse;
+  const open = incidentStore.getOpenAt(alert.productId, warehouse);
+
+  if (open && alert.timestamp.getTime() - open.lastAlertAt.getTime() <= INCIDENT_WINDOW_MS) {
+    const severity = moreSevere(open.severity, alert.severity);
+    return {
+      incident: incidentStore.update(open.id, {
+        alertIds: [...open.alertIds, alert.id],
+        alertTypes: open.alertTypes.includes(alert.type) ? open.alertTypes : [...open.alertTypes, alert.type],
+        severity,
+        lastAlertAt: alert.timestamp,
+      })!,
+      opened: false,
+      escalated: severity !== open.severity,
+    };
+  }
+
+  return {
+    incident: incidentStore.create({
+      id: `INC-${uuidv4()}`,
+      productId: alert.productId,
+      warehouse,
+      title: `${product.name} at ${warehouse}`,
+      status: 'OPEN',
+      severity: alert.severity,
+      alertIds: [alert.id],
+      alertTypes: [alert.type],
+      openedAt: alert.timestamp,
+      lastAlertAt: alert.timestamp,
+    }),
+    opened: true,
+    escalated: false,
+  };
+}
+
+/**
+ * Raise an open incident's severity to its alert's, after the alert's severity was raised (e.g. by escalation)
+ */
+export function raiseIncidentSeverity(alert: Alert): Incident | undefined {
+  const incident = alert.incidentId ? incidentStore.get(alert.incidentId) : undefined;
+  if (!incident || incident.status === 'RESOLVED') return undefined;
+
+  const severity = moreSevere(incident.severity, alert.severity);
+  if (severity === incident.severity) return undefined;
+  return incidentStore.update(incident.id, { severity });
+}
+
+/**
+ * Resolve an alert's incident if every alert in it is now resolved
+ */
+export function resolveIncidentIfDone(alert: Alert): Incident | undefined {
+  const incident = alert.incidentId ? incidentStore.get(alert.incidentId) : undefined;
+  if (!incident || incident.status === 'RESOLVED') return undefined;
+
+  const alerts = getIncidentAlerts(incident);
+  if (alerts.some(a => !a.resolved)) return undefined;
+
+  const resolvedAt = alerts.reduce(
+    (latest, a) => (a.resolvedAt && a.resolvedAt.getTime() > latest.getTime() ? a.resolvedAt : latest),
+    incident.lastAlertAt
+  );
+  return incidentStore.update(incident.id, { status: 'RESOLVED', resolvedAt });
+}
+
+/**
+ * Get an incident's alerts, oldest first
+ */
+export function getIncidentAlerts(incident: Incident): Alert[] {
+  return incident.alertIds
+    .map(id => alertStore.get(id))
+    .filter((a): a is Alert => a !== undefined);
+}
+
+/**
+ * Get incident statistics
+ */
+export function getIncidentStats() {
+  const open = incidentStore.getOpen();
+
+  return {
+    openIncidents: open.length,
+    criticalIncidents: open.filter(i => i.severity === 'critical').length,
+    alertsInOpenIncidents: open.reduce((sum, i) => sum + i.alertIds.length, 0),
+  };
+}
+
+function moreSevere(a: AlertSeverity, b: AlertSeverity): AlertSeverity {
+  return ALERT_SEVERITIES.indexOf(b) > ALERT_SEVERITIES.indexOf(a) ? b : a;
+}
@@ -0,0 +1,255 @@
+/**
+ * Purchase Order Service
+ * Tracks replenishment ordered from suppliers, from draft to received
+ *
+ * A purchase order is raised as a DRAFT (by hand or from a reorder recommendation), SUBMITTED to
+ * the supplier, then received through RESTOCK events carrying its id, which move it to
+ * PARTIALLY_RECEIVED and RECEIVED. Units submitted but not yet received are "on order".
+ * Orders for a product with a supplier must meet the supplier's minimum order quantity and pack size,
+ * and are expected one lead time after submission.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Event, PurchaseOrder } from '../models/types';
+import { PermanentEventError } from '../models/eventSchema';
+import { productStore, eventStore, alertStore, supplierStore, purchaseOrderStore } from '../stores/InMemoryStore';
+import { getProductRecommendation, clearCache } from './AIRecommendations';
+
+/**
+ * Raised when a purchase order cannot be created or moved to the requested state
+ */
+export class PurchaseOrderError extends PermanentEventError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PurchaseOrderError';
+  }
+}
+
+export interface PurchaseOrderInput {
+  productId: string;
+  warehouse: string;
+  quantity: number;
+  notes?: string;
+}
+
+/**
+ * Create a draft purchase order for a stock position
+ */
+export function createPurchaseOrder(
+  input: PurchaseOrderInput,
+  source: PurchaseOrder['source'] = 'manual',
+  recommendation?: string
+): PurchaseOrder {
+  if (!productStore.getPosition(input.productId, input.warehouse)) {
+    throw new PurchaseOrderError(`Product ${input.productId} is not stocked at ${input.warehouse}`);
+  }
+  if (!Number.isInteger(input.quantity) || input.quantity <= 0) {
+    throw new PurchaseOrderError('quantity must be a positive whole number');
+  }
+
+  const supplier = supplierStore.getForProduct(productStore.get(input.productId)!);
+  if (supplier && input.quantity < supplier.minimumOrderQuantity) {
+    throw new PurchaseOrderError(
+      `quantity ${input.quantity} is below ${supplier.name}'s minimum order quantity of ${supplier.minimumOrderQuantity}`
+    );
+  }
+  if (supplier && input.quantity % supplier.packSize !== 0) {
+    throw new PurchaseOrderError(`quantity must be a whole number of ${supplier.name} packs of ${supplier.packSize}`);
+  }
+
+  return purchaseOrderStore.create({
+    id: `PO-${uuidv4()}`,
+    productId: input.productId,
+    warehouse: input.warehouse,
+    quantity: input.quantity,
+    receivedQuantity: 0,
+    status: 'DRAFT',
+    supplierId: supplier?.id,
+    unitCost: supplier?.costPerUnit,
+    source,
+    recommendation,
+    notes: input.notes,
+    receipts: [],
+    createdAt: new Date(),
+  });
+}
+
+/**
+ * Turn a product's reorder recommendation into a draft purchase order.
+ * Refused while the stock position already has an order that is not closed, so it is not reordered twice.
+ */
+export function createPurchaseOrderFromRecommendation(productId: string, warehouse?: string): PurchaseOrder {
+  const product = productStore.get(productId);
+  if (!product) {
+    throw new PurchaseOrderError(`Product ${productId} not found`);
+  }
+
+  const target = warehouse || product.warehouse;
+  const outstanding = purchaseOrderStore
+    .getByProduct(product.id)
+    .find(po => po.warehouse === target && ['DRAFT', 'SUBMITTED', 'PARTIALLY_RECEIVED'].includes(po.status));
+  if (outstanding) {
+    throw new PurchaseOrderError(`Purchase order ${outstanding.id} is already ${outstanding.status} for ${product.id} at ${target}`);
+  }
+
+  const recommendation = getProductRecommendation(
+    product.id,
+    productStore.getAll(),
+    eventStore.getAll(),
+    alertStore.getAll(),
+    purchaseOrderStore.getOpen(),
+    supplierStore.getForProduct(product)
+  );
+  if (!recommendation || recommendation.suggestedReorderQuantity <= 0) {
+    throw new PurchaseOrderError(`No reorder is recommended for ${product.id}`);
+  }
+
+  return createPurchaseOrder(
+    { productId: product.id, warehouse: target, quantity: recommendation.suggestedReorderQuantity },
+    'recommendation',
+    recommendation.recommendation
+  );
+}
+
+/**
+ * Submit a draft purchase order to the supplier, putting its units on order
+ */
+export function submitPurchaseOrder(id: string): PurchaseOrder {
+  const order = getOrder(id);
+  if (order.status !== 'DRAFT') {
+    throw new PurchaseOrderError(`Purchase order ${id} is already ${order.status}`);
+  }
+
+  const submittedAt = new Date();
+  const supplier = order.supplierId ? supplierStore.get(order.supplierId) : undefined;
+  const expectedAt = supplier
+    ? new Date(submittedAt.getTime() + supplier.leadTimeDays * 24 * 60 * 60 * 1000)
+    : undefined;
+
+  clearCache();
+  return purchaseOrderStore.update(id, { status: 'SUBMITTED', submittedAt, expectedAt })!;
+}
+
+/**
+ * Cancel a purchase order that has not been received in full
+ */
+export function cancelPurchaseOrder(id: string): PurchaseOrder {
+  const order = getOrder(id);
+  if (order.status === 'RECEIVED' || order.status === 'CANCELLED') {
+    throw new PurchaseOrderError(`Purchase order ${id} is already ${order.status}`);
+  }
+
+  clearCache();
+  return purchaseOrderStore.update(id, { status: 'CANCELLED', cancelledAt: new Date() })!;
+}
+
+/**
+ * Build the RESTOCK event receiving stock against a purchase order (the rest of the order by default)
+ */
+export function buildReceiptEvent(
+  order: PurchaseOrder,
+  quantity: number = order.quantity - order.receivedQuantity,
+  metadata: Record<string, any> = {}
+): Event {
+  return {
+    id: `EVT-API-${uuidv4()}`,
+    type: 'RESTOCK',
+    productId: order.productId,
+    quantity,
+    warehouse: order.warehouse,
+    timestamp: new Date(),
+    metadata,
+    purchaseOrder: { purchaseOrderId: order.id },
+  };
+}
+
+/**
+ * Check a RESTOCK event can be received against its purchase order, throwing PurchaseOrderError if not
+ */
+export function checkPurchaseOrderReceipt(event: Event): void {
+  const order = purchaseOrderStore.get(event.purchaseOrder!.purchaseOrderId);
+  if (!order) {
+    throw new PurchaseOrderError(`Purchase order ${event.purchaseOrder!.purchaseOrderId} not found`);
+  }
+  if (order.status !== 'SUBMITTED' && order.status !== 'PARTIALLY_RECEIVED') {
+    throw new PurchaseOrderError(`Purchase order ${order.id} is ${order.status} and cannot be received against`);
+  }
+  if (event.productId !== order.productId || event.warehouse !== order.warehouse) {
+    throw new PurchaseOrderError(`RESTOCK event ${event.id} does not match purchase order ${order.id}`);
+  }
+
+  const outstanding = order.quantity - order.receivedQuantity;
+  if (event.quantity > outstanding) {
+    throw new PurchaseOrderError(
+      `RESTOCK event ${event.id} receives ${event.quantity} units but only ${outstanding} are outstanding on ${order.id}`
+    );
+  }
+}
+
+/**
+ * Record a RESTOCK event as a receipt against its purchase order (call checkPurchaseOrderReceipt first)
+ */
+export function applyPurchaseOrderReceipt(event: Event): PurchaseOrder | undefined {
+  const order = purchaseOrderStore.get(event.purchaseOrder!.purchaseOrderId);
+  if (!order) return undefined;
+
+  const at = event.timestamp instanceof Date ? event.timestamp : new Date(event.timestamp);
+  const receivedQuantity = order.receivedQuantity + event.quantity;
+  const complete = receivedQuantity >= order.quantity;
+
+  clearCache();
+  return purchaseOrderStore.update(order.id, {
+    receivedQuantity,
+    receipts: [...order.receipts, { eventId: event.id, quantity: event.quantity, receivedAt: at.toISOString() }],
+    // Only reached when replaying the event log (live receipts against a cancelled order are rejected by
+    // checkPurchaseOrderReceipt): an order cancelled after part of it arrived stays cancelled
+    ...(order.status === 'CANCELLED'
+      ? {}
+      : { status: complete ? 'RECEIVED' : 'PARTIALLY_RECEIVED', receivedAt: complete ? at : undefined }),
+  });
+}
+
+/**
+ * Clear recorded receipts (before replaying the event log, which records them again)
+ */
+export function resetReceipts(): void {
+  purchaseOrderStore
+    .find(po => po.receipts.length > 0)
+    .forEach(po => {
+      purchaseOrderStore.update(po.id, {
+        receivedQuantity: 0,
+        receipts: [],
+        status: po.status === 'CANCELLED' ? 'CANCELLED' : 'SUBMITTED',
+        receivedAt: undefined,
+      });
+    });
+}
+
+/**
+ * Get purchase order statistics
+ */
+export function getPurchaseOrderStats() {
+  const open = purchaseOrderStore.getOpen();
+
+  let onOrderValue = 0;
+  open.forEach(po => {
+    // Value at the supplier's cost where known, else at the product's price
+    const unitCost = po.unitCost ?? productStore.get(po.productId)?.unitPrice;
+    if (unitCost !== undefined) onOrderValue += (po.quantity - po.receivedQuantity) * unitCost;
+  });
+
+  return {
+    openPurchaseOrders: open.length,
+    draftPurchaseOrders: purchaseOrderStore.find(po => po.status === 'DRAFT').length,
+    onOrderUnits: purchaseOrderStore.getOnOrderUnits(),
+    onOrderValue,
+  };
+}
+
+function getOrder(id: string): PurchaseOrder {
+  const order = purchaseOrderStore.get(id);
+  if (!order) {
+    throw new PurchaseOrderError(`Purchase order ${id} not found`);
+  }
+  return order;
+}
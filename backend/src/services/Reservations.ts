@@ -0,0 +1,212 @@
+/**
+ * Reservation Service
+ * Holds stock for carts and pending orders as RESERVE / RELEASE events
+ *
+ * A reservation moves no stock on hand; it lowers the stock available to promise at one
+ * stock position until it is fulfilled by a SALE carrying its reservation details,
+ * cancelled by a RELEASE event, or lapses at expiresAt and is released as EXPIRED.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Event, ReleaseReason, Reservation } from '../models/types';
+import { PermanentEventError } from '../models/eventSchema';
+import { productStore, reservationStore } from '../stores/InMemoryStore';
+
+// How long a reservation holds stock unless the caller sets an expiry
+export const DEFAULT_RESERVATION_TTL_MS = 15 * 60 * 1000;
+
+/**
+ * Raised when a reservation event is not valid for the current reservation state
+ */
+export class ReservationError extends PermanentEventError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReservationError';
+  }
+}
+
+/**
+ * Build a RESERVE event holding stock at a stock position
+ */
+export function buildReserveEvent(
+  productId: string,
+  warehouse: string,
+  quantity: number,
+  expiresAt: Date = new Date(Date.now() + DEFAULT_RESERVATION_TTL_MS),
+  orderId?: string,
+  metadata: Record<string, any> = {}
+): Event {
+  return {
+    id: `EVT-API-${uuidv4()}`,
+    type: 'RESERVE',
+    productId,
+    quantity,
+    warehouse,
+    timestamp: new Date(),
+    metadata,
+    reservation: {
+      reservationId: `RSV-${uuidv4()}`,
+      expiresAt: expiresAt.toISOString(),
+      orderId,
+    },
+  };
+}
+
+/**
+ * Build a RELEASE event returning a reservation's stock to available
+ */
+export function buildReleaseEvent(
+  reservation: Reservation,
+  reason: ReleaseReason,
+  metadata: Record<string, any> = {}
+): Event {
+  return {
+    id: `EVT-API-${uuidv4()}`,
+    type: 'RELEASE',
+    productId: reservation.productId,
+    quantity: reservation.quantity,
+    warehouse: reservation.warehouse,
+    timestamp: new Date(),
+    metadata,
+    reservation: {
+      reservationId: reservation.id,
+      reason,
+      orderId: reservation.orderId,
+    },
+  };
+}
+
+/**
+ * Build the SALE event that fulfils a reservation (all or part of the reserved quantity)
+ */
+export function buildFulfilmentEvent(
+  reservation: Reservation,
+  quantity: number = reservation.quantity,
+  metadata: Record<string, any> = {}
+): Event {
+  return {
+    id: `EVT-API-${uuidv4()}`,
+    type: 'SALE',
+    productId: reservation.productId,
+    quantity,
+    warehouse: reservation.warehouse,
+    timestamp: new Date(),
+    metadata,
+    reservation: {
+      reservationId: reservation.id,
+      orderId: reservation.orderId,
+    },
+  };
+}
+
+/**
+ * Check an event carrying reservation details can be applied, throwing ReservationError if not
+ */
+export function checkReservationEvent(event: Event): void {
+  const details = event.reservation;
+  if (!details) {
+    throw new ReservationError(`${event.type} event ${event.id} has no reservation details`);
+  }
+
+  const existing = reservationStore.get(details.reservationId);
+
+  if (event.type === 'RESERVE') {
+    if (existing) {
+      throw new ReservationError(`Reservation ${details.reservationId} already exists`);
+    }
+
+    const position = productStore.getPosition(event.productId, event.warehouse);
+    if (!position) {
+      throw new ReservationError(`Product ${event.productId} is not stocked at ${event.warehouse}`);
+    }
+    if (position.available < event.quantity) {
+      throw new ReservationError(
+        `Insufficient stock to reserve ${event.quantity} units of ${event.productId} at ${event.warehouse} (${position.available} available)`
+      );
+    }
+    return;
+  }
+
+  if (!existing) {
+    throw new ReservationError(`Reservation ${details.reservationId} not found`);
+  }
+  if (existing.status !== 'ACTIVE') {
+    throw new ReservationError(`Reservation ${existing.id} is already ${existing.status}`);
+  }
+  if (event.productId !== existing.productId || event.warehouse !== existing.warehouse) {
+    throw new ReservationError(`${event.type} event ${event.id} does not match reservation ${existing.id}`);
+  }
+
+  // A release returns the whole hold; a sale may fulfil less than was reserved
+  const quantityMatches = event.type === 'RELEASE'
+    ? event.quantity === existing.quantity
+    : event.quantity <= existing.quantity;
+  if (!quantityMatches) {
+    throw new ReservationError(
+      `${event.type} event ${event.id} quantity ${event.quantity} does not fit reservation ${existing.id} (${existing.quantity} reserved)`
+    );
+  }
+}
+
+/**
+ * Apply an event carrying reservation details to the reservation record and reserved stock
+ * (call checkReservationEvent first)
+ */
+export function applyReservationEvent(event: Event): Reservation | undefined {
+  const details = event.reservation!;
+  const at = event.timestamp instanceof Date ? event.timestamp : new Date(event.timestamp);
+
+  if (event.type === 'RESERVE') {
+    const reservation = reservationStore.create({
+      id: details.reservationId,
+      productId: event.productId,
+      warehouse: event.warehouse,
+      quantity: event.quantity,
+      status: 'ACTIVE',
+      orderId: details.orderId,
+      createdAt: at,
+      expiresAt: new Date(details.expiresAt!),
+    });
+    productStore.updateReserved(event.productId, event.quantity, event.warehouse);
+    return reservation;
+  }
+
+  const reservation = reservationStore.get(details.reservationId)!;
+
+  // Closing a reservation frees its whole hold, including any part a sale did not take
+  productStore.updateReserved(reservation.productId, -reservation.quantity, reservation.warehouse);
+
+  return reservationStore.update(reservation.id, {
+    status: event.type === 'SALE' ? 'FULFILLED' : details.reason!,
+    closedAt: at,
+    closedByEventId: event.id,
+  });
+}
+
+/**
+ * Build RELEASE events for active reservations whose hold has lapsed
+ */
+export function getExpiryEvents(asOf: Date = new Date()): Event[] {
+  return reservationStore
+    .getExpired(asOf)
+    .map(reservation => buildReleaseEvent(reservation, 'EXPIRED', { source: 'reservation-expiry' }));
+}
+
+/**
+ * Get reservation statistics
+ */
+export function getReservationStats() {
+  const active = reservationStore.getActive();
+
+  let reservedValue = 0;
+  active.forEach(r => {
+    const product = productStore.get(r.productId);
+    if (product) reservedValue += r.quantity * product.unitPrice;
+  });
+
+  return {
+    activeReservations: active.length,
+    reservedUnits: active.reduce((sum, r) => sum + r.quantity, 0),
+    reservedValue,
+  };
+}
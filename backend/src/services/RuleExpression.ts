@@ -0,0 +1,226 @@
+/**
+ * Rule Expression Language
+ * Parses and evaluates the conditions alert rules are written in
+ *
+ * Expressions combine numbers and named variables with arithmetic (+ - * /), comparisons
+ * (< <= > >= == !=), boolean operators (and / &&, or / ||, not / !) and parentheses, e.g.
+ * `available + onOrder <= reorderPoint and available > 0`. They are parsed, never eval'd.
+ */
+
+type Node =
+  | { kind: 'number'; value: number }
+  | { kind: 'variable'; name: string }
+  | { kind: 'unary'; op: '-' | 'not'; operand: Node }
+  | { kind: 'binary'; op: string; left: Node; right: Node };
+
+type Value = number | boolean;
+
+export interface CompiledExpression {
+  source: string;
+  variables: string[]; // Variables the expression reads
+  evaluate(variables: Record<string, number>): boolean;
+}
+
+/**
+ * Raised when an expression cannot be parsed or reads a variable that does not exist
+ */
+export class RuleExpressionError extends Error {
+  constructor(message: string, public position?: number) {
+    super(position === undefined ? message : `${message} at position ${position}`);
+    this.name = 'RuleExpressionError';
+  }
+}
+
+const TOKEN_PATTERN = /\s*(?:(\d+(?:\.\d+)?)|([A-Za-z_][A-Za-z0-9_]*)|(<=|>=|==|!=|&&|\|\||[<>+\-*/()!]))/y;
+
+const KEYWORDS: Record<string, string> = { and: '&&', or: '||', not: '!' };
+
+interface Token {
+  type: 'number' | 'identifier' | 'operator';
+  text: string;
+  position: number;
+}
+
+/**
+ * Parse an expression, checking it only reads the given variables
+ */
+export function compileExpression(source: string, knownVariables: readonly string[]): CompiledExpression {
+  const parser = new Parser(tokenize(source));
+  const root = parser.parseExpression();
+  parser.expectEnd();
+
+  const variables = Array.from(new Set(collectVariables(root)));
+  const unknown = variables.filter(name => !knownVariables.includes(name));
+  if (unknown.length > 0) {
+    throw new RuleExpressionError(`Unknown variable(s) ${unknown.join(', ')}; expected one of ${knownVariables.join(', ')}`);
+  }
+
+  return {
+    source,
+    variables,
+    evaluate: (values) => Boolean(evaluateNode(root, values)),
+  };
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+
+  while (TOKEN_PATTERN.lastIndex < source.length) {
+    if (source.slice(TOKEN_PATTERN.lastIndex).trim() === '') break;
+
+    const start = TOKEN_PATTERN.lastIndex;
+    const match = TOKEN_PATTERN.exec(source);
+    if (!match) {
+      const position = start + (source.slice(start).length - source.slice(start).trimStart().length);
+      throw new RuleExpressionError(`Unexpected character '${source[position]}'`, position);
+    }
+
+    const position = match.index + match[0].length - match[0].trimStart().length;
+    if (match[1] !== undefined) {
+      tokens.push({ type: 'number', text: match[1], position });
+    } else if (match[2] !== undefined) {
+      const keyword = KEYWORDS[match[2].toLowerCase()];
+      tokens.push(keyword
+        ? { type: 'operator', text: keyword, position }
+        : { type: 'identifier', text: match[2], position });
+    } else {
+      tokens.push({ type: 'operator', text: match[3], position });
+    }
+  }
+
+  if (tokens.length === 0) {
+    throw new RuleExpressionError('Expression is empty');
+  }
+  return tokens;
+}
+
+/**
+ * Recursive descent parser, lowest precedence first: or, and, not, comparison, + -, * /, unary minus
+ */
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parseExpression(): Node {
+    return this.parseBinary(['||'], () => this.parseAnd());
+  }
+
+  expectEnd(): void {
+    const token = this.tokens[this.index];
+    if (token) {
+      throw new RuleExpressionError(`Unexpected '${token.text}'`, token.position);
+    }
+  }
+
+  private parseAnd(): Node {
+    return this.parseBinary(['&&'], () => this.parseNot());
+  }
+
+  private parseNot(): Node {
+    if (this.accept('!')) {
+      return { kind: 'unary', op: 'not', operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Node {
+    const left = this.parseAdditive();
+    const op = this.accept('<', '<=', '>', '>=', '==', '!=');
+    return op ? { kind: 'binary', op, left, right: this.parseAdditive() } : left;
+  }
+
+  private parseAdditive(): Node {
+    return this.parseBinary(['+', '-'], () => this.parseMultiplicative());
+  }
+
+  private parseMultiplicative(): Node {
+    return this.parseBinary(['*', '/'], () => this.parseUnary());
+  }
+
+  private parseUnary(): Node {
+    if (this.accept('-')) {
+      return { kind: 'unary', op: '-', operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): Node {
+    const token = this.tokens[this.index];
+    if (!token) {
+      throw new RuleExpressionError('Unexpected end of expression');
+    }
+    this.index++;
+
+    if (token.type === 'number') return { kind: 'number', value: Number(token.text) };
+    if (token.type === 'identifier') return { kind: 'variable', name: token.text };
+    if (token.text === '(') {
+      const inner = this.parseExpression();
+      if (!this.accept(')')) {
+        throw new RuleExpressionError("Missing ')'", token.position);
+      }
+      return inner;
+    }
+    throw new RuleExpressionError(`Unexpected '${token.text}'`, token.position);
+  }
+
+  private parseBinary(ops: string[], next: () => Node): Node {
+    let node = next();
+    let op: string | undefined;
+    while ((op = this.accept(...ops))) {
+      node = { kind: 'binary', op, left: node, right: next() };
+    }
+    return node;
+  }
+
+  private accept(...ops: string[]): string | undefined {
+    const token = this.tokens[this.index];
+    if (token?.type === 'operator' && ops.includes(token.text)) {
+      this.index++;
+      return token.text;
+    }
+    return undefined;
+  }
+}
+
+function collectVariables(node: Node): string[] {
+  switch (node.kind) {
+    case 'number': return [];
+    case 'variable': return [node.name];
+    case 'unary': return collectVariables(node.operand);
+    case 'binary': return [...collectVariables(node.left), ...collectVariables(node.right)];
+  }
+}
+
+function evaluateNode(node: Node, values: Record<string, number>): Value {
+  switch (node.kind) {
+    case 'number':
+      return node.value;
+    case 'variable':
+      return values[node.name];
+    case 'unary':
+      return node.op === '-' ? -Number(evaluateNode(node.operand, values)) : !evaluateNode(node.operand, values);
+    case 'binary': {
+      // Short-circuit so a variable that is costly to work out is only read when needed
+      if (node.op === '&&') return Boolean(evaluateNode(node.left, values)) && Boolean(evaluateNode(node.right, values));
+      if (node.op === '||') return Boolean(evaluateNode(node.left, values)) || Boolean(evaluateNode(node.right, values));
+
+      const left = Number(evaluateNode(node.left, values));
+      const right = Number(evaluateNode(node.right, values));
+      switch (node.op) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return right === 0 ? 0 : left / right;
+        case '<': return left < right;
+        case '<=': return left <= right;
+        case '>': return left > right;
+        case '>=': return left >= right;
+        case '==': return left === right;
+        case '!=': return left !== right;
+      }
+      throw new RuleExpressionError(`Unknown operator '${node.op}'`);
+    }
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * SMTP Transport
+ * Sends email over SMTP for the alert digest and alert escalations
+ *
+ * Mail is sent with nodemailer as a multipart text and HTML message. In development, point it at
+ * a local SMTP catcher such as Mailpit (`SMTP_HOST=localhost SMTP_PORT=1025`, the defaults).
+ * `SMTP_SECURE=true` connects over TLS from the start, as on port 465; otherwise the connection is
+ * upgraded with STARTTLS when the server offers it. Credentials are only ever sent over TLS: with
+ * `SMTP_USER` set, a server that does not offer STARTTLS is refused.
+ */
+
+import nodemailer from 'nodemailer';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the start (port 465); otherwise STARTTLS when offered
+  user?: string;
+  password?: string;
+  from: string; // e.g. 'StreamStock AI <digest@streamstock.local>'
+  timeoutMs: number;
+}
+
+export const SMTP_CONFIG: SmtpConfig = {
+  host: process.env.SMTP_HOST || 'localhost',
+  port: parseInt(process.env.SMTP_PORT || '1025'),
+  secure: process.env.SMTP_SECURE === 'true',
+  user: process.env.SMTP_USER || undefined,
+  password: process.env.SMTP_PASSWORD || undefined,
+  from: process.env.DIGEST_FROM || 'StreamStock AI <digest@streamstock.local>',
+  timeoutMs: parseInt(process.env.SMTP_TIMEOUT_MS || '10000'),
+};
+
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface SentMail {
+  messageId: string;
+  accepted: string[];
+  rejected: string[];
+}
+
+/**
+ * Raised when the SMTP server cannot be reached or refuses the message
+ */
+export class SmtpError extends Error {
+  constructor(message: string, public code?: number) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+}
+
+/**
+ * Send a message; fails unless at least one recipient is accepted
+ */
+export async function sendMail(message: MailMessage, config: SmtpConfig = SMTP_CONFIG): Promise<SentMail> {
+  const transport = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    requireTLS: !config.secure && config.user !== undefined,
+    auth: config.user ? { user: config.user, pass: config.password ?? '' } : undefined,
+    connectionTimeout: config.timeoutMs,
+    greetingTimeout: config.timeoutMs,
+    socketTimeout: config.timeoutMs,
+  });
+
+  try {
+    const info = await transport.sendMail({
+      from: config.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    });
+
+    return {
+      messageId: info.messageId,
+      accepted: info.accepted.map(getAddress),
+      rejected: info.rejected.map(getAddress),
+    };
+  } catch (error) {
+    const { message: reason, responseCode } = error as Error & { responseCode?: number };
+    throw new SmtpError(reason, responseCode);
+  } finally {
+    transport.close();
+  }
+}
+
+function getAddress(recipient: string | { address: string }): string {
+  return typeof recipient === 'string' ? recipient : recipient.address;
+}
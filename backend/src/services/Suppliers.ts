@@ -0,0 +1,94 @@
+/**
+ * Supplier Service
+ * Maintains the supplier catalog products are replenished from
+ *
+ * A supplier's lead time, minimum order quantity and pack size shape reorder recommendations
+ * and the purchase orders raised against it.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Supplier } from '../models/types';
+import { productStore, supplierStore } from '../stores/InMemoryStore';
+import { clearCache } from './AIRecommendations';
+
+/**
+ * Raised when supplier details are invalid or a supplier cannot be removed
+ */
+export class SupplierError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SupplierError';
+  }
+}
+
+export type SupplierInput = Omit<Supplier, 'id'>;
+
+/**
+ * Add a supplier to the catalog
+ */
+export function createSupplier(input: Partial<SupplierInput>): Supplier {
+  const supplier: Supplier = {
+    id: `SUP-${uuidv4()}`,
+    name: input.name!,
+    leadTimeDays: input.leadTimeDays ?? 0,
+    minimumOrderQuantity: input.minimumOrderQuantity ?? 1,
+    packSize: input.packSize ?? 1,
+    costPerUnit: input.costPerUnit!,
+    contactEmail: input.contactEmail,
+  };
+  checkSupplier(supplier);
+
+  return supplierStore.create(supplier);
+}
+
+/**
+ * Change a supplier's terms; recommendations for its products are recalculated
+ */
+export function updateSupplier(id: string, updates: Partial<SupplierInput>): Supplier {
+  const supplier = getSupplier(id);
+  const updated = { ...supplier, ...updates, id };
+  checkSupplier(updated);
+
+  clearCache();
+  return supplierStore.update(id, updated)!;
+}
+
+/**
+ * Remove a supplier that no product is replenished from
+ */
+export function deleteSupplier(id: string): void {
+  getSupplier(id);
+
+  const products = productStore.getBySupplier(id);
+  if (products.length > 0) {
+    throw new SupplierError(`Supplier ${id} still supplies ${products.length} product(s)`);
+  }
+
+  supplierStore.delete(id);
+}
+
+function checkSupplier(supplier: Supplier): void {
+  if (typeof supplier.name !== 'string' || supplier.name.trim() === '') {
+    throw new SupplierError('name must be a non-empty string');
+  }
+  if (!Number.isInteger(supplier.leadTimeDays) || supplier.leadTimeDays < 0) {
+    throw new SupplierError('leadTimeDays must be a whole number of days, 0 or more');
+  }
+  if (!Number.isInteger(supplier.minimumOrderQuantity) || supplier.minimumOrderQuantity < 1) {
+    throw new SupplierError('minimumOrderQuantity must be a positive whole number');
+  }
+  if (!Number.isInteger(supplier.packSize) || supplier.packSize < 1) {
+    throw new SupplierError('packSize must be a positive whole number');
+  }
+  if (typeof supplier.costPerUnit !== 'number' || !(supplier.costPerUnit >= 0)) {
+    throw new SupplierError('costPerUnit must be a number, 0 or more');
+  }
+}
+
+function getSupplier(id: string): Supplier {
+  const supplier = supplierStore.get(id);
+  if (!supplier) {
+    throw new SupplierError(`Supplier ${id} not found`);
+  }
+  return supplier;
+}
@@ -0,0 +1,151 @@
+/**
+ * Transfer Service
+ * Tracks stock moving between warehouses as TRANSFER events
+ *
+ * A transfer is three-phase: IN_TRANSIT (dispatched from the source warehouse's stock position),
+ * then RECEIVED (added to the destination warehouse's position) or CANCELLED (returned to source).
+ * Each TRANSFER event's warehouse is the position whose stock moves in that phase.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Event, Transfer, TransferStatus } from '../models/types';
+import { PermanentEventError } from '../models/eventSchema';
+import { productStore, transferStore } from '../stores/InMemoryStore';
+
+/**
+ * Raised when a TRANSFER event is not valid for the current transfer state
+ */
+export class TransferError extends PermanentEventError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TransferError';
+  }
+}
+
+/**
+ * Build a TRANSFER event for a transfer phase
+ */
+export function buildTransferEvent(
+  transfer: Pick<Transfer, 'id' | 'productId' | 'fromWarehouse' | 'toWarehouse' | 'quantity'>,
+  status: TransferStatus,
+  metadata: Record<string, any> = {}
+): Event {
+  const receiving = status === 'RECEIVED';
+
+  return {
+    id: `EVT-API-${uuidv4()}`,
+    type: 'TRANSFER',
+    productId: transfer.productId,
+    quantity: transfer.quantity,
+    warehouse: receiving ? transfer.toWarehouse : transfer.fromWarehouse,
+    timestamp: new Date(),
+    metadata,
+    transfer: {
+      transferId: transfer.id,
+      fromWarehouse: transfer.fromWarehouse,
+      toWarehouse: transfer.toWarehouse,
+      status,
+    },
+  };
+}
+
+/**
+ * Check a TRANSFER event can be applied, throwing TransferError if not
+ */
+export function checkTransferEvent(event: Event): void {
+  const details = event.transfer;
+  if (!details) {
+    throw new TransferError(`TRANSFER event ${event.id} has no transfer details`);
+  }
+
+  const existing = transferStore.get(details.transferId);
+
+  if (details.status === 'IN_TRANSIT') {
+    if (existing) {
+      throw new TransferError(`Transfer ${details.transferId} was already dispatched`);
+    }
+
+    if (event.warehouse !== details.fromWarehouse) {
+      throw new TransferError(`TRANSFER event ${event.id} must be dispatched from ${details.fromWarehouse}`);
+    }
+
+    const source = productStore.getPosition(event.productId, details.fromWarehouse);
+    if (!source) {
+      throw new TransferError(`Product ${event.productId} is not stocked at ${details.fromWarehouse}`);
+    }
+    if (source.available < event.quantity) {
+      throw new TransferError(
+        `Insufficient stock to transfer ${event.quantity} units of ${event.productId} from ${details.fromWarehouse} (${source.available} available)`
+      );
+    }
+    if (!productStore.getPosition(event.productId, details.toWarehouse)) {
+      throw new TransferError(`Product ${event.productId} is not stocked at ${details.toWarehouse}`);
+    }
+    return;
+  }
+
+  if (!existing) {
+    throw new TransferError(`Transfer ${details.transferId} not found`);
+  }
+  if (existing.status !== 'IN_TRANSIT') {
+    throw new TransferError(`Transfer ${existing.id} is already ${existing.status}`);
+  }
+
+  const expectedWarehouse = details.status === 'RECEIVED' ? existing.toWarehouse : existing.fromWarehouse;
+  if (event.productId !== existing.productId || event.warehouse !== expectedWarehouse || event.quantity !== existing.quantity) {
+    throw new TransferError(`TRANSFER event ${event.id} does not match transfer ${existing.id}`);
+  }
+}
+
+/**
+ * Apply a TRANSFER event to the transfer record (call checkTransferEvent first)
+ */
+export function applyTransferEvent(event: Event): Transfer | undefined {
+  const details = event.transfer!;
+  const at = event.timestamp instanceof Date ? event.timestamp : new Date(event.timestamp);
+
+  switch (details.status) {
+    case 'IN_TRANSIT': {
+      const product = productStore.get(event.productId)!;
+
+      return transferStore.create({
+        id: details.transferId,
+        sku: product.sku,
+        productId: product.id,
+        fromWarehouse: details.fromWarehouse,
+        toWarehouse: details.toWarehouse,
+        quantity: event.quantity,
+        status: 'IN_TRANSIT',
+        dispatchedAt: at,
+      });
+    }
+    case 'RECEIVED':
+      return transferStore.update(details.transferId, { status: 'RECEIVED', receivedAt: at });
+    case 'CANCELLED':
+      return transferStore.update(details.transferId, { status: 'CANCELLED', cancelledAt: at });
+  }
+}
+
+/**
+ * Get in-transit inventory statistics
+ */
+export function getTransferStats() {
+  const inTransit = transferStore.getInTransit();
+  const byRoute: Record<string, number> = {};
+
+  let inTransitValue = 0;
+  inTransit.forEach(t => {
+    const route = `${t.fromWarehouse} → ${t.toWarehouse}`;
+    byRoute[route] = (byRoute[route] || 0) + t.quantity;
+
+    const product = productStore.get(t.productId);
+    if (product) inTransitValue += t.quantity * product.unitPrice;
+  });
+
+  return {
+    activeTransfers: inTransit.length,
+    inTransitUnits: inTransit.reduce((sum, t) => sum + t.quantity, 0),
+    inTransitValue,
+    inTransitByRoute: byRoute,
+  };
+}
@@ -1,6 +1,7 @@
 import { Server as HTTPServer } from 'http';
 import { Server as SocketIOServer } from 'socket.io';
-import { Event, Product, Alert } from '../models/types';
+import { Event, Product, Alert, Incident } from '../models/types';
+import { notifyWebhooks } from './Webhooks';
 
 let io: SocketIOServer | null = null;
 
@@ -38,8 +39,12 @@ export function getWebSocketServer(): SocketIOServer | null {
 
 /**
  * Broadcast a new event to all connected clients
+ *
+ * Each broadcast is also delivered to matching webhook subscriptions (see Webhooks.ts),
+ * whether or not the WebSocket server is running.
  */
 export function broadcastEvent(event: Event): void {
+  notifyWebhooks('event:new', event);
   if (!io) return;
 
   io.emit('event:new', event);
@@ -50,6 +55,7 @@ export function broadcastEvent(event: Event): void {
  * Broadcast product update to all connected clients
  */
 export function broadcastProductUpdate(product: Product): void {
+  notifyWebhooks('product:update', product);
   if (!io) return;
 
   io.emit('product:update', product);
@@ -60,6 +66,7 @@ export function broadcastProductUpdate(product: Product): void {
  * Broadcast new alert to all connected clients
  */
 export function broadcastAlert(alert: Alert): void {
+  notifyWebhooks('alert:new', alert);
   if (!io) return;
 
   io.emit('alert:new', alert);
@@ -70,12 +77,49 @@ export function broadcastAlert(alert: Alert): void {
  * Broadcast alert resolution to all connected clients
  */
 export function broadcastAlertResolution(alertId: string): void {
+  const payload = { alertId, timestamp: new Date().toISOString() };
+  notifyWebhooks('alert:resolved', payload);
   if (!io) return;
 
-  io.emit('alert:resolved', { alertId, timestamp: new Date().toISOString() });
+  io.emit('alert:resolved', payload);
   console.log(`📡 Broadcasting alert resolution: ${alertId}`);
 }
 
+/**
+ * Broadcast a change to an alert's workflow state (acknowledged, assigned, snoozed, noted)
+ */
+export function broadcastAlertUpdate(alert: Alert): void {
+  notifyWebhooks('alert:updated', alert);
+  if (!io) return;
+
+  io.emit('alert:updated', alert);
+  console.log(`📡 Broadcasting alert update: ${alert.id}`);
+}
+
+/**
+ * Broadcast an alert escalating to a new tier, with who is being notified
+ */
+export function broadcastAlertEscalation(alert: Alert, notified: string[]): void {
+  const payload = { alert, notified, timestamp: new Date().toISOString() };
+  notifyWebhooks('alert:escalated', payload);
+  if (!io) return;
+
+  io.emit('alert:escalated', payload);
+  console.log(`📡 Broadcasting alert escalation: ${alert.id} (level ${alert.escalationLevel})`);
+}
+
+/**
+ * Broadcast an incident opening, or changing as alerts join it or it resolves
+ */
+export function broadcastIncident(incident: Incident, opened: boolean = false): void {
+  const topic = opened ? 'incident:new' : 'incident:updated';
+  notifyWebhooks(topic, incident);
+  if (!io) return;
+
+  io.emit(topic, incident);
+  console.log(`📡 Broadcasting incident ${opened ? 'opened' : 'update'}: ${incident.id} (${incident.alertIds.length} alert(s))`);
+}
+
 /**
  * Broadcast metrics update to all connected clients
  */
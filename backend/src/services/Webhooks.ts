@@ -0,0 +1,472 @@
+/**
+ * Webhook Service
+ * Delivers alerts and stock events to subscribed HTTP endpoints
+ *
+ * A subscription names a URL, the topics it wants (the same topics broadcast over WebSocket)
+ * and optional filters such as severity or category. Each payload is signed with the
+ * subscription's secret and recorded in a delivery log; failed deliveries are retried with
+ * exponential backoff until they succeed or run out of attempts.
+ *
+ * Receivers verify the `X-StreamStock-Signature` header: `sha256=` followed by the hex
+ * HMAC-SHA256 of `<X-StreamStock-Timestamp>.<raw body>` keyed with the secret.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  AlertSeverity, AlertType, EventType, WebhookDelivery, WebhookFilters, WebhookSubscription, WebhookTopic,
+} from '../models/types';
+import { EVENT_TYPES } from '../models/eventSchema';
+import { alertStore, productStore, webhookDeliveryStore, webhookStore } from '../stores/InMemoryStore';
+import { ALERT_SEVERITIES, ALERT_TYPES } from './AlertRules';
+import { RetryPolicy, getRetryDelay } from '../kafka/retry';
+
+export const WEBHOOK_TOPICS: WebhookTopic[] = ['event:new', 'product:update', 'alert:new', 'alert:updated', 'alert:resolved', 'alert:escalated',
+  'incident:new', 'incident:updated'];
+
+export const WEBHOOK_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '6'),
+  initialDelayMs: 30 * 1000,
+  backoffMultiplier: 2,
+  maxDelayMs: 30 * 60 * 1000,
+};
+
+const WEBHOOK_TIMEOUT_MS = parseInt(process.env.WEBHOOK_TIMEOUT_MS || '5000');
+
+// How often to retry due deliveries, and how long finished deliveries stay in the log
+const DELIVERY_CHECK_INTERVAL_MS = 10 * 1000;
+const DELIVERY_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+const MIN_SECRET_LENGTH = 16;
+
+let deliveryInterval: NodeJS.Timeout | null = null;
+
+// Deliveries with a request in flight, so the retry worker does not send them twice
+const inFlight = new Set<string>();
+
+/**
+ * Raised when a webhook subscription is invalid or cannot be found
+ */
+export class WebhookError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookError';
+  }
+}
+
+export type WebhookInput = Omit<WebhookSubscription, 'id' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Subscribe a URL to webhook topics; a secret is generated unless one is given
+ */
+export function createWebhook(input: Partial<WebhookInput>): WebhookSubscription {
+  const now = new Date();
+  const webhook: WebhookSubscription = {
+    id: `WH-${uuidv4()}`,
+    url: input.url!,
+    secret: input.secret ?? `whsec_${randomBytes(24).toString('hex')}`,
+    topics: input.topics!,
+    filters: input.filters ?? {},
+    description: input.description,
+    enabled: input.enabled ?? true,
+    createdAt: now,
+    updatedAt: now,
+  };
+  checkWebhook(webhook);
+
+  return webhookStore.create(webhook);
+}
+
+/**
+ * Change a subscription; deliveries already logged keep the payload they were created with
+ */
+export function updateWebhook(id: string, updates: Partial<WebhookInput>): WebhookSubscription {
+  const webhook = getWebhook(id);
+  const updated: WebhookSubscription = { ...webhook, ...updates, id, createdAt: webhook.createdAt, updatedAt: new Date() };
+  checkWebhook(updated);
+
+  return webhookStore.update(id, updated)!;
+}
+
+/**
+ * Remove a subscription and its delivery log
+ */
+export function deleteWebhook(id: string): void {
+  getWebhook(id);
+
+  webhookDeliveryStore.getBySubscription(id).forEach(d => webhookDeliveryStore.delete(d.id));
+  webhookStore.delete(id);
+}
+
+/**
+ * A subscription as shown to API clients: the secret is only returned in full when created
+ */
+export function redactWebhook(webhook: WebhookSubscription): WebhookSubscription {
+  return { ...webhook, secret: `${webhook.secret.slice(0, 10)}…` };
+}
+
+/**
+ * Queue a payload for every enabled subscription whose topics and filters match, and send it
+ */
+export function notifyWebhooks(topic: WebhookTopic, payload: unknown): WebhookDelivery[] {
+  const subscribers = webhookStore.getSubscribers(topic);
+  if (subscribers.length === 0) return [];
+
+  const subject = describePayload(topic, payload);
+  const deliveries = subscribers
+    .filter(webhook => matchesFilters(webhook.filters, subject))
+    .map(webhook => queueDelivery(webhook, topic, payload));
+
+  deliveries.forEach(delivery => {
+    attemptDelivery(delivery).catch(error => console.error(`❌ Webhook delivery ${delivery.id} failed:`, error));
+  });
+  return deliveries;
+}
+
+/**
+ * Send a test payload to a subscription once, whatever its topics and filters, and wait for the result
+ */
+export async function testWebhook(id: string): Promise<WebhookDelivery> {
+  const webhook = getWebhook(id);
+  const delivery = queueDelivery(webhook, 'webhook:test', {
+    webhookId: webhook.id,
+    message: 'Test delivery from StreamStock AI',
+  });
+
+  return attemptDelivery(delivery, false);
+}
+
+/**
+ * Get a subscription's delivery log, newest first
+ */
+export function getWebhookDeliveries(id: string, status?: WebhookDelivery['status']): WebhookDelivery[] {
+  getWebhook(id);
+
+  const deliveries = webhookDeliveryStore.getBySubscription(id);
+  return status ? deliveries.filter(d => d.status === status) : deliveries;
+}
+
+/**
+ * Retry every pending delivery that is due, and drop old finished deliveries from the log
+ */
+export async function retryDueDeliveries(asOf: Date = new Date()): Promise<WebhookDelivery[]> {
+  webhookDeliveryStore.pruneBefore(new Date(asOf.getTime() - DELIVERY_RETENTION_MS));
+
+  const due = webhookDeliveryStore.getDue(asOf).filter(d => !inFlight.has(d.id));
+  const results: WebhookDelivery[] = [];
+  for (const delivery of due) {
+    results.push(await attemptDelivery(delivery));
+  }
+  return results;
+}
+
+/**
+ * Start retrying failed webhook deliveries
+ */
+export function startWebhookDelivery(intervalMs: number = DELIVERY_CHECK_INTERVAL_MS): void {
+  if (deliveryInterval) {
+    console.log('⚠️  Webhook delivery already running');
+    return;
+  }
+
+  console.log(`🪝 Retrying webhook deliveries every ${Math.round(intervalMs / 1000)}s`);
+
+  let running = false;
+  deliveryInterval = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await retryDueDeliveries();
+    } catch (error) {
+      console.error('❌ Failed to retry webhook deliveries:', error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+}
+
+/**
+ * Stop retrying failed webhook deliveries
+ */
+export function stopWebhookDelivery(): void {
+  if (deliveryInterval) {
+    clearInterval(deliveryInterval);
+    deliveryInterval = null;
+    console.log('⏹️  Webhook delivery stopped');
+  }
+}
+
+/**
+ * Get webhook statistics
+ */
+export function getWebhookStats() {
+  return {
+    webhooks: webhookStore.count(),
+    pendingWebhookDeliveries: webhookDeliveryStore.getByStatus('PENDING').length,
+    failedWebhookDeliveries: webhookDeliveryStore.getByStatus('FAILED').length,
+  };
+}
+
+/**
+ * Sign a payload as sent in the X-StreamStock-Signature header
+ */
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Check a signature a receiver was sent, rejecting timestamps older than the tolerance
+ */
+export function verifySignature(
+  secret: string,
+  timestamp: string,
+  body: string,
+  signature: string,
+  toleranceSeconds: number = 300
+): boolean {
+  const sentAt = Number(timestamp);
+  if (!Number.isFinite(sentAt) || Math.abs(Date.now() / 1000 - sentAt) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(signPayload(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+function queueDelivery(webhook: WebhookSubscription, topic: WebhookTopic, payload: unknown): WebhookDelivery {
+  const now = new Date();
+  const id = `WHD-${uuidv4()}`;
+
+  return webhookDeliveryStore.create({
+    id,
+    subscriptionId: webhook.id,
+    topic,
+    body: JSON.stringify({ id, topic, timestamp: now.toISOString(), data: payload }),
+    status: 'PENDING',
+    attempts: 0,
+    createdAt: now,
+    nextAttemptAt: now,
+  });
+}
+
+/**
+ * Send a delivery once; on failure it is scheduled for a retry unless retries are off or used up
+ */
+async function attemptDelivery(delivery: WebhookDelivery, retry: boolean = true): Promise<WebhookDelivery> {
+  const webhook = webhookStore.get(delivery.subscriptionId);
+  if (!webhook?.enabled) {
+    return webhookDeliveryStore.update(delivery.id, {
+      status: 'FAILED',
+      error: webhook ? 'Subscription is disabled' : 'Subscription was deleted',
+      nextAttemptAt: undefined,
+    })!;
+  }
+
+  inFlight.add(delivery.id);
+  const attemptedAt = new Date();
+  const attempts = delivery.attempts + 1;
+  let responseStatus: number | undefined;
+  let error: string | undefined;
+
+  try {
+    const timestamp = Math.floor(attemptedAt.getTime() / 1000).toString();
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'StreamStock-Webhooks/1.0',
+        'X-StreamStock-Topic': delivery.topic,
+        'X-StreamStock-Delivery': delivery.id,
+        'X-StreamStock-Timestamp': timestamp,
+        'X-StreamStock-Signature': signPayload(webhook.secret, timestamp, delivery.body),
+      },
+      body: delivery.body,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    responseStatus = response.status;
+    if (!response.ok) {
+      error = `Receiver responded ${response.status} ${response.statusText}`.trim();
+    }
+  } catch (err) {
+    error = describeError(err);
+  } finally {
+    inFlight.delete(delivery.id);
+  }
+
+  if (!error) {
+    return webhookDeliveryStore.update(delivery.id, {
+      status: 'DELIVERED',
+      attempts,
+      responseStatus,
+      error: undefined,
+      lastAttemptAt: attemptedAt,
+      nextAttemptAt: undefined,
+      deliveredAt: new Date(),
+    })!;
+  }
+
+  const exhausted = !retry || attempts >= WEBHOOK_RETRY_POLICY.maxAttempts;
+  const nextAttemptAt = exhausted
+    ? undefined
+    : new Date(attemptedAt.getTime() + getRetryDelay(attempts, WEBHOOK_RETRY_POLICY));
+
+  console.warn(`🪝 Webhook delivery ${delivery.id} to ${webhook.url} failed (attempt ${attempts}): ${error}` +
+    (nextAttemptAt ? `, retrying at ${nextAttemptAt.toISOString()}` : ''));
+
+  return webhookDeliveryStore.update(delivery.id, {
+    status: exhausted ? 'FAILED' : 'PENDING',
+    attempts,
+    responseStatus,
+    error,
+    lastAttemptAt: attemptedAt,
+    nextAttemptAt,
+  })!;
+}
+
+// fetch reports network failures as 'fetch failed' with the reason as the cause
+function describeError(err: unknown): string {
+  if (!(err instanceof Error)) return String(err);
+  const cause = (err as { cause?: unknown }).cause;
+  return cause instanceof Error ? `${err.message}: ${cause.message}` : err.message;
+}
+
+interface PayloadSubject {
+  productId?: string;
+  category?: string;
+  warehouse?: string;
+  severity?: AlertSeverity;
+  alertType?: AlertType;
+  eventType?: EventType;
+}
+
+/**
+ * Work out what a payload is about, for matching against subscription filters
+ */
+function describePayload(topic: WebhookTopic, payload: unknown): PayloadSubject {
+  if (!isRecord(payload)) return {};
+  let subject: PayloadSubject = {};
+
+  switch (topic) {
+    case 'event:new':
+      subject = { productId: text(payload.productId), warehouse: text(payload.warehouse), eventType: oneOf(payload.type, EVENT_TYPES) };
+      break;
+    case 'product:update':
+      subject = { productId: text(payload.id), warehouse: text(payload.warehouse), category: text(payload.category) };
+      break;
+    case 'alert:new':
+    case 'alert:updated':
+      subject = describeAlert(payload);
+      break;
+    case 'alert:escalated':
+      if (isRecord(payload.alert)) subject = describeAlert(payload.alert);
+      break;
+    case 'incident:new':
+    case 'incident:updated':
+      subject = { productId: text(payload.productId), warehouse: text(payload.warehouse), severity: oneOf(payload.severity, ALERT_SEVERITIES) };
+      break;
+    case 'alert:resolved': {
+      const alert = typeof payload.alertId === 'string' ? alertStore.get(payload.alertId) : undefined;
+      if (alert) subject = describeAlert({ ...alert });
+      break;
+    }
+  }
+
+  if (subject.productId && !subject.category) {
+    subject.category = productStore.get(subject.productId)?.category;
+  }
+  return subject;
+}
+
+function describeAlert(alert: Record<string, unknown>): PayloadSubject {
+  return {
+    productId: text(alert.productId),
+    warehouse: text(alert.warehouse),
+    severity: oneOf(alert.severity, ALERT_SEVERITIES),
+    alertType: oneOf(alert.type, ALERT_TYPES),
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function text(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function oneOf<T extends string>(value: unknown, values: T[]): T | undefined {
+  return values.find(v => v === value);
+}
+
+/**
+ * Every filter a subscription sets must match; a payload without the filtered field does not match
+ */
+function matchesFilters(filters: WebhookFilters, subject: PayloadSubject): boolean {
+  if (filters.severities && !(subject.severity && filters.severities.includes(subject.severity))) return false;
+  if (filters.alertTypes && !(subject.alertType && filters.alertTypes.includes(subject.alertType))) return false;
+  if (filters.eventTypes && !(subject.eventType && filters.eventTypes.includes(subject.eventType))) return false;
+  if (filters.productId && subject.productId !== filters.productId) return false;
+  if (filters.category && subject.category !== filters.category) return false;
+  if (filters.warehouse && subject.warehouse !== filters.warehouse) return false;
+  return true;
+}
+
+function checkWebhook(webhook: WebhookSubscription): void {
+  let url: URL;
+  try {
+    url = new URL(webhook.url);
+  } catch {
+    throw new WebhookError('url must be an absolute http(s) URL');
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new WebhookError('url must be an absolute http(s) URL');
+  }
+
+  if (typeof webhook.secret !== 'string' || webhook.secret.length < MIN_SECRET_LENGTH) {
+    throw new WebhookError(`secret must be a string of at least ${MIN_SECRET_LENGTH} characters`);
+  }
+  if (!Array.isArray(webhook.topics) || webhook.topics.length === 0 ||
+      webhook.topics.some(topic => !WEBHOOK_TOPICS.includes(topic))) {
+    throw new WebhookError(`topics must be a non-empty list of ${WEBHOOK_TOPICS.join(', ')}`);
+  }
+  if (typeof webhook.enabled !== 'boolean') {
+    throw new WebhookError('enabled must be true or false');
+  }
+  if (webhook.description !== undefined && typeof webhook.description !== 'string') {
+    throw new WebhookError('description must be a string');
+  }
+  checkFilters(webhook.filters);
+}
+
+function checkFilters(filters: WebhookFilters): void {
+  if (typeof filters !== 'object' || filters === null || Array.isArray(filters)) {
+    throw new WebhookError('filters must be an object');
+  }
+
+  checkList('severities', filters.severities, ALERT_SEVERITIES);
+  checkList('alertTypes', filters.alertTypes, ALERT_TYPES);
+  checkList('eventTypes', filters.eventTypes, EVENT_TYPES);
+
+  (['productId', 'category', 'warehouse'] as const).forEach(field => {
+    const value = filters[field];
+    if (value !== undefined && (typeof value !== 'string' || value.trim() === '')) {
+      throw new WebhookError(`filters.${field} must be a non-empty string`);
+    }
+  });
+}
+
+function checkList<T extends string>(field: string, values: T[] | undefined, allowed: T[]): void {
+  if (values === undefined) return;
+  if (!Array.isArray(values) || values.length === 0 || values.some(value => !allowed.includes(value))) {
+    throw new WebhookError(`filters.${field} must be a non-empty list of ${allowed.join(', ')}`);
+  }
+}
+
+function getWebhook(id: string): WebhookSubscription {
+  const webhook = webhookStore.get(id);
+  if (!webhook) {
+    throw new WebhookError(`Webhook ${id} not found`);
+  }
+  return webhook;
+}
@@ -1,23 +1,62 @@
 /**
  * In-Memory Data Store for StreamStock AI
  * Provides fast CRUD operations for real-time event processing
+ * Backed by a pluggable storage backend (memory by default, SQLite when configured)
  */
 
-import { Product, Event, Alert, Warehouse } from '../models/types';
+import { Product, StockPosition, Event, Alert, AlertActivity, AlertHistoryEntry, AlertRule, IssuedForecast, CalendarEvent, EscalationPolicy, WebhookSubscription, WebhookDelivery, DigestSubscription, DigestSchedule, Incident, MaintenanceWindow, Warehouse, Transfer, Reservation, Supplier, PurchaseOrder, CycleCount, DeadLetter, IdempotencyRecord } from '../models/types';
+import { StorageBackend, StoreSchema, MemoryStorageBackend } from './StorageBackend';
+import { SqliteStorageBackend, getDatabase } from './SqliteStorageBackend';
+
+// Storage configuration: STORAGE_BACKEND=memory (default) | sqlite
+const STORAGE_BACKEND = process.env.STORAGE_BACKEND || 'memory';
+
+/**
+ * Create the configured storage backend for a store
+ */
+export function createStorageBackend<T extends { id: string }>(
+  schema: StoreSchema<T>
+): StorageBackend<T> {
+  switch (STORAGE_BACKEND) {
+    case 'sqlite':
+      return new SqliteStorageBackend(schema);
+    case 'memory':
+      return new MemoryStorageBackend(schema);
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND: ${STORAGE_BACKEND}`);
+  }
+}
+
+/**
+ * Run a group of store writes atomically (a single SQLite transaction when durable)
+ */
+export function runInTransaction<T>(fn: () => T): T {
+  if (STORAGE_BACKEND === 'sqlite') {
+    return getDatabase().transaction(fn)();
+  }
+  return fn();
+}
 
 /**
- * Generic in-memory store with CRUD operations
+ * Get the configured storage backend name
+ */
+export function getStorageBackendName(): string {
+  return STORAGE_BACKEND;
+}
+
+/**
+ * Generic store with CRUD operations
  */
 class InMemoryStore<T extends { id: string }> {
-  private data: Map<string, T>;
+  protected data: StorageBackend<T>;
 
-  constructor() {
-    this.data = new Map();
+  constructor(backend: StorageBackend<T>) {
+    this.data = backend;
   }
 
   // Create
   create(item: T): T {
-    this.data.set(item.id, item);
+    this.data.set(item);
     return item;
   }
 
@@ -28,7 +67,7 @@ class InMemoryStore<T extends { id: string }> {
 
   // Read all
   getAll(): T[] {
-    return Array.from(this.data.values());
+    return this.data.values();
   }
 
   // Update
@@ -36,8 +75,9 @@ class InMemoryStore<T extends { id: string }> {
     const existing = this.data.get(id);
     if (!existing) return undefined;
 
-    const updated = { ...existing, ...updates };
-    this.data.set(id, updated);
+    // Stored under the id it was found by, whatever the updates say
+    const updated = { ...existing, ...updates, id };
+    this.data.set(updated);
     return updated;
   }
 
@@ -48,17 +88,27 @@ class InMemoryStore<T extends { id: string }> {
 
   // Find by condition
   find(predicate: (item: T) => boolean): T[] {
-    return Array.from(this.data.values()).filter(predicate);
+    return this.data.values().filter(predicate);
   }
 
   // Find one by condition
   findOne(predicate: (item: T) => boolean): T | undefined {
-    return Array.from(this.data.values()).find(predicate);
+    return this.data.values().find(predicate);
+  }
+
+  // Find by indexed field value
+  protected findBy(field: keyof T & string, value: unknown): T[] {
+    return this.data.findBy(field, value);
+  }
+
+  // Find by indexed date field range (inclusive)
+  protected findInRange(field: keyof T & string, start: Date, end: Date): T[] {
+    return this.data.findInRange(field, start, end);
   }
 
   // Count
   count(): number {
-    return this.data.size;
+    return this.data.size();
   }
 
   // Clear all
@@ -72,72 +122,471 @@ class InMemoryStore<T extends { id: string }> {
   }
 }
 
+// ============================================================================
+// Store Schemas
+// ============================================================================
+const PRODUCT_SCHEMA: StoreSchema<Product> = {
+  table: 'products',
+  indexes: ['warehouse', 'category', 'supplierId'],
+  dateFields: ['lastUpdated'],
+};
+
+const STOCK_POSITION_SCHEMA: StoreSchema<StockPosition> = {
+  table: 'stock_positions',
+  indexes: ['productId', 'warehouse'],
+  dateFields: ['lastUpdated'],
+};
+
+const EVENT_SCHEMA: StoreSchema<Event> = {
+  table: 'events',
+  indexes: ['productId', 'type', 'warehouse'],
+  timeIndexes: ['timestamp'],
+};
+
+const ALERT_SCHEMA: StoreSchema<Alert> = {
+  table: 'alerts',
+  indexes: ['productId', 'severity', 'warehouse', 'assignee'],
+  dateFields: ['timestamp', 'resolvedAt', 'acknowledgedAt', 'snoozedUntil', 'escalatedAt'],
+};
+
+const ALERT_RULE_SCHEMA: StoreSchema<AlertRule> = {
+  table: 'alert_rules',
+  indexes: ['type'],
+  dateFields: ['createdAt', 'updatedAt'],
+};
+
+const ESCALATION_POLICY_SCHEMA: StoreSchema<EscalationPolicy> = {
+  table: 'escalation_policies',
+  dateFields: ['createdAt', 'updatedAt'],
+};
+
+const ALERT_HISTORY_SCHEMA: StoreSchema<AlertHistoryEntry> = {
+  table: 'alert_history',
+  indexes: ['productId', 'warehouse', 'type'],
+  timeIndexes: ['raisedAt'],
+  dateFields: ['raisedAt', 'acknowledgedAt', 'resolvedAt', 'updatedAt'],
+};
+
+const ISSUED_FORECAST_SCHEMA: StoreSchema<IssuedForecast> = {
+  table: 'issued_forecasts',
+  indexes: ['productId', 'model'],
+  timeIndexes: ['issuedAt'],
+  dateFields: ['issuedAt'],
+};
+
+const CALENDAR_EVENT_SCHEMA: StoreSchema<CalendarEvent> = {
+  table: 'calendar_events',
+  dateFields: ['startsAt', 'endsAt', 'createdAt', 'updatedAt'],
+};
+
+const INCIDENT_SCHEMA: StoreSchema<Incident> = {
+  table: 'incidents',
+  indexes: ['productId', 'warehouse', 'status'],
+  timeIndexes: ['openedAt'],
+  dateFields: ['openedAt', 'lastAlertAt', 'resolvedAt'],
+};
+
+const MAINTENANCE_WINDOW_SCHEMA: StoreSchema<MaintenanceWindow> = {
+  table: 'maintenance_windows',
+  indexes: ['warehouse'],
+  dateFields: ['startsAt', 'endsAt', 'createdAt'],
+};
+
+const WEBHOOK_SCHEMA: StoreSchema<WebhookSubscription> = {
+  table: 'webhooks',
+  dateFields: ['createdAt', 'updatedAt'],
+};
+
+const DIGEST_SUBSCRIPTION_SCHEMA: StoreSchema<DigestSubscription> = {
+  table: 'digest_subscriptions',
+  indexes: ['email'],
+  dateFields: ['createdAt', 'updatedAt', 'lastSentAt'],
+};
+
+const DIGEST_SCHEDULE_SCHEMA: StoreSchema<DigestSchedule> = {
+  table: 'digest_schedule',
+  dateFields: ['lastRunAt', 'updatedAt'],
+};
+
+const WEBHOOK_DELIVERY_SCHEMA: StoreSchema<WebhookDelivery> = {
+  table: 'webhook_deliveries',
+  indexes: ['subscriptionId', 'status'],
+  timeIndexes: ['createdAt'],
+  dateFields: ['createdAt', 'lastAttemptAt', 'nextAttemptAt', 'deliveredAt'],
+};
+
+const WAREHOUSE_SCHEMA: StoreSchema<Warehouse> = {
+  table: 'warehouses',
+};
+
+const TRANSFER_SCHEMA: StoreSchema<Transfer> = {
+  table: 'transfers',
+  indexes: ['status', 'productId'],
+  dateFields: ['dispatchedAt', 'receivedAt', 'cancelledAt'],
+};
+
+const RESERVATION_SCHEMA: StoreSchema<Reservation> = {
+  table: 'reservations',
+  indexes: ['status', 'productId'],
+  timeIndexes: ['expiresAt'],
+  dateFields: ['createdAt', 'closedAt'],
+};
+
+const SUPPLIER_SCHEMA: StoreSchema<Supplier> = {
+  table: 'suppliers',
+};
+
+const PURCHASE_ORDER_SCHEMA: StoreSchema<PurchaseOrder> = {
+  table: 'purchase_orders',
+  indexes: ['status', 'productId'],
+  dateFields: ['createdAt', 'submittedAt', 'expectedAt', 'receivedAt', 'cancelledAt'],
+};
+
+const CYCLE_COUNT_SCHEMA: StoreSchema<CycleCount> = {
+  table: 'cycle_counts',
+  indexes: ['status', 'productId', 'warehouse'],
+  timeIndexes: ['countedAt'],
+  dateFields: ['createdAt', 'cancelledAt'],
+};
+
+const IDEMPOTENCY_SCHEMA: StoreSchema<IdempotencyRecord> = {
+  table: 'idempotency_keys',
+  timeIndexes: ['createdAt'],
+};
+
+const DEAD_LETTER_SCHEMA: StoreSchema<DeadLetter> = {
+  table: 'dead_letters',
+  indexes: ['status', 'originalTopic', 'queue'],
+  dateFields: ['failedAt', 'redrivenAt'],
+};
+
+/**
+ * Get the id of a product's stock position at a warehouse
+ */
+export function getPositionId(productId: string, warehouse: string): string {
+  return `${productId}@${warehouse}`;
+}
+
+/**
+ * Stock Position Store (product × warehouse)
+ */
+class StockPositionStore extends InMemoryStore<StockPosition> {
+  constructor(backend: StorageBackend<StockPosition> = createStorageBackend(STOCK_POSITION_SCHEMA)) {
+    super(backend);
+  }
+
+  // Get a product's position at a warehouse
+  getPosition(productId: string, warehouse: string): StockPosition | undefined {
+    return this.get(getPositionId(productId, warehouse));
+  }
+
+  // Get all positions of a product
+  getByProduct(productId: string): StockPosition[] {
+    return this.findBy('productId', productId);
+  }
+
+  // Get all positions at a warehouse
+  getByWarehouse(warehouse: string): StockPosition[] {
+    return this.findBy('warehouse', warehouse);
+  }
+
+  // Get positions whose available stock is below their own reorder point
+  getLowStock(): StockPosition[] {
+    return this.find((p) => p.available < p.reorderPoint);
+  }
+
+  // Update stock level at one warehouse
+  updateStock(productId: string, warehouse: string, quantity: number): StockPosition | undefined {
+    const position = this.getPosition(productId, warehouse);
+    if (!position) return undefined;
+
+    // Prevent stock from going negative
+    const newStock = Math.max(0, position.currentStock + quantity);
+
+    return this.update(position.id, {
+      currentStock: newStock,
+      available: getAvailable(newStock, position.reserved),
+      lastUpdated: new Date(),
+    } as Partial<StockPosition>);
+  }
+
+  // Update the quantity held by reservations at one warehouse
+  updateReserved(productId: string, warehouse: string, quantity: number): StockPosition | undefined {
+    const position = this.getPosition(productId, warehouse);
+    if (!position) return undefined;
+
+    const reserved = Math.max(0, position.reserved + quantity);
+
+    return this.update(position.id, {
+      reserved,
+      available: getAvailable(position.currentStock, reserved),
+      lastUpdated: new Date(),
+    } as Partial<StockPosition>);
+  }
+}
+
+/**
+ * Get the stock available to promise: on hand minus reserved, never negative
+ */
+export function getAvailable(onHand: number, reserved: number): number {
+  return Math.max(0, onHand - reserved);
+}
+
+export interface WarehouseStockSummary {
+  warehouse: string;
+  products: number;
+  units: number;
+  reserved: number;
+  value: number;
+  lowStockPositions: number;
+}
+
 /**
  * Product Store
+ * A product's stock, reorder point and capacity are kept as totals of its stock positions
  */
 class ProductStore extends InMemoryStore<Product> {
-  // Get products by warehouse
+  constructor(
+    backend: StorageBackend<Product> = createStorageBackend(PRODUCT_SCHEMA),
+    private positions: StockPositionStore = stockPositionStore
+  ) {
+    super(backend);
+  }
+
+  // Create a product, stocking it at its home warehouse if it has no positions yet
+  create(product: Product): Product {
+    runInTransaction(() => {
+      super.create(product);
+      if (this.positions.getByProduct(product.id).length === 0) {
+        this.positions.create(this.homePosition(product));
+      }
+    });
+    return product;
+  }
+
+  // Delete a product and its stock positions
+  delete(id: string): boolean {
+    return runInTransaction(() => {
+      this.positions.getByProduct(id).forEach((p) => this.positions.delete(p.id));
+      return super.delete(id);
+    });
+  }
+
+  // Clear all products and stock positions
+  clear(): void {
+    runInTransaction(() => {
+      this.positions.clear();
+      super.clear();
+    });
+  }
+
+  // Get products stocked at a warehouse
   getByWarehouse(warehouse: string): Product[] {
-    return this.find((p) => p.warehouse === warehouse);
+    return this.positions
+      .getByWarehouse(warehouse)
+      .map((p) => this.get(p.productId))
+      .filter((p): p is Product => p !== undefined);
   }
 
-  // Get low stock products
+  // Get products whose available stock is low
   getLowStock(): Product[] {
-    return this.find((p) => p.currentStock < p.reorderPoint);
+    return this.find((p) => p.available < p.reorderPoint);
   }
 
-  // Get critical stock products
+  // Get products whose available stock is critical
   getCriticalStock(): Product[] {
-    return this.find((p) => p.currentStock < 10);
+    return this.find((p) => p.available < 10);
   }
 
   // Get by category
   getByCategory(category: string): Product[] {
-    return this.find((p) => p.category === category);
+    return this.findBy('category', category);
+  }
+
+  // Get products replenished from a supplier
+  getBySupplier(supplierId: string): Product[] {
+    return this.findBy('supplierId', supplierId);
   }
 
-  // Update stock level
-  updateStock(productId: string, quantity: number): Product | undefined {
+  // Get a product's stock positions
+  getPositions(productId: string): StockPosition[] {
+    return this.positions.getByProduct(productId);
+  }
+
+  // Get a product's stock position at a warehouse
+  getPosition(productId: string, warehouse: string): StockPosition | undefined {
+    return this.positions.getPosition(productId, warehouse);
+  }
+
+  // Start stocking a product at another warehouse
+  addPosition(
+    position: Omit<StockPosition, 'id' | 'reserved' | 'available' | 'lastUpdated'>
+  ): StockPosition | undefined {
+    if (!this.exists(position.productId)) return undefined;
+
+    return runInTransaction(() => {
+      const created = this.positions.create({
+        ...position,
+        id: getPositionId(position.productId, position.warehouse),
+        reserved: 0,
+        available: position.currentStock,
+        lastUpdated: new Date(),
+      });
+      this.syncTotals(position.productId);
+      return created;
+    });
+  }
+
+  // Update a position's reorder point or capacity
+  updatePosition(
+    productId: string,
+    warehouse: string,
+    updates: Partial<Pick<StockPosition, 'reorderPoint' | 'maxCapacity'>>
+  ): StockPosition | undefined {
+    return runInTransaction(() => {
+      const updated = this.positions.update(getPositionId(productId, warehouse), updates);
+      if (updated) this.syncTotals(productId);
+      return updated;
+    });
+  }
+
+  // Update stock level at a warehouse (the product's home warehouse by default)
+  updateStock(productId: string, quantity: number, warehouse?: string): Product | undefined {
     const product = this.get(productId);
     if (!product) return undefined;
 
-    // Prevent stock from going negative
-    const newStock = Math.max(0, product.currentStock + quantity);
+    return runInTransaction(() => {
+      const position = this.positions.updateStock(productId, warehouse || product.warehouse, quantity);
+      if (!position) return undefined;
+      return this.syncTotals(productId);
+    });
+  }
 
-    return this.update(productId, {
-      currentStock: newStock,
-      lastUpdated: new Date(),
-    } as Partial<Product>);
+  // Update the quantity held by reservations at a warehouse
+  updateReserved(productId: string, quantity: number, warehouse: string): Product | undefined {
+    return runInTransaction(() => {
+      const position = this.positions.updateReserved(productId, warehouse, quantity);
+      if (!position) return undefined;
+      return this.syncTotals(productId);
+    });
+  }
+
+  // Zero the stock and reservations of every position (before replaying the event log)
+  resetStock(): void {
+    runInTransaction(() => {
+      this.positions.getAll().forEach((p) =>
+        this.positions.update(p.id, { currentStock: 0, reserved: 0, available: 0 })
+      );
+      this.getAll().forEach((p) => this.syncTotals(p.id));
+    });
+  }
+
+  // Create home positions for products stored before stock positions existed,
+  // and fill in reservation quantities for positions stored before reservations existed
+  backfillPositions(): number {
+    const missing = this.find((p) => this.positions.getByProduct(p.id).length === 0);
+    const unreserved = this.positions.find((p) => p.reserved === undefined);
+
+    runInTransaction(() => {
+      missing.forEach((p) => this.positions.create(this.homePosition(p)));
+      unreserved.forEach((p) => this.positions.update(p.id, { reserved: 0, available: p.currentStock }));
+      new Set(unreserved.map((p) => p.productId)).forEach((id) => this.syncTotals(id));
+    });
+    return missing.length;
   }
 
-  // Get total stock value
-  getTotalValue(): number {
+  // Get stock totals per warehouse
+  getStockByWarehouse(): WarehouseStockSummary[] {
+    const summaries = new Map<string, WarehouseStockSummary>();
+
+    this.positions.getAll().forEach((position) => {
+      const product = this.get(position.productId);
+      if (!product) return;
+
+      const summary = summaries.get(position.warehouse) || {
+        warehouse: position.warehouse,
+        products: 0,
+        units: 0,
+        reserved: 0,
+        value: 0,
+        lowStockPositions: 0,
+      };
+      summary.products++;
+      summary.units += position.currentStock;
+      summary.reserved += position.reserved;
+      summary.value += position.currentStock * product.unitPrice;
+      if (position.available < position.reorderPoint) summary.lowStockPositions++;
+      summaries.set(position.warehouse, summary);
+    });
+
+    return Array.from(summaries.values()).sort((a, b) => a.warehouse.localeCompare(b.warehouse));
+  }
+
+  // Get total stock value, optionally at one warehouse
+  getTotalValue(warehouse?: string): number {
+    if (warehouse) {
+      return this.positions.getByWarehouse(warehouse).reduce((sum, position) => {
+        const product = this.get(position.productId);
+        return sum + (product ? position.currentStock * product.unitPrice : 0);
+      }, 0);
+    }
+
     return this.getAll().reduce(
       (sum, p) => sum + p.currentStock * p.unitPrice,
       0
     );
   }
+
+  // Recalculate a product's totals from its positions
+  private syncTotals(productId: string): Product | undefined {
+    const positions = this.positions.getByProduct(productId);
+
+    return this.update(productId, {
+      currentStock: positions.reduce((sum, p) => sum + p.currentStock, 0),
+      reserved: positions.reduce((sum, p) => sum + p.reserved, 0),
+      available: positions.reduce((sum, p) => sum + p.available, 0),
+      reorderPoint: positions.reduce((sum, p) => sum + p.reorderPoint, 0),
+      maxCapacity: positions.reduce((sum, p) => sum + p.maxCapacity, 0),
+      lastUpdated: new Date(),
+    } as Partial<Product>);
+  }
+
+  private homePosition(product: Product): StockPosition {
+    return {
+      id: getPositionId(product.id, product.warehouse),
+      productId: product.id,
+      warehouse: product.warehouse,
+      currentStock: product.currentStock,
+      reserved: 0,
+      available: product.currentStock,
+      reorderPoint: product.reorderPoint,
+      maxCapacity: product.maxCapacity,
+      lastUpdated: product.lastUpdated,
+    };
+  }
 }
 
 /**
  * Event Store
  */
 class EventStore extends InMemoryStore<Event> {
+  constructor(backend: StorageBackend<Event> = createStorageBackend(EVENT_SCHEMA)) {
+    super(backend);
+  }
+
   // Get events by product
   getByProduct(productId: string): Event[] {
-    return this.find((e) => e.productId === productId);
+    return this.findBy('productId', productId);
   }
 
   // Get events by type
   getByType(type: Event['type']): Event[] {
-    return this.find((e) => e.type === type);
+    return this.findBy('type', type);
   }
 
   // Get events by time range
   getByTimeRange(startDate: Date, endDate: Date): Event[] {
-    return this.find(
-      (e) => e.timestamp >= startDate && e.timestamp <= endDate
-    );
+    return this.findInRange('timestamp', startDate, endDate);
   }
 
   // Get recent events
@@ -149,7 +598,7 @@ class EventStore extends InMemoryStore<Event> {
 
   // Get events by warehouse
   getByWarehouse(warehouse: string): Event[] {
-    return this.find((e) => e.warehouse === warehouse);
+    return this.findBy('warehouse', warehouse);
   }
 }
 
@@ -157,6 +606,10 @@ class EventStore extends InMemoryStore<Event> {
  * Alert Store
  */
 class AlertStore extends InMemoryStore<Alert> {
+  constructor(backend: StorageBackend<Alert> = createStorageBackend(ALERT_SCHEMA)) {
+    super(backend);
+  }
+
   // Get active (unresolved) alerts
   getActive(): Alert[] {
     return this.find((a) => !a.resolved);
@@ -164,12 +617,12 @@ class AlertStore extends InMemoryStore<Alert> {
 
   // Get alerts by product
   getByProduct(productId: string): Alert[] {
-    return this.find((a) => a.productId === productId);
+    return this.findBy('productId', productId);
   }
 
   // Get alerts by severity
   getBySeverity(severity: Alert['severity']): Alert[] {
-    return this.find((a) => a.severity === severity);
+    return this.findBy('severity', severity);
   }
 
   // Get critical alerts
@@ -177,34 +630,251 @@ class AlertStore extends InMemoryStore<Alert> {
     return this.find((a) => a.severity === 'critical' && !a.resolved);
   }
 
-  // Resolve alert
-  resolve(alertId: string): Alert | undefined {
+  // Get alerts assigned to an operator
+  getByAssignee(assignee: string): Alert[] {
+    return this.findBy('assignee', assignee);
+  }
+
+  // Resolve alert, recording who resolved it in the audit trail
+  resolve(alertId: string, resolvedAt: Date = new Date(), by: string = 'system', note?: string): Alert | undefined {
+    const alert = this.get(alertId);
+    if (!alert) return undefined;
+
     return this.update(alertId, {
       resolved: true,
-      resolvedAt: new Date(),
+      resolvedAt,
+      activity: [...(alert.activity || []), { action: 'RESOLVED', at: resolvedAt.toISOString(), by, note }],
     } as Partial<Alert>);
   }
 
+  // Record a change to an alert in its audit trail
+  recordActivity(alertId: string, updates: Partial<Alert>, activity: AlertActivity): Alert | undefined {
+    const alert = this.get(alertId);
+    if (!alert) return undefined;
+
+    return this.update(alertId, {
+      ...updates,
+      activity: [...(alert.activity || []), activity],
+    });
+  }
+
   // Get recent alerts
   getRecent(limit: number = 100): Alert[] {
     return this.getAll()
       .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
       .slice(0, limit);
   }
+}
 
-  // Clean up expired alerts (older than 24 hours and resolved)
-  cleanupExpired(): number {
-    const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
-    let count = 0;
+/**
+ * Alert Rule Store
+ */
+class AlertRuleStore extends InMemoryStore<AlertRule> {
+  constructor(backend: StorageBackend<AlertRule> = createStorageBackend(ALERT_RULE_SCHEMA)) {
+    super(backend);
+  }
 
-    this.getAll().forEach((alert) => {
-      if (alert.resolved && alert.resolvedAt && alert.resolvedAt < oneDayAgo) {
-        this.delete(alert.id);
-        count++;
-      }
-    });
+  // Get the rules raising an alert type
+  getByType(type: AlertRule['type']): AlertRule[] {
+    return this.findBy('type', type);
+  }
+}
+
+/**
+ * Escalation Policy Store
+ */
+class EscalationPolicyStore extends InMemoryStore<EscalationPolicy> {
+  constructor(backend: StorageBackend<EscalationPolicy> = createStorageBackend(ESCALATION_POLICY_SCHEMA)) {
+    super(backend);
+  }
+
+  // Get the enabled policy escalating an alert type (the oldest, if several cover it)
+  getForAlertType(type: EscalationPolicy['alertTypes'][number]): EscalationPolicy | undefined {
+    return this.find(p => p.enabled && p.alertTypes.includes(type))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())[0];
+  }
+}
+
+/**
+ * Incident Store
+ */
+class IncidentStore extends InMemoryStore<Incident> {
+  constructor(backend: StorageBackend<Incident> = createStorageBackend(INCIDENT_SCHEMA)) {
+    super(backend);
+  }
+
+  // Get open incidents
+  getOpen(): Incident[] {
+    return this.findBy('status', 'OPEN');
+  }
+
+  // Get the latest open incident at a stock position, if any
+  getOpenAt(productId: string, warehouse: string): Incident | undefined {
+    return this.findBy('productId', productId)
+      .filter(i => i.status === 'OPEN' && i.warehouse === warehouse)
+      .sort((a, b) => b.lastAlertAt.getTime() - a.lastAlertAt.getTime())[0];
+  }
+
+  // Get recent incidents, newest first
+  getRecent(limit: number = 100): Incident[] {
+    return this.getAll()
+      .sort((a, b) => b.openedAt.getTime() - a.openedAt.getTime())
+      .slice(0, limit);
+  }
+}
+
+/**
+ * Alert History Store
+ * Permanent lifecycle records of alerts; unlike the alert projection it is never rebuilt
+ */
+class AlertHistoryStore extends InMemoryStore<AlertHistoryEntry> {
+  constructor(backend: StorageBackend<AlertHistoryEntry> = createStorageBackend(ALERT_HISTORY_SCHEMA)) {
+    super(backend);
+  }
+
+  // Get a product's alert history
+  getByProduct(productId: string): AlertHistoryEntry[] {
+    return this.findBy('productId', productId);
+  }
+
+  // Get alerts raised in a date range
+  getRaisedBetween(start: Date, end: Date): AlertHistoryEntry[] {
+    return this.findInRange('raisedAt', start, end);
+  }
+
+  // Get entries for alerts that are not resolved yet
+  getOpen(): AlertHistoryEntry[] {
+    return this.find(e => !e.resolvedAt);
+  }
+}
+
+/**
+ * Issued Forecast Store
+ * Demand forecasts as served, compared with actual demand once their days have passed
+ */
+class IssuedForecastStore extends InMemoryStore<IssuedForecast> {
+  constructor(backend: StorageBackend<IssuedForecast> = createStorageBackend(ISSUED_FORECAST_SCHEMA)) {
+    super(backend);
+  }
+
+  // Get a product's issued forecasts
+  getByProduct(productId: string): IssuedForecast[] {
+    return this.findBy('productId', productId);
+  }
+
+  // Get forecasts issued in a date range
+  getIssuedBetween(start: Date, end: Date): IssuedForecast[] {
+    return this.findInRange('issuedAt', start, end);
+  }
+}
+
+/**
+ * Calendar Event Store
+ * Promotions, holidays and planned events that move demand
+ */
+class CalendarEventStore extends InMemoryStore<CalendarEvent> {
+  constructor(backend: StorageBackend<CalendarEvent> = createStorageBackend(CALENDAR_EVENT_SCHEMA)) {
+    super(backend);
+  }
+
+  // Get calendar events overlapping a date range, open-ended when a bound is left out
+  getOverlapping(start?: Date, end?: Date): CalendarEvent[] {
+    return this.find(e => (!end || e.startsAt < end) && (!start || start < e.endsAt));
+  }
+}
+
+/**
+ * Maintenance Window Store
+ */
+class MaintenanceWindowStore extends InMemoryStore<MaintenanceWindow> {
+  constructor(backend: StorageBackend<MaintenanceWindow> = createStorageBackend(MAINTENANCE_WINDOW_SCHEMA)) {
+    super(backend);
+  }
+
+  // Get a warehouse's windows
+  getByWarehouse(warehouse: string): MaintenanceWindow[] {
+    return this.findBy('warehouse', warehouse);
+  }
+
+  // Get the window in effect at a warehouse at a point in time, if any
+  getActiveAt(warehouse: string, at: Date = new Date()): MaintenanceWindow | undefined {
+    return this.getByWarehouse(warehouse)
+      .find(w => w.startsAt.getTime() <= at.getTime() && at.getTime() < w.endsAt.getTime());
+  }
+}
+
+/**
+ * Webhook Subscription Store
+ */
+class WebhookStore extends InMemoryStore<WebhookSubscription> {
+  constructor(backend: StorageBackend<WebhookSubscription> = createStorageBackend(WEBHOOK_SCHEMA)) {
+    super(backend);
+  }
 
-    return count;
+  // Get enabled subscriptions to a topic
+  getSubscribers(topic: WebhookSubscription['topics'][number]): WebhookSubscription[] {
+    return this.find(w => w.enabled && w.topics.includes(topic));
+  }
+}
+
+/**
+ * Webhook Delivery Store (the delivery log)
+ */
+class WebhookDeliveryStore extends InMemoryStore<WebhookDelivery> {
+  constructor(backend: StorageBackend<WebhookDelivery> = createStorageBackend(WEBHOOK_DELIVERY_SCHEMA)) {
+    super(backend);
+  }
+
+  // Get a subscription's deliveries, newest first
+  getBySubscription(subscriptionId: string): WebhookDelivery[] {
+    return this.findBy('subscriptionId', subscriptionId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  // Get deliveries by status
+  getByStatus(status: WebhookDelivery['status']): WebhookDelivery[] {
+    return this.findBy('status', status);
+  }
+
+  // Get pending deliveries due to be tried
+  getDue(asOf: Date = new Date()): WebhookDelivery[] {
+    return this.getByStatus('PENDING')
+      .filter(d => !d.nextAttemptAt || d.nextAttemptAt.getTime() <= asOf.getTime());
+  }
+
+  // Remove finished deliveries created before a cutoff
+  pruneBefore(cutoff: Date): number {
+    const old = this.findInRange('createdAt', new Date(0), cutoff).filter(d => d.status !== 'PENDING');
+    old.forEach(d => this.delete(d.id));
+    return old.length;
+  }
+}
+
+/**
+ * Digest Subscription Store
+ */
+class DigestSubscriptionStore extends InMemoryStore<DigestSubscription> {
+  constructor(backend: StorageBackend<DigestSubscription> = createStorageBackend(DIGEST_SUBSCRIPTION_SCHEMA)) {
+    super(backend);
+  }
+
+  // Get a subscription by email address
+  getByEmail(email: string): DigestSubscription | undefined {
+    return this.findBy('email', email.toLowerCase())[0];
+  }
+
+  // Get subscriptions that receive digests
+  getEnabled(): DigestSubscription[] {
+    return this.find(s => s.enabled);
+  }
+}
+
+/**
+ * Digest Schedule Store (a single schedule)
+ */
+class DigestScheduleStore extends InMemoryStore<DigestSchedule> {
+  constructor(backend: StorageBackend<DigestSchedule> = createStorageBackend(DIGEST_SCHEDULE_SCHEMA)) {
+    super(backend);
   }
 }
 
@@ -212,6 +882,10 @@ class AlertStore extends InMemoryStore<Alert> {
  * Warehouse Store
  */
 class WarehouseStore extends InMemoryStore<Warehouse> {
+  constructor(backend: StorageBackend<Warehouse> = createStorageBackend(WAREHOUSE_SCHEMA)) {
+    super(backend);
+  }
+
   // Update warehouse utilization
   updateUtilization(warehouseId: string, utilization: number): Warehouse | undefined {
     return this.update(warehouseId, {
@@ -220,11 +894,217 @@ class WarehouseStore extends InMemoryStore<Warehouse> {
   }
 }
 
+/**
+ * Transfer Store
+ */
+class TransferStore extends InMemoryStore<Transfer> {
+  constructor(backend: StorageBackend<Transfer> = createStorageBackend(TRANSFER_SCHEMA)) {
+    super(backend);
+  }
+
+  // Get transfers still on the road
+  getInTransit(): Transfer[] {
+    return this.findBy('status', 'IN_TRANSIT');
+  }
+
+  // Get transfers of a product
+  getByProduct(productId: string): Transfer[] {
+    return this.findBy('productId', productId);
+  }
+
+  // Get total units in transit, optionally for one product
+  getInTransitUnits(productId?: string): number {
+    return this.getInTransit()
+      .filter(t => !productId || t.productId === productId)
+      .reduce((sum, t) => sum + t.quantity, 0);
+  }
+}
+
+/**
+ * Reservation Store
+ */
+class ReservationStore extends InMemoryStore<Reservation> {
+  constructor(backend: StorageBackend<Reservation> = createStorageBackend(RESERVATION_SCHEMA)) {
+    super(backend);
+  }
+
+  // Get reservations still holding stock
+  getActive(): Reservation[] {
+    return this.findBy('status', 'ACTIVE');
+  }
+
+  // Get reservations of a product
+  getByProduct(productId: string): Reservation[] {
+    return this.findBy('productId', productId);
+  }
+
+  // Get active reservations whose hold lapsed at or before a time
+  getExpired(asOf: Date = new Date()): Reservation[] {
+    return this.findInRange('expiresAt', new Date(0), asOf).filter(r => r.status === 'ACTIVE');
+  }
+}
+
+/**
+ * Supplier Store
+ */
+class SupplierStore extends InMemoryStore<Supplier> {
+  constructor(backend: StorageBackend<Supplier> = createStorageBackend(SUPPLIER_SCHEMA)) {
+    super(backend);
+  }
+
+  // Get the supplier a product is replenished from, if any
+  getForProduct(product: Product): Supplier | undefined {
+    return product.supplierId ? this.get(product.supplierId) : undefined;
+  }
+}
+
+/**
+ * Purchase Order Store
+ */
+class PurchaseOrderStore extends InMemoryStore<PurchaseOrder> {
+  constructor(backend: StorageBackend<PurchaseOrder> = createStorageBackend(PURCHASE_ORDER_SCHEMA)) {
+    super(backend);
+  }
+
+  // Get purchase orders of a product
+  getByProduct(productId: string): PurchaseOrder[] {
+    return this.findBy('productId', productId);
+  }
+
+  // Get orders placed with the supplier and not yet received in full
+  getOpen(): PurchaseOrder[] {
+    return [...this.findBy('status', 'SUBMITTED'), ...this.findBy('status', 'PARTIALLY_RECEIVED')];
+  }
+
+  // Get units on order (submitted but not yet received), optionally for one product or stock position
+  getOnOrderUnits(productId?: string, warehouse?: string): number {
+    return this.getOpen()
+      .filter(po => (!productId || po.productId === productId) && (!warehouse || po.warehouse === warehouse))
+      .reduce((sum, po) => sum + po.quantity - po.receivedQuantity, 0);
+  }
+
+  // Get units on order per product
+  getOnOrderByProduct(): Map<string, number> {
+    const onOrder = new Map<string, number>();
+    this.getOpen().forEach(po => {
+      onOrder.set(po.productId, (onOrder.get(po.productId) || 0) + po.quantity - po.receivedQuantity);
+    });
+    return onOrder;
+  }
+
+  // Get units on order per stock position, by position id
+  getOnOrderByPosition(): Map<string, number> {
+    const onOrder = new Map<string, number>();
+    this.getOpen().forEach(po => {
+      const id = getPositionId(po.productId, po.warehouse);
+      onOrder.set(id, (onOrder.get(id) || 0) + po.quantity - po.receivedQuantity);
+    });
+    return onOrder;
+  }
+}
+
+/**
+ * Cycle Count Store
+ */
+class CycleCountStore extends InMemoryStore<CycleCount> {
+  constructor(backend: StorageBackend<CycleCount> = createStorageBackend(CYCLE_COUNT_SCHEMA)) {
+    super(backend);
+  }
+
+  // Get counts waiting for a counted quantity
+  getOpen(): CycleCount[] {
+    return this.findBy('status', 'OPEN');
+  }
+
+  // Get the open count of a stock position, if any
+  getOpenForPosition(productId: string, warehouse: string): CycleCount | undefined {
+    return this.getOpen().find(c => c.productId === productId && c.warehouse === warehouse);
+  }
+
+  // Get counts at a warehouse
+  getByWarehouse(warehouse: string): CycleCount[] {
+    return this.findBy('warehouse', warehouse);
+  }
+
+  // Get counts completed within a time range
+  getCompletedBetween(start: Date, end: Date): CycleCount[] {
+    return this.findInRange('countedAt', start, end).filter(c => c.status === 'COMPLETED');
+  }
+}
+
+/**
+ * Dead Letter Store
+ */
+class DeadLetterStore extends InMemoryStore<DeadLetter> {
+  constructor(backend: StorageBackend<DeadLetter> = createStorageBackend(DEAD_LETTER_SCHEMA)) {
+    super(backend);
+  }
+
+  // Get dead letters by status
+  getByStatus(status: DeadLetter['status']): DeadLetter[] {
+    return this.findBy('status', status);
+  }
+
+  // Get dead letters by queue (dlq or quarantine)
+  getByQueue(queue: DeadLetter['queue']): DeadLetter[] {
+    return this.findBy('queue', queue);
+  }
+
+  // Get dead letters by original topic
+  getByTopic(topic: string): DeadLetter[] {
+    return this.findBy('originalTopic', topic);
+  }
+
+  // Get recent dead letters
+  getRecent(limit: number = 100): DeadLetter[] {
+    return this.getAll()
+      .sort((a, b) => b.failedAt.getTime() - a.failedAt.getTime())
+      .slice(0, limit);
+  }
+}
+
+/**
+ * Idempotency Key Store
+ */
+class IdempotencyStore extends InMemoryStore<IdempotencyRecord> {
+  constructor(backend: StorageBackend<IdempotencyRecord> = createStorageBackend(IDEMPOTENCY_SCHEMA)) {
+    super(backend);
+  }
+
+  // Clean up keys older than the retention window
+  cleanupExpired(ttlMs: number): number {
+    const cutoff = new Date(Date.now() - ttlMs);
+    const expired = this.findInRange('createdAt', new Date(0), cutoff);
+
+    expired.forEach((record) => this.delete(record.id));
+    return expired.length;
+  }
+}
+
 // Create singleton instances
+export const stockPositionStore = new StockPositionStore();
 export const productStore = new ProductStore();
 export const eventStore = new EventStore();
 export const alertStore = new AlertStore();
+export const alertRuleStore = new AlertRuleStore();
+export const escalationPolicyStore = new EscalationPolicyStore();
+export const alertHistoryStore = new AlertHistoryStore();
+export const issuedForecastStore = new IssuedForecastStore();
+export const calendarEventStore = new CalendarEventStore();
+export const incidentStore = new IncidentStore();
+export const maintenanceWindowStore = new MaintenanceWindowStore();
+export const webhookStore = new WebhookStore();
+export const webhookDeliveryStore = new WebhookDeliveryStore();
+export const digestSubscriptionStore = new DigestSubscriptionStore();
+export const digestScheduleStore = new DigestScheduleStore();
 export const warehouseStore = new WarehouseStore();
+export const transferStore = new TransferStore();
+export const reservationStore = new ReservationStore();
+export const supplierStore = new SupplierStore();
+export const purchaseOrderStore = new PurchaseOrderStore();
+export const cycleCountStore = new CycleCountStore();
+export const deadLetterStore = new DeadLetterStore();
+export const idempotencyStore = new IdempotencyStore();
 
 // Export store classes for testing
-export { ProductStore, EventStore, AlertStore, WarehouseStore, InMemoryStore };
+export { ProductStore, StockPositionStore, EventStore, AlertStore, AlertRuleStore, EscalationPolicyStore, IncidentStore, MaintenanceWindowStore, WebhookStore, WebhookDeliveryStore, DigestSubscriptionStore, DigestScheduleStore, WarehouseStore, TransferStore, ReservationStore, SupplierStore, PurchaseOrderStore, CycleCountStore, DeadLetterStore, IdempotencyStore, InMemoryStore };
@@ -0,0 +1,224 @@
+/**
+ * SQLite Storage Backend for StreamStock AI
+ * File-based persistence so stock levels and alert history survive restarts
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { StorageBackend, StoreSchema, toTime } from './StorageBackend';
+
+const DEFAULT_DB_PATH = path.join(process.cwd(), 'data', 'streamstock.db');
+
+let db: Database.Database | null = null;
+
+/**
+ * Open (or reuse) the shared SQLite connection
+ */
+export function getDatabase(): Database.Database {
+  if (db) return db;
+
+  const dbPath = process.env.SQLITE_PATH || DEFAULT_DB_PATH;
+  fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+
+  db = new Database(dbPath);
+  db.pragma('journal_mode = WAL');
+  db.pragma('synchronous = NORMAL');
+
+  console.log(`✅ SQLite database opened at ${dbPath}`);
+  return db;
+}
+
+/**
+ * Close the shared SQLite connection
+ */
+export function closeDatabase(): void {
+  if (db) {
+    db.close();
+    db = null;
+    console.log('✅ SQLite database closed');
+  }
+}
+
+/**
+ * SQLite-backed storage: each entity is one row holding its JSON document,
+ * with indexed columns mirrored out for equality and time range lookups
+ */
+export class SqliteStorageBackend<T extends { id: string }> implements StorageBackend<T> {
+  private db: Database.Database;
+  private indexColumns: string[];
+  private timeColumns: string[];
+  private dateFields: string[];
+  private statements: {
+    get: Database.Statement;
+    all: Database.Statement;
+    upsert: Database.Statement;
+    delete: Database.Statement;
+    count: Database.Statement;
+    clear: Database.Statement;
+  };
+
+  constructor(private schema: StoreSchema<T>, database: Database.Database = getDatabase()) {
+    this.db = database;
+    this.indexColumns = schema.indexes || [];
+    this.timeColumns = schema.timeIndexes || [];
+    this.dateFields = Array.from(new Set([...(schema.dateFields || []), ...this.timeColumns]));
+
+    this.createTable();
+
+    const table = schema.table;
+    const columns = ['id', 'data', ...this.indexColumns, ...this.timeColumns];
+    const placeholders = columns.map(() => '?').join(', ');
+
+    this.statements = {
+      get: this.db.prepare(`SELECT data FROM ${table} WHERE id = ?`),
+      all: this.db.prepare(`SELECT data FROM ${table}`),
+      upsert: this.db.prepare(
+        `INSERT OR REPLACE INTO ${table} (${columns.map(quote).join(', ')}) VALUES (${placeholders})`
+      ),
+      delete: this.db.prepare(`DELETE FROM ${table} WHERE id = ?`),
+      count: this.db.prepare(`SELECT COUNT(*) AS count FROM ${table}`),
+      clear: this.db.prepare(`DELETE FROM ${table}`),
+    };
+  }
+
+  get(id: string): T | undefined {
+    const row = this.statements.get.get(id) as { data: string } | undefined;
+    return row ? this.deserialize(row.data) : undefined;
+  }
+
+  values(): T[] {
+    const rows = this.statements.all.all() as { data: string }[];
+    return rows.map((row) => this.deserialize(row.data));
+  }
+
+  set(item: T): void {
+    const indexValues = this.indexColumns.map((field) => toColumnValue(item[field as keyof T]));
+    const timeValues = this.timeColumns.map((field) => {
+      const time = toTime(item[field as keyof T]);
+      return Number.isNaN(time) ? null : time;
+    });
+
+    this.statements.upsert.run(item.id, JSON.stringify(item), ...indexValues, ...timeValues);
+  }
+
+  delete(id: string): boolean {
+    return this.statements.delete.run(id).changes > 0;
+  }
+
+  has(id: string): boolean {
+    return this.statements.get.get(id) !== undefined;
+  }
+
+  size(): number {
+    return (this.statements.count.get() as { count: number }).count;
+  }
+
+  clear(): void {
+    this.statements.clear.run();
+  }
+
+  findBy(field: keyof T & string, value: unknown): T[] {
+    if (!this.indexColumns.includes(field)) {
+      return this.values().filter((item) => item[field] === value);
+    }
+
+    const rows = this.db
+      .prepare(`SELECT data FROM ${this.schema.table} WHERE ${quote(field)} = ?`)
+      .all(toColumnValue(value)) as { data: string }[];
+    return rows.map((row) => this.deserialize(row.data));
+  }
+
+  findInRange(field: keyof T & string, start: Date, end: Date): T[] {
+    if (!this.timeColumns.includes(field)) {
+      return this.values().filter((item) => {
+        const time = toTime(item[field]);
+        return time >= start.getTime() && time <= end.getTime();
+      });
+    }
+
+    const rows = this.db
+      .prepare(`SELECT data FROM ${this.schema.table} WHERE ${quote(field)} BETWEEN ? AND ?`)
+      .all(start.getTime(), end.getTime()) as { data: string }[];
+    return rows.map((row) => this.deserialize(row.data));
+  }
+
+  /**
+   * Create the table and its indexes if they don't exist yet
+   */
+  private createTable(): void {
+    const table = this.schema.table;
+    const columns = [
+      'id TEXT PRIMARY KEY',
+      'data TEXT NOT NULL',
+      ...this.indexColumns.map((field) => `${quote(field)} TEXT`),
+      ...this.timeColumns.map((field) => `${quote(field)} INTEGER`),
+    ];
+
+    this.db.exec(`CREATE TABLE IF NOT EXISTS ${table} (${columns.join(', ')})`);
+    this.addMissingColumns();
+
+    [...this.indexColumns, ...this.timeColumns].forEach((field) => {
+      this.db.exec(
+        `CREATE INDEX IF NOT EXISTS idx_${table}_${field} ON ${table} (${quote(field)})`
+      );
+    });
+  }
+
+  /**
+   * Add index columns introduced after the table was created, filling them in from each row's document
+   */
+  private addMissingColumns(): void {
+    const table = this.schema.table;
+    const existing = new Set(
+      (this.db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map((c) => c.name)
+    );
+
+    const missingIndexes = this.indexColumns.filter((field) => !existing.has(field));
+    const missingTimes = this.timeColumns.filter((field) => !existing.has(field));
+    if (missingIndexes.length === 0 && missingTimes.length === 0) return;
+
+    this.db.transaction(() => {
+      missingIndexes.forEach((field) => this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${quote(field)} TEXT`));
+      missingTimes.forEach((field) => this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${quote(field)} INTEGER`));
+
+      const rows = this.db.prepare(`SELECT id, data FROM ${table}`).all() as { id: string; data: string }[];
+      const assignments = [...missingIndexes, ...missingTimes].map((field) => `${quote(field)} = ?`).join(', ');
+      const update = this.db.prepare(`UPDATE ${table} SET ${assignments} WHERE id = ?`);
+
+      rows.forEach((row) => {
+        const item = this.deserialize(row.data);
+        update.run(
+          ...missingIndexes.map((field) => toColumnValue(item[field as keyof T])),
+          ...missingTimes.map((field) => {
+            const time = toTime(item[field as keyof T]);
+            return Number.isNaN(time) ? null : time;
+          }),
+          row.id
+        );
+      });
+    })();
+  }
+
+  /**
+   * Parse a stored JSON document, reviving Date fields
+   */
+  private deserialize(data: string): T {
+    const item = JSON.parse(data);
+    this.dateFields.forEach((field) => {
+      if (item[field] !== undefined && item[field] !== null) {
+        item[field] = new Date(item[field]);
+      }
+    });
+    return item as T;
+  }
+}
+
+function quote(column: string): string {
+  return `"${column}"`;
+}
+
+function toColumnValue(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  return String(value);
+}
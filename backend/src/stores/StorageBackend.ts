@@ -0,0 +1,183 @@
+/**
+ * Storage Backends for StreamStock AI
+ * Pluggable persistence layer behind the entity stores
+ */
+
+/**
+ * Describes how an entity is persisted and which fields are indexed
+ */
+export interface StoreSchema<T> {
+  table: string;
+  // Fields supporting indexed equality lookups
+  indexes?: (keyof T & string)[];
+  // Date fields supporting indexed range lookups
+  timeIndexes?: (keyof T & string)[];
+  // Fields that must be revived as Date objects when read back
+  dateFields?: (keyof T & string)[];
+}
+
+/**
+ * Storage backend contract used by the entity stores
+ */
+export interface StorageBackend<T extends { id: string }> {
+  get(id: string): T | undefined;
+  values(): T[];
+  set(item: T): void;
+  delete(id: string): boolean;
+  has(id: string): boolean;
+  size(): number;
+  clear(): void;
+  // Indexed equality lookup on a field listed in schema.indexes
+  findBy(field: keyof T & string, value: unknown): T[];
+  // Indexed range lookup (inclusive) on a field listed in schema.timeIndexes
+  findInRange(field: keyof T & string, start: Date, end: Date): T[];
+}
+
+/**
+ * Convert a Date or date string into epoch milliseconds
+ */
+export function toTime(value: unknown): number {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'string' || typeof value === 'number') {
+    return new Date(value).getTime();
+  }
+  return NaN;
+}
+
+/**
+ * Map-based backend with secondary indexes (default, non-durable)
+ */
+export class MemoryStorageBackend<T extends { id: string }> implements StorageBackend<T> {
+  private data: Map<string, T> = new Map();
+  private indexes: Map<string, Map<unknown, Set<string>>> = new Map();
+  // Entries sorted by time (ties in insertion order) for each field in schema.timeIndexes
+  private timeIndexes: Map<string, TimeIndexEntry[]> = new Map();
+
+  constructor(private schema: StoreSchema<T>) {
+    (schema.indexes || []).forEach((field) => this.indexes.set(field, new Map()));
+    (schema.timeIndexes || []).forEach((field) => this.timeIndexes.set(field, []));
+  }
+
+  get(id: string): T | undefined {
+    return this.data.get(id);
+  }
+
+  values(): T[] {
+    return Array.from(this.data.values());
+  }
+
+  set(item: T): void {
+    const existing = this.data.get(item.id);
+    if (existing) this.unindex(existing);
+
+    this.data.set(item.id, item);
+    this.index(item);
+  }
+
+  delete(id: string): boolean {
+    const existing = this.data.get(id);
+    if (!existing) return false;
+
+    this.unindex(existing);
+    return this.data.delete(id);
+  }
+
+  has(id: string): boolean {
+    return this.data.has(id);
+  }
+
+  size(): number {
+    return this.data.size;
+  }
+
+  clear(): void {
+    this.data.clear();
+    this.indexes.forEach((index) => index.clear());
+    this.timeIndexes.forEach((index) => index.splice(0));
+  }
+
+  findBy(field: keyof T & string, value: unknown): T[] {
+    const index = this.indexes.get(field);
+    if (!index) {
+      return this.values().filter((item) => item[field] === value);
+    }
+
+    const ids = index.get(value);
+    if (!ids) return [];
+    return Array.from(ids).map((id) => this.data.get(id)!);
+  }
+
+  findInRange(field: keyof T & string, start: Date, end: Date): T[] {
+    const startTime = start.getTime();
+    const endTime = end.getTime();
+
+    const index = this.timeIndexes.get(field);
+    if (!index) {
+      return this.values().filter((item) => {
+        const time = toTime(item[field]);
+        return time >= startTime && time <= endTime;
+      });
+    }
+
+    const results: T[] = [];
+    for (let i = firstAtOrAfter(index, startTime); i < index.length && index[i].time <= endTime; i++) {
+      results.push(this.data.get(index[i].id)!);
+    }
+    return results;
+  }
+
+  private index(item: T): void {
+    this.indexes.forEach((index, field) => {
+      const value = item[field as keyof T];
+      if (!index.has(value)) index.set(value, new Set());
+      index.get(value)!.add(item.id);
+    });
+    this.timeIndexes.forEach((index, field) => {
+      const time = toTime(item[field as keyof T]);
+      if (Number.isNaN(time)) return;
+      index.splice(firstAtOrAfter(index, time + 1), 0, { time, id: item.id });
+    });
+  }
+
+  private unindex(item: T): void {
+    this.indexes.forEach((index, field) => {
+      const value = item[field as keyof T];
+      const ids = index.get(value);
+      if (!ids) return;
+      ids.delete(item.id);
+      if (ids.size === 0) index.delete(value);
+    });
+    this.timeIndexes.forEach((index, field) => {
+      const time = toTime(item[field as keyof T]);
+      if (Number.isNaN(time)) return;
+      for (let i = firstAtOrAfter(index, time); i < index.length && index[i].time === time; i++) {
+        if (index[i].id === item.id) {
+          index.splice(i, 1);
+          return;
+        }
+      }
+    });
+  }
+}
+
+interface TimeIndexEntry {
+  time: number;
+  id: string;
+}
+
+/**
+ * Position of the first entry at or after a time in a sorted time index
+ */
+function firstAtOrAfter(index: TimeIndexEntry[], time: number): number {
+  let low = 0;
+  let high = index.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (index[mid].time < time) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
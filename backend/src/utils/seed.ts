@@ -1,12 +1,16 @@
 /**
  * Data Seeder for StreamStock AI
- * Generates demo products, warehouses, and 30 days of historical events
+ * Generates demo suppliers, products, warehouses, calendar events, and 30 days of historical events
  */
 
 import { v4 as uuidv4 } from 'uuid';
-import { Product, Warehouse, Event, EventType } from '../models/types';
-import { productStore, warehouseStore, eventStore } from '../stores/InMemoryStore';
+import { Product, Warehouse, Supplier, Event, EventType, CalendarEvent } from '../models/types';
+import { productStore, warehouseStore, supplierStore, eventStore, alertStore, alertHistoryStore, issuedForecastStore, calendarEventStore } from '../stores/InMemoryStore';
 import { eventHandler } from '../services/EventHandler';
+import { installDefaultAlertRules } from '../services/AlertRules';
+import { backfillAlertHistory } from '../services/AlertHistory';
+import { createCalendarEvent, getDemandMultipliers } from '../services/DemandCalendar';
+import { startOfDay } from '../services/Forecasting';
 
 // Sample data
 const CATEGORIES = ['Electronics', 'Apparel', 'Home Goods'];
@@ -18,6 +22,29 @@ const PRODUCT_NAMES = {
   'Home Goods': ['Coffee Maker', 'Desk Lamp', 'Storage Bins', 'Kitchen Utensils', 'Throw Pillows']
 };
 
+// One supplier per category: electronics ship from overseas, apparel by the case, home goods locally
+const SUPPLIERS: Record<string, Omit<Supplier, 'id'>> = {
+  Electronics: { name: 'Pacific Components Ltd', leadTimeDays: 14, minimumOrderQuantity: 50, packSize: 10, costPerUnit: 45, contactEmail: 'orders@pacific-components.example' },
+  Apparel: { name: 'Threadline Apparel Co', leadTimeDays: 7, minimumOrderQuantity: 24, packSize: 12, costPerUnit: 12.5, contactEmail: 'wholesale@threadline.example' },
+  'Home Goods': { name: 'Hearth & Home Supply', leadTimeDays: 3, minimumOrderQuantity: 10, packSize: 5, costPerUnit: 18, contactEmail: 'sales@hearthhome.example' },
+};
+
+/**
+ * Generate suppliers (one per category)
+ */
+function generateSuppliers(): Map<string, Supplier> {
+  const suppliers = new Map<string, Supplier>();
+
+  CATEGORIES.forEach((category, index) => {
+    const supplier: Supplier = { id: `SUP-${index + 1}`, ...SUPPLIERS[category] };
+    supplierStore.create(supplier);
+    suppliers.set(category, supplier);
+  });
+
+  console.log(`✅ Created ${suppliers.size} suppliers`);
+  return suppliers;
+}
+
 /**
  * Generate warehouses
  */
@@ -38,7 +65,7 @@ function generateWarehouses(): Warehouse[] {
 /**
  * Generate products (10-15 items)
  */
-function generateProducts(warehouses: Warehouse[]): Product[] {
+function generateProducts(warehouses: Warehouse[], suppliers: Map<string, Supplier>): Product[] {
   const products: Product[] = [];
   let productCount = 0;
 
@@ -58,26 +85,103 @@ function generateProducts(warehouses: Warehouse[]): Product[] {
         category,
         warehouse: warehouse.id,
         currentStock: baseStock,
+        reserved: 0,
+        available: baseStock,
         reorderPoint: Math.floor(baseStock * 0.5), // 50% of initial stock (higher threshold for alerts)
         maxCapacity: Math.floor(baseStock * 1.8), // 80% more than base (tighter capacity)
         unitPrice: parseFloat((Math.random() * 200 + 20).toFixed(2)), // $20-$220
+        supplierId: suppliers.get(category)!.id,
         predictedStock7d: baseStock, // Will be updated by forecasting
         lastUpdated: new Date()
       };
 
       products.push(product);
       productStore.create(product);
+      recordOpeningBalance(product.id, product.warehouse, baseStock, `EVT-OPEN-${product.id}`);
+
+      // About a third of products are also stocked at a second site
+      if (Math.random() < 0.35) {
+        const others = warehouses.filter(w => w.id !== warehouse.id);
+        const secondSite = others[Math.floor(Math.random() * others.length)];
+        const secondStock = Math.floor(Math.random() * 40) + 30; // 30-70 units
+
+        productStore.addPosition({
+          productId: product.id,
+          warehouse: secondSite.id,
+          currentStock: secondStock,
+          reorderPoint: Math.floor(secondStock * 0.5),
+          maxCapacity: Math.floor(secondStock * 1.8),
+        });
+        recordOpeningBalance(product.id, secondSite.id, secondStock, `EVT-OPEN-${product.id}-${secondSite.id}`);
+      }
     }
   });
 
-  console.log(`✅ Created ${products.length} products across ${CATEGORIES.length} categories`);
+  const positions = products.reduce((sum, p) => sum + productStore.getPositions(p.id).length, 0);
+  console.log(`✅ Created ${products.length} products across ${CATEGORIES.length} categories (${positions} stock positions)`);
   return products;
 }
 
 /**
- * Generate 30 days of historical events
+ * Record a stock position's opening balance so stock can be replayed from the event log
+ */
+function recordOpeningBalance(productId: string, warehouse: string, quantity: number, eventId: string): void {
+  eventStore.create({
+    id: eventId,
+    type: 'RESTOCK',
+    productId,
+    quantity,
+    warehouse,
+    timestamp: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
+    metadata: { historical: true, openingBalance: true }
+  });
+}
+
+/**
+ * Generate demo calendar events: a promotion last week, whose sales the historical events
+ * reflect, and a product launch and a holiday coming up
+ */
+function generateCalendarEvents(products: Product[]): CalendarEvent[] {
+  const today = startOfDay(new Date()).getTime();
+  const day = 24 * 60 * 60 * 1000;
+
+  const events = [
+    createCalendarEvent({
+      name: 'Electronics Flash Sale',
+      type: 'PROMOTION',
+      startsAt: new Date(today - 10 * day),
+      endsAt: new Date(today - 7 * day),
+      categories: ['Electronics'],
+      upliftPercent: 150,
+      createdBy: 'system',
+    }),
+    createCalendarEvent({
+      name: `${products[0].name} Launch Event`,
+      type: 'EVENT',
+      startsAt: new Date(today + 2 * day),
+      endsAt: new Date(today + 4 * day),
+      skus: [products[0].sku],
+      upliftPercent: 60,
+      createdBy: 'system',
+    }),
+    createCalendarEvent({
+      name: 'Public Holiday',
+      type: 'HOLIDAY',
+      startsAt: new Date(today + 5 * day),
+      endsAt: new Date(today + 6 * day),
+      upliftPercent: -40,
+      createdBy: 'system',
+    }),
+  ];
+
+  console.log(`✅ Generated ${events.length} calendar events`);
+  return events;
+}
+
+/**
+ * Generate 30 days of historical events, with sales moved by the calendar events
  */
-async function generateHistoricalEvents(products: Product[]): Promise<void> {
+async function generateHistoricalEvents(products: Product[], calendar: CalendarEvent[]): Promise<void> {
   const now = new Date();
   const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
 
@@ -87,11 +191,13 @@ async function generateHistoricalEvents(products: Product[]): Promise<void> {
   // Generate events for each day
   for (let day = 0; day < 30; day++) {
     const eventDate = new Date(thirtyDaysAgo.getTime() + day * 24 * 60 * 60 * 1000);
+    const dayEvents: Event[] = [];
 
     for (let i = 0; i < eventsPerDay; i++) {
       const product = products[Math.floor(Math.random() * products.length)];
+      const positions = productStore.getPositions(product.id);
+      const position = positions[Math.floor(Math.random() * positions.length)];
       const eventType = selectEventType();
-      const quantity = generateQuantity(eventType);
 
       // Add random hours/minutes to spread events throughout the day
       const timestamp = new Date(
@@ -99,12 +205,16 @@ async function generateHistoricalEvents(products: Product[]): Promise<void> {
         Math.floor(Math.random() * 24 * 60 * 60 * 1000)
       );
 
+      // Promotions and holidays scale sales
+      const multiplier = eventType === 'SALE' ? getDemandMultipliers(product, calendar, startOfDay(timestamp), 1)[0] : 1;
+      const quantity = Math.max(1, Math.round(generateQuantity(eventType) * multiplier));
+
       const event: Event = {
         id: `EVT-${String(++eventCount).padStart(6, '0')}`,
         type: eventType,
         productId: product.id,
         quantity,
-        warehouse: product.warehouse,
+        warehouse: position.warehouse,
         timestamp,
         metadata: {
           historical: true,
@@ -112,7 +222,12 @@ async function generateHistoricalEvents(products: Product[]): Promise<void> {
         }
       };
 
-      // Process event to update stock and trigger alerts
+      dayEvents.push(event);
+    }
+
+    // Process events in chronological order to update stock and trigger alerts
+    dayEvents.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    for (const event of dayEvents) {
       await eventHandler.processEvent(event);
     }
   }
@@ -178,6 +293,12 @@ function displaySummary(): void {
   console.log(`   - Critical Stock Products: ${criticalStock.length}`);
   console.log(`   - Total Stock Value: $${productStore.getTotalValue().toFixed(2)}`);
 
+  // Stock by warehouse
+  console.log(`\n🏬 Stock by Warehouse:`);
+  productStore.getStockByWarehouse().forEach(s => {
+    console.log(`   - ${s.warehouse}: ${s.units} units across ${s.products} products (${s.lowStockPositions} low)`);
+  });
+
   // Events
   const events = eventStore.getAll();
   const salesEvents = eventStore.getByType('SALE');
@@ -211,12 +332,27 @@ export async function seedData(): Promise<void> {
   // Clear existing data
   productStore.clear();
   warehouseStore.clear();
+  supplierStore.clear();
   eventStore.clear();
+  alertStore.clear();
+  alertHistoryStore.clear();
+  issuedForecastStore.clear();
+  calendarEventStore.clear();
+
+  // Historical events raise alerts through the alert rules
+  installDefaultAlertRules();
 
   // Generate data
+  const suppliers = generateSuppliers();
   const warehouses = generateWarehouses();
-  const products = generateProducts(warehouses);
-  await generateHistoricalEvents(products);
+  const products = generateProducts(warehouses, suppliers);
+  const calendar = generateCalendarEvents(products);
+  await generateHistoricalEvents(products, calendar);
+
+  // Replay so seeded alerts carry the times of the events that raised them, and start their history from those
+  await eventHandler.rebuildProjections();
+  alertHistoryStore.clear();
+  backfillAlertHistory();
 
   // Display summary
   displaySummary();
@@ -0,0 +1,116 @@
+/**
+ * Local Webhook Receiver for StreamStock AI
+ * A minimal HTTP endpoint that records and verifies webhook deliveries
+ *
+ * Start it from code to check deliveries end to end, or run it directly and point a
+ * webhook subscription at the URL it prints:
+ *   WEBHOOK_SECRET=<secret> npm run webhook-receiver
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { verifySignature } from '../services/Webhooks';
+
+export interface ReceivedWebhook {
+  topic: string;
+  deliveryId: string;
+  signatureValid: boolean | null; // null when the receiver has no secret to check against
+  body: unknown; // Parsed JSON, or the raw text if it is not JSON
+  receivedAt: Date;
+}
+
+export interface WebhookReceiverOptions {
+  port?: number; // 0 (the default) picks a free port
+  secret?: string;
+  failFirst?: number; // Respond 500 to this many requests, to exercise retries
+  onReceive?: (delivery: ReceivedWebhook) => void;
+}
+
+export interface WebhookReceiver {
+  url: string;
+  received: ReceivedWebhook[];
+  close(): Promise<void>;
+}
+
+/**
+ * Start a receiver; deliveries with a bad signature are recorded and refused with 401
+ */
+export function startWebhookReceiver(options: WebhookReceiverOptions = {}): Promise<WebhookReceiver> {
+  const received: ReceivedWebhook[] = [];
+  let failuresLeft = options.failFirst ?? 0;
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const raw = Buffer.concat(chunks).toString('utf8');
+      const header = (name: string) => String(req.headers[name] ?? '');
+
+      const signatureValid = options.secret
+        ? verifySignature(options.secret, header('x-streamstock-timestamp'), raw, header('x-streamstock-signature'))
+        : null;
+
+      let body: unknown = raw;
+      try {
+        body = JSON.parse(raw);
+      } catch {
+        // Keep the raw text
+      }
+
+      const delivery: ReceivedWebhook = {
+        topic: header('x-streamstock-topic'),
+        deliveryId: header('x-streamstock-delivery'),
+        signatureValid,
+        body,
+        receivedAt: new Date(),
+      };
+      received.push(delivery);
+      options.onReceive?.(delivery);
+
+      if (signatureValid === false) {
+        res.writeHead(401).end('Invalid signature');
+      } else if (failuresLeft > 0) {
+        failuresLeft--;
+        res.writeHead(500).end('Simulated failure');
+      } else {
+        res.writeHead(204).end();
+      }
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}/webhooks`,
+        received,
+        close: () => new Promise(done => server.close(() => done())),
+      });
+    });
+  });
+}
+
+// Run receiver if executed directly
+if (require.main === module) {
+  const port = parseInt(process.env.WEBHOOK_RECEIVER_PORT || '4100');
+
+  startWebhookReceiver({
+    port,
+    secret: process.env.WEBHOOK_SECRET,
+    onReceive: delivery => {
+      const signature = delivery.signatureValid === null ? '' : delivery.signatureValid ? ' ✅ signed' : ' ❌ bad signature';
+      console.log(`📨 ${delivery.topic} ${delivery.deliveryId}${signature}`);
+      const { body } = delivery;
+      const data = typeof body === 'object' && body !== null && 'data' in body ? body.data : body;
+      console.log(JSON.stringify(data, null, 2));
+    },
+  })
+    .then(receiver => {
+      console.log(`🪝 Webhook receiver listening at ${receiver.url}`);
+      if (!process.env.WEBHOOK_SECRET) {
+        console.log('   WEBHOOK_SECRET not set: signatures are not checked');
+      }
+    })
+    .catch(console.error);
+}
@@ -17,12 +17,19 @@ import {
   RefreshCw,
   ChevronDown,
   ChevronUp,
+  Eye,
+  UserCheck,
+  BellOff,
+  MessageSquare,
+  ArrowUpCircle,
+  Layers,
 } from 'lucide-react';
 
 // Types
 interface AlertType {
   id: string;
   productId: string;
+  warehouse?: string;
   severity: 'critical' | 'warning' | 'info';
   type: string;
   message: string;
@@ -30,6 +37,25 @@ interface AlertType {
   resolved: boolean;
   timestamp: string;
   resolvedAt?: string;
+  acknowledgedAt?: string;
+  acknowledgedBy?: string;
+  assignee?: string;
+  snoozedUntil?: string;
+  escalationLevel?: number;
+  escalatedAt?: string;
+  incidentId?: string;
+  activity?: AlertActivity[];
+}
+
+interface AlertActivity {
+  action: 'CREATED' | 'ACKNOWLEDGED' | 'ASSIGNED' | 'UNASSIGNED' | 'SNOOZED' | 'UNSNOOZED' | 'NOTE' | 'ESCALATED' | 'RESOLVED';
+  at: string;
+  by: string;
+  note?: string;
+  assignee?: string;
+  snoozedUntil?: string;
+  escalationLevel?: number;
+  notified?: string[];
 }
 
 interface Product {
@@ -55,8 +81,11 @@ export default function AlertsPage() {
   const [severityFilter, setSeverityFilter] = useState<string>('all');
   const [statusFilter, setStatusFilter] = useState<string>('active');
   const [typeFilter, setTypeFilter] = useState<string>('all');
+  const [workflowFilter, setWorkflowFilter] = useState<string>('all');
+  const [operator, setOperator] = useState('');
+  const [noteDrafts, setNoteDrafts] = useState<Record<string, string>>({});
   const [expandedAlerts, setExpandedAlerts] = useState<Set<string>>(new Set());
-  const [resolvingAlerts, setResolvingAlerts] = useState<Set<string>>(new Set());
+  const [updatingAlerts, setUpdatingAlerts] = useState<Set<string>>(new Set());
   const [restockingProducts, setRestockingProducts] = useState<Set<string>>(new Set());
 
   // Fetch alerts and products
@@ -83,6 +112,16 @@ export default function AlertsPage() {
     }
   };
 
+  // Remember who is operating this browser, for "mine" and the audit trail
+  useEffect(() => {
+    setOperator(localStorage.getItem('streamstock.operator') || '');
+  }, []);
+
+  const handleOperatorChange = (name: string) => {
+    setOperator(name);
+    localStorage.setItem('streamstock.operator', name);
+  };
+
   useEffect(() => {
     fetchData();
 
@@ -102,17 +141,31 @@ export default function AlertsPage() {
     };
   };
 
+  const isSnoozed = (alert: AlertType) =>
+    !!alert.snoozedUntil && new Date(alert.snoozedUntil).getTime() > Date.now();
+
   // Filter alerts based on current filters
   const getFilteredAlerts = () => {
     let filtered = alerts;
 
-    // Status filter
+    // Status filter (snoozed alerts stay out of the active view until their snooze ends)
     if (statusFilter === 'active') {
-      filtered = filtered.filter((a) => !a.resolved);
+      filtered = filtered.filter((a) => !a.resolved && (workflowFilter === 'snoozed' || !isSnoozed(a)));
     } else if (statusFilter === 'resolved') {
       filtered = filtered.filter((a) => a.resolved);
     }
 
+    // Workflow filter
+    if (workflowFilter === 'unacknowledged') {
+      filtered = filtered.filter((a) => !a.acknowledgedAt);
+    } else if (workflowFilter === 'acknowledged') {
+      filtered = filtered.filter((a) => !!a.acknowledgedAt);
+    } else if (workflowFilter === 'snoozed') {
+      filtered = filtered.filter((a) => isSnoozed(a));
+    } else if (workflowFilter === 'mine') {
+      filtered = filtered.filter((a) => !!operator && a.assignee === operator);
+    }
+
     // Severity filter
     if (severityFilter !== 'all') {
       filtered = filtered.filter((a) => a.severity === severityFilter);
@@ -140,6 +193,33 @@ export default function AlertsPage() {
     );
   };
 
+  // Group filtered alerts by incident, led by the most severe (then newest) alert of each
+  const getIncidentGroups = (filtered: AlertType[]) => {
+    const severityRank: Record<string, number> = { critical: 0, warning: 1, info: 2 };
+    const groups: { alert: AlertType; related: AlertType[] }[] = [];
+    const byIncident = new Map<string, AlertType[]>();
+
+    filtered.forEach((alert) => {
+      if (!alert.incidentId) {
+        groups.push({ alert, related: [] });
+      } else if (byIncident.has(alert.incidentId)) {
+        byIncident.get(alert.incidentId)!.push(alert);
+      } else {
+        const members = [alert];
+        byIncident.set(alert.incidentId, members);
+        groups.push({ alert, related: members });
+      }
+    });
+
+    return groups.map((group) => {
+      if (group.related.length === 0) return group;
+      const [lead, ...related] = [...group.related].sort(
+        (a, b) => (severityRank[a.severity] ?? 3) - (severityRank[b.severity] ?? 3)
+      );
+      return { alert: lead, related };
+    });
+  };
+
   // Get unique alert types for filter
   const getAlertTypes = () => {
     const types = new Set(alerts.map((a) => a.type));
@@ -157,24 +237,26 @@ export default function AlertsPage() {
     return products.find((p) => p.id === productId);
   };
 
-  // Resolve alert
-  const handleResolveAlert = async (alertId: string) => {
-    setResolvingAlerts((prev) => new Set(prev).add(alertId));
+  // Apply a workflow change to an alert (acknowledge, assign, snooze, notes, resolve)
+  const handleAlertAction = async (alertId: string, action: string, body: Record<string, unknown> = {}) => {
+    setUpdatingAlerts((prev) => new Set(prev).add(alertId));
 
     try {
-      const response = await fetch(`/api/alerts/${alertId}/resolve`, {
+      const response = await fetch(`/api/alerts/${alertId}/${action}`, {
         method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...body, ...(operator ? { actor: operator } : {}) }),
       });
 
       if (response.ok) {
         await fetchData(); // Refresh data
       } else {
-        console.error('Failed to resolve alert');
+        console.error(`Failed to ${action} alert`);
       }
     } catch (error) {
-      console.error('Error resolving alert:', error);
+      console.error(`Error updating alert (${action}):`, error);
     } finally {
-      setResolvingAlerts((prev) => {
+      setUpdatingAlerts((prev) => {
         const next = new Set(prev);
         next.delete(alertId);
         return next;
@@ -182,21 +264,44 @@ export default function AlertsPage() {
     }
   };
 
-  // Restock product
-  const handleRestock = async (productId: string) => {
+  const handleAddNote = async (alertId: string) => {
+    const note = noteDrafts[alertId]?.trim();
+    if (!note) return;
+
+    await handleAlertAction(alertId, 'notes', { note });
+    setNoteDrafts((prev) => ({ ...prev, [alertId]: '' }));
+  };
+
+  // Restock product to capacity at the alert's warehouse
+  const handleRestock = async (productId: string, warehouse?: string) => {
     setRestockingProducts((prev) => new Set(prev).add(productId));
 
     try {
       const product = getProduct(productId);
       if (!product) return;
 
-      const restockAmount = product.maxCapacity - product.currentStock;
-      const newStock = product.currentStock + restockAmount;
+      // Fill the stock position the alert was raised for (the whole product for older alerts)
+      let stock = { currentStock: product.currentStock, maxCapacity: product.maxCapacity };
+      if (warehouse) {
+        const positionsRes = await fetch(`/api/positions?productId=${productId}&warehouse=${warehouse}`);
+        const positionsData = await positionsRes.json();
+        if (positionsData.success && positionsData.data.length > 0) {
+          stock = positionsData.data[0];
+        }
+      }
 
-      const response = await fetch(`/api/products/${productId}`, {
-        method: 'PUT',
+      const restockAmount = stock.maxCapacity - stock.currentStock;
+      if (restockAmount <= 0) return;
+
+      const response = await fetch('/api/events', {
+        method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ currentStock: newStock }),
+        body: JSON.stringify({
+          type: 'RESTOCK',
+          productId,
+          quantity: restockAmount,
+          ...(warehouse ? { warehouse } : {}),
+        }),
       });
 
       if (response.ok) {
@@ -258,6 +363,7 @@ export default function AlertsPage() {
 
   const stats = getAlertStats();
   const filteredAlerts = getFilteredAlerts();
+  const alertGroups = getIncidentGroups(filteredAlerts);
   const alertTypes = getAlertTypes();
 
   if (loading) {
@@ -279,10 +385,18 @@ export default function AlertsPage() {
             Real-time alert stream with filters and resolution actions
           </p>
         </div>
-        <Button onClick={fetchData} variant="outline" className="gap-2">
-          <RefreshCw className="h-4 w-4" />
-          Refresh
-        </Button>
+        <div className="flex items-center gap-2">
+          <Input
+            placeholder="Your name"
+            value={operator}
+            onChange={(e) => handleOperatorChange(e.target.value)}
+            className="w-40"
+          />
+          <Button onClick={fetchData} variant="outline" className="gap-2">
+            <RefreshCw className="h-4 w-4" />
+            Refresh
+          </Button>
+        </div>
       </div>
 
       {/* Statistics Cards */}
@@ -337,7 +451,7 @@ export default function AlertsPage() {
           </CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
             {/* Search */}
             <div className="relative">
               <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
@@ -385,6 +499,19 @@ export default function AlertsPage() {
                 </option>
               ))}
             </select>
+
+            {/* Workflow Filter */}
+            <select
+              className="w-full p-2 border rounded-md"
+              value={workflowFilter}
+              onChange={(e) => setWorkflowFilter(e.target.value)}
+            >
+              <option value="all">All Workflow States</option>
+              <option value="unacknowledged">Unacknowledged</option>
+              <option value="acknowledged">Acknowledged</option>
+              <option value="snoozed">Snoozed</option>
+              <option value="mine">Assigned to Me</option>
+            </select>
           </div>
         </CardContent>
       </Card>
@@ -395,6 +522,7 @@ export default function AlertsPage() {
           <CardTitle>Alert Stream</CardTitle>
           <CardDescription>
             {filteredAlerts.length} alert{filteredAlerts.length !== 1 ? 's' : ''} found
+            {alertGroups.length < filteredAlerts.length && <> in {alertGroups.length} groups</>}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -410,9 +538,9 @@ export default function AlertsPage() {
                 </p>
               </div>
             ) : (
-              filteredAlerts.map((alert) => {
+              alertGroups.map(({ alert, related }) => {
                 const isExpanded = expandedAlerts.has(alert.id);
-                const isResolving = resolvingAlerts.has(alert.id);
+                const isUpdating = updatingAlerts.has(alert.id);
                 const isRestocking = restockingProducts.has(alert.productId);
                 const product = getProduct(alert.productId);
 
@@ -429,12 +557,42 @@ export default function AlertsPage() {
                             <div className="flex items-center gap-2 flex-wrap">
                               {getSeverityBadge(alert.severity)}
                               {getTypeBadge(alert.type)}
+                              {related.length > 0 && (
+                                <Badge variant="secondary" className="gap-1">
+                                  <Layers className="h-3 w-3" />
+                                  Incident +{related.length} related
+                                </Badge>
+                              )}
                               {alert.resolved && (
                                 <Badge variant="default" className="gap-1 bg-green-600">
                                   <CheckCircle className="h-3 w-3" />
                                   Resolved
                                 </Badge>
                               )}
+                              {!!alert.escalationLevel && !alert.resolved && (
+                                <Badge variant="destructive" className="gap-1">
+                                  <ArrowUpCircle className="h-3 w-3" />
+                                  Escalated (tier {alert.escalationLevel})
+                                </Badge>
+                              )}
+                              {alert.acknowledgedAt && !alert.resolved && (
+                                <Badge variant="secondary" className="gap-1">
+                                  <Eye className="h-3 w-3" />
+                                  Acknowledged by {alert.acknowledgedBy}
+                                </Badge>
+                              )}
+                              {alert.assignee && (
+                                <Badge variant="outline" className="gap-1">
+                                  <UserCheck className="h-3 w-3" />
+                                  {alert.assignee}
+                                </Badge>
+                              )}
+                              {isSnoozed(alert) && !alert.resolved && (
+                                <Badge variant="outline" className="gap-1">
+                                  <BellOff className="h-3 w-3" />
+                                  Snoozed until {new Date(alert.snoozedUntil!).toLocaleTimeString()}
+                                </Badge>
+                              )}
                             </div>
 
                             <div>
@@ -474,14 +632,57 @@ export default function AlertsPage() {
                           <div className="flex flex-col gap-2">
                             {!alert.resolved && (
                               <>
+                                {!alert.acknowledgedAt && (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => handleAlertAction(alert.id, 'acknowledge')}
+                                    disabled={isUpdating}
+                                    className="gap-1 text-xs"
+                                  >
+                                    <Eye className="h-3 w-3" />
+                                    Acknowledge
+                                  </Button>
+                                )}
+
                                 <Button
                                   size="sm"
                                   variant="outline"
-                                  onClick={() => handleResolveAlert(alert.id)}
-                                  disabled={isResolving}
+                                  onClick={() =>
+                                    handleAlertAction(alert.id, 'assign', {
+                                      assignee: operator && alert.assignee !== operator ? operator : null,
+                                    })
+                                  }
+                                  disabled={isUpdating || (!operator && !alert.assignee)}
                                   className="gap-1 text-xs"
                                 >
-                                  {isResolving ? (
+                                  <UserCheck className="h-3 w-3" />
+                                  {operator && alert.assignee !== operator ? 'Assign to Me' : 'Unassign'}
+                                </Button>
+
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() =>
+                                    handleAlertAction(alert.id, 'snooze', {
+                                      until: isSnoozed(alert) ? null : new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+                                    })
+                                  }
+                                  disabled={isUpdating}
+                                  className="gap-1 text-xs"
+                                >
+                                  <BellOff className="h-3 w-3" />
+                                  {isSnoozed(alert) ? 'Unsnooze' : 'Snooze 1h'}
+                                </Button>
+
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => handleAlertAction(alert.id, 'resolve')}
+                                  disabled={isUpdating}
+                                  className="gap-1 text-xs"
+                                >
+                                  {isUpdating ? (
                                     <RefreshCw className="h-3 w-3 animate-spin" />
                                   ) : (
                                     <CheckCircle className="h-3 w-3" />
@@ -493,7 +694,7 @@ export default function AlertsPage() {
                                   <Button
                                     size="sm"
                                     variant="default"
-                                    onClick={() => handleRestock(alert.productId)}
+                                    onClick={() => handleRestock(alert.productId, alert.warehouse)}
                                     disabled={isRestocking}
                                     className="gap-1 text-xs"
                                   >
@@ -552,6 +753,26 @@ export default function AlertsPage() {
                               </div>
                             </div>
 
+                            {related.length > 0 && (
+                              <>
+                                <p className="text-xs font-semibold mt-3">Related Alerts</p>
+                                <ul className="space-y-1 text-xs">
+                                  {related.map((relatedAlert) => (
+                                    <li key={relatedAlert.id} className="flex gap-2">
+                                      <span className="text-muted-foreground whitespace-nowrap">
+                                        {new Date(relatedAlert.timestamp).toLocaleString()}
+                                      </span>
+                                      <span>
+                                        <span className="font-semibold capitalize">{relatedAlert.severity}</span>{' '}
+                                        {relatedAlert.type.replace(/_/g, ' ')}
+                                        <span className="text-muted-foreground"> — {relatedAlert.message}</span>
+                                      </span>
+                                    </li>
+                                  ))}
+                                </ul>
+                              </>
+                            )}
+
                             {product && (
                               <>
                                 <p className="text-xs font-semibold mt-3">Product Status</p>
@@ -571,6 +792,51 @@ export default function AlertsPage() {
                                 </div>
                               </>
                             )}
+
+                            <p className="text-xs font-semibold mt-3">Audit Trail</p>
+                            {alert.activity && alert.activity.length > 0 ? (
+                              <ul className="space-y-1 text-xs">
+                                {alert.activity.map((entry, index) => (
+                                  <li key={index} className="flex gap-2">
+                                    <span className="text-muted-foreground whitespace-nowrap">
+                                      {new Date(entry.at).toLocaleString()}
+                                    </span>
+                                    <span>
+                                      <span className="font-semibold">{entry.action.replace(/_/g, ' ').toLowerCase()}</span>
+                                      {' by '}
+                                      {entry.by}
+                                      {entry.assignee && <> to {entry.assignee}</>}
+                                      {entry.snoozedUntil && <> until {new Date(entry.snoozedUntil).toLocaleString()}</>}
+                                      {entry.notified && entry.notified.length > 0 && <> to tier {entry.escalationLevel}, notifying {entry.notified.join(', ')}</>}
+                                      {entry.note && <span className="text-muted-foreground"> — {entry.note}</span>}
+                                    </span>
+                                  </li>
+                                ))}
+                              </ul>
+                            ) : (
+                              <p className="text-xs text-muted-foreground">No activity recorded</p>
+                            )}
+
+                            <div className="flex gap-2 pt-1">
+                              <Input
+                                placeholder="Add a note..."
+                                value={noteDrafts[alert.id] || ''}
+                                onChange={(e) =>
+                                  setNoteDrafts((prev) => ({ ...prev, [alert.id]: e.target.value }))
+                                }
+                                className="h-8 text-xs"
+                              />
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleAddNote(alert.id)}
+                                disabled={isUpdating || !noteDrafts[alert.id]?.trim()}
+                                className="gap-1 text-xs"
+                              >
+                                <MessageSquare className="h-3 w-3" />
+                                Add Note
+                              </Button>
+                            </div>
                           </div>
                         )}
                       </div>
@@ -5,10 +5,19 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
 import { toast } from 'sonner';
 import {
-  LineChart,
   Line,
+  ComposedChart,
+  Area,
   BarChart,
   Bar,
   PieChart,
@@ -38,11 +47,32 @@ interface Product {
 interface Forecast {
   productId: string;
   productName: string;
+  model: string;
   predictions: Array<{
     date: string;
     predictedStock: number;
     confidence: number;
   }>;
+  demandForecast: Array<{
+    date: string;
+    demand: number;
+  }>;
+  stockProjection: Array<{
+    date: string;
+    demand: number;
+    inbound: number;
+    projectedStock: number;
+    lower80: number;
+    upper80: number;
+    lower95: number;
+    upper95: number;
+  }>;
+  projectedStockoutDate?: string;
+  calendarEvents: Array<{
+    id: string;
+    name: string;
+    upliftPercent: number;
+  }>;
   averageDailySales: number;
   confidence: number;
 }
@@ -58,6 +88,76 @@ interface AIRecommendation {
   confidence: number;
 }
 
+interface AlertResponseTimes {
+  key: string;
+  alerts: number;
+  acknowledged: number;
+  resolved: number;
+  autoResolved: number;
+  mttaMinutes?: number;
+  mttrMinutes?: number;
+}
+
+interface AlertAnalytics {
+  repeatWindowHours: number;
+  totals: AlertResponseTimes;
+  byType: AlertResponseTimes[];
+  byWarehouse: AlertResponseTimes[];
+  topProducts: Array<{
+    productId: string;
+    productName: string;
+    sku: string;
+    alerts: number;
+    criticalAlerts: number;
+  }>;
+  repeats: Array<{
+    productId: string;
+    productName: string;
+    warehouse: string;
+    type: string;
+    alerts: number;
+    repeats: number;
+  }>;
+}
+
+interface ModelAccuracy {
+  model: string;
+  forecasts: number;
+  days: number;
+  mae: number;
+  mape?: number;
+  bias: number;
+  coverage80: number;
+  coverage95: number;
+}
+
+interface ForecastBacktest {
+  cutoffs: string[];
+  horizonDays: number;
+  models: ModelAccuracy[];
+  products: Array<{
+    productId: string;
+    bestModel?: string;
+  }>;
+  spikes: Array<{
+    productId: string;
+    productName: string;
+    sku: string;
+    date: string;
+    demand: number;
+    baseline: number;
+    expectedDemand: number;
+    calendarEvents: Array<{ id: string; name: string; upliftPercent: number }>;
+    explained: boolean;
+  }>;
+}
+
+interface ForecastAccuracy {
+  issuedForecasts: number;
+  pendingForecasts: number;
+  models: ModelAccuracy[];
+}
+
 interface Event {
   id: string;
   type: 'SALE' | 'RESTOCK' | 'RETURN';
@@ -72,6 +172,9 @@ export default function AnalyticsPage() {
   const [forecasts, setForecasts] = useState<Forecast[]>([]);
   const [recommendations, setRecommendations] = useState<AIRecommendation[]>([]);
   const [events, setEvents] = useState<Event[]>([]);
+  const [alertAnalytics, setAlertAnalytics] = useState<AlertAnalytics | null>(null);
+  const [forecastBacktest, setForecastBacktest] = useState<ForecastBacktest | null>(null);
+  const [forecastAccuracy, setForecastAccuracy] = useState<ForecastAccuracy | null>(null);
   const [loading, setLoading] = useState(true);
   const [selectedProduct, setSelectedProduct] = useState<string | null>(null);
 
@@ -117,6 +220,32 @@ export default function AnalyticsPage() {
         setEvents(eventsData.data);
       }
 
+      // Fetch alert analytics (last 30 days)
+      try {
+        const alertAnalyticsRes = await fetch('/api/alerts/analytics');
+        const alertAnalyticsData = await alertAnalyticsRes.json();
+        if (alertAnalyticsData.success) {
+          setAlertAnalytics(alertAnalyticsData.data);
+        } else {
+          console.error('Failed to fetch alert analytics:', alertAnalyticsData.error);
+        }
+      } catch (error) {
+        console.error('Error fetching alert analytics:', error);
+      }
+
+      // Fetch live accuracy of issued forecasts (last 30 days)
+      try {
+        const forecastAccuracyRes = await fetch('/api/forecast/accuracy');
+        const forecastAccuracyData = await forecastAccuracyRes.json();
+        if (forecastAccuracyData.success) {
+          setForecastAccuracy(forecastAccuracyData.data);
+        } else {
+          console.error('Failed to fetch forecast accuracy:', forecastAccuracyData.error);
+        }
+      } catch (error) {
+        console.error('Error fetching forecast accuracy:', error);
+      }
+
       setLoading(false);
     } catch (error) {
       console.error('Error fetching analytics data:', error);
@@ -124,8 +253,24 @@ export default function AnalyticsPage() {
     }
   };
 
+  // Backtest forecasting models; replays the event log, so fetched once rather than polled
+  const fetchForecastBacktest = async () => {
+    try {
+      const backtestRes = await fetch('/api/forecast/backtest');
+      const backtestData = await backtestRes.json();
+      if (backtestData.success) {
+        setForecastBacktest(backtestData.data);
+      } else {
+        console.error('Failed to fetch forecast backtest:', backtestData.error);
+      }
+    } catch (error) {
+      console.error('Error fetching forecast backtest:', error);
+    }
+  };
+
   useEffect(() => {
     fetchAnalyticsData();
+    fetchForecastBacktest();
 
     // Poll for updates every 10 seconds
     const interval = setInterval(fetchAnalyticsData, 10000);
@@ -192,6 +337,31 @@ export default function AnalyticsPage() {
     return performanceData.sort((a, b) => b.salesVelocity - a.salesVelocity).slice(0, 10);
   };
 
+  // Get mean time to acknowledge and resolve per alert type, in hours
+  const getAlertResponseTimes = () => {
+    if (!alertAnalytics) return [];
+
+    const toHours = (minutes?: number) => (minutes === undefined ? 0 : parseFloat((minutes / 60).toFixed(1)));
+    return alertAnalytics.byType.map((group) => ({
+      name: group.key.replace(/_/g, ' '),
+      mtta: toHours(group.mttaMinutes),
+      mttr: toHours(group.mttrMinutes),
+      alerts: group.alerts,
+    }));
+  };
+
+  // Get backtest and live accuracy side by side for each model
+  const getForecastAccuracyRows = () => {
+    if (!forecastBacktest) return [];
+
+    return forecastBacktest.models.map((backtest) => ({
+      model: backtest.model,
+      backtest,
+      live: forecastAccuracy?.models.find((m) => m.model === backtest.model),
+      bestFor: forecastBacktest.products.filter((p) => p.bestModel === backtest.model).length,
+    }));
+  };
+
   // Get forecast chart data for selected product
   const getForecastChartData = () => {
     if (!selectedProduct) {
@@ -200,12 +370,15 @@ export default function AnalyticsPage() {
     }
 
     const forecast = forecasts.find((f) => f.productId === selectedProduct);
-    if (!forecast || !forecast.predictions || !Array.isArray(forecast.predictions)) return [];
-
-    return forecast.predictions.map((pred) => ({
-      date: new Date(pred.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
-      predictedStock: pred.predictedStock,
-      confidence: pred.confidence * 100,
+    if (!forecast || !forecast.stockProjection || !Array.isArray(forecast.stockProjection)) return [];
+
+    return forecast.stockProjection.map((point, index) => ({
+      date: new Date(point.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+      projectedStock: point.projectedStock,
+      interval80: [point.lower80, point.upper80],
+      interval95: [point.lower95, point.upper95],
+      inbound: point.inbound,
+      demand: forecast.demandForecast[index]?.demand ?? 0,
     }));
   };
 
@@ -306,6 +479,9 @@ export default function AnalyticsPage() {
   const warehouseDistribution = getWarehouseDistribution();
   const categoryDistribution = getCategoryDistribution();
   const productPerformance = getProductPerformance();
+  const alertResponseTimes = getAlertResponseTimes();
+  const forecastAccuracyRows = getForecastAccuracyRows();
+  const selectedForecast = forecasts.find((f) => f.productId === selectedProduct);
   const forecastChartData = getForecastChartData();
 
   return (
@@ -384,7 +560,11 @@ export default function AnalyticsPage() {
       <Card>
         <CardHeader>
           <CardTitle>Demand Forecast (7-Day Prediction)</CardTitle>
-          <CardDescription>Select a product to view detailed forecast predictions</CardDescription>
+          <CardDescription>
+            {selectedForecast
+              ? `Forecast demand and projected stock with known inbound and 80%/95% intervals (${selectedForecast.model} model${selectedForecast.projectedStockoutDate ? `, stockout ${new Date(selectedForecast.projectedStockoutDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}` : ''}${selectedForecast.calendarEvents.length > 0 ? `, adjusted for ${selectedForecast.calendarEvents.map((e) => `${e.name} ${e.upliftPercent > 0 ? '+' : ''}${e.upliftPercent}%`).join(', ')}` : ''})`
+              : 'Select a product to view detailed forecast predictions'}
+          </CardDescription>
         </CardHeader>
         <CardContent>
           <div className="mb-4">
@@ -404,32 +584,59 @@ export default function AnalyticsPage() {
 
           {forecastChartData.length > 0 ? (
             <ResponsiveContainer width="100%" height={300}>
-              <LineChart data={forecastChartData}>
+              <ComposedChart data={forecastChartData}>
                 <CartesianGrid strokeDasharray="3 3" />
                 <XAxis dataKey="date" />
                 <YAxis yAxisId="left" />
                 <YAxis yAxisId="right" orientation="right" />
                 <Tooltip />
                 <Legend />
+                <Area
+                  yAxisId="left"
+                  type="monotone"
+                  dataKey="interval95"
+                  stroke="none"
+                  fill="#3b82f6"
+                  fillOpacity={0.12}
+                  name="95% Interval"
+                />
+                <Area
+                  yAxisId="left"
+                  type="monotone"
+                  dataKey="interval80"
+                  stroke="none"
+                  fill="#3b82f6"
+                  fillOpacity={0.25}
+                  name="80% Interval"
+                />
                 <Line
                   yAxisId="left"
                   type="monotone"
-                  dataKey="predictedStock"
+                  dataKey="projectedStock"
                   stroke="#3b82f6"
                   strokeWidth={2}
-                  name="Predicted Stock"
+                  name="Projected Stock"
                   dot={{ fill: '#3b82f6' }}
                 />
+                <Line
+                  yAxisId="left"
+                  type="stepAfter"
+                  dataKey="inbound"
+                  stroke="#8b5cf6"
+                  strokeWidth={2}
+                  name="Inbound"
+                  dot={false}
+                />
                 <Line
                   yAxisId="right"
                   type="monotone"
-                  dataKey="confidence"
+                  dataKey="demand"
                   stroke="#10b981"
                   strokeWidth={2}
-                  name="Confidence (%)"
+                  name="Forecast Demand (units/day)"
                   dot={{ fill: '#10b981' }}
                 />
-              </LineChart>
+              </ComposedChart>
             </ResponsiveContainer>
           ) : (
             <div className="flex items-center justify-center h-64 text-muted-foreground">
@@ -527,6 +734,165 @@ export default function AnalyticsPage() {
         </CardContent>
       </Card>
 
+      {/* Alert Analytics */}
+      {alertAnalytics && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Alert Response Times</CardTitle>
+              <CardDescription>
+                Mean time to acknowledge and resolve by alert type over the last 30 days
+                ({alertAnalytics.totals.alerts} alerts, {alertAnalytics.totals.autoResolved} cleared automatically)
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={300}>
+                <BarChart data={alertResponseTimes}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="name" angle={-45} textAnchor="end" height={100} fontSize={11} />
+                  <YAxis />
+                  <Tooltip />
+                  <Legend />
+                  <Bar dataKey="mtta" fill="#f59e0b" name="MTTA (hours)" />
+                  <Bar dataKey="mttr" fill="#ef4444" name="MTTR (hours)" />
+                </BarChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Most Frequently Alerting Products</CardTitle>
+              <CardDescription>
+                Repeat alerts come back within {alertAnalytics.repeatWindowHours} hours of being resolved
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2">
+                {alertAnalytics.topProducts.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No alerts in the last 30 days</p>
+                )}
+                {alertAnalytics.topProducts.map((product) => {
+                  const repeats = alertAnalytics.repeats
+                    .filter((r) => r.productId === product.productId)
+                    .reduce((sum, r) => sum + r.repeats, 0);
+                  return (
+                    <div key={product.productId} className="flex items-center justify-between text-sm">
+                      <div>
+                        <p className="font-semibold">{product.productName}</p>
+                        <p className="text-xs text-muted-foreground">{product.sku}</p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {product.criticalAlerts > 0 && (
+                          <Badge variant="destructive">{product.criticalAlerts} critical</Badge>
+                        )}
+                        {repeats > 0 && <Badge variant="outline">{repeats} repeat</Badge>}
+                        <span className="font-semibold w-16 text-right">{product.alerts} alerts</span>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* Forecast Accuracy */}
+      {forecastBacktest && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Forecast Accuracy</CardTitle>
+            <CardDescription>
+              Backtested from {forecastBacktest.cutoffs.length} past cutoffs over a {forecastBacktest.horizonDays}-day horizon;
+              live over {forecastAccuracy ? forecastAccuracy.issuedForecasts - forecastAccuracy.pendingForecasts : 0} issued
+              forecasts with days passed in the last 30 days. Bias above zero means over-forecasting.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Model</TableHead>
+                  <TableHead className="text-right">Backtest MAE</TableHead>
+                  <TableHead className="text-right">Backtest MAPE</TableHead>
+                  <TableHead className="text-right">Backtest Bias</TableHead>
+                  <TableHead className="text-right">In 80% / 95% Interval</TableHead>
+                  <TableHead className="text-right">Live MAE</TableHead>
+                  <TableHead className="text-right">Live MAPE</TableHead>
+                  <TableHead className="text-right">Live Bias</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {forecastAccuracyRows.map((row) => (
+                  <TableRow key={row.model}>
+                    <TableCell className="font-medium">
+                      {row.model}
+                      {row.bestFor > 0 && (
+                        <Badge variant="outline" className="ml-2">best for {row.bestFor}</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{row.backtest.mae}</TableCell>
+                    <TableCell className="text-right">{row.backtest.mape !== undefined ? `${row.backtest.mape}%` : '-'}</TableCell>
+                    <TableCell className="text-right">{row.backtest.bias > 0 ? '+' : ''}{row.backtest.bias}</TableCell>
+                    <TableCell className="text-right">{row.backtest.coverage80}% / {row.backtest.coverage95}%</TableCell>
+                    <TableCell className="text-right">{row.live ? row.live.mae : '-'}</TableCell>
+                    <TableCell className="text-right">{row.live?.mape !== undefined ? `${row.live.mape}%` : '-'}</TableCell>
+                    <TableCell className="text-right">
+                      {row.live ? `${row.live.bias > 0 ? '+' : ''}${row.live.bias}` : '-'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Demand Spikes */}
+      {forecastBacktest && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Demand Spikes</CardTitle>
+            <CardDescription>
+              Days in the backtest period when a product sold well above its usual demand, and the promotions,
+              holidays or planned events that explain them
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {forecastBacktest.spikes.length === 0 && (
+                <p className="text-sm text-muted-foreground">No demand spikes in the backtest period</p>
+              )}
+              {forecastBacktest.spikes.slice(0, 10).map((spike) => (
+                <div key={`${spike.productId}-${spike.date}`} className="flex items-center justify-between text-sm">
+                  <div>
+                    <p className="font-semibold">{spike.productName}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(spike.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} · {spike.sku}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {spike.explained ? (
+                      spike.calendarEvents.map((event) => (
+                        <Badge key={event.id} variant="outline">
+                          {event.name} {event.upliftPercent > 0 ? '+' : ''}{event.upliftPercent}%
+                        </Badge>
+                      ))
+                    ) : (
+                      <Badge variant="destructive">Unexplained</Badge>
+                    )}
+                    <span className="font-semibold w-40 text-right">
+                      {spike.demand} units (expected {spike.expectedDemand})
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* AI Insights Panel */}
       <Card>
         <CardHeader>
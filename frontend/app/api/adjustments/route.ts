@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+
+const BACKEND_URL = process.env.BACKEND_URL || 'http://localhost:4000';
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const queryString = searchParams.toString();
+
+    const response = await fetch(`${BACKEND_URL}/api/adjustments${queryString ? `?${queryString}` : ''}`);
+    const data = await response.json();
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error fetching adjustments:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch adjustments' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json();
+
+    const response = await fetch(`${BACKEND_URL}/api/adjustments`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return NextResponse.json(
+        { success: false, error: data.error || 'Failed to create adjustment', details: data.details },
+        { status: response.status }
+      );
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error creating adjustment:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create adjustment' },
+      { status: 500 }
+    );
+  }
+}
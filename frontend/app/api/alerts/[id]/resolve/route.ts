@@ -8,11 +8,13 @@ export async function POST(
 ) {
   try {
     const { id } = await params;
+    const body = await request.json().catch(() => ({}));
     const response = await fetch(`${BACKEND_URL}/api/alerts/${id}/resolve`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
+      body: JSON.stringify(body),
     });
 
     const data = await response.json();
@@ -32,11 +32,13 @@ export async function POST(request: Request) {
       );
     }
 
-    // Forward to backend
+    // Forward to backend (including the client's idempotency key, if any)
+    const idempotencyKey = request.headers.get('Idempotency-Key');
     const response = await fetch(`${BACKEND_URL}/api/events`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {}),
       },
       body: JSON.stringify(body),
     });
@@ -45,7 +47,7 @@ export async function POST(request: Request) {
 
     if (!response.ok) {
       return NextResponse.json(
-        { success: false, error: data.error || 'Failed to create event' },
+        { success: false, error: data.error || 'Failed to create event', details: data.details },
         { status: response.status }
       );
     }
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+
+const BACKEND_URL = process.env.BACKEND_URL || 'http://localhost:4000';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const queryString = searchParams.toString();
+
+    const response = await fetch(
+      `${BACKEND_URL}/api/products/${id}/history${queryString ? `?${queryString}` : ''}`
+    );
+    const data = await response.json();
+
+    if (!response.ok) {
+      return NextResponse.json(data, { status: response.status });
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Error fetching product history:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch product history' },
+      { status: 500 }
+    );
+  }
+}
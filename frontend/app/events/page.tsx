@@ -17,13 +17,17 @@ import {
   TrendingDown,
   TrendingUp,
   RotateCcw,
+  ArrowRightLeft,
+  ClipboardCheck,
+  Lock,
+  Unlock,
 } from 'lucide-react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 
 // Types
 interface Event {
   id: string;
-  type: 'SALE' | 'RESTOCK' | 'RETURN' | 'ALERT';
+  type: 'SALE' | 'RESTOCK' | 'RETURN' | 'ALERT' | 'TRANSFER' | 'ADJUSTMENT' | 'RESERVE' | 'RELEASE';
   productId: string;
   quantity: number;
   warehouse: string;
@@ -153,6 +157,10 @@ export default function EventsPage() {
       RESTOCK: { variant: 'default', label: 'Restock', icon: Package },
       RETURN: { variant: 'secondary', label: 'Return', icon: RotateCcw },
       ALERT: { variant: 'outline', label: 'Alert', icon: Activity },
+      TRANSFER: { variant: 'outline', label: 'Transfer', icon: ArrowRightLeft },
+      ADJUSTMENT: { variant: 'outline', label: 'Adjustment', icon: ClipboardCheck },
+      RESERVE: { variant: 'secondary', label: 'Reserve', icon: Lock },
+      RELEASE: { variant: 'secondary', label: 'Release', icon: Unlock },
     };
     const config = variants[type] || { variant: 'outline', label: type, icon: Activity };
     const Icon = config.icon;
@@ -299,6 +307,10 @@ export default function EventsPage() {
               <option value="RESTOCK">Restocks</option>
               <option value="RETURN">Returns</option>
               <option value="ALERT">Alerts</option>
+              <option value="TRANSFER">Transfers</option>
+              <option value="ADJUSTMENT">Adjustments</option>
+              <option value="RESERVE">Reservations</option>
+              <option value="RELEASE">Releases</option>
             </select>
 
             {/* Warehouse Filter */}
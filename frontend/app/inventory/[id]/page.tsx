@@ -21,7 +21,7 @@ import {
   Activity,
   Sparkles,
 } from 'lucide-react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { LineChart, Line, ComposedChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
 
 // Types
 interface Product {
@@ -30,6 +30,8 @@ interface Product {
   sku: string;
   category: string;
   currentStock: number;
+  reserved: number;
+  available: number;
   reorderPoint: number;
   maxCapacity: number;
   unitPrice: number;
@@ -38,27 +40,43 @@ interface Product {
   createdAt?: string;
 }
 
+type AdjustmentReason = 'DAMAGE' | 'THEFT' | 'COUNT_CORRECTION' | 'EXPIRY';
+
 interface Event {
   id: string;
-  type: 'SALE' | 'RESTOCK' | 'RETURN' | 'ALERT';
+  type: 'SALE' | 'RESTOCK' | 'RETURN' | 'ALERT' | 'TRANSFER' | 'ADJUSTMENT' | 'RESERVE' | 'RELEASE';
   productId: string;
   quantity: number;
   warehouse: string;
   timestamp: string;
   metadata?: Record<string, any>;
+  adjustment?: { reason: AdjustmentReason; direction: 'INCREASE' | 'DECREASE' };
+  reservation?: { reservationId: string; reason?: 'CANCELLED' | 'EXPIRED' };
 }
 
 interface Forecast {
   productId: string;
+  model: string;
   predictions: Array<{
     date: string;
     predictedStock: number;
-    confidence: number;
+    lower80: number;
+    upper80: number;
+    lower95: number;
+    upper95: number;
   }>;
   averageDailySales: number;
   daysUntilStockout: number;
 }
 
+interface StockHistoryPoint {
+  timestamp: string;
+  stock: number;
+  sales: number;
+  restocks: number;
+  returns: number;
+}
+
 interface Recommendation {
   productId: string;
   productName: string;
@@ -66,6 +84,8 @@ interface Recommendation {
   action: string;
   reason: string;
   suggestedQuantity: number;
+  onOrder?: number;
+  leadTimeDays?: number;
   estimatedCost: number;
   confidence: number;
   timestamp: string;
@@ -80,6 +100,8 @@ export default function ProductDetailPage() {
   const [events, setEvents] = useState<Event[]>([]);
   const [forecast, setForecast] = useState<Forecast | null>(null);
   const [recommendation, setRecommendation] = useState<Recommendation | null>(null);
+  const [history, setHistory] = useState<StockHistoryPoint[]>([]);
+  const [historyDays, setHistoryDays] = useState(30);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
 
@@ -90,26 +112,32 @@ export default function ProductDetailPage() {
     unitPrice: 0,
     reorderPoint: 0,
     maxCapacity: 0,
-    currentStock: 0,
   });
 
   // Quick action state
   const [quickActionAmount, setQuickActionAmount] = useState(10);
+  const [writeOffReason, setWriteOffReason] = useState<AdjustmentReason>('DAMAGE');
+  const [countedQuantity, setCountedQuantity] = useState('');
+  const [countResult, setCountResult] = useState<string | null>(null);
+  const [purchaseOrderResult, setPurchaseOrderResult] = useState<string | null>(null);
 
   // Fetch all data
   const fetchData = async () => {
     try {
-      const [productRes, eventsRes, forecastRes, recommendationRes] = await Promise.all([
+      const historyFrom = new Date(Date.now() - historyDays * 24 * 60 * 60 * 1000).toISOString();
+      const [productRes, eventsRes, forecastRes, recommendationRes, historyRes] = await Promise.all([
         fetch(`/api/products/${productId}`),
         fetch(`/api/events?productId=${productId}&limit=50`),
         fetch(`/api/forecast?productId=${productId}`),
         fetch(`/api/recommendations?productId=${productId}`),
+        fetch(`/api/products/${productId}/history?from=${encodeURIComponent(historyFrom)}&interval=day`),
       ]);
 
       const productData = await productRes.json();
       const eventsData = await eventsRes.json();
       const forecastData = await forecastRes.json();
       const recommendationData = await recommendationRes.json();
+      const historyData = await historyRes.json();
 
       if (productData.success) {
         setProduct(productData.data);
@@ -118,7 +146,6 @@ export default function ProductDetailPage() {
           unitPrice: productData.data.unitPrice,
           reorderPoint: productData.data.reorderPoint,
           maxCapacity: productData.data.maxCapacity,
-          currentStock: productData.data.currentStock,
         });
       }
 
@@ -134,6 +161,10 @@ export default function ProductDetailPage() {
         setRecommendation(recommendationData.data);
       }
 
+      if (historyData.success) {
+        setHistory(historyData.data.points);
+      }
+
       setLoading(false);
     } catch (error) {
       console.error('Error fetching data:', error);
@@ -145,7 +176,7 @@ export default function ProductDetailPage() {
     fetchData();
     const interval = setInterval(fetchData, 10000); // Refresh every 10 seconds
     return () => clearInterval(interval);
-  }, [productId]);
+  }, [productId, historyDays]);
 
   // Handle form save
   const handleSave = async () => {
@@ -192,17 +223,92 @@ export default function ProductDetailPage() {
     }
   };
 
+  // Write off stock (damage, theft, expiry) at the product's home warehouse
+  const handleWriteOff = async () => {
+    try {
+      const response = await fetch('/api/adjustments', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          productId,
+          quantity: quickActionAmount,
+          reason: writeOffReason,
+          direction: 'DECREASE',
+        }),
+      });
+
+      if (response.ok) {
+        await fetchData();
+        setQuickActionAmount(10);
+      }
+    } catch (error) {
+      console.error('Error recording adjustment:', error);
+    }
+  };
+
+  // Record a cycle count; any variance is posted as a count correction
+  const handleCycleCount = async () => {
+    const counted = parseInt(countedQuantity);
+    if (isNaN(counted) || counted < 0) return;
+
+    try {
+      const response = await fetch('/api/cycle-counts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ productId, countedQuantity: counted }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        const variance = data.data.variance as number;
+        setCountResult(
+          variance === 0
+            ? 'Count matches system quantity'
+            : `Variance of ${variance > 0 ? '+' : ''}${variance} units posted as a count correction`
+        );
+        setCountedQuantity('');
+        await fetchData();
+      } else {
+        setCountResult(data.error || 'Failed to record count');
+      }
+    } catch (error) {
+      console.error('Error recording cycle count:', error);
+    }
+  };
+
+  // Turn the AI recommendation into a draft purchase order
+  const handleCreatePurchaseOrder = async () => {
+    try {
+      const response = await fetch('/api/purchase-orders/from-recommendation', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ productId }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setPurchaseOrderResult(`Draft purchase order ${data.data.id} created for ${data.data.quantity} units`);
+        await fetchData();
+      } else {
+        setPurchaseOrderResult(data.error || 'Failed to create purchase order');
+      }
+    } catch (error) {
+      console.error('Error creating purchase order:', error);
+    }
+  };
+
   // Get stock status
   const getStockStatus = () => {
     if (!product) return { label: 'Unknown', color: 'gray' };
 
     const stockPercentage = (product.currentStock / product.maxCapacity) * 100;
 
-    if (product.currentStock === 0) {
+    // Stock-out statuses follow available stock (on hand minus reserved)
+    if (product.available === 0) {
       return { label: 'Out of Stock', color: 'red' };
-    } else if (product.currentStock < 10) {
+    } else if (product.available < 10) {
       return { label: 'Critical', color: 'red' };
-    } else if (product.currentStock <= product.reorderPoint) {
+    } else if (product.available <= product.reorderPoint) {
       return { label: 'Low Stock', color: 'orange' };
     } else if (stockPercentage > 90) {
       return { label: 'Overstocked', color: 'purple' };
@@ -217,7 +323,18 @@ export default function ProductDetailPage() {
     return forecast.predictions.map((pred) => ({
       date: new Date(pred.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
       predicted: Math.round(pred.predictedStock),
-      confidence: Math.round(pred.confidence * 100),
+      interval80: [pred.lower80, pred.upper80],
+      interval95: [pred.lower95, pred.upper95],
+    }));
+  };
+
+  // Get stock history chart data
+  const getHistoryChartData = () => {
+    return history.map((point) => ({
+      date: new Date(point.timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+      stock: point.stock,
+      sales: point.sales,
+      restocks: point.restocks,
     }));
   };
 
@@ -271,6 +388,7 @@ export default function ProductDetailPage() {
   const status = getStockStatus();
   const eventStats = getEventStats();
   const chartData = getChartData();
+  const historyChartData = getHistoryChartData();
 
   return (
     <div className="container mx-auto p-8 space-y-6">
@@ -297,7 +415,7 @@ export default function ProductDetailPage() {
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <Card>
           <CardHeader className="pb-2">
-            <CardDescription>Current Stock</CardDescription>
+            <CardDescription>On Hand</CardDescription>
           </CardHeader>
           <CardContent>
             <div className="flex items-center justify-between">
@@ -310,7 +428,7 @@ export default function ProductDetailPage() {
               </Badge>
             </div>
             <p className="text-xs text-muted-foreground mt-2">
-              of {product.maxCapacity} max capacity
+              of {product.maxCapacity} max capacity · {product.reserved} reserved, {product.available} available
             </p>
           </CardContent>
         </Card>
@@ -336,7 +454,7 @@ export default function ProductDetailPage() {
           <CardContent>
             <div className="text-3xl font-bold">{product.reorderPoint}</div>
             <p className="text-xs text-muted-foreground mt-2">
-              {product.currentStock <= product.reorderPoint
+              {product.available <= product.reorderPoint
                 ? 'Below threshold'
                 : 'Above threshold'}
             </p>
@@ -408,8 +526,26 @@ export default function ProductDetailPage() {
                         ${recommendation.estimatedCost?.toLocaleString() ?? 'N/A'}
                       </span>
                     </span>
+                    {!!recommendation.onOrder && (
+                      <span>
+                        <span className="text-muted-foreground">On order: </span>
+                        <span className="font-semibold">{recommendation.onOrder} units</span>
+                      </span>
+                    )}
+                    {!!recommendation.leadTimeDays && (
+                      <span>
+                        <span className="text-muted-foreground">Lead time: </span>
+                        <span className="font-semibold">{recommendation.leadTimeDays} days</span>
+                      </span>
+                    )}
                   </div>
+                  {purchaseOrderResult && (
+                    <p className="text-xs text-muted-foreground">{purchaseOrderResult}</p>
+                  )}
                 </div>
+                <Button onClick={handleCreatePurchaseOrder} variant="outline" size="sm">
+                  Create Purchase Order
+                </Button>
               </div>
             </div>
           </CardContent>
@@ -436,7 +572,6 @@ export default function ProductDetailPage() {
                         unitPrice: product.unitPrice,
                         reorderPoint: product.reorderPoint,
                         maxCapacity: product.maxCapacity,
-                        currentStock: product.currentStock,
                       });
                     }}
                     variant="outline"
@@ -464,30 +599,17 @@ export default function ProductDetailPage() {
                       onChange={(e) => setFormData({ ...formData, name: e.target.value })}
                     />
                   </div>
-                  <div className="grid grid-cols-2 gap-4">
-                    <div>
-                      <Label htmlFor="unitPrice">Unit Price ($)</Label>
-                      <Input
-                        id="unitPrice"
-                        type="number"
-                        step="0.01"
-                        value={formData.unitPrice}
-                        onChange={(e) =>
-                          setFormData({ ...formData, unitPrice: parseFloat(e.target.value) })
-                        }
-                      />
-                    </div>
-                    <div>
-                      <Label htmlFor="currentStock">Current Stock</Label>
-                      <Input
-                        id="currentStock"
-                        type="number"
-                        value={formData.currentStock}
-                        onChange={(e) =>
-                          setFormData({ ...formData, currentStock: parseInt(e.target.value) })
-                        }
-                      />
-                    </div>
+                  <div>
+                    <Label htmlFor="unitPrice">Unit Price ($)</Label>
+                    <Input
+                      id="unitPrice"
+                      type="number"
+                      step="0.01"
+                      value={formData.unitPrice}
+                      onChange={(e) =>
+                        setFormData({ ...formData, unitPrice: parseFloat(e.target.value) })
+                      }
+                    />
                   </div>
                   <div className="grid grid-cols-2 gap-4">
                     <div>
@@ -602,6 +724,40 @@ export default function ProductDetailPage() {
                 </Button>
               </div>
 
+              <div className="grid grid-cols-2 gap-2">
+                <select
+                  className="w-full p-2 border rounded-md text-sm"
+                  value={writeOffReason}
+                  onChange={(e) => setWriteOffReason(e.target.value as AdjustmentReason)}
+                >
+                  <option value="DAMAGE">Damage</option>
+                  <option value="THEFT">Theft</option>
+                  <option value="EXPIRY">Expiry</option>
+                </select>
+                <Button onClick={handleWriteOff} variant="outline" className="gap-2">
+                  <AlertTriangle className="h-4 w-4" />
+                  Write Off
+                </Button>
+              </div>
+
+              <div className="pt-4 border-t space-y-2">
+                <Label htmlFor="countedQuantity">Cycle Count ({product.warehouse})</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  <Input
+                    id="countedQuantity"
+                    type="number"
+                    min="0"
+                    placeholder="Counted quantity"
+                    value={countedQuantity}
+                    onChange={(e) => setCountedQuantity(e.target.value)}
+                  />
+                  <Button onClick={handleCycleCount} variant="outline" disabled={countedQuantity === ''}>
+                    Record Count
+                  </Button>
+                </div>
+                {countResult && <p className="text-xs text-muted-foreground">{countResult}</p>}
+              </div>
+
               <div className="pt-4 border-t space-y-2">
                 <p className="text-sm font-semibold">Event Statistics (Last 50 events)</p>
                 <div className="grid grid-cols-3 gap-2 text-sm">
@@ -630,24 +786,105 @@ export default function ProductDetailPage() {
         </Card>
       </div>
 
+      {/* Stock History Chart */}
+      {historyChartData.length > 0 && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>Stock History</CardTitle>
+                <CardDescription>End-of-day stock reconstructed from the event log</CardDescription>
+              </div>
+              <div className="flex gap-2">
+                {[7, 30, 90].map((days) => (
+                  <Button
+                    key={days}
+                    onClick={() => setHistoryDays(days)}
+                    variant={historyDays === days ? 'default' : 'outline'}
+                    size="sm"
+                  >
+                    {days}d
+                  </Button>
+                ))}
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={historyChartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="date" />
+                <YAxis />
+                <Tooltip />
+                <Legend />
+                <ReferenceLine
+                  y={product.reorderPoint}
+                  stroke="#f59e0b"
+                  strokeDasharray="4 4"
+                  label="Reorder Point"
+                />
+                <Line
+                  type="stepAfter"
+                  dataKey="stock"
+                  stroke="#3b82f6"
+                  strokeWidth={2}
+                  name="Stock"
+                  dot={false}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="sales"
+                  stroke="#ef4444"
+                  strokeWidth={1}
+                  name="Units Sold"
+                  dot={false}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="restocks"
+                  stroke="#10b981"
+                  strokeWidth={1}
+                  name="Units Restocked"
+                  dot={false}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Forecast Chart */}
       {forecast && chartData.length > 0 && (
         <Card>
           <CardHeader>
             <CardTitle>7-Day Stock Forecast</CardTitle>
-            <CardDescription>AI-powered predictions using Simple Moving Average</CardDescription>
+            <CardDescription>Projected stock ({forecast.model} model) with 80% and 95% prediction intervals</CardDescription>
           </CardHeader>
           <CardContent>
             <ResponsiveContainer width="100%" height={300}>
-              <LineChart data={chartData}>
+              <ComposedChart data={chartData}>
                 <CartesianGrid strokeDasharray="3 3" />
                 <XAxis dataKey="date" />
-                <YAxis yAxisId="left" />
-                <YAxis yAxisId="right" orientation="right" />
+                <YAxis />
                 <Tooltip />
                 <Legend />
+                <Area
+                  type="monotone"
+                  dataKey="interval95"
+                  stroke="none"
+                  fill="#3b82f6"
+                  fillOpacity={0.12}
+                  name="95% Interval"
+                />
+                <Area
+                  type="monotone"
+                  dataKey="interval80"
+                  stroke="none"
+                  fill="#3b82f6"
+                  fillOpacity={0.25}
+                  name="80% Interval"
+                />
                 <Line
-                  yAxisId="left"
                   type="monotone"
                   dataKey="predicted"
                   stroke="#3b82f6"
@@ -655,16 +892,7 @@ export default function ProductDetailPage() {
                   name="Predicted Stock"
                   dot={{ r: 4 }}
                 />
-                <Line
-                  yAxisId="right"
-                  type="monotone"
-                  dataKey="confidence"
-                  stroke="#10b981"
-                  strokeWidth={2}
-                  name="Confidence %"
-                  dot={{ r: 4 }}
-                />
-              </LineChart>
+              </ComposedChart>
             </ResponsiveContainer>
           </CardContent>
         </Card>
@@ -702,7 +930,11 @@ export default function ProductDetailPage() {
                           : 'secondary'
                       }
                     >
-                      {event.type}
+                      {event.adjustment
+                        ? `${event.type} · ${event.adjustment.reason}`
+                        : event.reservation?.reason
+                          ? `${event.type} · ${event.reservation.reason}`
+                          : event.type}
                     </Badge>
                     <span className="font-semibold">{event.quantity} units</span>
                     <span className="text-sm text-muted-foreground">{event.warehouse}</span>
@@ -31,6 +31,8 @@ interface Product {
   category: string;
   warehouse: string;
   currentStock: number;
+  reserved: number;
+  available: number;
   reorderPoint: number;
   maxCapacity: number;
   unitPrice: number;
@@ -38,6 +40,17 @@ interface Product {
   lastUpdated: string;
 }
 
+interface StockPosition {
+  id: string;
+  productId: string;
+  warehouse: string;
+  currentStock: number;
+  reserved: number;
+  available: number;
+  reorderPoint: number;
+  maxCapacity: number;
+}
+
 interface ForecastResult {
   productId: string;
   productName: string;
@@ -51,8 +64,12 @@ interface ForecastResult {
 
 type StockStatus = 'critical' | 'low' | 'normal' | 'overstocked';
 
+type ViewMode = 'product' | 'warehouse';
+
 export default function InventoryPage() {
   const [products, setProducts] = useState<Product[]>([]);
+  const [positions, setPositions] = useState<StockPosition[]>([]);
+  const [viewMode, setViewMode] = useState<ViewMode>('product');
   const [forecasts, setForecasts] = useState<Map<string, ForecastResult>>(new Map());
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
@@ -72,6 +89,14 @@ export default function InventoryPage() {
         setProducts(productsData.data);
       }
 
+      // Fetch per-warehouse stock positions
+      const positionsRes = await fetch('/api/positions');
+      const positionsData = await positionsRes.json();
+
+      if (positionsData.success) {
+        setPositions(positionsData.data);
+      }
+
       // Fetch forecasts
       const forecastsRes = await fetch('/api/forecast');
       const forecastsData = await forecastsRes.json();
@@ -100,12 +125,15 @@ export default function InventoryPage() {
     return () => clearInterval(interval);
   }, []);
 
-  // Get stock status
-  const getStockStatus = (product: Product): StockStatus => {
+  // Get stock status (of a product's totals or a single stock position)
+  // Stock-out statuses follow available stock (on hand minus reserved)
+  const getStockStatus = (
+    product: Pick<Product, 'currentStock' | 'available' | 'reorderPoint' | 'maxCapacity'>
+  ): StockStatus => {
     const stockPercentage = (product.currentStock / product.maxCapacity) * 100;
 
-    if (product.currentStock === 0) return 'critical';
-    if (product.currentStock <= product.reorderPoint) return 'low';
+    if (product.available === 0) return 'critical';
+    if (product.available <= product.reorderPoint) return 'low';
     if (stockPercentage > 90) return 'overstocked';
     return 'normal';
   };
@@ -123,15 +151,21 @@ export default function InventoryPage() {
     return <Badge variant={config.variant}>{config.label}</Badge>;
   };
 
+  // Get a product's stock positions, by warehouse
+  const getPositions = (productId: string) =>
+    positions.filter(p => p.productId === productId).sort((a, b) => a.warehouse.localeCompare(b.warehouse));
+
   // Get unique warehouses and categories
-  const warehouses = ['all', ...new Set(products.map(p => p.warehouse))];
+  const sites = [...new Set([...products.map(p => p.warehouse), ...positions.map(p => p.warehouse)])].sort();
+  const warehouses = ['all', ...sites];
   const categories = ['all', ...new Set(products.map(p => p.category))];
 
   // Filter products
   const filteredProducts = products.filter(product => {
     const matchesSearch = product.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
                          product.sku.toLowerCase().includes(searchQuery.toLowerCase());
-    const matchesWarehouse = warehouseFilter === 'all' || product.warehouse === warehouseFilter;
+    const matchesWarehouse = warehouseFilter === 'all' ||
+                            getPositions(product.id).some(p => p.warehouse === warehouseFilter);
     const matchesCategory = categoryFilter === 'all' || product.category === categoryFilter;
 
     if (!matchesSearch || !matchesWarehouse || !matchesCategory) return false;
@@ -141,19 +175,25 @@ export default function InventoryPage() {
     return status === statusFilter;
   });
 
-  // Handle restock action
+  // Handle restock action (fills the product's home warehouse to capacity)
   const handleRestock = async (productId: string) => {
     const product = products.find(p => p.id === productId);
-    if (!product) return;
+    const position = getPositions(productId).find(p => p.warehouse === product?.warehouse);
+    if (!product || !position) return;
 
-    const restockAmount = product.maxCapacity - product.currentStock;
-    const newStock = product.currentStock + restockAmount;
+    const restockAmount = position.maxCapacity - position.currentStock;
+    if (restockAmount <= 0) return;
 
     try {
-      const response = await fetch(`/api/products/${productId}`, {
-        method: 'PUT',
+      const response = await fetch('/api/events', {
+        method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ currentStock: newStock }),
+        body: JSON.stringify({
+          type: 'RESTOCK',
+          productId,
+          quantity: restockAmount,
+          warehouse: position.warehouse,
+        }),
       });
 
       if (response.ok) {
@@ -511,12 +551,108 @@ export default function InventoryPage() {
       {/* Inventory Table */}
       <Card>
         <CardHeader>
-          <CardTitle>Products ({filteredProducts.length})</CardTitle>
-          <CardDescription>
-            Current stock levels and AI predictions
-          </CardDescription>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Products ({filteredProducts.length})</CardTitle>
+              <CardDescription>
+                {viewMode === 'product'
+                  ? 'Current stock levels and AI predictions'
+                  : 'Stock on hand at each warehouse against its own reorder point'}
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant={viewMode === 'product' ? 'default' : 'outline'}
+                onClick={() => setViewMode('product')}
+              >
+                By Product
+              </Button>
+              <Button
+                size="sm"
+                variant={viewMode === 'warehouse' ? 'default' : 'outline'}
+                onClick={() => setViewMode('warehouse')}
+              >
+                By Warehouse
+              </Button>
+            </div>
+          </div>
         </CardHeader>
         <CardContent>
+          {viewMode === 'warehouse' ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead>SKU</TableHead>
+                  {sites.map(site => (
+                    <TableHead key={site} className="text-right">{site}</TableHead>
+                  ))}
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredProducts.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={sites.length + 3} className="text-center text-muted-foreground">
+                      No products found
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  <>
+                    {filteredProducts.map((product) => {
+                      const productPositions = getPositions(product.id);
+
+                      return (
+                        <TableRow key={product.id}>
+                          <TableCell className="font-medium">{product.name}</TableCell>
+                          <TableCell className="font-mono text-xs">{product.sku}</TableCell>
+                          {sites.map(site => {
+                            const position = productPositions.find(p => p.warehouse === site);
+                            if (!position) {
+                              return (
+                                <TableCell key={site} className="text-right text-muted-foreground">-</TableCell>
+                              );
+                            }
+
+                            const status = getStockStatus(position);
+                            return (
+                              <TableCell key={site} className="text-right">
+                                <span className={status === 'critical' || status === 'low' ? 'text-red-600 font-semibold' : ''}>
+                                  {position.currentStock}
+                                </span>
+                                <span className="text-muted-foreground text-xs ml-1">
+                                  / {position.maxCapacity}
+                                </span>
+                                {product.warehouse === site && (
+                                  <span className="text-muted-foreground text-xs ml-1" title="Home warehouse">⌂</span>
+                                )}
+                              </TableCell>
+                            );
+                          })}
+                          <TableCell className="text-right font-semibold">{product.currentStock}</TableCell>
+                        </TableRow>
+                      );
+                    })}
+                    <TableRow>
+                      <TableCell className="font-semibold" colSpan={2}>Total units</TableCell>
+                      {sites.map(site => (
+                        <TableCell key={site} className="text-right font-semibold">
+                          {filteredProducts.reduce(
+                            (sum, product) => sum + (getPositions(product.id).find(p => p.warehouse === site)?.currentStock || 0),
+                            0
+                          )}
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-right font-semibold">
+                        {filteredProducts.reduce((sum, p) => sum + p.currentStock, 0)}
+                      </TableCell>
+                    </TableRow>
+                  </>
+                )}
+              </TableBody>
+            </Table>
+          ) : (
           <Table>
             <TableHeader>
               <TableRow>
@@ -548,7 +684,11 @@ export default function InventoryPage() {
                       <TableCell className="font-medium">{product.name}</TableCell>
                       <TableCell className="font-mono text-xs">{product.sku}</TableCell>
                       <TableCell>{product.category}</TableCell>
-                      <TableCell>{product.warehouse}</TableCell>
+                      <TableCell>
+                        {getPositions(product.id).length > 1
+                          ? `${getPositions(product.id).length} sites`
+                          : product.warehouse}
+                      </TableCell>
                       <TableCell className="text-right">
                         <span className={status === 'critical' || status === 'low' ? 'text-red-600 font-semibold' : ''}>
                           {product.currentStock}
@@ -556,6 +696,11 @@ export default function InventoryPage() {
                         <span className="text-muted-foreground text-xs ml-1">
                           / {product.maxCapacity}
                         </span>
+                        {product.reserved > 0 && (
+                          <div className="text-xs text-muted-foreground">
+                            {product.reserved} reserved · {product.available} available
+                          </div>
+                        )}
                       </TableCell>
                       <TableCell className="text-right">
                         {forecast ? (
@@ -609,6 +754,7 @@ export default function InventoryPage() {
               )}
             </TableBody>
           </Table>
+          )}
         </CardContent>
       </Card>
 
@@ -21,7 +21,7 @@ interface Metrics {
 
 interface Event {
   id: string;
-  type: 'SALE' | 'RESTOCK' | 'RETURN' | 'ALERT';
+  type: 'SALE' | 'RESTOCK' | 'RETURN' | 'ALERT' | 'TRANSFER' | 'ADJUSTMENT' | 'RESERVE' | 'RELEASE';
   productId: string;
   quantity: number;
   warehouse: string;
@@ -109,6 +109,10 @@ export default function Dashboard() {
       RESTOCK: { variant: 'default', label: '📦 Restock' },
       RETURN: { variant: 'secondary', label: '↩️ Return' },
       ALERT: { variant: 'outline', label: '🚨 Alert' },
+      TRANSFER: { variant: 'outline', label: '🚚 Transfer' },
+      ADJUSTMENT: { variant: 'outline', label: '📝 Adjustment' },
+      RESERVE: { variant: 'secondary', label: '🔒 Reserve' },
+      RELEASE: { variant: 'secondary', label: '🔓 Release' },
     };
     const config = variants[type] || { variant: 'outline', label: type };
     return <Badge variant={config.variant}>{config.label}</Badge>;